@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Routes, Route, Navigate } from 'react-router-dom';
+import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { getApiKey } from './lib/api';
 import Layout from './components/Layout';
 import LoginPage from './pages/LoginPage';
@@ -14,14 +14,29 @@ import CertificatesPage from './pages/CertificatesPage';
 import ApiKeysPage from './pages/ApiKeysPage';
 import WebhooksPage from './pages/WebhooksPage';
 import ContingencyPage from './pages/ContingencyPage';
+import ImportPage from './pages/ImportPage';
+import UsersPage from './pages/UsersPage';
+import AcceptInvitePage from './pages/AcceptInvitePage';
+import ChildAccountsPage from './pages/ChildAccountsPage';
+import AuditLogPage from './pages/AuditLogPage';
 
 export default function App() {
   const [isAuth, setIsAuth] = useState(!!getApiKey());
+  const location = useLocation();
 
   useEffect(() => {
     setIsAuth(!!getApiKey());
   }, []);
 
+  // Invitation links are public: the invitee has no session yet
+  if (location.pathname.startsWith('/invite/')) {
+    return (
+      <Routes>
+        <Route path="/invite/:token" element={<AcceptInvitePage onLogin={() => setIsAuth(true)} />} />
+      </Routes>
+    );
+  }
+
   if (!isAuth) {
     return <LoginPage onLogin={() => setIsAuth(true)} />;
   }
@@ -32,14 +47,18 @@ export default function App() {
         <Route path="/" element={<DashboardPage />} />
         <Route path="/invoices" element={<InvoicesPage />} />
         <Route path="/invoices/:id" element={<InvoiceDetailPage />} />
+        <Route path="/imports" element={<ImportPage />} />
         <Route path="/companies" element={<CompaniesPage />} />
         <Route path="/companies/:id" element={<CompanyDetailPage />} />
         <Route path="/buyers" element={<BuyersPage />} />
         <Route path="/sequences" element={<SequencesPage />} />
         <Route path="/certificates" element={<CertificatesPage />} />
         <Route path="/api-keys" element={<ApiKeysPage />} />
+        <Route path="/users" element={<UsersPage />} />
         <Route path="/webhooks" element={<WebhooksPage />} />
         <Route path="/contingency" element={<ContingencyPage />} />
+        <Route path="/audit" element={<AuditLogPage />} />
+        <Route path="/accounts" element={<ChildAccountsPage />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
     </Layout>
@@ -1,6 +1,6 @@
-import { ReactNode } from 'react';
+import { ReactNode, useEffect, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { clearAuth } from '../lib/api';
+import { auth, clearAuth, getActingTenant, setActingTenant } from '../lib/api';
 import {
   LayoutDashboard,
   FileText,
@@ -13,6 +13,10 @@ import {
   Zap,
   Hash,
   Shield,
+  FileSpreadsheet,
+  UserCog,
+  Network,
+  ScrollText,
 } from 'lucide-react';
 
 interface Props {
@@ -23,17 +27,32 @@ interface Props {
 const nav = [
   { path: '/', label: 'Dashboard', icon: LayoutDashboard },
   { path: '/invoices', label: 'Facturas', icon: FileText },
+  { path: '/imports', label: 'Importar', icon: FileSpreadsheet },
   { path: '/companies', label: 'Empresas', icon: Building2 },
   { path: '/buyers', label: 'Clientes', icon: Users },
   { path: '/sequences', label: 'Secuencias', icon: Hash },
   { path: '/certificates', label: 'Certificados', icon: Shield },
   { path: '/api-keys', label: 'API Keys', icon: Key },
+  { path: '/users', label: 'Usuarios', icon: UserCog },
   { path: '/webhooks', label: 'Webhooks', icon: Webhook },
   { path: '/contingency', label: 'Contingencia', icon: AlertTriangle },
+  { path: '/audit', label: 'Auditoría', icon: ScrollText },
 ];
 
 export default function Layout({ children, onLogout }: Props) {
   const location = useLocation();
+  const actingTenant = getActingTenant();
+  const [isPlatform, setIsPlatform] = useState(false);
+
+  useEffect(() => {
+    if (actingTenant) return;
+    auth.getMe().then((t) => setIsPlatform(t?.plan === 'PLATFORM')).catch(() => {});
+  }, []);
+
+  const stopActing = () => {
+    setActingTenant(null);
+    window.location.href = '/accounts';
+  };
 
   const handleLogout = () => {
     clearAuth();
@@ -53,7 +72,7 @@ export default function Layout({ children, onLogout }: Props) {
         </div>
 
         <nav className="flex-1 p-3 space-y-1">
-          {nav.map((item) => {
+          {[...nav, ...(isPlatform || actingTenant ? [{ path: '/accounts', label: 'Subcuentas', icon: Network }] : [])].map((item) => {
             const active = location.pathname === item.path;
             return (
               <Link
@@ -85,6 +104,12 @@ export default function Layout({ children, onLogout }: Props) {
 
       {/* Main */}
       <main className="flex-1 overflow-auto">
+        {actingTenant && (
+          <div className="bg-amber-100 border-b border-amber-200 px-8 py-2 flex items-center justify-between text-sm text-amber-800">
+            <span>Operando la subcuenta <span className="font-medium">{actingTenant.name}</span></span>
+            <button onClick={stopActing} className="font-medium hover:underline">Volver a mi cuenta</button>
+          </div>
+        )}
         <div className="p-8">{children}</div>
       </main>
     </div>
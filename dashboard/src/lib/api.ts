@@ -25,6 +25,21 @@ export function clearAuth() {
   authType = 'jwt';
   localStorage.removeItem('ecf_auth_token');
   localStorage.removeItem('ecf_auth_type');
+  setActingTenant(null);
+}
+
+// PLATFORM tenants: client account being operated (sent as X-Tenant-Id)
+let actingTenant: { id: string; name: string } | null =
+  JSON.parse(localStorage.getItem('ecf_acting_tenant') || 'null');
+
+export function setActingTenant(tenant: { id: string; name: string } | null) {
+  actingTenant = tenant;
+  if (tenant) localStorage.setItem('ecf_acting_tenant', JSON.stringify(tenant));
+  else localStorage.removeItem('ecf_acting_tenant');
+}
+
+export function getActingTenant() {
+  return actingTenant;
 }
 
 // Legacy compat
@@ -38,6 +53,8 @@ async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
     headers: {
       'Content-Type': 'application/json',
       ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+      // Client account management always runs as the PLATFORM tenant itself
+      ...(actingTenant && !path.startsWith('/tenants/children') ? { 'X-Tenant-Id': actingTenant.id } : {}),
       ...options.headers,
     },
   });
@@ -48,9 +65,39 @@ async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
     throw new Error(data.error?.message || data.message || `Error ${res.status}`);
   }
 
+  // Paginated lists keep their meta: { data, meta }
+  if (data.meta) return { data: data.data, meta: data.meta } as T;
   return data.data ?? data;
 }
 
+// File downloads that need the auth headers (not possible with a plain link)
+async function download(path: string, fileName: string): Promise<void> {
+  const res = await fetch(`${BASE_URL}${path}`, {
+    headers: {
+      ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+      ...(actingTenant ? { 'X-Tenant-Id': actingTenant.id } : {}),
+    },
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error?.message || data.message || `Error ${res.status}`);
+  }
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const toQuery = (params: Record<string, string | number | undefined>) => {
+  const query = new URLSearchParams(
+    Object.entries(params).filter(([, v]) => v !== undefined && v !== '') as [string, string][],
+  ).toString();
+  return query ? `?${query}` : '';
+};
+
 // ==================== AUTH ====================
 export const auth = {
   login: (email: string, password: string) =>
@@ -76,6 +123,24 @@ export const auth = {
       return data.data ?? data;
     }),
 
+  getInvitation: (token: string) =>
+    fetch(`${BASE_URL}/auth/invitations/${token}`).then(async (res) => {
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error?.message || data.message || 'Invitación no válida');
+      return data.data ?? data;
+    }),
+
+  acceptInvitation: (token: string, name: string, password: string) =>
+    fetch(`${BASE_URL}/auth/invitations/accept`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, name, password }),
+    }).then(async (res) => {
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error?.message || data.message || 'No se pudo aceptar la invitación');
+      return data.data ?? data;
+    }),
+
   getMe: () => request<any>('/tenants/me'),
   getStats: () => request<any>('/tenants/me/stats'),
 
@@ -89,6 +154,48 @@ export const auth = {
     request<any>(`/auth/keys/${id}`, { method: 'DELETE' }),
   rotateKey: (id: string) =>
     request<any>(`/auth/keys/${id}/rotate`, { method: 'POST' }),
+  updateKeyRestrictions: (id: string, data: { companyIds: string[]; allowedCidrs: string[] }) =>
+    request<any>(`/auth/keys/${id}`, { method: 'PATCH', body: JSON.stringify(data) }),
+};
+
+// ==================== USERS ====================
+export const users = {
+  me: () => request<any>('/users/me'),
+  list: () => request<any[]>('/users'),
+  invite: (email: string, role: string) =>
+    request<any>('/users/invitations', {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    }),
+  invitations: () => request<any[]>('/users/invitations'),
+  revokeInvitation: (id: string) =>
+    request<any>(`/users/invitations/${id}`, { method: 'DELETE' }),
+  update: (id: string, data: { role?: string; isActive?: boolean }) =>
+    request<any>(`/users/${id}`, { method: 'PATCH', body: JSON.stringify(data) }),
+  remove: (id: string) =>
+    request<any>(`/users/${id}`, { method: 'DELETE' }),
+};
+
+// ==================== CLIENT ACCOUNTS (PLATFORM) ====================
+export const childTenants = {
+  list: () => request<any[]>('/tenants/children'),
+  create: (data: { name: string; email: string; plan?: string }) =>
+    request<any>('/tenants/children', { method: 'POST', body: JSON.stringify(data) }),
+  suspend: (id: string) =>
+    request<any>(`/tenants/children/${id}/suspend`, { method: 'POST' }),
+  reactivate: (id: string) =>
+    request<any>(`/tenants/children/${id}/reactivate`, { method: 'POST' }),
+  stats: () => request<any>('/tenants/children/stats'),
+  usage: (period?: string) =>
+    request<any>(`/tenants/children/usage${period ? `?period=${period}` : ''}`),
+};
+
+// ==================== AUDIT LOG ====================
+export const auditLogs = {
+  list: (filters: Record<string, string | undefined>, cursor?: string) =>
+    request<any>(`/audit-logs${toQuery({ ...filters, cursor, limit: 50 })}`),
+  exportCsv: (filters: Record<string, string | undefined>) =>
+    download(`/audit-logs/export${toQuery(filters)}`, 'audit_log.csv'),
 };
 
 // ==================== COMPANIES ====================
@@ -105,11 +212,18 @@ export const companies = {
 export const certificates = {
   list: (companyId: string) => request<any[]>(`/companies/${companyId}/certificates`),
   getActive: (companyId: string) => request<any>(`/companies/${companyId}/certificates/active`),
-  upload: (companyId: string, p12Base64: string, passphrase: string) =>
+  upload: (companyId: string, p12Base64: string, passphrase: string,
+    rotation: { activateAt?: string; activateDaysBeforeExpiry?: number } = {}) =>
     request<any>(`/companies/${companyId}/certificates`, {
       method: 'POST',
-      body: JSON.stringify({ companyId, p12Base64, passphrase }),
+      body: JSON.stringify({ companyId, p12Base64, passphrase, ...rotation }),
     }),
+  test: (companyId: string, id: string) =>
+    request<any>(`/companies/${companyId}/certificates/${id}/test`, { method: 'POST' }),
+  activate: (companyId: string, id: string) =>
+    request<any>(`/companies/${companyId}/certificates/${id}/activate`, { method: 'POST' }),
+  cancel: (companyId: string, id: string) =>
+    request<any>(`/companies/${companyId}/certificates/${id}`, { method: 'DELETE' }),
 };
 
 // ==================== SEQUENCES ====================
@@ -117,6 +231,8 @@ export const sequences = {
   list: (companyId: string) => request<any[]>(`/sequences/${companyId}`),
   create: (data: any) =>
     request<any>('/sequences', { method: 'POST', body: JSON.stringify(data) }),
+  cancel: (companyId: string, id: string) =>
+    request<any>(`/sequences/${companyId}/${id}`, { method: 'DELETE' }),
 };
 
 // ==================== INVOICES ====================
@@ -140,14 +256,56 @@ export const invoices = {
     `${BASE_URL}/invoices/${id}/preview`,
 };
 
+// ==================== IMPORTS ====================
+function uploadImport(companyId: string, action: 'validate' | 'submit', profileId: string, file: File) {
+  const form = new FormData();
+  form.append('profileId', profileId);
+  form.append('file', file);
+  // No Content-Type: the browser sets the multipart boundary
+  return fetch(`${BASE_URL}/imports/${companyId}/${action}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${authToken}` },
+    body: form,
+  }).then(async (res) => {
+    const json = await res.json();
+    if (!res.ok) throw new Error(json.error?.message || json.message || `Error ${res.status}`);
+    return json.data ?? json;
+  });
+}
+
+export const imports = {
+  listProfiles: () => request<any[]>('/imports/profiles'),
+  createProfile: (data: any) =>
+    request<any>('/imports/profiles', { method: 'POST', body: JSON.stringify(data) }),
+  deleteProfile: (id: string) =>
+    request<any>(`/imports/profiles/${id}`, { method: 'DELETE' }),
+  validate: (companyId: string, profileId: string, file: File) =>
+    uploadImport(companyId, 'validate', profileId, file),
+  submit: (companyId: string, profileId: string, file: File) =>
+    uploadImport(companyId, 'submit', profileId, file),
+};
+
 // ==================== WEBHOOKS ====================
 export const webhooks = {
   list: () => request<any[]>('/webhooks'),
   get: (id: string) => request<any>(`/webhooks/${id}`),
-  create: (url: string, events: string[]) =>
-    request<any>('/webhooks', { method: 'POST', body: JSON.stringify({ url, events }) }),
+  create: (data: { url: string; events: string[]; companyIds?: string[]; dgiiEnvs?: string[]; ecfTypes?: string[] }) =>
+    request<any>('/webhooks', { method: 'POST', body: JSON.stringify(data) }),
   delete: (id: string) =>
     request<any>(`/webhooks/${id}`, { method: 'DELETE' }),
+  enable: (id: string, replayBacklog: boolean) =>
+    request<any>(`/webhooks/${id}/enable`, { method: 'POST', body: JSON.stringify({ replayBacklog }) }),
+  rotateSecret: (id: string, graceHours?: number) =>
+    request<any>(`/webhooks/${id}/rotate-secret`, { method: 'POST', body: JSON.stringify({ graceHours }) }),
+  deliveries: (id: string, params?: Record<string, string>) => {
+    const query = params ? '?' + new URLSearchParams(params).toString() : '';
+    return request<any>(`/webhooks/${id}/deliveries${query}`);
+  },
+  delivery: (deliveryId: string) => request<any>(`/webhooks/deliveries/${deliveryId}`),
+  replay: (deliveryId: string) =>
+    request<any>(`/webhooks/deliveries/${deliveryId}/replay`, { method: 'POST' }),
+  replayRange: (id: string, data: { dateFrom: string; dateTo: string; event?: string }) =>
+    request<any>(`/webhooks/${id}/deliveries/replay`, { method: 'POST', body: JSON.stringify(data) }),
 };
 
 // ==================== CONTINGENCY ====================
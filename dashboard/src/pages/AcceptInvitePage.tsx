@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { setAuthToken, auth } from '../lib/api';
+import { Zap, UserPlus } from 'lucide-react';
+
+interface Props {
+  onLogin: () => void;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  OWNER: 'Propietario',
+  ADMIN: 'Administrador',
+  ACCOUNTANT: 'Contador',
+  CASHIER: 'Cajero',
+  READ_ONLY: 'Solo lectura',
+};
+
+export default function AcceptInvitePage({ onLogin }: Props) {
+  const { token } = useParams();
+  const navigate = useNavigate();
+  const [invitation, setInvitation] = useState<any>(null);
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!token) return;
+    auth.getInvitation(token).then(setInvitation).catch((e) => setError(e.message));
+  }, [token]);
+
+  const handleAccept = async () => {
+    if (!token || name.trim().length < 2 || password.length < 8) return;
+    setLoading(true);
+    setError('');
+    try {
+      const result = await auth.acceptInvitation(token, name.trim(), password);
+      setAuthToken(result.token, 'jwt');
+      onLogin();
+      navigate('/', { replace: true });
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-brand-900 to-blue-900 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="bg-brand-700 px-6 py-8 text-center text-white">
+          <Zap className="w-12 h-12 mx-auto mb-3 text-yellow-400" />
+          <h1 className="text-2xl font-bold">ECF API</h1>
+          <p className="text-blue-200 text-sm mt-1">Aceptar invitación</p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {invitation && (
+            <>
+              <p className="text-sm text-gray-600">
+                Te invitaron a <strong>{invitation.tenantName}</strong> como{' '}
+                <strong>{ROLE_LABELS[invitation.role] || invitation.role}</strong> ({invitation.email}).
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Nombre</label>
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none"
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Contraseña</label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAccept()}
+                  placeholder="Mínimo 8 caracteres"
+                  className="w-full px-3 py-2.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none"
+                />
+              </div>
+              <button
+                onClick={handleAccept}
+                disabled={loading || name.trim().length < 2 || password.length < 8}
+                className="w-full flex items-center justify-center gap-2 bg-brand-600 text-white py-2.5 rounded-lg font-medium text-sm hover:bg-brand-700 disabled:opacity-50 transition-colors"
+              >
+                <UserPlus className="w-4 h-4" /> {loading ? 'Creando usuario...' : 'Crear mi usuario'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
-import { auth } from '../lib/api';
-import { Key, Plus, Trash2, Copy, Check } from 'lucide-react';
+import { auth, companies as companiesApi } from '../lib/api';
+import { Key, Plus, Trash2, Copy, Check, Lock, X } from 'lucide-react';
 
 export default function ApiKeysPage() {
   const [keys, setKeys] = useState<any[]>([]);
@@ -8,12 +8,43 @@ export default function ApiKeysPage() {
   const [newKey, setNewKey] = useState<any>(null);
   const [creating, setCreating] = useState(false);
   const [copied, setCopied] = useState('');
+  const [companyList, setCompanyList] = useState<any[]>([]);
+  const [editing, setEditing] = useState<any>(null);
+  const [editCompanies, setEditCompanies] = useState<string[]>([]);
+  const [editCidrs, setEditCidrs] = useState('');
+  const [editError, setEditError] = useState('');
 
   const load = () => {
     auth.listKeys().then(setKeys).finally(() => setLoading(false));
   };
 
-  useEffect(() => { load(); }, []);
+  useEffect(() => {
+    load();
+    companiesApi.list().then((r: any) => setCompanyList(Array.isArray(r) ? r : r.data || [])).catch(() => {});
+  }, []);
+
+  const companyName = (id: string) => companyList.find((c) => c.id === id)?.businessName || id.substring(0, 8);
+
+  const openRestrictions = (k: any) => {
+    setEditing(k);
+    setEditCompanies(k.companyIds || []);
+    setEditCidrs((k.allowedCidrs || []).join('\n'));
+    setEditError('');
+  };
+
+  const saveRestrictions = async () => {
+    setEditError('');
+    try {
+      await auth.updateKeyRestrictions(editing.id, {
+        companyIds: editCompanies,
+        allowedCidrs: editCidrs.split(/[\s,]+/).filter(Boolean),
+      });
+      setEditing(null);
+      load();
+    } catch (e: any) {
+      setEditError(e.message);
+    }
+  };
 
   const handleCreate = async (isLive: boolean) => {
     setCreating(true);
@@ -82,15 +113,16 @@ export default function ApiKeysPage() {
               <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Prefijo</th>
               <th className="text-center px-4 py-3 text-xs font-medium text-gray-500 uppercase">Tipo</th>
               <th className="text-center px-4 py-3 text-xs font-medium text-gray-500 uppercase">Estado</th>
+              <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Restricciones</th>
               <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Último uso</th>
               <th className="px-4 py-3"></th>
             </tr>
           </thead>
           <tbody>
             {loading ? (
-              <tr><td colSpan={6} className="text-center py-8 text-gray-400">Cargando...</td></tr>
+              <tr><td colSpan={7} className="text-center py-8 text-gray-400">Cargando...</td></tr>
             ) : keys.length === 0 ? (
-              <tr><td colSpan={6} className="text-center py-8 text-gray-400">No hay API keys</td></tr>
+              <tr><td colSpan={7} className="text-center py-8 text-gray-400">No hay API keys</td></tr>
             ) : (
               keys.map((k: any) => (
                 <tr key={k.id} className="border-b border-gray-50 hover:bg-gray-50">
@@ -106,14 +138,31 @@ export default function ApiKeysPage() {
                       {k.isActive ? 'Activa' : 'Revocada'}
                     </span>
                   </td>
+                  <td className="px-4 py-3 text-xs text-gray-500">
+                    {!k.companyIds?.length && !k.allowedCidrs?.length ? 'Ninguna' : (
+                      <div className="flex flex-wrap gap-1">
+                        {k.companyIds?.map((id: string) => (
+                          <span key={id} className="px-1.5 py-0.5 rounded bg-blue-50 text-blue-700">{companyName(id)}</span>
+                        ))}
+                        {k.allowedCidrs?.map((c: string) => (
+                          <span key={c} className="px-1.5 py-0.5 rounded bg-gray-100 font-mono">{c}</span>
+                        ))}
+                      </div>
+                    )}
+                  </td>
                   <td className="px-4 py-3 text-sm text-gray-500">
                     {k.lastUsedAt ? new Date(k.lastUsedAt).toLocaleString('es-DO') : 'Nunca'}
                   </td>
                   <td className="px-4 py-3">
                     {k.isActive && (
-                      <button onClick={() => handleRevoke(k.id)} className="text-red-400 hover:text-red-600" title="Revocar">
-                        <Trash2 className="w-4 h-4" />
-                      </button>
+                      <div className="flex gap-2">
+                        <button onClick={() => openRestrictions(k)} className="text-gray-400 hover:text-brand-600" title="Restricciones">
+                          <Lock className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => handleRevoke(k.id)} className="text-red-400 hover:text-red-600" title="Revocar">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
                     )}
                   </td>
                 </tr>
@@ -122,6 +171,47 @@ export default function ApiKeysPage() {
           </tbody>
         </table>
       </div>
+
+      {/* Restrictions Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="font-semibold text-lg">Restricciones · {editing.name}</h2>
+              <button onClick={() => setEditing(null)}><X className="w-5 h-5 text-gray-400" /></button>
+            </div>
+            {editError && (
+              <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{editError}</div>
+            )}
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Empresas (ninguna marcada = todas)</label>
+                <div className="space-y-1 max-h-40 overflow-y-auto">
+                  {companyList.map((c) => (
+                    <label key={c.id} className="flex items-center gap-2 text-sm">
+                      <input type="checkbox" checked={editCompanies.includes(c.id)}
+                        onChange={(e) => setEditCompanies(e.target.checked
+                          ? [...editCompanies, c.id]
+                          : editCompanies.filter((id) => id !== c.id))} />
+                      {c.businessName} <span className="text-gray-400 font-mono text-xs">{c.rnc}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">IPs permitidas (CIDR, una por línea; vacío = cualquiera)</label>
+                <textarea value={editCidrs} onChange={(e) => setEditCidrs(e.target.value)} rows={3}
+                  placeholder="190.166.12.0/24"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono" />
+              </div>
+              <button onClick={saveRestrictions}
+                className="w-full bg-brand-600 text-white py-2 rounded-lg text-sm hover:bg-brand-700">
+                Guardar
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,174 @@
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { auditLogs } from '../lib/api';
+import { Download, ChevronDown, ChevronRight } from 'lucide-react';
+
+const ENTITY_TYPES = [
+  { value: '', label: 'Todas' },
+  { value: 'invoice', label: 'Facturas' },
+  { value: 'invoice_batch', label: 'Lotes' },
+  { value: 'company', label: 'Empresas' },
+  { value: 'certificate', label: 'Certificados' },
+  { value: 'sequence', label: 'Secuencias' },
+  { value: 'sequence_annulment', label: 'Anulaciones (ANECF)' },
+  { value: 'received_document', label: 'Documentos recibidos' },
+  { value: 'api_key', label: 'API keys' },
+  { value: 'webhook', label: 'Webhooks' },
+  { value: 'user', label: 'Usuarios' },
+  { value: 'user_invitation', label: 'Invitaciones' },
+  { value: 'tenant', label: 'Subcuentas' },
+];
+
+const EMPTY_FILTERS = { entityType: '', entityId: '', action: '', actor: '', dateFrom: '', dateTo: '' };
+
+// <input type="date"> gives YYYY-MM-DD; the API takes ISO 8601
+const toFilters = (f: typeof EMPTY_FILTERS) => ({
+  ...f,
+  dateFrom: f.dateFrom ? new Date(`${f.dateFrom}T00:00:00`).toISOString() : '',
+  dateTo: f.dateTo ? new Date(`${f.dateTo}T23:59:59.999`).toISOString() : '',
+});
+
+export default function AuditLogPage() {
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [applied, setApplied] = useState(EMPTY_FILTERS);
+  const [rows, setRows] = useState<any[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const load = useCallback((cursor?: string) => {
+    setLoading(true);
+    setError('');
+    auditLogs.list(toFilters(applied), cursor)
+      .then((res) => {
+        setRows((prev) => (cursor ? [...prev, ...res.data] : res.data));
+        setNextCursor(res.meta?.nextCursor || null);
+      })
+      .catch((e) => setError(e.message))
+      .finally(() => setLoading(false));
+  }, [applied]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleExport = () => {
+    auditLogs.exportCsv(toFilters(applied)).catch((e) => setError(e.message));
+  };
+
+  const input = (key: keyof typeof EMPTY_FILTERS, label: string, type = 'text', placeholder = '') => (
+    <div>
+      <label className="block text-xs font-medium text-gray-500 mb-1">{label}</label>
+      <input type={type} value={filters[key]} placeholder={placeholder}
+        onChange={(e) => setFilters({ ...filters, [key]: e.target.value })}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm" />
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Auditoría</h1>
+          <p className="text-sm text-gray-500">Quién hizo qué y cuándo en la cuenta</p>
+        </div>
+        <button onClick={handleExport}
+          className="flex items-center gap-2 border border-gray-300 px-4 py-2 rounded-lg text-sm text-gray-700 hover:bg-gray-50">
+          <Download className="w-4 h-4" /> Exportar CSV
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{error}</div>
+      )}
+
+      {/* Filters */}
+      <div className="mb-5 bg-white rounded-xl border border-gray-200 p-4 grid grid-cols-2 lg:grid-cols-7 gap-3 items-end">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Entidad</label>
+          <select value={filters.entityType} onChange={(e) => setFilters({ ...filters, entityType: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm">
+            {ENTITY_TYPES.map((t) => <option key={t.value} value={t.value}>{t.label}</option>)}
+          </select>
+        </div>
+        {input('entityId', 'ID entidad')}
+        {input('action', 'Acción', 'text', 'voided')}
+        {input('actor', 'Actor', 'text', 'user:ana@')}
+        {input('dateFrom', 'Desde', 'date')}
+        {input('dateTo', 'Hasta', 'date')}
+        <div className="flex gap-2">
+          <button onClick={() => setApplied(filters)}
+            className="flex-1 bg-brand-600 text-white px-3 py-2 rounded-lg text-sm hover:bg-brand-700">
+            Filtrar
+          </button>
+          <button onClick={() => { setFilters(EMPTY_FILTERS); setApplied(EMPTY_FILTERS); }}
+            className="px-3 py-2 text-sm text-gray-500 hover:text-gray-800">
+            Limpiar
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-gray-50 border-b">
+              <th className="w-8"></th>
+              <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Fecha</th>
+              <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Entidad</th>
+              <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Acción</th>
+              <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Actor</th>
+              <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">IP</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 && !loading ? (
+              <tr><td colSpan={6} className="text-center py-8 text-gray-400">Sin registros</td></tr>
+            ) : (
+              rows.map((log: any) => (
+                <Fragment key={log.id}>
+                  <tr className="border-b border-gray-50 hover:bg-gray-50 cursor-pointer"
+                    onClick={() => setExpanded(expanded === log.id ? null : log.id)}>
+                    <td className="pl-3 text-gray-400">
+                      {expanded === log.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">
+                      {new Date(log.createdAt).toLocaleString('es-DO')}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {ENTITY_TYPES.find((t) => t.value === log.entityType)?.label || log.entityType}
+                      <span className="block text-xs text-gray-400 font-mono">{log.entityId}</span>
+                    </td>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{log.action}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {log.actor}
+                      {log.actingTenantId && (
+                        <span className="block text-xs text-amber-600">vía cuenta plataforma {log.actingTenantId}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500 font-mono">{log.ipAddress || '—'}</td>
+                  </tr>
+                  {expanded === log.id && (
+                    <tr className="bg-gray-50 border-b border-gray-100">
+                      <td></td>
+                      <td colSpan={5} className="px-4 py-3">
+                        <pre className="text-xs text-gray-700 whitespace-pre-wrap break-all">
+                          {log.metadata ? JSON.stringify(log.metadata, null, 2) : 'Sin detalle'}
+                        </pre>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))
+            )}
+          </tbody>
+        </table>
+        {loading && <div className="text-center py-4 text-sm text-gray-400">Cargando...</div>}
+        {nextCursor && !loading && (
+          <div className="border-t p-3 text-center">
+            <button onClick={() => load(nextCursor)} className="text-sm text-brand-600 hover:text-brand-800 font-medium">
+              Cargar más
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
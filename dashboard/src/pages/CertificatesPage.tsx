@@ -1,6 +1,13 @@
 import { useState, useEffect, useRef } from 'react';
 import { companies, certificates } from '../lib/api';
-import { Shield, Upload, Building2, CheckCircle, AlertCircle, Clock, ChevronDown, FileKey } from 'lucide-react';
+import { Shield, Upload, Building2, CheckCircle, AlertCircle, Clock, ChevronDown, FileKey, FlaskConical, Power, X } from 'lucide-react';
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  ACTIVE: { label: 'ACTIVO', className: 'bg-green-100 text-green-700' },
+  PENDING: { label: 'PENDIENTE', className: 'bg-blue-100 text-blue-700' },
+  RETIRED: { label: 'RETIRADO', className: 'bg-gray-100 text-gray-600' },
+  EXPIRED: { label: 'VENCIDO', className: 'bg-red-100 text-red-600' },
+};
 
 export default function CertificatesPage() {
   const [companyList, setCompanyList] = useState<any[]>([]);
@@ -11,11 +18,17 @@ export default function CertificatesPage() {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  // Upload checks that passed with warnings (no CRL, no trusted CAs configured...)
+  const [warnings, setWarnings] = useState<string[]>([]);
   const fileRef = useRef<HTMLInputElement>(null);
 
   const [passphrase, setPassphrase] = useState('');
   const [fileName, setFileName] = useState('');
   const [fileB64, setFileB64] = useState('');
+  // Rotation: activate now, at a date, or N days before the active one expires
+  const [activation, setActivation] = useState<'now' | 'date' | 'days'>('now');
+  const [activateAt, setActivateAt] = useState('');
+  const [activateDays, setActivateDays] = useState(15);
 
   // Load companies
   useEffect(() => {
@@ -26,15 +39,17 @@ export default function CertificatesPage() {
     });
   }, []);
 
+  const reload = () =>
+    certificates.list(selectedCompany)
+      .then((data) => setList(Array.isArray(data) ? data : []))
+      .catch(() => setList([]));
+
   // Load certificates when company changes
   useEffect(() => {
     if (!selectedCompany) { setList([]); return; }
     setLoading(true);
     setError('');
-    certificates.list(selectedCompany)
-      .then((data) => setList(Array.isArray(data) ? data : []))
-      .catch(() => setList([]))
-      .finally(() => setLoading(false));
+    reload().finally(() => setLoading(false));
   }, [selectedCompany]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -62,16 +77,20 @@ export default function CertificatesPage() {
     setSaving(true);
     setError('');
     setSuccess('');
+    setWarnings([]);
     try {
-      await certificates.upload(selectedCompany, fileB64, passphrase);
-      setSuccess('Certificado subido exitosamente');
+      const rotation = activation === 'date'
+        ? { activateAt: new Date(activateAt).toISOString() }
+        : activation === 'days' ? { activateDaysBeforeExpiry: activateDays } : {};
+      const res = await certificates.upload(selectedCompany, fileB64, passphrase, rotation);
+      setSuccess(res.message || 'Certificado subido exitosamente');
+      setWarnings((res.validation?.issues || []).map((i: any) => i.message));
       setShowUpload(false);
       setFileB64('');
       setFileName('');
       setPassphrase('');
-      // Reload
-      const data = await certificates.list(selectedCompany);
-      setList(Array.isArray(data) ? data : []);
+      setActivation('now');
+      await reload();
     } catch (e: any) {
       setError(e.message || 'Error subiendo certificado');
     } finally {
@@ -79,13 +98,38 @@ export default function CertificatesPage() {
     }
   };
 
+  const run = async (action: () => Promise<any>, message: (res: any) => string) => {
+    setError('');
+    setSuccess('');
+    try {
+      const res = await action();
+      setSuccess(message(res));
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      await reload();
+    }
+  };
+
+  const handleTest = (cert: any) =>
+    run(() => certificates.test(selectedCompany, cert.id), (res) =>
+      res.ok ? `Prueba de firma exitosa: ${res.message}` : `Prueba de firma fallida: ${res.message}`);
+
+  const handleActivate = (cert: any) =>
+    confirm('¿Activar este certificado ahora? El certificado activo quedará retirado.')
+      && run(() => certificates.activate(selectedCompany, cert.id), () => 'Certificado activado');
+
+  const handleCancel = (cert: any) =>
+    confirm('¿Cancelar este certificado pendiente?')
+      && run(() => certificates.cancel(selectedCompany, cert.id), () => 'Certificado pendiente cancelado');
+
   const isExpiringSoon = (cert: any) => {
-    if (!cert.expiresAt) return false;
-    const diff = new Date(cert.expiresAt).getTime() - Date.now();
+    if (!cert.validTo) return false;
+    const diff = new Date(cert.validTo).getTime() - Date.now();
     return diff > 0 && diff < 30 * 24 * 60 * 60 * 1000; // 30 days
   };
 
-  const isExpired = (cert: any) => cert.expiresAt && new Date(cert.expiresAt) < new Date();
+  const isExpired = (cert: any) => cert.validTo && new Date(cert.validTo) < new Date();
 
   return (
     <div className="space-y-6">
@@ -139,6 +183,14 @@ export default function CertificatesPage() {
               <CheckCircle className="w-4 h-4" /> {success}
             </div>
           )}
+          {warnings.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+              <p className="font-medium mb-1">Advertencias de la validación:</p>
+              <ul className="list-disc pl-5 space-y-0.5">
+                {warnings.map((w) => <li key={w}>{w}</li>)}
+              </ul>
+            </div>
+          )}
 
           {/* Actions */}
           <div className="flex justify-between items-center">
@@ -192,10 +244,51 @@ export default function CertificatesPage() {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Activación</label>
+                <div className="flex flex-col md:flex-row md:items-center gap-3 text-sm">
+                  <select
+                    value={activation}
+                    onChange={(e) => setActivation(e.target.value as any)}
+                    className="w-full md:w-80 bg-gray-50 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                  >
+                    <option value="now">Activar de inmediato</option>
+                    <option value="date">Pendiente: activar en una fecha</option>
+                    <option value="days">Pendiente: activar antes de que venza el actual</option>
+                  </select>
+                  {activation === 'date' && (
+                    <input
+                      type="datetime-local"
+                      value={activateAt}
+                      onChange={(e) => setActivateAt(e.target.value)}
+                      className="bg-gray-50 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                    />
+                  )}
+                  {activation === 'days' && (
+                    <span className="flex items-center gap-2 text-gray-600">
+                      <input
+                        type="number"
+                        min={1}
+                        max={90}
+                        value={activateDays}
+                        onChange={(e) => setActivateDays(parseInt(e.target.value, 10) || 1)}
+                        className="w-20 bg-gray-50 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                      />
+                      días antes del vencimiento
+                    </span>
+                  )}
+                </div>
+                {activation !== 'now' && (
+                  <p className="text-xs text-gray-400 mt-1">
+                    Antes de activarse se firma una semilla de prueba; si falla, sigue pendiente.
+                  </p>
+                )}
+              </div>
+
               <div className="flex gap-2 pt-2">
                 <button
                   onClick={handleUpload}
-                  disabled={saving || !fileB64}
+                  disabled={saving || !fileB64 || (activation === 'date' && !activateAt)}
                   className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
                 >
                   {saving ? 'Subiendo...' : 'Subir certificado'}
@@ -223,7 +316,8 @@ export default function CertificatesPage() {
             <div className="grid gap-4">
               {list.map((cert) => {
                 const expired = isExpired(cert);
-                const expiringSoon = isExpiringSoon(cert);
+                const expiringSoon = cert.isActive && isExpiringSoon(cert);
+                const badge = STATUS_BADGES[cert.status];
 
                 return (
                   <div key={cert.id} className={`bg-white rounded-xl border p-5 ${
@@ -234,8 +328,14 @@ export default function CertificatesPage() {
                         <div className="flex items-center gap-2 mb-2">
                           <Shield className={`w-5 h-5 ${cert.isActive ? 'text-green-600' : 'text-gray-400'}`} />
                           <span className="font-semibold text-gray-900">{cert.subject || cert.commonName || 'Certificado'}</span>
-                          {cert.isActive && (
-                            <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded font-medium">ACTIVO</span>
+                          {badge && (
+                            <span className={`text-xs px-2 py-0.5 rounded font-medium ${badge.className}`}>{badge.label}</span>
+                          )}
+                          {cert.backend === 'PKCS11' && (
+                            <span className="text-xs px-2 py-0.5 rounded font-medium bg-indigo-100 text-indigo-700"
+                              title={`Token ${cert.pkcs11TokenLabel} · llave ${cert.pkcs11KeyLabel}`}>
+                              HSM
+                            </span>
                           )}
                         </div>
 
@@ -259,18 +359,58 @@ export default function CertificatesPage() {
                           <Clock className={`w-4 h-4 ${expired ? 'text-red-500' : expiringSoon ? 'text-amber-500' : 'text-gray-400'}`} />
                           {expired ? (
                             <span className="text-red-600 font-medium">
-                              Expirado: {new Date(cert.expiresAt).toLocaleDateString('es-DO')}
+                              Expirado: {new Date(cert.validTo).toLocaleDateString('es-DO')}
                             </span>
-                          ) : cert.expiresAt ? (
+                          ) : cert.validTo ? (
                             <span className={expiringSoon ? 'text-amber-600 font-medium' : 'text-gray-600'}>
-                              Vence: {new Date(cert.expiresAt).toLocaleDateString('es-DO')}
+                              Vence: {new Date(cert.validTo).toLocaleDateString('es-DO')}
                               {expiringSoon && ' ⚠️ Próximo a vencer'}
                             </span>
                           ) : (
                             <span className="text-gray-400">Sin fecha de vencimiento</span>
                           )}
                         </div>
+
+                        {/* Rotation */}
+                        <div className="mt-2 text-xs text-gray-500 space-y-0.5">
+                          {cert.status === 'PENDING' && (
+                            <p>
+                              Se activa{' '}
+                              {cert.activateAt && `el ${new Date(cert.activateAt).toLocaleString('es-DO')}`}
+                              {cert.activateAt && cert.activateDaysBeforeExpiry && ' o '}
+                              {cert.activateDaysBeforeExpiry && `${cert.activateDaysBeforeExpiry} días antes de que venza el activo`}
+                            </p>
+                          )}
+                          {cert.activatedAt && <p>Activado: {new Date(cert.activatedAt).toLocaleString('es-DO')}</p>}
+                          {cert.retiredAt && <p>Retirado: {new Date(cert.retiredAt).toLocaleString('es-DO')}</p>}
+                          {cert.lastTestAt && (
+                            <p className={cert.lastTestOk ? 'text-green-600' : 'text-red-600'}>
+                              Prueba de firma ({new Date(cert.lastTestAt).toLocaleString('es-DO')}): {cert.lastTestMessage}
+                            </p>
+                          )}
+                        </div>
                       </div>
+
+                      {(cert.status === 'PENDING' || cert.status === 'ACTIVE') && (
+                        <div className="flex items-center gap-3">
+                          <button title="Probar firma" className="text-gray-500 hover:text-gray-800"
+                            onClick={() => handleTest(cert)}>
+                            <FlaskConical className="w-4 h-4" />
+                          </button>
+                          {cert.status === 'PENDING' && (
+                            <>
+                              <button title="Activar ahora" className="text-green-600 hover:text-green-800"
+                                onClick={() => handleActivate(cert)}>
+                                <Power className="w-4 h-4" />
+                              </button>
+                              <button title="Cancelar" className="text-red-400 hover:text-red-600"
+                                onClick={() => handleCancel(cert)}>
+                                <X className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 );
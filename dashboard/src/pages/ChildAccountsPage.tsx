@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import { childTenants, setActingTenant } from '../lib/api';
+import { Plus, LogIn, Pause, Play } from 'lucide-react';
+
+const PLANS = ['STARTER', 'BUSINESS', 'ENTERPRISE'];
+
+export default function ChildAccountsPage() {
+  const [list, setList] = useState<any[]>([]);
+  const [stats, setStats] = useState<any>(null);
+  const [usage, setUsage] = useState<any>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showCreate, setShowCreate] = useState(false);
+  const [form, setForm] = useState({ name: '', email: '', plan: 'STARTER' });
+  const [saving, setSaving] = useState(false);
+
+  const load = () => {
+    Promise.all([childTenants.list(), childTenants.stats(), childTenants.usage()])
+      .then(([l, s, u]) => { setList(l); setStats(s); setUsage(u); })
+      .catch((e) => setError(e.message))
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(() => { load(); }, []);
+
+  const run = async (action: () => Promise<any>) => {
+    setError('');
+    try {
+      await action();
+      load();
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      await childTenants.create(form);
+      setShowCreate(false);
+      setForm({ name: '', email: '', plan: 'STARTER' });
+      load();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const operate = (child: any) => {
+    setActingTenant({ id: child.id, name: child.name });
+    window.location.href = '/';
+  };
+
+  const invoicesThisMonth = (id: string) =>
+    usage?.children?.find((c: any) => c.id === id)?.usage?.metrics?.invoices;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Subcuentas</h1>
+          <p className="text-sm text-gray-500">Cuentas de clientes que administras con el plan PLATFORM</p>
+        </div>
+        <button onClick={() => setShowCreate(true)}
+          className="flex items-center gap-2 bg-brand-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-brand-700">
+          <Plus className="w-4 h-4" /> Nueva subcuenta
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{error}</div>
+      )}
+
+      {stats && (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-5">
+          {[
+            { label: 'Subcuentas activas', value: `${stats.activeChildren} / ${stats.totalChildren}` },
+            { label: 'Empresas', value: stats.totalCompanies.toLocaleString() },
+            { label: 'Facturas este mes', value: stats.invoicesThisMonth.toLocaleString() },
+            { label: 'Total facturas', value: stats.totalInvoices.toLocaleString() },
+          ].map((card) => (
+            <div key={card.label} className="bg-white rounded-xl border border-gray-200 p-4">
+              <p className="text-xl font-bold text-gray-900">{card.value}</p>
+              <p className="text-sm text-gray-500 mt-1">{card.label}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-gray-50 border-b">
+              <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Nombre</th>
+              <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Email</th>
+              <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Plan</th>
+              <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Empresas</th>
+              <th className="text-right px-4 py-3 text-xs font-medium text-gray-500 uppercase">Facturas (mes)</th>
+              <th className="text-center px-4 py-3 text-xs font-medium text-gray-500 uppercase">Estado</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr><td colSpan={7} className="text-center py-8 text-gray-400">Cargando...</td></tr>
+            ) : list.length === 0 ? (
+              <tr><td colSpan={7} className="text-center py-8 text-gray-400">Sin subcuentas</td></tr>
+            ) : (
+              list.map((c: any) => {
+                const invoices = invoicesThisMonth(c.id);
+                return (
+                  <tr key={c.id} className="border-b border-gray-50 hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{c.name}</td>
+                    <td className="px-4 py-3 text-sm text-gray-500">{c.email}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{c.plan}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-700">{c._count.companies}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-700">
+                      {invoices ? `${invoices.used}${invoices.limit !== null ? ` / ${invoices.limit}` : ''}` : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-center">
+                      <span className={`px-2 py-0.5 rounded text-xs ${c.isActive ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-600'}`}>
+                        {c.isActive ? 'Activa' : 'Suspendida'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-3">
+                        {c.isActive && (
+                          <button title="Operar esta cuenta" className="text-brand-600 hover:text-brand-800"
+                            onClick={() => operate(c)}>
+                            <LogIn className="w-4 h-4" />
+                          </button>
+                        )}
+                        {c.isActive ? (
+                          <button title="Suspender" className="text-red-400 hover:text-red-600"
+                            onClick={() => confirm(`¿Suspender ${c.name}? Sus usuarios y API keys dejarán de funcionar.`)
+                              && run(() => childTenants.suspend(c.id))}>
+                            <Pause className="w-4 h-4" />
+                          </button>
+                        ) : (
+                          <button title="Reactivar" className="text-green-500 hover:text-green-700"
+                            onClick={() => run(() => childTenants.reactivate(c.id))}>
+                            <Play className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {showCreate && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 w-full max-w-md">
+            <h2 className="text-lg font-semibold mb-4">Nueva subcuenta</h2>
+            <div className="space-y-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Nombre</label>
+                <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm" />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Email</label>
+                <input type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm" />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 mb-1">Plan</label>
+                <select value={form.plan} onChange={(e) => setForm({ ...form, plan: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm">
+                  {PLANS.map((p) => <option key={p} value={p}>{p}</option>)}
+                </select>
+              </div>
+              <p className="text-xs text-gray-500">
+                La subcuenta se crea sin usuarios. Opérala desde aquí e invita a sus usuarios en la sección Usuarios.
+              </p>
+            </div>
+            <div className="flex justify-end gap-2 mt-5">
+              <button onClick={() => setShowCreate(false)} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900">
+                Cancelar
+              </button>
+              <button onClick={handleCreate} disabled={saving || !form.name.trim() || !form.email.trim()}
+                className="bg-brand-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-brand-700 disabled:opacity-50">
+                Crear
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -67,6 +67,14 @@ export default function DashboardPage() {
     },
   ];
 
+  const usageRows = [
+    { key: 'invoices', label: 'Facturas (mes)' },
+    { key: 'receivedDocuments', label: 'Documentos recibidos (mes)' },
+    { key: 'companies', label: 'Empresas activas' },
+    { key: 'apiKeys', label: 'API keys activas' },
+    { key: 'webhooks', label: 'Webhooks' },
+  ];
+
   const colorMap: Record<string, string> = {
     blue: 'bg-blue-50 text-blue-600',
     green: 'bg-green-50 text-green-600',
@@ -108,6 +116,36 @@ export default function DashboardPage() {
         ))}
       </div>
 
+      {/* Plan Usage */}
+      {stats?.usage && (
+        <div className="bg-white rounded-xl border border-gray-200 p-5 mb-8">
+          <h2 className="font-semibold text-gray-900 mb-4">Uso del plan {stats.plan}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-5">
+            {usageRows.map(({ key, label }) => {
+              const metric = stats.usage[key];
+              const percent = metric.limit ? Math.min(100, (metric.used / metric.limit) * 100) : 0;
+              return (
+                <div key={key}>
+                  <div className="flex items-center justify-between text-sm mb-1.5">
+                    <span className="text-gray-600">{label}</span>
+                    <span className="font-medium text-gray-900">
+                      {metric.used.toLocaleString()}
+                      {metric.limit !== null ? ` / ${metric.limit.toLocaleString()}` : ' / ∞'}
+                    </span>
+                  </div>
+                  <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-brand-600'}`}
+                      style={{ width: `${metric.limit === null ? 0 : percent}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Status & Quick Actions */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">
         {/* System Status */}
@@ -0,0 +1,384 @@
+import { useState, useEffect, useRef } from 'react';
+import { companies, imports } from '../lib/api';
+import {
+  FileSpreadsheet, Upload, Building2, CheckCircle, AlertCircle, ChevronDown, Plus, Trash2, Send,
+} from 'lucide-react';
+
+const EXAMPLE_COLUMNS = `{
+  "buyer.rnc": "RNC",
+  "buyer.name": "Cliente",
+  "item.description": "Producto",
+  "item.quantity": "Cantidad",
+  "item.unitPrice": "Precio"
+}`;
+
+const EXAMPLE_DEFAULTS = `{
+  "ecfType": "E32",
+  "payment.type": 1
+}`;
+
+export default function ImportPage() {
+  const [companyList, setCompanyList] = useState<any[]>([]);
+  const [selectedCompany, setSelectedCompany] = useState<string>('');
+  const [profiles, setProfiles] = useState<any[]>([]);
+  const [selectedProfile, setSelectedProfile] = useState<string>('');
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<any>(null);
+  const [result, setResult] = useState<any>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  // Profile form
+  const [showProfileForm, setShowProfileForm] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const [layout, setLayout] = useState('ROW_PER_LINE');
+  const [groupColumn, setGroupColumn] = useState('');
+  const [columnsJson, setColumnsJson] = useState(EXAMPLE_COLUMNS);
+  const [defaultsJson, setDefaultsJson] = useState(EXAMPLE_DEFAULTS);
+
+  useEffect(() => {
+    companies.list().then((data) => {
+      const list = Array.isArray(data) ? data : (data as any)?.data || [];
+      setCompanyList(list);
+      if (list.length === 1) setSelectedCompany(list[0].id);
+    });
+    loadProfiles();
+  }, []);
+
+  const loadProfiles = async () => {
+    const data = await imports.listProfiles().catch(() => []);
+    setProfiles(Array.isArray(data) ? data : []);
+    if (Array.isArray(data) && data.length === 1) setSelectedProfile(data[0].id);
+  };
+
+  const resetResults = () => { setReport(null); setResult(null); setError(''); };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    resetResults();
+    if (!/\.(csv|xlsx)$/i.test(selected.name)) {
+      setError('Solo se aceptan archivos .csv o .xlsx');
+      return;
+    }
+    setFile(selected);
+  };
+
+  const handleCreateProfile = async () => {
+    setError('');
+    let columns: any;
+    let defaults: any;
+    try {
+      columns = JSON.parse(columnsJson);
+      defaults = defaultsJson.trim() ? JSON.parse(defaultsJson) : undefined;
+    } catch {
+      setError('Columnas y valores por defecto deben ser JSON válido');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const profile = await imports.createProfile({
+        name: profileName,
+        layout,
+        ...(layout === 'ROW_PER_LINE' ? { groupColumn } : {}),
+        columns,
+        defaults,
+      });
+      await loadProfiles();
+      setSelectedProfile(profile.id);
+      setShowProfileForm(false);
+      setProfileName('');
+    } catch (e: any) {
+      setError(e.message || 'Error creando perfil');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!selectedProfile || !confirm('¿Eliminar este perfil?')) return;
+    try {
+      await imports.deleteProfile(selectedProfile);
+      setSelectedProfile('');
+      await loadProfiles();
+    } catch (e: any) {
+      setError(e.message || 'Error eliminando perfil');
+    }
+  };
+
+  const handleValidate = async () => {
+    if (!file || !selectedProfile) return;
+    resetResults();
+    setBusy(true);
+    try {
+      setReport(await imports.validate(selectedCompany, selectedProfile, file));
+    } catch (e: any) {
+      setError(e.message || 'Error validando archivo');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!file || !selectedProfile) return;
+    setBusy(true);
+    setError('');
+    try {
+      setResult(await imports.submit(selectedCompany, selectedProfile, file));
+    } catch (e: any) {
+      setError(e.message || 'Error importando archivo');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const fmt = (n: number | null) =>
+    n === null || n === undefined ? '—' : new Intl.NumberFormat('es-DO', { style: 'currency', currency: 'DOP' }).format(n);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <FileSpreadsheet className="w-7 h-7 text-blue-600" /> Importar facturas
+        </h1>
+        <p className="text-gray-500 text-sm mt-1">Carga masiva desde CSV o Excel con validación previa</p>
+      </div>
+
+      {/* Company + profile */}
+      <div className="bg-white rounded-xl border border-gray-200 p-5 grid md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            <Building2 className="w-4 h-4 inline mr-1" /> Empresa emisora
+          </label>
+          <div className="relative">
+            <select
+              value={selectedCompany}
+              onChange={(e) => { setSelectedCompany(e.target.value); resetResults(); }}
+              className="w-full appearance-none bg-gray-50 border border-gray-300 rounded-lg px-4 py-2.5 pr-10 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">— Seleccionar empresa —</option>
+              {companyList.map((c) => (
+                <option key={c.id} value={c.id}>{c.businessName} ({c.rnc})</option>
+              ))}
+            </select>
+            <ChevronDown className="w-4 h-4 text-gray-400 absolute right-3 top-3 pointer-events-none" />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Perfil de columnas</label>
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <select
+                value={selectedProfile}
+                onChange={(e) => { setSelectedProfile(e.target.value); resetResults(); }}
+                className="w-full appearance-none bg-gray-50 border border-gray-300 rounded-lg px-4 py-2.5 pr-10 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">— Seleccionar perfil —</option>
+                {profiles.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name} ({p.layout === 'ROW_PER_LINE' ? 'una fila por línea' : 'una fila por factura'})
+                  </option>
+                ))}
+              </select>
+              <ChevronDown className="w-4 h-4 text-gray-400 absolute right-3 top-3 pointer-events-none" />
+            </div>
+            <button
+              onClick={() => setShowProfileForm(!showProfileForm)}
+              className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm hover:bg-gray-200"
+              title="Nuevo perfil"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleDeleteProfile}
+              disabled={!selectedProfile}
+              className="px-3 py-2 bg-gray-100 text-red-600 rounded-lg text-sm hover:bg-red-50 disabled:opacity-50"
+              title="Eliminar perfil"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 flex items-center gap-2">
+          <AlertCircle className="w-4 h-4" /> {error}
+        </div>
+      )}
+
+      {/* Profile form */}
+      {showProfileForm && (
+        <div className="bg-white rounded-xl border border-gray-200 p-5 space-y-4">
+          <h3 className="font-semibold text-gray-900">Nuevo perfil de columnas</h3>
+          <div className="grid md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Nombre</label>
+              <input
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="Facturación mensual"
+                className="w-full bg-gray-50 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Formato</label>
+              <select
+                value={layout}
+                onChange={(e) => setLayout(e.target.value)}
+                className="w-full bg-gray-50 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              >
+                <option value="ROW_PER_LINE">Una fila por línea (agrupadas)</option>
+                <option value="ROW_PER_INVOICE">Una fila por factura</option>
+              </select>
+            </div>
+            {layout === 'ROW_PER_LINE' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Columna que agrupa la factura</label>
+                <input
+                  value={groupColumn}
+                  onChange={(e) => setGroupColumn(e.target.value)}
+                  placeholder="No. Factura"
+                  className="w-full bg-gray-50 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                />
+              </div>
+            )}
+          </div>
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Columnas (campo → encabezado)</label>
+              <textarea
+                value={columnsJson}
+                onChange={(e) => setColumnsJson(e.target.value)}
+                rows={8}
+                className="w-full bg-gray-50 border border-gray-300 rounded-lg px-3 py-2 text-xs font-mono"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Valores por defecto</label>
+              <textarea
+                value={defaultsJson}
+                onChange={(e) => setDefaultsJson(e.target.value)}
+                rows={8}
+                className="w-full bg-gray-50 border border-gray-300 rounded-lg px-3 py-2 text-xs font-mono"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleCreateProfile}
+              disabled={busy || !profileName}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              Guardar perfil
+            </button>
+            <button
+              onClick={() => setShowProfileForm(false)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm hover:bg-gray-200"
+            >
+              Cancelar
+            </button>
+          </div>
+        </div>
+      )}
+
+      {selectedCompany && selectedProfile && (
+        <div className="bg-white rounded-xl border border-gray-200 p-5 space-y-4">
+          <div
+            onClick={() => fileRef.current?.click()}
+            className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 transition-colors"
+          >
+            <FileSpreadsheet className="w-8 h-8 mx-auto mb-2 text-gray-400" />
+            {file ? (
+              <p className="text-sm text-blue-600 font-medium">{file.name}</p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-500">Clic para seleccionar archivo</p>
+                <p className="text-xs text-gray-400 mt-1">Acepta .csv y .xlsx (máx. 10 MB)</p>
+              </>
+            )}
+          </div>
+          <input ref={fileRef} type="file" accept=".csv,.xlsx" onChange={handleFileSelect} className="hidden" />
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleValidate}
+              disabled={busy || !file}
+              className="flex items-center gap-1.5 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Upload className="w-4 h-4" /> {busy && !report ? 'Validando...' : 'Validar'}
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={busy || !report || report.invalid > 0 || !!result}
+              className="flex items-center gap-1.5 px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" /> {busy && report ? 'Importando...' : 'Importar'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Submit result */}
+      {result && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-700 flex items-start gap-2">
+          <CheckCircle className="w-4 h-4 mt-0.5" />
+          <div>
+            <p className="font-medium">Lote creado: <span className="font-mono">{result.batch.id}</span></p>
+            {result.batch.status === 'PENDING' ? (
+              <p>{result.batch.totalItems} facturas en proceso; el resultado por factura queda en el lote</p>
+            ) : (
+              <p>
+                {result.batch.summary?.QUEUED ?? 0} en cola · {result.batch.summary?.EXISTING ?? 0} ya existentes
+                {(result.batch.summary?.FAILED ?? 0) > 0 && ` · ${result.batch.summary.FAILED} fallidas`}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Validation report */}
+      {report && (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+          <div className="px-5 py-3 border-b border-gray-200 flex items-center gap-4 text-sm">
+            <span className="text-gray-500">{report.totalRows} filas · {report.totalInvoices} facturas</span>
+            <span className="text-green-600 font-medium">{report.valid} válidas</span>
+            {report.invalid > 0 && <span className="text-red-600 font-medium">{report.invalid} con errores</span>}
+          </div>
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-500 text-left">
+              <tr>
+                <th className="px-5 py-2 font-medium">Factura</th>
+                <th className="px-5 py-2 font-medium">Filas</th>
+                <th className="px-5 py-2 font-medium text-right">Total</th>
+                <th className="px-5 py-2 font-medium">Resultado</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.invoices.map((inv: any) => (
+                <tr key={inv.key} className={inv.errors.length ? 'bg-red-50/40' : ''}>
+                  <td className="px-5 py-2 font-mono text-xs">{inv.key}</td>
+                  <td className="px-5 py-2 text-gray-500">{inv.rows.join(', ')}</td>
+                  <td className="px-5 py-2 text-right">{fmt(inv.totalAmount)}</td>
+                  <td className="px-5 py-2">
+                    {inv.errors.length === 0 ? (
+                      <span className="text-green-600 flex items-center gap-1"><CheckCircle className="w-4 h-4" /> OK</span>
+                    ) : (
+                      <ul className="text-red-600 text-xs space-y-0.5">
+                        {inv.errors.map((e: string, i: number) => <li key={i}>{e}</li>)}
+                      </ul>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
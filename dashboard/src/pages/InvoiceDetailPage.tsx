@@ -81,6 +81,7 @@ export default function InvoiceDetailPage() {
           <h1 className="text-2xl font-bold text-gray-900 font-mono">{invoice.encf || 'BORRADOR'}</h1>
           <p className="text-sm text-gray-500 mt-1">
             {invoice.ecfType} · {invoice.company?.businessName} · RNC {invoice.company?.rnc}
+            {invoice.dgiiEnv && ` · ${invoice.dgiiEnv}`}
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { companies, sequences } from '../lib/api';
-import { Hash, Plus, Building2, AlertCircle, CheckCircle, XCircle, ChevronDown } from 'lucide-react';
+import { Hash, Plus, Building2, AlertCircle, CheckCircle, XCircle, ChevronDown, Clock, X } from 'lucide-react';
 
 const ECF_TYPES = [
   { value: 'E31', label: 'E31 — Crédito Fiscal' },
@@ -86,7 +86,7 @@ export default function SequencesPage() {
     setError('');
     setSuccess('');
     try {
-      await sequences.create({
+      const created = await sequences.create({
         companyId: selectedCompany,
         ecfType: form.ecfType,
         prefix: form.prefix,
@@ -94,7 +94,9 @@ export default function SequencesPage() {
         endNumber: parseInt(form.endNumber, 10),
         expiresAt: new Date(form.expiresAt).toISOString(),
       });
-      setSuccess('Secuencia creada exitosamente');
+      setSuccess(created?.status === 'QUEUED'
+        ? 'Secuencia registrada en cola: se activará al agotarse o vencer la actual'
+        : 'Secuencia creada exitosamente');
       setShowForm(false);
       setForm({ ecfType: 'E31', prefix: 'E31', startNumber: '', endNumber: '', expiresAt: '' });
       // Reload
@@ -107,14 +109,29 @@ export default function SequencesPage() {
     }
   };
 
+  const handleCancel = async (s: any) => {
+    if (!confirm('¿Cancelar este rango en cola?')) return;
+    setError('');
+    setSuccess('');
+    try {
+      await sequences.cancel(selectedCompany, s.id);
+      setSuccess('Secuencia en cola cancelada');
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      const data = await sequences.list(selectedCompany);
+      setList(Array.isArray(data) ? data : []);
+    }
+  };
+
   const getUsagePercent = (s: any) => {
     const total = s.endNumber - s.startNumber + 1;
     const used = s.currentNumber - s.startNumber;
     return Math.round((used / total) * 100);
   };
 
-  const isExpired = (s: any) => s.expiresAt && new Date(s.expiresAt) < new Date();
-  const isExhausted = (s: any) => s.currentNumber > s.endNumber;
+  const isExpired = (s: any) => s.status === 'EXPIRED' || (s.expiresAt && new Date(s.expiresAt) < new Date());
+  const isExhausted = (s: any) => s.status === 'EXHAUSTED' || s.currentNumber >= s.endNumber;
 
   return (
     <div className="space-y-6">
@@ -275,15 +292,16 @@ export default function SequencesPage() {
               {list.map((s) => {
                 const usage = getUsagePercent(s);
                 const expired = isExpired(s);
-                const exhausted = isExhausted(s);
-                const active = !expired && !exhausted;
+                const exhausted = !expired && isExhausted(s);
+                const queued = s.status === 'QUEUED' && !expired;
+                const active = !queued && !expired && !exhausted;
                 const total = s.endNumber - s.startNumber + 1;
                 const used = s.currentNumber - s.startNumber;
                 const remaining = total - used;
 
                 return (
                   <div key={s.id} className={`bg-white rounded-xl border p-5 ${
-                    active ? 'border-gray-200' : 'border-red-200 bg-red-50/30'
+                    active || queued ? 'border-gray-200' : 'border-red-200 bg-red-50/30'
                   }`}>
                     <div className="flex items-start justify-between mb-3">
                       <div>
@@ -313,6 +331,17 @@ export default function SequencesPage() {
                             <CheckCircle className="w-3 h-3" /> Activa
                           </span>
                         )}
+                        {queued && (
+                          <>
+                            <span className="flex items-center gap-1 text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded">
+                              <Clock className="w-3 h-3" /> En cola
+                            </span>
+                            <button title="Cancelar" className="text-red-400 hover:text-red-600"
+                              onClick={() => handleCancel(s)}>
+                              <X className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
                       </div>
                     </div>
 
@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import { users } from '../lib/api';
+import { UserPlus, Trash2, Copy, Check, X } from 'lucide-react';
+
+const ROLES = [
+  { value: 'OWNER', label: 'Propietario' },
+  { value: 'ADMIN', label: 'Administrador' },
+  { value: 'ACCOUNTANT', label: 'Contador' },
+  { value: 'CASHIER', label: 'Cajero' },
+  { value: 'READ_ONLY', label: 'Solo lectura' },
+];
+
+const roleLabel = (role: string) => ROLES.find((r) => r.value === role)?.label || role;
+
+export default function UsersPage() {
+  const [list, setList] = useState<any[]>([]);
+  const [invitations, setInvitations] = useState<any[]>([]);
+  const [me, setMe] = useState<any>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState('READ_ONLY');
+  const [inviting, setInviting] = useState(false);
+  const [newInvite, setNewInvite] = useState<any>(null);
+  const [copied, setCopied] = useState(false);
+
+  const load = () => {
+    Promise.all([users.list(), users.invitations()])
+      .then(([u, i]) => { setList(u); setInvitations(i); })
+      .catch((e) => setError(e.message))
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(() => {
+    users.me().then(setMe).catch(() => {});
+    load();
+  }, []);
+
+  const run = async (action: () => Promise<any>) => {
+    setError('');
+    try {
+      await action();
+      load();
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!email.trim()) return;
+    setInviting(true);
+    setError('');
+    try {
+      setNewInvite(await users.invite(email.trim(), role));
+      setEmail('');
+      load();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(newInvite.inviteUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  // Only an owner can hand out (or take away) the owner role
+  const assignableRoles = me?.role === 'OWNER' ? ROLES : ROLES.filter((r) => r.value !== 'OWNER');
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Usuarios</h1>
+        <p className="text-sm text-gray-500">Personas con acceso al dashboard y su rol</p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{error}</div>
+      )}
+
+      {/* Invite */}
+      <div className="mb-5 bg-white rounded-xl border border-gray-200 p-4 flex gap-2 items-end">
+        <div className="flex-1">
+          <label className="block text-xs font-medium text-gray-500 mb-1">Email</label>
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)}
+            placeholder="contador@miempresa.com"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm" />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Rol</label>
+          <select value={role} onChange={(e) => setRole(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm">
+            {assignableRoles.map((r) => <option key={r.value} value={r.value}>{r.label}</option>)}
+          </select>
+        </div>
+        <button onClick={handleInvite} disabled={inviting || !email.trim()}
+          className="flex items-center gap-2 bg-brand-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-brand-700 disabled:opacity-50">
+          <UserPlus className="w-4 h-4" /> Invitar
+        </button>
+      </div>
+
+      {newInvite && (
+        <div className="mb-5 p-4 bg-green-50 border border-green-200 rounded-xl">
+          <p className="text-sm font-medium text-green-800 mb-2">✅ Invitación creada para {newInvite.email}</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs bg-white p-2 rounded border font-mono break-all">{newInvite.inviteUrl}</code>
+            <button onClick={copyLink} className="p-2 bg-white rounded border hover:bg-gray-50">
+              {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4 text-gray-400" />}
+            </button>
+          </div>
+          <p className="text-xs text-amber-600 mt-2">⚠️ Envía este enlace a la persona invitada. No se mostrará de nuevo.</p>
+        </div>
+      )}
+
+      {/* Users */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden mb-5">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-gray-50 border-b">
+              <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Nombre</th>
+              <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Email</th>
+              <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Rol</th>
+              <th className="text-center px-4 py-3 text-xs font-medium text-gray-500 uppercase">Estado</th>
+              <th className="text-left px-4 py-3 text-xs font-medium text-gray-500 uppercase">Último acceso</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr><td colSpan={6} className="text-center py-8 text-gray-400">Cargando...</td></tr>
+            ) : (
+              list.map((u: any) => {
+                const isMe = u.id === me?.id;
+                const locked = isMe || (u.role === 'OWNER' && me?.role !== 'OWNER');
+                return (
+                  <tr key={u.id} className="border-b border-gray-50 hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{u.name}{isMe && ' (tú)'}</td>
+                    <td className="px-4 py-3 text-sm text-gray-500">{u.email}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {locked ? roleLabel(u.role) : (
+                        <select value={u.role}
+                          onChange={(e) => run(() => users.update(u.id, { role: e.target.value }))}
+                          className="px-2 py-1 border border-gray-300 rounded text-sm">
+                          {assignableRoles.map((r) => <option key={r.value} value={r.value}>{r.label}</option>)}
+                        </select>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-center">
+                      <button disabled={locked}
+                        onClick={() => run(() => users.update(u.id, { isActive: !u.isActive }))}
+                        className={`px-2 py-0.5 rounded text-xs ${u.isActive ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-600'}`}>
+                        {u.isActive ? 'Activo' : 'Inactivo'}
+                      </button>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500">
+                      {u.lastLoginAt ? new Date(u.lastLoginAt).toLocaleString('es-DO') : 'Nunca'}
+                    </td>
+                    <td className="px-4 py-3">
+                      {!locked && (
+                        <button title="Eliminar" className="text-red-400 hover:text-red-600"
+                          onClick={() => confirm(`¿Eliminar a ${u.email}?`) && run(() => users.remove(u.id))}>
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pending invitations */}
+      {invitations.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+          <div className="px-4 py-3 border-b text-sm font-medium text-gray-700">Invitaciones pendientes</div>
+          {invitations.map((i: any) => (
+            <div key={i.id} className="px-4 py-3 border-b border-gray-50 flex items-center justify-between text-sm">
+              <span className="text-gray-900">{i.email} <span className="text-gray-400">· {roleLabel(i.role)}</span></span>
+              <span className="flex items-center gap-3 text-gray-500">
+                Vence {new Date(i.expiresAt).toLocaleDateString('es-DO')}
+                <button title="Revocar" className="text-red-400 hover:text-red-600"
+                  onClick={() => run(() => users.revokeInvitation(i.id))}>
+                  <X className="w-4 h-4" />
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
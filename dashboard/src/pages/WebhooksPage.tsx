@@ -1,6 +1,6 @@
-import { useState, useEffect } from 'react';
-import { webhooks } from '../lib/api';
-import { Webhook, Plus, Trash2, X } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { webhooks, companies } from '../lib/api';
+import { Webhook, Plus, Trash2, X, RefreshCw, History, RotateCcw, AlertTriangle, Power } from 'lucide-react';
 
 const ALL_EVENTS = [
   'INVOICE_ACCEPTED', 'INVOICE_REJECTED', 'INVOICE_CONDITIONAL',
@@ -8,27 +8,56 @@ const ALL_EVENTS = [
   'CERTIFICATE_EXPIRING', 'SEQUENCE_LOW',
 ];
 
+const DGII_ENVS = ['DEV', 'CERT', 'PROD'];
+const ECF_TYPES = ['E31', 'E32', 'E33', 'E34', 'E41', 'E43', 'E44', 'E45', 'E46', 'E47'];
+
+const DELIVERY_STATUS: Record<string, { label: string; className: string }> = {
+  PENDING: { label: 'Pendiente', className: 'bg-gray-100 text-gray-600' },
+  RETRYING: { label: 'Reintentando', className: 'bg-amber-100 text-amber-700' },
+  DELIVERED: { label: 'Entregado', className: 'bg-green-100 text-green-700' },
+  DEAD_LETTER: { label: 'Dead letter', className: 'bg-red-100 text-red-700' },
+};
+
+const PAGE_SIZE = 15;
+
+const fmtDate = (d?: string) => (d ? new Date(d).toLocaleString('es-DO') : '—');
+
 export default function WebhooksPage() {
   const [list, setList] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [url, setUrl] = useState('');
   const [events, setEvents] = useState<string[]>([]);
+  const [companyIds, setCompanyIds] = useState<string[]>([]);
+  const [dgiiEnvs, setDgiiEnvs] = useState<string[]>([]);
+  const [ecfTypes, setEcfTypes] = useState<string[]>([]);
+  const [compList, setCompList] = useState<any[]>([]);
   const [newSecret, setNewSecret] = useState('');
+  const [secretNote, setSecretNote] = useState('');
+  const [historyId, setHistoryId] = useState('');
 
   const load = () => {
     webhooks.list().then(setList).finally(() => setLoading(false));
   };
 
   useEffect(() => { load(); }, []);
+  useEffect(() => {
+    companies.list().then((c: any) => setCompList(Array.isArray(c) ? c : c.data || [])).catch(() => {});
+  }, []);
+
+  const companyName = (id: string) => compList.find((c) => c.id === id)?.businessName || id.slice(0, 8);
 
   const handleCreate = async () => {
     if (!url || events.length === 0) return;
-    const result = await webhooks.create(url, events);
+    const result = await webhooks.create({ url, events, companyIds, dgiiEnvs, ecfTypes });
     setNewSecret(result.secret);
+    setSecretNote('');
     setShowForm(false);
     setUrl('');
     setEvents([]);
+    setCompanyIds([]);
+    setDgiiEnvs([]);
+    setEcfTypes([]);
     load();
   };
 
@@ -38,11 +67,34 @@ export default function WebhooksPage() {
     load();
   };
 
-  const toggleEvent = (event: string) => {
-    setEvents((prev) =>
-      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event],
+  const handleRotate = async (id: string) => {
+    if (!confirm('¿Rotar el secret? El anterior seguirá firmando durante 24 horas.')) return;
+    const result = await webhooks.rotateSecret(id);
+    setNewSecret(result.secret);
+    setSecretNote(result.note);
+    load();
+  };
+
+  const handleEnable = async (wh: any) => {
+    const replayBacklog = confirm(
+      '¿Reenviar también las entregas fallidas desde el último éxito?\n\n' +
+      'Aceptar = reactivar y reenviar · Cancelar = reactivar solo para eventos nuevos',
+    );
+    const result = await webhooks.enable(wh.id, replayBacklog);
+    if (replayBacklog) {
+      alert(`Webhook reactivado. ${result.resumedRetries} reintento(s) reanudados, ${result.replayedCount} dead letter(s) reenviadas.`);
+    }
+    load();
+  };
+
+  const autoDisabled = list.filter((wh: any) => !wh.isActive && wh.disabledAt);
+
+  const toggleIn = (setter: (fn: (prev: string[]) => string[]) => void, value: string) => {
+    setter((prev) =>
+      prev.includes(value) ? prev.filter((v) => v !== value) : [...prev, value],
     );
   };
+  const toggleEvent = (event: string) => toggleIn(setEvents, event);
 
   return (
     <div>
@@ -57,13 +109,28 @@ export default function WebhooksPage() {
         </button>
       </div>
 
+      {/* Auto-disabled notice */}
+      {autoDisabled.length > 0 && (
+        <div className="mb-5 p-4 bg-red-50 border border-red-200 rounded-xl flex gap-3">
+          <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <div>
+            <p className="text-sm font-medium text-red-800">
+              {autoDisabled.length === 1 ? '1 webhook fue desactivado' : `${autoDisabled.length} webhooks fueron desactivados`} automáticamente por fallas consecutivas
+            </p>
+            <p className="text-xs text-red-700 mt-1">
+              Los eventos no se envían mientras estén inactivos. Corrija el endpoint y reactívelo.
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Secret Alert */}
       {newSecret && (
         <div className="mb-5 p-4 bg-green-50 border border-green-200 rounded-xl">
-          <p className="text-sm font-medium text-green-800 mb-2">✅ Webhook creado</p>
+          <p className="text-sm font-medium text-green-800 mb-2">{secretNote ? '✅ Secret rotado' : '✅ Webhook creado'}</p>
           <p className="text-xs text-gray-600 mb-1">Secret para verificar firmas HMAC:</p>
           <code className="block text-xs bg-white p-2 rounded border font-mono break-all">{newSecret}</code>
-          <p className="text-xs text-amber-600 mt-2">⚠️ Guarda este secret. No se mostrará de nuevo.</p>
+          <p className="text-xs text-amber-600 mt-2">{secretNote || '⚠️ Guarda este secret. No se mostrará de nuevo.'}</p>
           <button onClick={() => setNewSecret('')} className="mt-2 text-xs text-gray-400 hover:text-gray-600">Cerrar</button>
         </div>
       )}
@@ -71,7 +138,7 @@ export default function WebhooksPage() {
       {/* Create Form Modal */}
       {showForm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-xl w-full max-w-md p-6">
+          <div className="bg-white rounded-xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6">
             <div className="flex items-center justify-between mb-4">
               <h2 className="font-semibold text-lg">Nuevo webhook</h2>
               <button onClick={() => setShowForm(false)}><X className="w-5 h-5 text-gray-400" /></button>
@@ -94,6 +161,43 @@ export default function WebhooksPage() {
                   ))}
                 </div>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Filtros <span className="font-normal text-gray-400">(opcional; vacío = todos)</span></label>
+                {compList.length > 0 && (
+                  <div className="mb-3">
+                    <p className="text-xs text-gray-500 mb-1">Empresas</p>
+                    <div className="max-h-28 overflow-y-auto space-y-1 border rounded-lg p-2">
+                      {compList.map((c: any) => (
+                        <label key={c.id} className="flex items-center gap-2 text-xs cursor-pointer">
+                          <input type="checkbox" checked={companyIds.includes(c.id)} onChange={() => toggleIn(setCompanyIds, c.id)}
+                            className="rounded border-gray-300 text-brand-600 focus:ring-brand-500" />
+                          <span className="text-gray-600">{c.businessName} <span className="font-mono text-gray-400">{c.rnc}</span></span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 mb-1">Ambiente DGII</p>
+                <div className="flex gap-3 mb-3">
+                  {DGII_ENVS.map((env) => (
+                    <label key={env} className="flex items-center gap-1.5 text-xs cursor-pointer">
+                      <input type="checkbox" checked={dgiiEnvs.includes(env)} onChange={() => toggleIn(setDgiiEnvs, env)}
+                        className="rounded border-gray-300 text-brand-600 focus:ring-brand-500" />
+                      <span className="text-gray-600">{env}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mb-1">Tipo de e-CF</p>
+                <div className="grid grid-cols-5 gap-2">
+                  {ECF_TYPES.map((type) => (
+                    <label key={type} className="flex items-center gap-1.5 text-xs cursor-pointer">
+                      <input type="checkbox" checked={ecfTypes.includes(type)} onChange={() => toggleIn(setEcfTypes, type)}
+                        className="rounded border-gray-300 text-brand-600 focus:ring-brand-500" />
+                      <span className="text-gray-600">{type}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
             </div>
             <button onClick={handleCreate} disabled={!url || events.length === 0}
               className="w-full mt-4 bg-brand-600 text-white py-2.5 rounded-lg text-sm font-medium hover:bg-brand-700 disabled:opacity-50">
@@ -122,18 +226,51 @@ export default function WebhooksPage() {
                         <span key={e} className="px-1.5 py-0.5 bg-blue-50 text-blue-600 rounded text-xs">{e}</span>
                       ))}
                     </div>
+                    {(wh.companyIds?.length > 0 || wh.dgiiEnvs?.length > 0 || wh.ecfTypes?.length > 0) && (
+                      <div className="flex gap-1.5 mt-1.5 flex-wrap">
+                        {wh.companyIds.map((id: string) => (
+                          <span key={id} className="px-1.5 py-0.5 bg-purple-50 text-purple-600 rounded text-xs">{companyName(id)}</span>
+                        ))}
+                        {[...wh.dgiiEnvs, ...wh.ecfTypes].map((f: string) => (
+                          <span key={f} className="px-1.5 py-0.5 bg-gray-100 text-gray-600 rounded text-xs">{f}</span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
-                  <span className={`px-2 py-0.5 rounded text-xs ${wh.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'}`}>
-                    {wh.isActive ? 'Activo' : 'Inactivo'}
+                  <span className={`px-2 py-0.5 rounded text-xs ${wh.isActive ? 'bg-green-100 text-green-700' : wh.disabledAt ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-500'}`}>
+                    {wh.isActive ? 'Activo' : wh.disabledAt ? 'Desactivado por fallas' : 'Inactivo'}
                   </span>
+                  {!wh.isActive && (
+                    <button onClick={() => handleEnable(wh)} title="Reactivar" className="text-gray-400 hover:text-green-600">
+                      <Power className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button onClick={() => setHistoryId(historyId === wh.id ? '' : wh.id)} title="Historial de entregas"
+                    className={historyId === wh.id ? 'text-brand-600' : 'text-gray-400 hover:text-brand-600'}>
+                    <History className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleRotate(wh.id)} title="Rotar secret" className="text-gray-400 hover:text-brand-600">
+                    <RefreshCw className="w-4 h-4" />
+                  </button>
                   <button onClick={() => handleDelete(wh.id)} className="text-red-400 hover:text-red-600">
                     <Trash2 className="w-4 h-4" />
                   </button>
                 </div>
               </div>
-              <p className="text-xs text-gray-400 mt-2">{wh._count?.deliveries || 0} entregas</p>
+              <p className="text-xs text-gray-400 mt-2">
+                {wh._count?.deliveries || 0} entregas
+                {wh.secretRotatedAt && ` · secret rotado ${new Date(wh.secretRotatedAt).toLocaleString('es-DO')}`}
+                {` · último éxito ${fmtDate(wh.lastSuccessAt)}`}
+                {wh.consecutiveFailures > 0 && (
+                  <span className="text-amber-600"> · {wh.consecutiveFailures} fallas seguidas</span>
+                )}
+              </p>
+              {wh.disabledReason && !wh.isActive && (
+                <p className="text-xs text-red-600 mt-1">{fmtDate(wh.disabledAt)}: {wh.disabledReason}</p>
+              )}
+              {historyId === wh.id && <DeliveryLog webhookId={wh.id} />}
             </div>
           ))
         )}
@@ -141,3 +278,176 @@ export default function WebhooksPage() {
     </div>
   );
 }
+
+function DeliveryLog({ webhookId }: { webhookId: string }) {
+  const [rows, setRows] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pg, setPg] = useState(1);
+  const [fEvent, setFEvent] = useState('');
+  const [fStatus, setFStatus] = useState('');
+  const [detail, setDetail] = useState<any>(null);
+  const [rangeFrom, setRangeFrom] = useState('');
+  const [rangeTo, setRangeTo] = useState('');
+  const [msg, setMsg] = useState('');
+
+  const load = useCallback(() => {
+    setLoading(true);
+    const p: Record<string, string> = { page: String(pg), limit: String(PAGE_SIZE) };
+    if (fEvent) p.event = fEvent;
+    if (fStatus) p.status = fStatus;
+    webhooks.deliveries(webhookId, p)
+      .then((r) => setRows(Array.isArray(r) ? r : r.data || []))
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, [webhookId, pg, fEvent, fStatus]);
+  useEffect(() => { load(); }, [load]);
+
+  const openDetail = async (id: string) => {
+    setDetail(await webhooks.delivery(id));
+  };
+
+  const handleReplay = async (id: string) => {
+    try {
+      const replay = await webhooks.replay(id);
+      setDetail(replay);
+      setMsg(`Reenviado: ${DELIVERY_STATUS[replay.status]?.label || replay.status}`);
+      load();
+    } catch (e: any) {
+      setMsg(e.message);
+    }
+  };
+
+  const handleReplayRange = async () => {
+    if (!rangeFrom || !rangeTo) return;
+    try {
+      const result = await webhooks.replayRange(webhookId, {
+        dateFrom: new Date(rangeFrom).toISOString(),
+        dateTo: new Date(rangeTo).toISOString(),
+        ...(fEvent ? { event: fEvent } : {}),
+      });
+      setMsg(`${result.replayedCount} entrega(s) en dead letter reenviadas${result.hasMore ? ' (quedan más, repita)' : ''}`);
+      load();
+    } catch (e: any) {
+      setMsg(e.message);
+    }
+  };
+
+  const selectClass = 'px-2 py-1.5 border rounded-lg text-xs outline-none focus:ring-2 focus:ring-brand-500';
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-100">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <select value={fEvent} onChange={(e) => { setFEvent(e.target.value); setPg(1); }} className={selectClass}>
+          <option value="">Todos los eventos</option>
+          {ALL_EVENTS.map((e) => <option key={e} value={e}>{e}</option>)}
+        </select>
+        <select value={fStatus} onChange={(e) => { setFStatus(e.target.value); setPg(1); }} className={selectClass}>
+          <option value="">Todos los estados</option>
+          {Object.entries(DELIVERY_STATUS).map(([k, v]) => <option key={k} value={k}>{v.label}</option>)}
+          <option value="FAILED">Fallidas (reintentando + dead letter)</option>
+        </select>
+        <div className="flex items-center gap-1 ml-auto">
+          <input type="datetime-local" value={rangeFrom} onChange={(e) => setRangeFrom(e.target.value)} className={selectClass} />
+          <input type="datetime-local" value={rangeTo} onChange={(e) => setRangeTo(e.target.value)} className={selectClass} />
+          <button onClick={handleReplayRange} disabled={!rangeFrom || !rangeTo}
+            className="flex items-center gap-1 px-2.5 py-1.5 bg-brand-600 text-white rounded-lg text-xs hover:bg-brand-700 disabled:opacity-50">
+            <RotateCcw className="w-3.5 h-3.5" /> Reenviar dead letters
+          </button>
+        </div>
+      </div>
+
+      {msg && <p className="text-xs text-gray-600 mb-2">{msg}</p>}
+
+      {loading ? (
+        <div className="text-gray-400 text-sm py-4">Cargando...</div>
+      ) : rows.length === 0 ? (
+        <div className="text-gray-400 text-sm py-4 text-center">Sin entregas</div>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 font-medium">Fecha</th>
+              <th className="py-2 font-medium">Evento</th>
+              <th className="py-2 font-medium">Estado</th>
+              <th className="py-2 font-medium">HTTP</th>
+              <th className="py-2 font-medium">Intentos</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((d: any) => (
+              <tr key={d.id} onClick={() => openDetail(d.id)} className="border-b border-gray-50 hover:bg-gray-50 cursor-pointer">
+                <td className="py-2 text-gray-600">{fmtDate(d.createdAt)}{d.replayOfId && ' ↻'}</td>
+                <td className="py-2 font-mono">{d.event}</td>
+                <td className="py-2">
+                  <span className={`px-1.5 py-0.5 rounded ${DELIVERY_STATUS[d.status]?.className}`}>
+                    {DELIVERY_STATUS[d.status]?.label || d.status}
+                  </span>
+                </td>
+                <td className="py-2 font-mono">{d.statusCode ?? '—'}</td>
+                <td className="py-2">{d.attempts}/{d.maxAttempts}</td>
+                <td className="py-2 text-right">
+                  {(d.status === 'DELIVERED' || d.status === 'DEAD_LETTER') && (
+                    <button onClick={(e) => { e.stopPropagation(); handleReplay(d.id); }}
+                      title="Reenviar" className="text-gray-400 hover:text-brand-600">
+                      <RotateCcw className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex justify-end gap-2 mt-2">
+        <button onClick={() => setPg(pg - 1)} disabled={pg === 1}
+          className="px-2 py-1 text-xs border rounded disabled:opacity-40">Anterior</button>
+        <button onClick={() => setPg(pg + 1)} disabled={rows.length < PAGE_SIZE}
+          className="px-2 py-1 text-xs border rounded disabled:opacity-40">Siguiente</button>
+      </div>
+
+      {/* Delivery Detail Modal */}
+      {detail && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl w-full max-w-2xl max-h-[85vh] overflow-y-auto p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="font-semibold text-lg">{detail.event}</h2>
+              <button onClick={() => setDetail(null)}><X className="w-5 h-5 text-gray-400" /></button>
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-xs text-gray-600 mb-4">
+              <p>Estado: <span className={`px-1.5 py-0.5 rounded ${DELIVERY_STATUS[detail.status]?.className}`}>{DELIVERY_STATUS[detail.status]?.label}</span></p>
+              <p>Intentos: {detail.attempts}/{detail.maxAttempts}</p>
+              <p>Último intento: {fmtDate(detail.lastAttemptAt)}</p>
+              <p>Próximo reintento: {fmtDate(detail.nextRetryAt)}</p>
+              <p>Entregado: {fmtDate(detail.deliveredAt)}</p>
+              <p>Dead letter: {fmtDate(detail.deadLetteredAt)}</p>
+            </div>
+            <p className="text-sm font-medium text-gray-700 mb-1">Request</p>
+            <p className="text-xs font-mono text-gray-500 mb-1">POST {detail.request.url}</p>
+            <pre className="text-xs bg-gray-50 p-2 rounded border overflow-x-auto mb-2">{JSON.stringify(detail.request.headers, null, 2)}</pre>
+            <pre className="text-xs bg-gray-50 p-2 rounded border overflow-x-auto mb-4">{JSON.stringify(detail.request.body, null, 2)}</pre>
+            <p className="text-sm font-medium text-gray-700 mb-1">Respuesta</p>
+            {detail.response ? (
+              <>
+                <p className="text-xs font-mono text-gray-500 mb-1">HTTP {detail.response.statusCode || 'sin respuesta (error de red)'}</p>
+                <pre className="text-xs bg-gray-50 p-2 rounded border overflow-x-auto whitespace-pre-wrap">{detail.response.body || '(vacía)'}</pre>
+              </>
+            ) : (
+              <p className="text-xs text-gray-400">Aún no se ha intentado</p>
+            )}
+            {detail.replays?.length > 0 && (
+              <p className="text-xs text-gray-500 mt-3">Reenviada {detail.replays.length} vez/veces</p>
+            )}
+            {(detail.status === 'DELIVERED' || detail.status === 'DEAD_LETTER') && (
+              <button onClick={() => handleReplay(detail.id)}
+                className="mt-4 flex items-center gap-2 bg-brand-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-brand-700">
+                <RotateCcw className="w-4 h-4" /> Reenviar
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "api_keys" ADD COLUMN "company_ids" UUID[] DEFAULT ARRAY[]::UUID[],
+ADD COLUMN "allowed_cidrs" VARCHAR(50)[] DEFAULT ARRAY[]::VARCHAR(50)[];
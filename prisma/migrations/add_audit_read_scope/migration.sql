@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "ApiKeyScope" ADD VALUE 'AUDIT_READ' BEFORE 'FULL_ACCESS';
+
+-- CreateIndex
+CREATE INDEX "audit_logs_tenant_id_created_at_idx" ON "audit_logs"("tenant_id", "created_at");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "certificates" ADD COLUMN "key_provider" VARCHAR(20),
+ADD COLUMN "key_version" VARCHAR(100),
+ADD COLUMN "encrypted_data_key" BYTEA;
+
+-- CreateIndex
+CREATE INDEX "certificates_key_provider_kms_key_id_key_version_idx" ON "certificates"("key_provider", "kms_key_id", "key_version");
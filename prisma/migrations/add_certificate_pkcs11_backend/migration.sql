@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "SignerBackend" AS ENUM ('P12', 'PKCS11');
+
+-- AlterTable
+ALTER TABLE "certificates" ALTER COLUMN "encrypted_p12" DROP NOT NULL,
+ADD COLUMN "backend" "SignerBackend" NOT NULL DEFAULT 'P12',
+ADD COLUMN "certificate_pem" TEXT,
+ADD COLUMN "pkcs11_token_label" VARCHAR(32),
+ADD COLUMN "pkcs11_key_label" VARCHAR(100);
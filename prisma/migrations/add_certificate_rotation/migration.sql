@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "CertificateStatus" AS ENUM ('PENDING', 'ACTIVE', 'RETIRED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "certificates" ADD COLUMN "status" "CertificateStatus" NOT NULL DEFAULT 'ACTIVE',
+ADD COLUMN "activate_at" TIMESTAMP(3),
+ADD COLUMN "activate_days_before_expiry" INTEGER,
+ADD COLUMN "activated_at" TIMESTAMP(3),
+ADD COLUMN "retired_at" TIMESTAMP(3),
+ADD COLUMN "replaced_by_id" UUID,
+ADD COLUMN "last_test_at" TIMESTAMP(3),
+ADD COLUMN "last_test_ok" BOOLEAN,
+ADD COLUMN "last_test_message" VARCHAR(500);
+
+-- Backfill: inactive certificates were either replaced by an upload or expired
+UPDATE "certificates" SET "activated_at" = "created_at";
+UPDATE "certificates" SET "status" = 'EXPIRED' WHERE "is_active" = false AND "valid_to" <= CURRENT_TIMESTAMP;
+UPDATE "certificates" SET "status" = 'RETIRED', "retired_at" = "updated_at" WHERE "is_active" = false AND "valid_to" > CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "certificates_status_idx" ON "certificates"("status");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "import_profiles" (
+    "id" UUID NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "layout" VARCHAR(20) NOT NULL,
+    "group_column" VARCHAR(100),
+    "columns" JSONB NOT NULL,
+    "defaults" JSONB,
+    "delimiter" VARCHAR(1),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "import_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "import_profiles_tenant_id_idx" ON "import_profiles"("tenant_id");
+CREATE UNIQUE INDEX "import_profiles_tenant_id_name_key" ON "import_profiles"("tenant_id", "name");
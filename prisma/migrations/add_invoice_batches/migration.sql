@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "invoice_batches" (
+    "id" UUID NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "total_items" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "invoice_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_batch_items" (
+    "id" UUID NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "batch_id" UUID NOT NULL,
+    "index" INTEGER NOT NULL,
+    "status" VARCHAR(20) NOT NULL,
+    "idempotency_key" VARCHAR(64),
+    "invoice_id" UUID,
+    "encf" VARCHAR(13),
+    "errors" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "invoice_batch_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "invoice_batches_tenant_id_idx" ON "invoice_batches"("tenant_id");
+CREATE INDEX "invoice_batch_items_tenant_id_idx" ON "invoice_batch_items"("tenant_id");
+CREATE INDEX "invoice_batch_items_batch_id_idx" ON "invoice_batch_items"("batch_id");
+
+-- AddForeignKey
+ALTER TABLE "invoice_batch_items" ADD CONSTRAINT "invoice_batch_items_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "invoice_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "invoice_batch_items" ADD CONSTRAINT "invoice_batch_items_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "invoice_batches" ADD COLUMN "status" VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+ADD COLUMN "payloads" JSONB,
+ADD COLUMN "context" JSONB,
+ADD COLUMN "processed_at" TIMESTAMP(3),
+ADD COLUMN "error_message" VARCHAR(500);
+
+-- Backfill: batches before the queue were processed in the request
+UPDATE "invoice_batches" SET "status" = 'COMPLETED', "processed_at" = "created_at";
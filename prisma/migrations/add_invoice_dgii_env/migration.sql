@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "dgii_env" "DgiiEnvironment";
+
+-- Backfill: existing invoices were issued in their company's current environment
+UPDATE "invoices" i SET "dgii_env" = c."dgii_env" FROM "companies" c WHERE c."id" = i."company_id";
+
+ALTER TABLE "invoices" ALTER COLUMN "dgii_env" SET NOT NULL;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN "parent_tenant_id" UUID;
+
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN "acting_tenant_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "tenants_parent_tenant_id_idx" ON "tenants"("parent_tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "tenants" ADD CONSTRAINT "tenants_parent_tenant_id_fkey" FOREIGN KEY ("parent_tenant_id") REFERENCES "tenants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "SequenceStatus" AS ENUM ('QUEUED', 'ACTIVE', 'EXHAUSTED', 'EXPIRED');
+
+-- DropIndex: also allowed a single inactive range per type, which blocked history
+DROP INDEX "sequences_company_id_ecf_type_is_active_key";
+
+-- AlterTable
+ALTER TABLE "sequences" ADD COLUMN "status" "SequenceStatus" NOT NULL DEFAULT 'ACTIVE',
+ADD COLUMN "activated_at" TIMESTAMP(3),
+ADD COLUMN "closed_at" TIMESTAMP(3),
+ADD COLUMN "previous_sequence_id" UUID;
+
+-- Backfill: inactive ranges were deactivated when exhausted or expired
+UPDATE "sequences" SET "activated_at" = "created_at";
+UPDATE "sequences" SET "status" = 'EXHAUSTED', "closed_at" = "updated_at" WHERE "is_active" = false AND "current_number" >= "end_number";
+UPDATE "sequences" SET "status" = 'EXPIRED', "closed_at" = "updated_at" WHERE "is_active" = false AND "current_number" < "end_number";
+
+-- CreateIndex
+CREATE INDEX "sequences_company_id_ecf_type_status_idx" ON "sequences"("company_id", "ecf_type", "status");
+
+-- CreateIndex: one ACTIVE range per company and type (partial, not expressible in schema.prisma)
+CREATE UNIQUE INDEX "sequences_one_active_per_type" ON "sequences"("company_id", "ecf_type") WHERE "status" = 'ACTIVE';
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "usage_snapshots" (
+    "id" UUID NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "period" VARCHAR(6) NOT NULL,
+    "plan" "Plan" NOT NULL,
+    "invoices" INTEGER NOT NULL DEFAULT 0,
+    "received_documents" INTEGER NOT NULL DEFAULT 0,
+    "companies" INTEGER NOT NULL DEFAULT 0,
+    "api_keys" INTEGER NOT NULL DEFAULT 0,
+    "webhooks" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "usage_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "usage_snapshots_tenant_id_period_key" ON "usage_snapshots"("tenant_id", "period");
+
+-- CreateIndex
+CREATE INDEX "usage_snapshots_period_idx" ON "usage_snapshots"("period");
+
+-- AddForeignKey
+ALTER TABLE "usage_snapshots" ADD CONSTRAINT "usage_snapshots_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
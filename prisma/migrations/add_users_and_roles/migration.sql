@@ -0,0 +1,55 @@
+-- AlterEnum
+ALTER TYPE "ApiKeyScope" ADD VALUE 'USERS_MANAGE';
+ALTER TYPE "ApiKeyScope" ADD VALUE 'API_KEYS_MANAGE';
+
+-- CreateEnum
+CREATE TYPE "UserRole" AS ENUM ('OWNER', 'ADMIN', 'ACCOUNTANT', 'CASHIER', 'READ_ONLY');
+
+-- CreateTable
+CREATE TABLE "users" (
+    "id" UUID NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "email" VARCHAR(320) NOT NULL,
+    "name" VARCHAR(200) NOT NULL,
+    "password_hash" VARCHAR(255) NOT NULL,
+    "role" "UserRole" NOT NULL DEFAULT 'READ_ONLY',
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_login_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "users_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_invitations" (
+    "id" UUID NOT NULL,
+    "tenant_id" UUID NOT NULL,
+    "email" VARCHAR(320) NOT NULL,
+    "role" "UserRole" NOT NULL,
+    "token_hash" VARCHAR(64) NOT NULL,
+    "invited_by_id" UUID,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "accepted_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_invitations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+CREATE INDEX "users_tenant_id_idx" ON "users"("tenant_id");
+CREATE UNIQUE INDEX "user_invitations_token_hash_key" ON "user_invitations"("token_hash");
+CREATE INDEX "user_invitations_tenant_id_idx" ON "user_invitations"("tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "user_invitations" ADD CONSTRAINT "user_invitations_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "user_invitations" ADD CONSTRAINT "user_invitations_invited_by_id_fkey" FOREIGN KEY ("invited_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing tenant logins become their OWNER user
+INSERT INTO "users" ("id", "tenant_id", "email", "name", "password_hash", "role", "is_active", "updated_at")
+SELECT gen_random_uuid(), "id", LOWER("email"), "name", "password_hash", 'OWNER', true, CURRENT_TIMESTAMP
+FROM "tenants"
+WHERE "password_hash" IS NOT NULL;
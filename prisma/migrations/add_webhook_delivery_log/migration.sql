@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "webhook_deliveries" ADD COLUMN "dead_lettered_at" TIMESTAMP(3),
+ADD COLUMN "request_headers" JSONB,
+ADD COLUMN "last_attempt_at" TIMESTAMP(3),
+ADD COLUMN "replay_of_id" UUID;
+
+-- Deliveries that already exhausted their attempts
+UPDATE "webhook_deliveries"
+SET "dead_lettered_at" = "created_at"
+WHERE "delivered_at" IS NULL AND "attempts" >= "max_attempts";
+
+-- CreateIndex
+CREATE INDEX "webhook_deliveries_subscription_id_created_at_idx" ON "webhook_deliveries"("subscription_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_replay_of_id_fkey" FOREIGN KEY ("replay_of_id") REFERENCES "webhook_deliveries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "webhook_subscriptions" ADD COLUMN "company_ids" UUID[] DEFAULT ARRAY[]::UUID[],
+ADD COLUMN "dgii_envs" "DgiiEnvironment"[] DEFAULT ARRAY[]::"DgiiEnvironment"[],
+ADD COLUMN "ecf_types" "EcfType"[] DEFAULT ARRAY[]::"EcfType"[];
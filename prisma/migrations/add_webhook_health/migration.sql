@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "webhook_subscriptions" ADD COLUMN "consecutive_failures" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "failure_threshold" INTEGER,
+ADD COLUMN "last_success_at" TIMESTAMP(3),
+ADD COLUMN "last_failure_at" TIMESTAMP(3),
+ADD COLUMN "disabled_at" TIMESTAMP(3),
+ADD COLUMN "disabled_reason" VARCHAR(500);
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "webhook_subscriptions" ADD COLUMN "key_provider" VARCHAR(20),
+ADD COLUMN "kms_key_id" VARCHAR(200),
+ADD COLUMN "key_version" VARCHAR(100),
+ADD COLUMN "encrypted_data_key" BYTEA;
+
+-- CreateIndex
+CREATE INDEX "webhook_subscriptions_key_provider_kms_key_id_key_version_idx" ON "webhook_subscriptions"("key_provider", "kms_key_id", "key_version");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "webhook_subscriptions" ADD COLUMN "secret_encrypted" TEXT,
+ADD COLUMN "previous_secret_encrypted" TEXT,
+ADD COLUMN "previous_secret_expires_at" TIMESTAMP(3),
+ADD COLUMN "secret_rotated_at" TIMESTAMP(3);
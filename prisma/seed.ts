@@ -71,26 +71,25 @@ async function main() {
   ];
 
   for (const ecf of ecfTypes) {
-    await prisma.sequence.upsert({
-      where: {
-        companyId_ecfType_isActive: {
+    const existing = await prisma.sequence.findFirst({
+      where: { companyId: company.id, ecfType: ecf.type, status: 'ACTIVE' },
+    });
+    if (!existing) {
+      await prisma.sequence.create({
+        data: {
+          tenantId: tenant.id,
           companyId: company.id,
           ecfType: ecf.type,
+          prefix: ecf.prefix,
+          startNumber: 1,
+          currentNumber: 0,
+          endNumber: ecf.max,
           isActive: true,
+          status: 'ACTIVE',
+          activatedAt: new Date(),
         },
-      },
-      update: {},
-      create: {
-        tenantId: tenant.id,
-        companyId: company.id,
-        ecfType: ecf.type,
-        prefix: ecf.prefix,
-        startNumber: 1,
-        currentNumber: 0,
-        endNumber: ecf.max,
-        isActive: true,
-      },
-    });
+      });
+    }
     console.log(`✅ Sequence: ${ecf.prefix} [1 - ${ecf.max.toLocaleString()}]`);
   }
 
@@ -1,9 +1,10 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ThrottlerModule } from '@nestjs/throttler';
 import { BullModule } from '@nestjs/bullmq';
 import { PrismaModule } from './prisma/prisma.module';
 import { AuthModule } from './auth/auth.module';
+import { UsersModule } from './users/users.module';
 import { TenantsModule } from './tenants/tenants.module';
 import { CompaniesModule } from './tenants/companies.module';
 import { CertificatesModule } from './certificates/certificates.module';
@@ -19,10 +20,20 @@ import { ReceptionModule } from './reception/reception.module';
 import { HealthModule } from './health/health.module';
 import { ValidationModule } from './validation/validation.module';
 import { RncModule } from './common/services/rnc.module';
+import { UsageModule } from './usage/usage.module';
+import { AuditModule } from './audit/audit.module';
 import { BuyersModule } from './buyers/buyers.module';
 import { QueueModule } from './queue/queue.module';
 import { SchedulerModule } from './scheduler/scheduler.module';
+import { ReportsModule } from './reports/reports.module';
+import { ImportsModule } from './imports/imports.module';
+import { DgiiSimulatorModule } from './dgii-simulator/dgii-simulator.module';
 import configuration from './config/configuration';
+import { RequestContextMiddleware } from './common/middleware/request-context.middleware';
+
+// Local DGII simulator — development/integration tests only, never in production
+const dgiiSimulatorEnabled =
+  process.env.DGII_SIMULATOR_ENABLED === 'true' && process.env.NODE_ENV !== 'production';
 
 @Module({
   imports: [
@@ -64,7 +75,10 @@ import configuration from './config/configuration';
     // Phase 1 - Foundation
     PrismaModule,
     AuthModule,
+    UsersModule,
     RncModule,
+    UsageModule,
+    AuditModule,
     TenantsModule,
     CompaniesModule,
     BuyersModule,
@@ -87,9 +101,17 @@ import configuration from './config/configuration';
     ContingencyModule,
     ReceptionModule,
     SchedulerModule,
+    ReportsModule,
+    ImportsModule,
 
     // Utils
     HealthModule,
+    ...(dgiiSimulatorEnabled ? [DgiiSimulatorModule] : []),
   ],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    // Request-scoped context (audit actor) for every route
+    consumer.apply(RequestContextMiddleware).forRoutes('*');
+  }
+}
@@ -0,0 +1,45 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { ApiKeyScope } from '@prisma/client';
+import { AuditService } from './audit.service';
+import { AuditLogFilterDto, ListAuditLogsQueryDto } from './dto/audit-log-query.dto';
+import { ApiKeyGuard } from '../common/guards/api-key.guard';
+import { RequireScopes } from '../common/decorators/scopes.decorator';
+import { CurrentTenant, RequestTenant } from '../common/decorators/tenant.decorator';
+import { toStreamableFile } from '../reports/formats/report-format';
+
+@ApiTags('audit')
+@Controller('audit-logs')
+@UseGuards(ApiKeyGuard)
+@ApiBearerAuth('api-key')
+@RequireScopes(ApiKeyScope.AUDIT_READ)
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Consultar audit log',
+    description: 'Más recientes primero. Para la página siguiente envíe cursor=meta.nextCursor.',
+  })
+  async findAll(
+    @CurrentTenant() tenant: RequestTenant,
+    @Query() query: ListAuditLogsQueryDto,
+  ) {
+    return this.auditService.findAll(tenant.id, query);
+  }
+
+  @Get('export')
+  @ApiOperation({ summary: 'Exportar audit log a CSV (mismos filtros, hasta 10.000 registros)' })
+  async export(
+    @CurrentTenant() tenant: RequestTenant,
+    @Query() query: AuditLogFilterDto,
+  ) {
+    const file = await this.auditService.exportCsv(tenant.id, query);
+    return toStreamableFile(file);
+  }
+}
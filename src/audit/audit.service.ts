@@ -0,0 +1,150 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { AuditLog, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  getRequestActingTenantId,
+  getRequestActor,
+  getRequestContext,
+} from '../common/middleware/request-context.middleware';
+import { ReportColumn, toCsv } from '../reports/formats/report-format';
+import { AuditLogFilterDto, ListAuditLogsQueryDto } from './dto/audit-log-query.dto';
+
+/** Max rows in one CSV export; narrow the dates for more */
+const AUDIT_EXPORT_MAX_ROWS = 10000;
+
+interface AuditExportRow {
+  createdAt: string;
+  entityType: string;
+  entityId: string;
+  action: string;
+  actor: string;
+  actingTenantId: string;
+  ipAddress: string;
+  metadata: string;
+}
+
+const AUDIT_EXPORT_COLUMNS: ReportColumn<AuditExportRow>[] = [
+  { key: 'createdAt', header: 'Fecha', type: 'text' },
+  { key: 'entityType', header: 'Entidad', type: 'text' },
+  { key: 'entityId', header: 'ID Entidad', type: 'text' },
+  { key: 'action', header: 'Acción', type: 'text' },
+  { key: 'actor', header: 'Actor', type: 'text' },
+  { key: 'actingTenantId', header: 'Cuenta Plataforma', type: 'text' },
+  { key: 'ipAddress', header: 'IP', type: 'text' },
+  { key: 'metadata', header: 'Detalle', type: 'text' },
+];
+
+/**
+ * Tenant audit trail: every service records through here so entries carry
+ * the same actor, acting PLATFORM tenant and client IP.
+ */
+@Injectable()
+export class AuditService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Record an action. The actor defaults to the authenticated caller
+   * (`system` for queue workers and the scheduler).
+   */
+  async record(
+    tenantId: string,
+    entityType: string,
+    entityId: string,
+    action: string,
+    metadata?: any,
+    actor: string = getRequestActor(),
+  ): Promise<void> {
+    await this.prisma.auditLog.create({
+      data: {
+        tenantId,
+        entityType,
+        entityId,
+        action,
+        actor,
+        actingTenantId: getRequestActingTenantId(),
+        ipAddress: getRequestContext()?.ipAddress?.substring(0, 45),
+        metadata,
+      },
+    });
+  }
+
+  /**
+   * Newest first, cursor-paginated: pass meta.nextCursor to get the next page.
+   */
+  async findAll(tenantId: string, query: ListAuditLogsQueryDto) {
+    this.assertTenantWideAccess();
+    const limit = query.limit || 50;
+
+    const logs = await this.prisma.auditLog.findMany({
+      where: this.buildWhere(tenantId, query),
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = logs.length > limit;
+    const data = hasMore ? logs.slice(0, limit) : logs;
+
+    return {
+      data,
+      meta: { limit, nextCursor: hasMore ? data[data.length - 1].id : null },
+    };
+  }
+
+  async exportCsv(tenantId: string, query: AuditLogFilterDto) {
+    this.assertTenantWideAccess();
+
+    const logs = await this.prisma.auditLog.findMany({
+      where: this.buildWhere(tenantId, query),
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: AUDIT_EXPORT_MAX_ROWS,
+    });
+
+    return {
+      fileName: `audit_log_${new Date().toISOString().substring(0, 10)}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      content: toCsv(AUDIT_EXPORT_COLUMNS, logs.map(toExportRow)),
+    };
+  }
+
+  // ============================================================
+  // PRIVATE HELPERS
+  // ============================================================
+
+  /**
+   * Entries aren't tied to a company, so keys restricted to some companies
+   * can't read the tenant-wide trail.
+   */
+  private assertTenantWideAccess() {
+    if (getRequestContext()?.companyIds?.length) {
+      throw new ForbiddenException('Una API key restringida a empresas no puede consultar el audit log');
+    }
+  }
+
+  private buildWhere(tenantId: string, query: AuditLogFilterDto): Prisma.AuditLogWhereInput {
+    const where: Prisma.AuditLogWhereInput = { tenantId };
+    if (query.entityType) where.entityType = query.entityType;
+    if (query.entityId) where.entityId = query.entityId;
+    if (query.action) where.action = query.action;
+    if (query.actor) where.actor = { contains: query.actor, mode: 'insensitive' };
+    if (query.dateFrom || query.dateTo) {
+      where.createdAt = {};
+      if (query.dateFrom) where.createdAt.gte = new Date(query.dateFrom);
+      if (query.dateTo) where.createdAt.lte = new Date(query.dateTo);
+    }
+    return where;
+  }
+}
+
+function toExportRow(log: AuditLog): AuditExportRow {
+  return {
+    createdAt: log.createdAt.toISOString(),
+    entityType: log.entityType,
+    entityId: log.entityId,
+    action: log.action,
+    actor: log.actor ?? '',
+    actingTenantId: log.actingTenantId ?? '',
+    ipAddress: log.ipAddress ?? '',
+    metadata: log.metadata ? JSON.stringify(log.metadata) : '',
+  };
+}
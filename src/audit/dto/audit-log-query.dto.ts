@@ -0,0 +1,52 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsInt, IsOptional, IsString, IsUUID, Max, MaxLength, Min } from 'class-validator';
+
+export class AuditLogFilterDto {
+  @ApiPropertyOptional({ description: 'Tipo de entidad', example: 'invoice' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  entityType?: string;
+
+  @ApiPropertyOptional({ description: 'ID de la entidad' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  entityId?: string;
+
+  @ApiPropertyOptional({ description: 'Acción', example: 'voided' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  action?: string;
+
+  @ApiPropertyOptional({ description: 'Actor (contiene, sin distinguir mayúsculas)', example: 'user:contador@' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  actor?: string;
+
+  @ApiPropertyOptional({ description: 'Desde (ISO 8601)', example: '2026-10-01T00:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Hasta (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+}
+
+export class ListAuditLogsQueryDto extends AuditLogFilterDto {
+  @ApiPropertyOptional({ description: 'meta.nextCursor de la página anterior' })
+  @IsOptional()
+  @IsUUID()
+  cursor?: string;
+
+  @ApiPropertyOptional({ default: 50, maximum: 200 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
@@ -2,6 +2,7 @@ import {
   Controller,
   Post,
   Get,
+  Patch,
   Delete,
   Body,
   Param,
@@ -11,8 +12,14 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
-import { CreateApiKeyDto, LoginDto } from './dto/auth.dto';
+import {
+  AcceptInvitationDto,
+  CreateApiKeyDto,
+  LoginDto,
+  UpdateApiKeyRestrictionsDto,
+} from './dto/auth.dto';
 import { ApiKeyGuard } from '../common/guards/api-key.guard';
+import { RequireScopes } from '../common/decorators/scopes.decorator';
 import { CurrentTenant, RequestTenant } from '../common/decorators/tenant.decorator';
 import { ApiKeyScope } from '@prisma/client';
 
@@ -33,8 +40,25 @@ export class AuthController {
     return this.authService.login(dto.email, dto.password);
   }
 
+  /**
+   * Public endpoints - invitation links sent to new users.
+   */
+  @Get('invitations/:token')
+  @ApiOperation({ summary: 'Ver invitación (público)' })
+  async getInvitation(@Param('token') token: string) {
+    return this.authService.getInvitation(token);
+  }
+
+  @Post('invitations/accept')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Aceptar invitación: crea el usuario y devuelve JWT (público)' })
+  async acceptInvitation(@Body() dto: AcceptInvitationDto) {
+    return this.authService.acceptInvitation(dto.token, dto.name, dto.password);
+  }
+
   @Post('keys')
   @UseGuards(ApiKeyGuard)
+  @RequireScopes(ApiKeyScope.API_KEYS_MANAGE)
   @ApiBearerAuth('api-key')
   @ApiOperation({ summary: 'Crear nueva API key' })
   @ApiResponse({ status: 201, description: 'API key creada. El valor completo solo se muestra una vez.' })
@@ -42,16 +66,16 @@ export class AuthController {
     @CurrentTenant() tenant: RequestTenant,
     @Body() dto: CreateApiKeyDto,
   ) {
-    return this.authService.generateApiKey(
-      tenant.id,
-      dto.name,
-      dto.isLive,
-      dto.scopes || [ApiKeyScope.FULL_ACCESS],
-    );
+    const scopes = dto.scopes || [ApiKeyScope.FULL_ACCESS];
+    const restrictions = await this.authService.resolveRestrictions(tenant.id, dto);
+    this.authService.assertCanGrant(tenant, scopes, restrictions.companyIds);
+
+    return this.authService.generateApiKey(tenant.id, dto.name, dto.isLive, scopes, restrictions);
   }
 
   @Get('keys')
   @UseGuards(ApiKeyGuard)
+  @RequireScopes(ApiKeyScope.API_KEYS_MANAGE)
   @ApiBearerAuth('api-key')
   @ApiOperation({ summary: 'Listar API keys del tenant' })
   async listApiKeys(@CurrentTenant() tenant: RequestTenant) {
@@ -60,6 +84,7 @@ export class AuthController {
 
   @Delete('keys/:id')
   @UseGuards(ApiKeyGuard)
+  @RequireScopes(ApiKeyScope.API_KEYS_MANAGE)
   @ApiBearerAuth('api-key')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Revocar una API key' })
@@ -72,12 +97,26 @@ export class AuthController {
 
   @Post('keys/:id/rotate')
   @UseGuards(ApiKeyGuard)
+  @RequireScopes(ApiKeyScope.API_KEYS_MANAGE)
   @ApiBearerAuth('api-key')
   @ApiOperation({ summary: 'Rotar una API key (revoca la actual y genera nueva)' })
   async rotateApiKey(
     @CurrentTenant() tenant: RequestTenant,
     @Param('id') apiKeyId: string,
   ) {
-    return this.authService.rotateApiKey(tenant.id, apiKeyId);
+    return this.authService.rotateApiKey(tenant.id, apiKeyId, tenant);
+  }
+
+  @Patch('keys/:id')
+  @UseGuards(ApiKeyGuard)
+  @RequireScopes(ApiKeyScope.API_KEYS_MANAGE)
+  @ApiBearerAuth('api-key')
+  @ApiOperation({ summary: 'Cambiar empresas e IPs permitidas de una API key' })
+  async updateApiKeyRestrictions(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('id') apiKeyId: string,
+    @Body() dto: UpdateApiKeyRestrictionsDto,
+  ) {
+    return this.authService.updateApiKeyRestrictions(tenant.id, apiKeyId, tenant, dto);
   }
 }
@@ -1,10 +1,23 @@
-import { Injectable, ConflictException, UnauthorizedException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  ConflictException,
+  UnauthorizedException,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
-import { ApiKeyScope } from '@prisma/client';
+import { ApiKeyScope, UserRole } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
 import * as crypto from 'crypto';
 import * as jwt from 'jsonwebtoken';
+import { hasScopes } from '../users/user-roles';
+import { RequestTenant } from '../common/decorators/tenant.decorator';
+import { isValidCidr, normalizeCidr } from './ip-allowlist';
+import { UsageService } from '../usage/usage.service';
+import { AuditService } from '../audit/audit.service';
 
 export interface GeneratedApiKey {
   id: string;
@@ -13,16 +26,31 @@ export interface GeneratedApiKey {
   keyPrefix: string;
   scopes: ApiKeyScope[];
   isLive: boolean;
+  companyIds: string[];
+  allowedCidrs: string[];
   createdAt: Date;
 }
 
+/** Optional limits on an API key; empty lists mean no restriction */
+export interface ApiKeyRestrictions {
+  companyIds?: string[];
+  allowedCidrs?: string[];
+}
+
 export interface JwtPayload {
-  sub: string;       // tenant ID
+  sub: string;       // user ID
+  tenantId: string;
   email: string;
   name: string;
+  role: UserRole;
   type: 'dashboard';  // distinguish from API key auth
 }
 
+/** Invitation tokens are stored as sha256 hex; the raw token is only in the link */
+export function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
@@ -33,6 +61,8 @@ export class AuthService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly config: ConfigService,
+    private readonly usageService: UsageService,
+    private readonly auditService: AuditService,
   ) {
     this.keyPrefix = this.config.get('API_KEY_PREFIX', 'frd');
     this.jwtSecret = this.config.get('JWT_SECRET', 'ecf-api-jwt-secret-change-in-production');
@@ -42,51 +72,144 @@ export class AuthService {
   /**
    * Login with email + password → JWT token for dashboard
    */
-  async login(email: string, password: string): Promise<{ token: string; tenant: any }> {
-    const tenant = await this.prisma.tenant.findUnique({
-      where: { email },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        passwordHash: true,
-        plan: true,
-        isActive: true,
-      },
+  async login(email: string, password: string): Promise<{ token: string; user: any; tenant: any }> {
+    const user = await this.prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+      include: { tenant: { select: { id: true, name: true, email: true, plan: true, isActive: true } } },
     });
 
-    if (!tenant || !tenant.passwordHash) {
+    if (!user) {
       throw new UnauthorizedException('Email o contraseña incorrectos');
     }
 
-    if (!tenant.isActive) {
+    if (!user.isActive || !user.tenant.isActive) {
       throw new UnauthorizedException('Cuenta desactivada');
     }
 
-    const valid = await bcrypt.compare(password, tenant.passwordHash);
+    const valid = await bcrypt.compare(password, user.passwordHash);
     if (!valid) {
       throw new UnauthorizedException('Email o contraseña incorrectos');
     }
 
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+    });
+
+    await this.auditService.record(user.tenantId, 'user', user.id, 'login', undefined, `user:${user.email}`.substring(0, 100));
+    this.logger.log(`Dashboard login: ${user.email} (${user.role})`);
+
+    return this.issueSession(user);
+  }
+
+  /**
+   * Invitation details for the accept screen (public, by token)
+   */
+  async getInvitation(token: string) {
+    const invitation = await this.findPendingInvitation(token);
+    return {
+      email: invitation.email,
+      role: invitation.role,
+      tenantName: invitation.tenant.name,
+      expiresAt: invitation.expiresAt,
+    };
+  }
+
+  /**
+   * Accept an invitation: create the user and log them in
+   */
+  async acceptInvitation(token: string, name: string, password: string) {
+    const invitation = await this.findPendingInvitation(token);
+
+    const existing = await this.prisma.user.findUnique({ where: { email: invitation.email } });
+    if (existing) {
+      throw new ConflictException('Ya existe un usuario con este email');
+    }
+
+    const passwordHash = await bcrypt.hash(password, 12);
+    const user = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          tenantId: invitation.tenantId,
+          email: invitation.email,
+          name,
+          passwordHash,
+          role: invitation.role,
+          lastLoginAt: new Date(),
+        },
+        include: { tenant: { select: { id: true, name: true, email: true, plan: true } } },
+      });
+      await tx.userInvitation.update({
+        where: { id: invitation.id },
+        data: { acceptedAt: new Date() },
+      });
+      await tx.auditLog.create({
+        data: {
+          tenantId: invitation.tenantId,
+          entityType: 'user',
+          entityId: created.id,
+          action: 'invitation_accepted',
+          actor: `user:${created.email}`.substring(0, 100),
+          metadata: { role: created.role, invitationId: invitation.id },
+        },
+      });
+      return created;
+    });
+
+    this.logger.log(`Invitation accepted: ${user.email} (${user.role}) → tenant ${user.tenantId}`);
+
+    return this.issueSession(user);
+  }
+
+  private async findPendingInvitation(token: string) {
+    const invitation = await this.prisma.userInvitation.findUnique({
+      where: { tokenHash: hashInvitationToken(token) },
+      include: { tenant: { select: { name: true, isActive: true } } },
+    });
+
+    if (!invitation || invitation.revokedAt || !invitation.tenant.isActive) {
+      throw new NotFoundException('Invitación no encontrada');
+    }
+    if (invitation.acceptedAt) {
+      throw new BadRequestException('La invitación ya fue aceptada');
+    }
+    if (invitation.expiresAt < new Date()) {
+      throw new BadRequestException('La invitación expiró. Solicite una nueva.');
+    }
+
+    return invitation;
+  }
+
+  private issueSession(user: {
+    id: string; tenantId: string; email: string; name: string; role: UserRole;
+    tenant: { id: string; name: string; email: string; plan: string };
+  }) {
     const payload: JwtPayload = {
-      sub: tenant.id,
-      email: tenant.email,
-      name: tenant.name,
+      sub: user.id,
+      tenantId: user.tenantId,
+      email: user.email,
+      name: user.name,
+      role: user.role,
       type: 'dashboard',
     };
 
-   const token = jwt.sign(payload, this.jwtSecret, {
+    const token = jwt.sign(payload, this.jwtSecret, {
       expiresIn: this.jwtExpiresIn,
     } as jwt.SignOptions);
-    this.logger.log(`Dashboard login: ${tenant.email}`);
 
     return {
       token,
+      user: {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+      },
       tenant: {
-        id: tenant.id,
-        name: tenant.name,
-        email: tenant.email,
-        plan: tenant.plan,
+        id: user.tenant.id,
+        name: user.tenant.name,
+        email: user.tenant.email,
+        plan: user.tenant.plan,
       },
     };
   }
@@ -114,7 +237,11 @@ export class AuthService {
     name: string,
     isLive: boolean,
     scopes: ApiKeyScope[] = [ApiKeyScope.FULL_ACCESS],
+    restrictions: ApiKeyRestrictions = {},
   ): Promise<GeneratedApiKey> {
+    // Early check before hashing; re-checked under lock on insert
+    await this.usageService.assertWithinLimit(tenantId, 'apiKeys');
+
     // Generate random key
     const randomPart = crypto.randomBytes(24).toString('hex'); // 48 hex chars
     const envPart = isLive ? 'live' : 'test';
@@ -126,7 +253,7 @@ export class AuthService {
     // Hash the full key
     const keyHash = await bcrypt.hash(fullKey, 12);
 
-    const apiKey = await this.prisma.apiKey.create({
+    const apiKey = await this.usageService.createWithinLimit(tenantId, 'apiKeys', (tx) => tx.apiKey.create({
       data: {
         tenantId,
         name,
@@ -134,9 +261,19 @@ export class AuthService {
         keyPrefix,
         scopes,
         isLive,
+        companyIds: restrictions.companyIds ?? [],
+        allowedCidrs: restrictions.allowedCidrs ?? [],
       },
-    });
+    }));
 
+    await this.auditService.record(tenantId, 'api_key', apiKey.id, 'created', {
+      name,
+      keyPrefix,
+      isLive,
+      scopes,
+      companyIds: apiKey.companyIds,
+      allowedCidrs: apiKey.allowedCidrs,
+    });
     this.logger.log(`API key created for tenant ${tenantId}: ${keyPrefix}...`);
 
     return {
@@ -146,10 +283,57 @@ export class AuthService {
       keyPrefix,
       scopes,
       isLive,
+      companyIds: apiKey.companyIds,
+      allowedCidrs: apiKey.allowedCidrs,
       createdAt: apiKey.createdAt,
     };
   }
 
+  /**
+   * A caller can't hand out (or obtain by rotating) more access than it has:
+   * neither scopes nor, for a company-restricted key, other companies.
+   */
+  assertCanGrant(caller: RequestTenant, scopes: ApiKeyScope[], companyIds: string[] = []) {
+    if (!hasScopes(caller.scopes as ApiKeyScope[], scopes)) {
+      throw new ForbiddenException('No puede otorgar permisos que no tiene');
+    }
+
+    const callerCompanies = caller.companyIds ?? [];
+    if (callerCompanies.length
+      && (!companyIds.length || companyIds.some((id) => !callerCompanies.includes(id)))) {
+      throw new ForbiddenException('No puede otorgar acceso a empresas fuera de su API key');
+    }
+  }
+
+  /**
+   * Validate and normalize key restrictions: companies must belong to the
+   * tenant and CIDRs must parse (bare IPs become /32 or /128).
+   */
+  async resolveRestrictions(
+    tenantId: string,
+    restrictions: ApiKeyRestrictions,
+  ): Promise<Required<ApiKeyRestrictions>> {
+    const companyIds = [...new Set(restrictions.companyIds ?? [])];
+    if (companyIds.length) {
+      const found = await this.prisma.company.findMany({
+        where: { tenantId, id: { in: companyIds } },
+        select: { id: true },
+      });
+      const missing = companyIds.filter((id) => !found.some((c) => c.id === id));
+      if (missing.length) {
+        throw new BadRequestException(`Empresa(s) no encontrada(s): ${missing.join(', ')}`);
+      }
+    }
+
+    const invalid = (restrictions.allowedCidrs ?? []).filter((cidr) => !isValidCidr(cidr));
+    if (invalid.length) {
+      throw new BadRequestException(`Rango(s) CIDR inválido(s): ${invalid.join(', ')}`);
+    }
+    const allowedCidrs = [...new Set((restrictions.allowedCidrs ?? []).map(normalizeCidr))];
+
+    return { companyIds, allowedCidrs };
+  }
+
   /**
    * List API keys for a tenant (without the actual key value)
    */
@@ -162,6 +346,8 @@ export class AuthService {
         keyPrefix: true,
         scopes: true,
         isLive: true,
+        companyIds: true,
+        allowedCidrs: true,
         isActive: true,
         lastUsedAt: true,
         expiresAt: true,
@@ -188,14 +374,60 @@ export class AuthService {
       data: { isActive: false },
     });
 
+    await this.auditService.record(tenantId, 'api_key', key.id, 'revoked', { keyPrefix: key.keyPrefix });
     this.logger.log(`API key revoked: ${key.keyPrefix}...`);
     return { message: 'API key revoked successfully' };
   }
 
+  /**
+   * Replace the company and IP restrictions of an active key
+   */
+  async updateApiKeyRestrictions(
+    tenantId: string,
+    apiKeyId: string,
+    caller: RequestTenant,
+    restrictions: ApiKeyRestrictions,
+  ) {
+    const key = await this.prisma.apiKey.findFirst({
+      where: { id: apiKeyId, tenantId, isActive: true },
+    });
+
+    if (!key) {
+      throw new NotFoundException('API key not found or inactive');
+    }
+    this.assertCanGrant(caller, key.scopes, key.companyIds);
+
+    const resolved = await this.resolveRestrictions(tenantId, {
+      companyIds: restrictions.companyIds ?? key.companyIds,
+      allowedCidrs: restrictions.allowedCidrs ?? key.allowedCidrs,
+    });
+    this.assertCanGrant(caller, key.scopes, resolved.companyIds);
+
+    const updated = await this.prisma.apiKey.update({
+      where: { id: key.id },
+      data: resolved,
+    });
+
+    await this.auditService.record(tenantId, 'api_key', key.id, 'restrictions_updated', {
+      keyPrefix: key.keyPrefix,
+      previous: { companyIds: key.companyIds, allowedCidrs: key.allowedCidrs },
+      companyIds: updated.companyIds,
+      allowedCidrs: updated.allowedCidrs,
+    });
+    this.logger.log(`API key restrictions updated: ${key.keyPrefix}...`);
+    return {
+      id: updated.id,
+      name: updated.name,
+      keyPrefix: updated.keyPrefix,
+      companyIds: updated.companyIds,
+      allowedCidrs: updated.allowedCidrs,
+    };
+  }
+
   /**
    * Rotate an API key: revoke old one and create new one with same config
    */
-  async rotateApiKey(tenantId: string, apiKeyId: string): Promise<GeneratedApiKey> {
+  async rotateApiKey(tenantId: string, apiKeyId: string, caller: RequestTenant): Promise<GeneratedApiKey> {
     const oldKey = await this.prisma.apiKey.findFirst({
       where: { id: apiKeyId, tenantId, isActive: true },
     });
@@ -203,6 +435,7 @@ export class AuthService {
     if (!oldKey) {
       throw new ConflictException('API key not found or already inactive');
     }
+    this.assertCanGrant(caller, oldKey.scopes, oldKey.companyIds);
 
     // Revoke old
     await this.prisma.apiKey.update({
@@ -211,6 +444,17 @@ export class AuthService {
     });
 
     // Generate new with same config
-    return this.generateApiKey(tenantId, oldKey.name, oldKey.isLive, oldKey.scopes);
+    const newKey = await this.generateApiKey(tenantId, oldKey.name, oldKey.isLive, oldKey.scopes, {
+      companyIds: oldKey.companyIds,
+      allowedCidrs: oldKey.allowedCidrs,
+    });
+
+    await this.auditService.record(tenantId, 'api_key', oldKey.id, 'rotated', {
+      keyPrefix: oldKey.keyPrefix,
+      newKeyId: newKey.id,
+      newKeyPrefix: newKey.keyPrefix,
+    });
+
+    return newKey;
   }
 }
@@ -6,8 +6,10 @@ import {
   IsArray,
   IsEnum,
   IsEmail,
+  IsUUID,
   MinLength,
   MaxLength,
+  ArrayMaxSize,
 } from 'class-validator';
 import { ApiKeyScope } from '@prisma/client';
 
@@ -22,6 +24,25 @@ export class LoginDto {
   password: string;
 }
 
+export class AcceptInvitationDto {
+  @ApiProperty({ description: 'Token de la invitación (del enlace)' })
+  @IsString()
+  @MinLength(1)
+  token: string;
+
+  @ApiProperty({ description: 'Nombre del usuario', example: 'María Pérez' })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(200)
+  name: string;
+
+  @ApiProperty({ description: 'Contraseña (mínimo 8 caracteres)', example: 'MiClave123!' })
+  @IsString()
+  @MinLength(8, { message: 'La contraseña debe tener al menos 8 caracteres' })
+  @MaxLength(100)
+  password: string;
+}
+
 export class CreateApiKeyDto {
   @ApiProperty({ description: 'Nombre descriptivo para la API key', example: 'Odoo Integration' })
   @IsString()
@@ -43,6 +64,47 @@ export class CreateApiKeyDto {
   @IsArray()
   @IsEnum(ApiKeyScope, { each: true })
   scopes?: ApiKeyScope[];
+
+  @ApiPropertyOptional({
+    description: 'Empresas a las que la clave tiene acceso (vacío = todas)',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true, message: 'companyIds debe contener UUIDs' })
+  companyIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'IPs o rangos CIDR desde los que se acepta la clave (vacío = cualquiera)',
+    type: [String],
+    example: ['190.166.12.0/24', '10.0.0.5'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  allowedCidrs?: string[];
+}
+
+export class UpdateApiKeyRestrictionsDto {
+  @ApiPropertyOptional({
+    description: 'Empresas a las que la clave tiene acceso (vacío = todas)',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true, message: 'companyIds debe contener UUIDs' })
+  companyIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'IPs o rangos CIDR desde los que se acepta la clave (vacío = cualquiera)',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  allowedCidrs?: string[];
 }
 
 export class RevokeApiKeyDto {
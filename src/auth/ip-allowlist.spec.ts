@@ -0,0 +1,47 @@
+/**
+ * API Key IP Allowlist Tests
+ */
+import { isIpAllowed, isValidCidr, normalizeCidr } from './ip-allowlist';
+
+describe('isValidCidr', () => {
+  it('accepts IPv4/IPv6 ranges and bare addresses', () => {
+    for (const cidr of ['10.0.0.0/8', '190.166.12.4', '2001:db8::/32', '::1']) {
+      expect(isValidCidr(cidr)).toBe(true);
+    }
+  });
+
+  it('rejects malformed ranges', () => {
+    for (const cidr of ['10.0.0.0/33', '10.0.0/8', '2001:db8::/129', 'localhost', '10.0.0.0/8/1', '10.0.0.0/']) {
+      expect(isValidCidr(cidr)).toBe(false);
+    }
+  });
+
+  it('normalizes bare addresses to single-host ranges', () => {
+    expect(normalizeCidr('190.166.12.4')).toBe('190.166.12.4/32');
+    expect(normalizeCidr(' ::1 ')).toBe('::1/128');
+  });
+});
+
+describe('isIpAllowed', () => {
+  const cidrs = ['10.20.0.0/16', '190.166.12.4', '2001:db8::/32'];
+
+  it('allows any address when the list is empty', () => {
+    expect(isIpAllowed('8.8.8.8', [])).toBe(true);
+  });
+
+  it('matches addresses inside the ranges', () => {
+    expect(isIpAllowed('10.20.255.1', cidrs)).toBe(true);
+    expect(isIpAllowed('190.166.12.4', cidrs)).toBe(true);
+    expect(isIpAllowed('2001:db8:1::5', cidrs)).toBe(true);
+  });
+
+  it('matches IPv4-mapped IPv6 addresses against IPv4 ranges', () => {
+    expect(isIpAllowed('::ffff:10.20.3.4', cidrs)).toBe(true);
+  });
+
+  it('rejects addresses outside the ranges or unknown', () => {
+    expect(isIpAllowed('10.21.0.1', cidrs)).toBe(false);
+    expect(isIpAllowed('190.166.12.5', cidrs)).toBe(false);
+    expect(isIpAllowed(undefined, cidrs)).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { BlockList, isIP } from 'net';
+
+/**
+ * CIDR allowlists for API keys. A bare address is treated as a single host
+ * (/32 or /128). IPv4 clients seen through an IPv6 socket (::ffff:10.0.0.1)
+ * are matched against IPv4 ranges.
+ */
+
+interface ParsedCidr {
+  address: string;
+  prefix: number;
+  type: 'ipv4' | 'ipv6';
+}
+
+function parseCidr(cidr: string): ParsedCidr | null {
+  const [address, prefixPart, ...rest] = cidr.trim().split('/');
+  const version = isIP(address);
+  if (!version || rest.length) return null;
+
+  const type = version === 4 ? 'ipv4' : 'ipv6';
+  const maxPrefix = version === 4 ? 32 : 128;
+  if (prefixPart === undefined) return { address, prefix: maxPrefix, type };
+
+  if (!/^\d{1,3}$/.test(prefixPart) || Number(prefixPart) > maxPrefix) return null;
+  return { address, prefix: Number(prefixPart), type };
+}
+
+export function isValidCidr(cidr: string): boolean {
+  return parseCidr(cidr) !== null;
+}
+
+/** Canonical form stored on the key: `address/prefix` */
+export function normalizeCidr(cidr: string): string {
+  const parsed = parseCidr(cidr);
+  if (!parsed) throw new Error(`Invalid CIDR: ${cidr}`);
+  return `${parsed.address}/${parsed.prefix}`;
+}
+
+export function isIpAllowed(ip: string | undefined, cidrs: string[]): boolean {
+  if (!cidrs.length) return true;
+  if (!ip) return false;
+
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  const address = mapped ? mapped[1] : ip;
+  const version = isIP(address);
+  if (!version) return false;
+
+  const list = new BlockList();
+  for (const cidr of cidrs) {
+    const parsed = parseCidr(cidr);
+    if (parsed) list.addSubnet(parsed.address, parsed.prefix, parsed.type);
+  }
+
+  return list.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
@@ -0,0 +1,260 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { certificateHasRnc, describeSubject } from '../signing/certificate-rnc';
+import { Crl, crlDistributionPoints, crlSignedBy, isRevoked, parseCrl } from './crl';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const forge = require('node-forge');
+
+export interface CertificateIssue {
+  level: 'ERROR' | 'WARNING';
+  check: 'VALIDITY' | 'RNC' | 'CHAIN' | 'REVOCATION';
+  message: string;
+}
+
+export interface CertificateValidation {
+  valid: boolean;
+  /** Subjects from the certificate up to the trusted CA (just the certificate when the chain is unknown) */
+  chain: string[];
+  issues: CertificateIssue[];
+}
+
+/** Leaf + intermediates; anything longer is not a Dominican CA hierarchy */
+const MAX_CHAIN_LENGTH = 5;
+const CRL_FETCH_TIMEOUT_MS = 10_000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Checks a certificate before it is stored, so a bad one fails at upload
+ * instead of on the first invoice:
+ *
+ * - VALIDITY: not expired (not yet valid is only a warning: it can wait pending)
+ * - RNC: the subject serial number is the company RNC (DGII Descripción Técnica p.60)
+ * - CHAIN: issued by a CA in CERT_TRUSTED_CA_PATH (Avansi, Cámara de Comercio...),
+ *   through the intermediates shipped in the .p12
+ * - REVOCATION: not listed in the issuer's CRL, from CERT_CRL_PATH files or, with
+ *   CERT_CRL_FETCH, downloaded from the certificate's distribution points and
+ *   cached for CERT_CRL_CACHE_HOURS (or until the CRL's nextUpdate)
+ *
+ * Missing configuration or unreachable CRLs are warnings, not errors, except
+ * for the trusted CA bundle in production: without it nothing is checked.
+ */
+@Injectable()
+export class CertificateValidationService {
+  private readonly logger = new Logger(CertificateValidationService.name);
+  private trustedCas: any[] | null = null;
+  private localCrls: Crl[] | null = null;
+  private readonly fetchedCrls = new Map<string, { crl: Crl; expiresAt: number }>();
+
+  constructor(private readonly config: ConfigService) {}
+
+  /**
+   * @param certificate node-forge certificate being uploaded
+   * @param intermediates other certificates that came with it (.p12 bags)
+   */
+  async validate(certificate: any, intermediates: any[], rnc: string): Promise<CertificateValidation> {
+    const issues: CertificateIssue[] = [];
+    const error = (check: CertificateIssue['check'], message: string) =>
+      issues.push({ level: 'ERROR', check, message });
+    const warning = (check: CertificateIssue['check'], message: string) =>
+      issues.push({ level: 'WARNING', check, message });
+
+    const now = new Date();
+    if (certificate.validity.notAfter <= now) {
+      error('VALIDITY', `El certificado venció el ${certificate.validity.notAfter.toISOString()}`);
+    } else if (certificate.validity.notBefore > now) {
+      warning('VALIDITY', `El certificado es válido a partir de ${certificate.validity.notBefore.toISOString()}`);
+    }
+
+    if (!certificateHasRnc(certificate, rnc)) {
+      error('RNC', `El sujeto del certificado (${describeSubject(certificate)}) no corresponde al RNC ${rnc} de la empresa`);
+    }
+
+    const chain = this.buildChain(certificate, intermediates, error, warning);
+    if (chain) {
+      for (const ca of chain.slice(1)) {
+        if (ca.validity.notAfter <= now) {
+          error('CHAIN', `La CA "${commonName(ca)}" venció el ${ca.validity.notAfter.toISOString()}`);
+        }
+      }
+      await this.checkRevocation(chain, now, error, warning);
+    }
+
+    return {
+      valid: !issues.some((i) => i.level === 'ERROR'),
+      chain: (chain ?? [certificate]).map(commonName),
+      issues,
+    };
+  }
+
+  // ============================================================
+  // PRIVATE HELPERS
+  // ============================================================
+
+  /** Certificate → ... → trusted CA, or null (with the reason recorded) */
+  private buildChain(
+    certificate: any,
+    intermediates: any[],
+    error: (check: CertificateIssue['check'], message: string) => void,
+    warning: (check: CertificateIssue['check'], message: string) => void,
+  ): any[] | null {
+    const trusted = this.loadTrustedCas();
+    if (trusted.length === 0) {
+      const report = this.config.get<string>('nodeEnv') === 'production' ? error : warning;
+      report('CHAIN', 'No hay CAs de confianza configuradas (CERT_TRUSTED_CA_PATH); no se verificó la cadena');
+      return null;
+    }
+
+    const chain = [certificate];
+    let current = certificate;
+    while (chain.length < MAX_CHAIN_LENGTH) {
+      const anchor = trusted.find((ca) => issuedBy(current, ca));
+      if (anchor) {
+        if (anchor !== current) chain.push(anchor);
+        return chain;
+      }
+
+      const next = intermediates.find((c) => !chain.includes(c) && issuedBy(current, c));
+      if (!next) {
+        error('CHAIN', `El emisor "${issuerName(current)}" no es una CA de confianza ni viene en el .p12`);
+        return null;
+      }
+      chain.push(next);
+      current = next;
+    }
+
+    error('CHAIN', `La cadena supera ${MAX_CHAIN_LENGTH} certificados sin llegar a una CA de confianza`);
+    return null;
+  }
+
+  private async checkRevocation(
+    chain: any[],
+    now: Date,
+    error: (check: CertificateIssue['check'], message: string) => void,
+    warning: (check: CertificateIssue['check'], message: string) => void,
+  ) {
+    // Every certificate but the trusted anchor, against its issuer's CRL
+    for (let i = 0; i < chain.length - 1; i++) {
+      const [cert, issuer] = [chain[i], chain[i + 1]];
+      const crls = await this.crlsFor(cert, issuer);
+
+      if (crls.length === 0) {
+        warning('REVOCATION', `No hay CRL de "${commonName(issuer)}"; no se verificó la revocación de "${commonName(cert)}"`);
+      } else if (crls.some((crl) => isRevoked(crl, cert))) {
+        error('REVOCATION', `El certificado "${commonName(cert)}" (serie ${cert.serialNumber}) está revocado`);
+      } else if (crls.every((crl) => crl.nextUpdate && crl.nextUpdate < now)) {
+        warning('REVOCATION', `La CRL de "${commonName(issuer)}" está desactualizada; puede no incluir revocaciones recientes`);
+      }
+    }
+  }
+
+  /** CRLs signed by `issuer`: local files plus, if enabled, the certificate's distribution points */
+  private async crlsFor(cert: any, issuer: any): Promise<Crl[]> {
+    const crls = this.loadLocalCrls().filter((crl) => crlSignedBy(crl, issuer));
+
+    if (this.config.get<boolean>('certificates.crlFetch')) {
+      for (const url of crlDistributionPoints(cert)) {
+        const crl = await this.fetchCrl(url);
+        if (crl && crlSignedBy(crl, issuer)) crls.push(crl);
+      }
+    }
+
+    return crls;
+  }
+
+  private async fetchCrl(url: string): Promise<Crl | null> {
+    const cached = this.fetchedCrls.get(url);
+    if (cached && cached.expiresAt > Date.now()) return cached.crl;
+
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(CRL_FETCH_TIMEOUT_MS) });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const crl = parseCrl(Buffer.from(await response.arrayBuffer()));
+
+      const ttl = (this.config.get<number>('certificates.crlCacheHours') || 12) * HOUR_MS;
+      const nextUpdate = crl.nextUpdate?.getTime();
+      const expiresAt = nextUpdate && nextUpdate > Date.now() ? Math.min(Date.now() + ttl, nextUpdate) : Date.now() + ttl;
+      this.fetchedCrls.set(url, { crl, expiresAt });
+      return crl;
+    } catch (error: any) {
+      this.logger.warn(`CRL download failed (${url}): ${error.message}`);
+      // A stale CRL still catches older revocations
+      return cached?.crl ?? null;
+    }
+  }
+
+  private loadTrustedCas(): any[] {
+    if (this.trustedCas) return this.trustedCas;
+
+    this.trustedCas = [];
+    for (const file of listFiles(this.config.get<string>('certificates.trustedCaPath'), ['.pem', '.crt', '.cer', '.der'])) {
+      try {
+        this.trustedCas.push(...readCertificates(fs.readFileSync(file)));
+      } catch (error: any) {
+        this.logger.warn(`Skipping trusted CA file ${file}: ${error.message}`);
+      }
+    }
+
+    if (this.trustedCas.length > 0) {
+      this.logger.log(`Loaded ${this.trustedCas.length} trusted CA certificate(s)`);
+    }
+    return this.trustedCas;
+  }
+
+  private loadLocalCrls(): Crl[] {
+    if (this.localCrls) return this.localCrls;
+
+    this.localCrls = [];
+    for (const file of listFiles(this.config.get<string>('certificates.crlPath'), ['.crl', '.pem', '.der'])) {
+      try {
+        this.localCrls.push(parseCrl(fs.readFileSync(file)));
+      } catch (error: any) {
+        this.logger.warn(`Skipping CRL file ${file}: ${error.message}`);
+      }
+    }
+    return this.localCrls;
+  }
+}
+
+/** `parent` is a CA that signed `child` */
+function issuedBy(child: any, parent: any): boolean {
+  const basicConstraints = parent.getExtension('basicConstraints');
+  if (basicConstraints && !basicConstraints.cA) return false;
+
+  try {
+    return parent.issued(child) && parent.verify(child);
+  } catch {
+    // Signature algorithm node-forge can't verify
+    return false;
+  }
+}
+
+function commonName(cert: any): string {
+  return cert.subject.getField('CN')?.value || describeSubject(cert);
+}
+
+function issuerName(cert: any): string {
+  return cert.issuer.getField('CN')?.value || cert.issuer.attributes.map((a: any) => a.value).join(', ');
+}
+
+/** A file, or the files with these extensions in a directory */
+function listFiles(target: string | undefined, extensions: string[]): string[] {
+  if (!target || !fs.existsSync(target)) return [];
+  if (!fs.statSync(target).isDirectory()) return [target];
+
+  return fs.readdirSync(target)
+    .filter((name) => extensions.includes(path.extname(name).toLowerCase()))
+    .sort()
+    .map((name) => path.join(target, name));
+}
+
+/** PEM bundle (one or more certificates) or a single DER certificate */
+function readCertificates(data: Buffer): any[] {
+  const pems = data.toString('latin1').match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g);
+  if (pems) return pems.map((pem) => forge.pki.certificateFromPem(pem));
+  return [forge.pki.certificateFromAsn1(forge.asn1.fromDer(data.toString('binary')))];
+}
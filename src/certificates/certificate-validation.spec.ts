@@ -0,0 +1,200 @@
+/**
+ * Certificate Validation Tests
+ *
+ * Upload checks against a throwaway CA hierarchy: chain to the trusted
+ * bundle (through .p12 intermediates), CRLs from files and from the
+ * distribution point, and the subject RNC.
+ */
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CertificateValidationService } from './certificate-validation.service';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const forge = require('node-forge');
+
+const RNC = '131880681';
+const CRL_URL = 'http://crl.ca-prueba.do/raiz.crl';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Issued {
+  cert: any;
+  keyPem: string;
+}
+
+function issue(
+  cn: string,
+  serial: string,
+  issuer: Issued | null,
+  options: { ca?: boolean; rnc?: string; crlUrl?: string; notAfter?: Date } = {},
+): Issued {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const keyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = forge.pki.publicKeyFromPem(publicKey.export({ type: 'spki', format: 'pem' }).toString());
+  cert.serialNumber = serial;
+  cert.validity.notBefore = new Date(Date.now() - DAY_MS);
+  cert.validity.notAfter = options.notAfter ?? new Date(Date.now() + 365 * DAY_MS);
+  cert.setSubject([
+    { shortName: 'CN', value: cn },
+    ...(options.rnc ? [{ type: '2.5.4.5', value: `RNC-${options.rnc}` }] : []),
+  ]);
+  cert.setIssuer(issuer ? issuer.cert.subject.attributes : cert.subject.attributes);
+  cert.setExtensions([
+    { name: 'basicConstraints', cA: !!options.ca },
+    ...(options.crlUrl ? [{ name: 'cRLDistributionPoints', altNames: [{ type: 6, value: options.crlUrl }] }] : []),
+  ]);
+  cert.sign(forge.pki.privateKeyFromPem(issuer ? issuer.keyPem : keyPem), forge.md.sha256.create());
+
+  // Parsed back, like a certificate coming out of an upload
+  return { cert: forge.pki.certificateFromPem(forge.pki.certificateToPem(cert)), keyPem };
+}
+
+/** DER CRL signed by `ca` listing `revoked` serials */
+function buildCrl(ca: Issued, revoked: string[], nextUpdate = new Date(Date.now() + DAY_MS)): Buffer {
+  const { asn1 } = forge;
+  const { UNIVERSAL } = asn1.Class;
+  const { Type } = asn1;
+  const utc = (d: Date) => asn1.create(UNIVERSAL, Type.UTCTIME, false, asn1.dateToUtcTime(d));
+  const algorithm = () => asn1.create(UNIVERSAL, Type.SEQUENCE, true, [
+    asn1.create(UNIVERSAL, Type.OID, false, asn1.oidToDer('1.2.840.113549.1.1.11').getBytes()),
+    asn1.create(UNIVERSAL, Type.NULL, false, ''),
+  ]);
+
+  const tbs = asn1.create(UNIVERSAL, Type.SEQUENCE, true, [
+    asn1.create(UNIVERSAL, Type.INTEGER, false, asn1.integerToDer(1).getBytes()),
+    algorithm(),
+    forge.pki.distinguishedNameToAsn1(ca.cert.subject),
+    utc(new Date(Date.now() - DAY_MS)),
+    utc(nextUpdate),
+    ...(revoked.length
+      ? [asn1.create(UNIVERSAL, Type.SEQUENCE, true, revoked.map((serial) => asn1.create(UNIVERSAL, Type.SEQUENCE, true, [
+        asn1.create(UNIVERSAL, Type.INTEGER, false, forge.util.hexToBytes(serial)),
+        utc(new Date()),
+      ])))]
+      : []),
+  ]);
+
+  const tbsDer = Buffer.from(asn1.toDer(tbs).getBytes(), 'binary');
+  const signature = crypto.sign('sha256', tbsDer, ca.keyPem);
+  const crl = asn1.create(UNIVERSAL, Type.SEQUENCE, true, [
+    tbs,
+    algorithm(),
+    asn1.create(UNIVERSAL, Type.BITSTRING, false, `\x00${signature.toString('binary')}`),
+  ]);
+  return Buffer.from(asn1.toDer(crl).getBytes(), 'binary');
+}
+
+describe('CertificateValidationService', () => {
+  let dir: string;
+  const root = issue('CA Raiz de Prueba', '01', null, { ca: true });
+  const intermediate = issue('CA Emisora de Prueba', '02', root, { ca: true, crlUrl: CRL_URL });
+  const leaf = issue('EMPRESA DE PRUEBA SRL', '0a1b2c', intermediate, { rnc: RNC });
+  const revokedLeaf = issue('EMPRESA REVOCADA SRL', '0a1b2d', intermediate, { rnc: RNC });
+
+  const service = (certificates: Record<string, unknown>) =>
+    new CertificateValidationService(new ConfigService({ certificates }));
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ecf-cas-'));
+    fs.writeFileSync(path.join(dir, 'raiz.pem'), forge.pki.certificateToPem(root.cert));
+    fs.mkdirSync(path.join(dir, 'crl'));
+    fs.writeFileSync(path.join(dir, 'crl', 'emisora.crl'), buildCrl(intermediate, ['0a1b2d']));
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+  afterEach(() => jest.restoreAllMocks());
+
+  it('accepts a certificate chained to a trusted CA through the .p12 intermediate', async () => {
+    const validator = service({ trustedCaPath: dir, crlPath: path.join(dir, 'crl') });
+    const result = await validator.validate(leaf.cert, [intermediate.cert], RNC);
+
+    expect(result.valid).toBe(true);
+    expect(result.chain).toEqual(['EMPRESA DE PRUEBA SRL', 'CA Emisora de Prueba', 'CA Raiz de Prueba']);
+    // The root's CRL for the intermediate isn't loaded
+    expect(result.issues).toEqual([
+      expect.objectContaining({ level: 'WARNING', check: 'REVOCATION', message: expect.stringContaining('CA Raiz de Prueba') }),
+    ]);
+  });
+
+  it('rejects revoked certificates, untrusted chains and foreign RNCs', async () => {
+    const validator = service({ trustedCaPath: dir, crlPath: path.join(dir, 'crl') });
+
+    const revoked = await validator.validate(revokedLeaf.cert, [intermediate.cert], RNC);
+    expect(revoked.valid).toBe(false);
+    expect(revoked.issues).toContainEqual(expect.objectContaining({ level: 'ERROR', check: 'REVOCATION' }));
+
+    const withoutIntermediate = await validator.validate(leaf.cert, [], RNC);
+    expect(withoutIntermediate.issues).toContainEqual(
+      expect.objectContaining({ level: 'ERROR', check: 'CHAIN', message: expect.stringContaining('CA Emisora de Prueba') }),
+    );
+
+    const otherCompany = await validator.validate(leaf.cert, [intermediate.cert], '101010101');
+    expect(otherCompany.issues).toEqual([
+      expect.objectContaining({ level: 'ERROR', check: 'RNC' }),
+      expect.objectContaining({ level: 'WARNING', check: 'REVOCATION' }),
+    ]);
+  });
+
+  it('matches the SN exactly, not an RNC contained in a longer number', async () => {
+    const validator = service({ trustedCaPath: dir, crlPath: path.join(dir, 'crl') });
+    const longer = issue('OTRA EMPRESA SRL', '0a1b2f', intermediate, { rnc: `0${RNC}0` });
+
+    const result = await validator.validate(longer.cert, [intermediate.cert], RNC);
+    expect(result.issues).toContainEqual(expect.objectContaining({ level: 'ERROR', check: 'RNC' }));
+
+    const withDashes = await validator.validate(leaf.cert, [intermediate.cert], '1-31-88068-1');
+    expect(withDashes.issues).not.toContainEqual(expect.objectContaining({ check: 'RNC' }));
+  });
+
+  it('ignores CRLs not signed by the issuer', async () => {
+    const impostor = issue('CA Emisora de Prueba', '03', null, { ca: true });
+    fs.mkdirSync(path.join(dir, 'forged'));
+    fs.writeFileSync(path.join(dir, 'forged', 'emisora.crl'), buildCrl(impostor, ['0a1b2c']));
+
+    const result = await service({ trustedCaPath: dir, crlPath: path.join(dir, 'forged') })
+      .validate(leaf.cert, [intermediate.cert], RNC);
+    expect(result.valid).toBe(true);
+  });
+
+  it('downloads the CRL from the distribution point and caches it', async () => {
+    const rootCrl = buildCrl(root, ['02']);
+    const fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async () => new Response(new Uint8Array(rootCrl)));
+    const validator = service({ trustedCaPath: dir, crlFetch: true, crlCacheHours: 12 });
+
+    const first = await validator.validate(leaf.cert, [intermediate.cert], RNC);
+    await validator.validate(leaf.cert, [intermediate.cert], RNC);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe(CRL_URL);
+    expect(first.issues).toContainEqual(
+      expect.objectContaining({ level: 'ERROR', check: 'REVOCATION', message: expect.stringContaining('CA Emisora de Prueba') }),
+    );
+  });
+
+  it('only warns when no trusted CAs are configured', async () => {
+    const result = await service({}).validate(leaf.cert, [], RNC);
+
+    expect(result.valid).toBe(true);
+    expect(result.chain).toEqual(['EMPRESA DE PRUEBA SRL']);
+    expect(result.issues).toEqual([expect.objectContaining({ level: 'WARNING', check: 'CHAIN' })]);
+  });
+
+  it('rejects the upload in production when no trusted CAs are configured', async () => {
+    const validator = new CertificateValidationService(new ConfigService({ nodeEnv: 'production', certificates: {} }));
+    const result = await validator.validate(leaf.cert, [], RNC);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([expect.objectContaining({ level: 'ERROR', check: 'CHAIN' })]);
+  });
+
+  it('rejects expired certificates', async () => {
+    const expired = issue('EMPRESA VENCIDA SRL', '0a1b2e', intermediate, { rnc: RNC, notAfter: new Date(Date.now() - 1000) });
+    const result = await service({}).validate(expired.cert, [], RNC);
+
+    expect(result.issues).toContainEqual(expect.objectContaining({ level: 'ERROR', check: 'VALIDITY' }));
+  });
+});
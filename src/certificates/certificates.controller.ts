@@ -2,13 +2,14 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
   Body,
   Param,
   UseGuards,
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import { CertificatesService } from './certificates.service';
-import { UploadCertificateDto } from './dto/certificate.dto';
+import { RegisterPkcs11CertificateDto, UploadCertificateDto, VerifySignatureDto } from './dto/certificate.dto';
 import { ApiKeyGuard } from '../common/guards/api-key.guard';
 import { RequireScopes } from '../common/decorators/scopes.decorator';
 import { CurrentTenant, RequestTenant } from '../common/decorators/tenant.decorator';
@@ -23,7 +24,10 @@ export class CertificatesController {
 
   @Post()
   @RequireScopes(ApiKeyScope.CERTIFICATES_WRITE)
-  @ApiOperation({ summary: 'Subir certificado .p12 (encriptado en Base64)' })
+  @ApiOperation({
+    summary: 'Subir certificado .p12 (encriptado en Base64)',
+    description: 'Con activateAt o activateDaysBeforeExpiry queda pendiente y se activa automáticamente',
+  })
   async upload(
     @CurrentTenant() tenant: RequestTenant,
     @Param('companyId') companyId: string,
@@ -34,9 +38,24 @@ export class CertificatesController {
     return this.certificatesService.upload(tenant.id, dto);
   }
 
+  @Post('pkcs11')
+  @RequireScopes(ApiKeyScope.CERTIFICATES_WRITE)
+  @ApiOperation({
+    summary: 'Registrar un certificado cuya llave privada está en un HSM (PKCS#11)',
+    description: 'La llave nunca sale del dispositivo; se guarda el certificado y el PIN encriptado',
+  })
+  async registerPkcs11(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('companyId') companyId: string,
+    @Body() dto: RegisterPkcs11CertificateDto,
+  ) {
+    dto.companyId = companyId;
+    return this.certificatesService.registerPkcs11(tenant.id, dto);
+  }
+
   @Get()
   @RequireScopes(ApiKeyScope.COMPANIES_READ)
-  @ApiOperation({ summary: 'Listar certificados de una empresa' })
+  @ApiOperation({ summary: 'Listar certificados de una empresa (historial de rotación)' })
   async findAll(
     @CurrentTenant() tenant: RequestTenant,
     @Param('companyId') companyId: string,
@@ -53,4 +72,48 @@ export class CertificatesController {
   ) {
     return this.certificatesService.getActive(tenant.id, companyId);
   }
+
+  @Post('verify')
+  @RequireScopes(ApiKeyScope.COMPANIES_READ)
+  @ApiOperation({ summary: 'Verificar una firma y ver con qué certificado de la empresa se hizo (activo o retirado)' })
+  async verify(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('companyId') companyId: string,
+    @Body() dto: VerifySignatureDto,
+  ) {
+    return this.certificatesService.verifySignature(tenant.id, companyId, dto.signedXml);
+  }
+
+  @Post(':id/test')
+  @RequireScopes(ApiKeyScope.CERTIFICATES_WRITE)
+  @ApiOperation({ summary: 'Prueba de firma: firma una semilla de prueba (simulador DGII o autoprueba local)' })
+  async test(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('companyId') companyId: string,
+    @Param('id') id: string,
+  ) {
+    return this.certificatesService.test(tenant.id, companyId, id);
+  }
+
+  @Post(':id/activate')
+  @RequireScopes(ApiKeyScope.CERTIFICATES_WRITE)
+  @ApiOperation({ summary: 'Activar ahora un certificado pendiente (requiere que pase la prueba de firma)' })
+  async activate(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('companyId') companyId: string,
+    @Param('id') id: string,
+  ) {
+    return this.certificatesService.activate(tenant.id, companyId, id);
+  }
+
+  @Delete(':id')
+  @RequireScopes(ApiKeyScope.CERTIFICATES_WRITE)
+  @ApiOperation({ summary: 'Cancelar un certificado pendiente' })
+  async cancel(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('companyId') companyId: string,
+    @Param('id') id: string,
+  ) {
+    return this.certificatesService.cancel(tenant.id, companyId, id);
+  }
 }
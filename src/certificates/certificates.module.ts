@@ -1,10 +1,15 @@
 import { Module } from '@nestjs/common';
 import { CertificatesService } from './certificates.service';
+import { CertificateValidationService } from './certificate-validation.service';
 import { CertificatesController } from './certificates.controller';
+import { SigningModule } from '../signing/signing.module';
+import { DgiiModule } from '../dgii/dgii.module';
+import { KeyManagementModule } from '../key-management/key-management.module';
 
 @Module({
+  imports: [SigningModule, DgiiModule, KeyManagementModule],
   controllers: [CertificatesController],
-  providers: [CertificatesService],
+  providers: [CertificatesService, CertificateValidationService],
   exports: [CertificatesService],
 })
 export class CertificatesModule {}
@@ -0,0 +1,211 @@
+/**
+ * Certificates Service Tests
+ *
+ * Pending certificate activation (scheduled, expiry window, manual) against
+ * a mocked Prisma client; the signing dry-run is stubbed.
+ */
+import { BadRequestException } from '@nestjs/common';
+import { Certificate, CertificateStatus, SignerBackend } from '@prisma/client';
+import { CertificatesService } from './certificates.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COMPANY_ID = '00000000-0000-0000-0000-000000000001';
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+function pending(overrides: Partial<Certificate> = {}): Certificate {
+  return {
+    id: 'cert-new',
+    tenantId: 'tenant-1',
+    companyId: COMPANY_ID,
+    encryptedP12: null,
+    encryptedPass: '',
+    fingerprint: 'f'.repeat(40),
+    issuer: 'CN=Avansi',
+    subject: 'CN=EMPRESA SRL',
+    serialNumber: '01',
+    validFrom: daysFromNow(-1),
+    validTo: daysFromNow(365),
+    isActive: false,
+    status: CertificateStatus.PENDING,
+    backend: SignerBackend.P12,
+    certificatePem: null,
+    pkcs11TokenLabel: null,
+    pkcs11KeyLabel: null,
+    keyProvider: null,
+    kmsKeyId: null,
+    keyVersion: null,
+    encryptedDataKey: null,
+    activateAt: null,
+    activateDaysBeforeExpiry: null,
+    activatedAt: null,
+    retiredAt: null,
+    replacedById: null,
+    lastTestAt: null,
+    lastTestOk: null,
+    lastTestMessage: null,
+    createdAt: daysFromNow(-2),
+    updatedAt: daysFromNow(-2),
+    ...overrides,
+  };
+}
+
+function setup(activeValidTo: Date | null = daysFromNow(60)) {
+  const tx = {
+    certificate: {
+      findFirst: jest.fn(async () => (activeValidTo ? { id: 'cert-old' } : null)),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+    },
+  };
+  const prisma = {
+    certificate: {
+      findMany: jest.fn(async (): Promise<Certificate[]> => []),
+      findFirst: jest.fn(async (): Promise<any> => (activeValidTo ? { validTo: activeValidTo } : null)),
+      findUniqueOrThrow: jest.fn(async () => ({ id: 'cert-new', status: CertificateStatus.ACTIVE })),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(async (fn: (client: typeof tx) => unknown) => fn(tx)),
+  };
+  const auditService = { record: jest.fn() };
+  const service = new CertificatesService(
+    prisma as any,
+    auditService as any,
+    {} as any, // signingService
+    {} as any, // dgiiService
+    {} as any, // keyManagement
+    {} as any, // pkcs11
+    {} as any, // certificateValidation
+  );
+  const dryRun = jest.spyOn(service as any, 'runDryRun').mockResolvedValue({
+    ok: true,
+    mode: 'self_test',
+    message: 'Semilla de prueba firmada y verificada localmente',
+    testedAt: new Date(),
+  });
+  const audited = () => auditService.record.mock.calls.map(([, , id, action, details, actor]) =>
+    ({ id, action, trigger: details.trigger, actor }));
+
+  return { tx, prisma, auditService, service, dryRun, audited };
+}
+
+describe('CertificatesService', () => {
+  describe('activateDueCertificates', () => {
+    it('activates a certificate whose activateAt has passed and retires the current one', async () => {
+      const { tx, prisma, service, audited } = setup();
+      prisma.certificate.findMany.mockResolvedValue([pending({ activateAt: daysFromNow(-0.01) })]);
+
+      await expect(service.activateDueCertificates()).resolves.toBe(1);
+
+      expect(tx.certificate.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { id: 'cert-new', status: CertificateStatus.PENDING },
+        data: { status: CertificateStatus.ACTIVE, isActive: true, activatedAt: expect.any(Date) },
+      });
+      expect(tx.certificate.updateMany).toHaveBeenNthCalledWith(2, {
+        where: { companyId: COMPANY_ID, status: CertificateStatus.ACTIVE, id: { not: 'cert-new' } },
+        data: expect.objectContaining({ status: CertificateStatus.RETIRED, replacedById: 'cert-new' }),
+      });
+      expect(audited()).toEqual([{ id: 'cert-new', action: 'activated', trigger: 'scheduled', actor: 'system' }]);
+    });
+
+    it('waits for activateAt', async () => {
+      const { prisma, service, dryRun } = setup();
+      prisma.certificate.findMany.mockResolvedValue([pending({ activateAt: daysFromNow(3) })]);
+
+      await expect(service.activateDueCertificates()).resolves.toBe(0);
+      expect(dryRun).not.toHaveBeenCalled();
+    });
+
+    it('activates within activateDaysBeforeExpiry of the active certificate expiring', async () => {
+      const { prisma, service, audited } = setup(daysFromNow(10));
+      prisma.certificate.findMany.mockResolvedValue([pending({ activateDaysBeforeExpiry: 30 })]);
+
+      await expect(service.activateDueCertificates()).resolves.toBe(1);
+      expect(audited()).toEqual([{ id: 'cert-new', action: 'activated', trigger: 'expiry_window', actor: 'system' }]);
+    });
+
+    it('waits while the active certificate is outside the window', async () => {
+      const { prisma, service, dryRun } = setup(daysFromNow(60));
+      prisma.certificate.findMany.mockResolvedValue([pending({ activateDaysBeforeExpiry: 30 })]);
+
+      await expect(service.activateDueCertificates()).resolves.toBe(0);
+      expect(dryRun).not.toHaveBeenCalled();
+    });
+
+    it('activates right away when the company has no active certificate', async () => {
+      const { prisma, service, audited } = setup(null);
+      prisma.certificate.findMany.mockResolvedValue([pending({ activateDaysBeforeExpiry: 30 })]);
+
+      await expect(service.activateDueCertificates()).resolves.toBe(1);
+      expect(audited()[0]).toMatchObject({ action: 'activated', trigger: 'expiry_window' });
+    });
+
+    it('does not activate before the certificate is valid', async () => {
+      const { prisma, service, dryRun } = setup();
+      prisma.certificate.findMany.mockResolvedValue([
+        pending({ validFrom: daysFromNow(2), activateAt: daysFromNow(-1) }),
+      ]);
+
+      await expect(service.activateDueCertificates()).resolves.toBe(0);
+      expect(dryRun).not.toHaveBeenCalled();
+    });
+
+    it('leaves the certificate pending when the dry-run fails and audits only the first failure', async () => {
+      const { tx, prisma, service, dryRun, audited } = setup();
+      dryRun.mockResolvedValue({ ok: false, mode: 'self_test', message: 'PIN incorrecto', testedAt: new Date() });
+      prisma.certificate.findMany.mockResolvedValue([
+        pending({ id: 'first', activateAt: daysFromNow(-1) }),
+        pending({ id: 'again', activateAt: daysFromNow(-1), lastTestOk: false }),
+      ]);
+
+      await expect(service.activateDueCertificates()).resolves.toBe(0);
+
+      expect(tx.certificate.updateMany).not.toHaveBeenCalled();
+      expect(audited()).toEqual([{ id: 'first', action: 'activation_failed', trigger: 'scheduled', actor: 'system' }]);
+    });
+
+    it('marks pending certificates that expired without activating as EXPIRED', async () => {
+      const { prisma, service, audited } = setup();
+      prisma.certificate.findMany.mockResolvedValue([pending({ validTo: daysFromNow(-1) })]);
+
+      await service.activateDueCertificates();
+
+      expect(prisma.certificate.update).toHaveBeenCalledWith({
+        where: { id: 'cert-new' },
+        data: { status: CertificateStatus.EXPIRED },
+      });
+      expect(audited()).toEqual([{ id: 'cert-new', action: 'expired', trigger: undefined, actor: 'system' }]);
+    });
+  });
+
+  describe('activate', () => {
+    it('activates a pending certificate on request once the dry-run passes', async () => {
+      const { prisma, service, dryRun, audited } = setup();
+      prisma.certificate.findFirst.mockResolvedValue(pending({ activateAt: daysFromNow(30) }));
+
+      await service.activate('tenant-1', COMPANY_ID, 'cert-new');
+
+      expect(dryRun).toHaveBeenCalled();
+      expect(audited()).toEqual([{ id: 'cert-new', action: 'activated', trigger: 'manual', actor: undefined }]);
+    });
+
+    it('keeps it pending when the dry-run fails', async () => {
+      const { tx, prisma, service, dryRun } = setup();
+      prisma.certificate.findFirst.mockResolvedValue(pending());
+      dryRun.mockResolvedValue({ ok: false, mode: 'self_test', message: 'PIN incorrecto', testedAt: new Date() });
+
+      await expect(service.activate('tenant-1', COMPANY_ID, 'cert-new')).rejects.toThrow(
+        new BadRequestException('La prueba de firma falló; el certificado sigue pendiente: PIN incorrecto'),
+      );
+      expect(tx.certificate.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('only activates pending certificates', async () => {
+      const { prisma, service } = setup();
+      prisma.certificate.findFirst.mockResolvedValue(pending({ status: CertificateStatus.RETIRED }));
+
+      await expect(service.activate('tenant-1', COMPANY_ID, 'cert-new')).rejects.toThrow(
+        new BadRequestException('Solo se pueden activar certificados pendientes (estado: RETIRED)'),
+      );
+    });
+  });
+});
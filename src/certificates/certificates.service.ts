@@ -2,10 +2,20 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ConflictException,
   Logger,
 } from '@nestjs/common';
+import { Certificate, CertificateStatus, Prisma, SignerBackend } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
-import { UploadCertificateDto } from './dto/certificate.dto';
+import { assertCompanyAccess } from '../common/middleware/request-context.middleware';
+import { AuditService } from '../audit/audit.service';
+import { SigningService } from '../signing/signing.service';
+import { Pkcs11Service } from '../signing/pkcs11.service';
+import { PemSigner, XmlSigner } from '../signing/signers/xml-signer';
+import { DgiiService } from '../dgii/dgii.service';
+import { KeyManagementService } from '../key-management/key-management.service';
+import { RegisterPkcs11CertificateDto, UploadCertificateDto } from './dto/certificate.dto';
+import { CertificateValidation, CertificateValidationService } from './certificate-validation.service';
 import * as crypto from 'crypto';
 
 /**
@@ -20,36 +30,79 @@ interface CertificateInfo {
   validTo: Date;
 }
 
+/** Result of signing a test seed with a certificate */
+export interface CertificateTestResult {
+  ok: boolean;
+  /** simulator = token requested from the local DGII simulator; self_test = signed and verified locally */
+  mode: 'simulator' | 'self_test';
+  message: string;
+  testedAt: Date;
+}
+
+/** Activation options shared by the .p12 upload and the PKCS#11 registration */
+type CertificateActivation = Pick<UploadCertificateDto, 'companyId' | 'activateAt' | 'activateDaysBeforeExpiry'>;
+
+/** Backend-specific columns: the encrypted .p12, or the token labels + encrypted PIN */
+type CertificateSecrets = Pick<
+  Prisma.CertificateUncheckedCreateInput,
+  'backend' | 'encryptedP12' | 'encryptedPass' | 'certificatePem' | 'pkcs11TokenLabel' | 'pkcs11KeyLabel'
+  | 'keyProvider' | 'kmsKeyId' | 'keyVersion' | 'encryptedDataKey'
+>;
+
+/** What made a pending certificate activate */
+type ActivationTrigger = 'manual' | 'scheduled' | 'expiry_window';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Metadata returned by the list/history endpoints (never the .p12) */
+const CERTIFICATE_SELECT = {
+  id: true,
+  fingerprint: true,
+  issuer: true,
+  subject: true,
+  serialNumber: true,
+  validFrom: true,
+  validTo: true,
+  isActive: true,
+  status: true,
+  backend: true,
+  pkcs11TokenLabel: true,
+  pkcs11KeyLabel: true,
+  activateAt: true,
+  activateDaysBeforeExpiry: true,
+  activatedAt: true,
+  retiredAt: true,
+  replacedById: true,
+  lastTestAt: true,
+  lastTestOk: true,
+  lastTestMessage: true,
+  createdAt: true,
+} as const;
+
 @Injectable()
 export class CertificatesService {
   private readonly logger = new Logger(CertificatesService.name);
 
-  /**
-   * Encryption key derived from JWT_SECRET for local dev.
-   * In production, this would use AWS KMS envelope encryption.
-   */
-  private readonly encryptionKey: Buffer;
-
-  constructor(private readonly prisma: PrismaService) {
-    // Derive a 256-bit key from environment secret
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      const fallback = process.env.NODE_ENV === 'production' ? null : 'dev-secret-do-not-use-in-prod';
-      if (!fallback) {
-        throw new Error('JWT_SECRET environment variable is required in production for certificate encryption');
-      }
-      this.encryptionKey = crypto.createHash('sha256').update(fallback).digest();
-    } else {
-      this.encryptionKey = crypto.createHash('sha256').update(secret).digest();
-    }
-  }
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    private readonly signingService: SigningService,
+    private readonly dgiiService: DgiiService,
+    private readonly keyManagement: KeyManagementService,
+    private readonly pkcs11: Pkcs11Service,
+    private readonly certificateValidation: CertificateValidationService,
+  ) {}
 
   /**
    * Upload and store a .p12 certificate.
-   * The certificate is encrypted at rest using AES-256-GCM.
-   * In production, AWS KMS envelope encryption would be used instead.
+   * The certificate must pass CertificateValidationService (validity, RNC,
+   * chain to a trusted CA, revocation); warnings come back in `validation`.
+   * The .p12 and passphrase are encrypted at rest (AES-256-GCM) with a
+   * per-certificate data key wrapped by the configured key provider.
    */
   async upload(tenantId: string, dto: UploadCertificateDto) {
+    assertCompanyAccess(dto.companyId);
+
     // Verify company belongs to tenant
     const company = await this.prisma.company.findFirst({
       where: { id: dto.companyId, tenantId },
@@ -75,60 +128,88 @@ export class CertificatesService {
       throw new BadRequestException('File too large (max 50KB for .p12)');
     }
 
-    // Extract certificate info
-    // Note: In production, use node-forge to properly parse the .p12
-    // For now, generate a fingerprint from the file content
-    const certInfo = this.extractCertInfo(p12Buffer, dto.passphrase);
-
-    // Encrypt the .p12 file
-    const encryptedP12 = this.encrypt(p12Buffer);
+    const { certificate, others } = this.openP12(p12Buffer, dto.passphrase);
+    const validation = await this.assertValid(tenantId, dto.companyId, company.rnc, certificate, others);
+    const certInfo = this.describeCertificate(certificate);
+
+    // Encrypt the .p12 file and passphrase under a new data key
+    const { ciphertexts: [encryptedP12, encryptedPass], envelope } = await this.keyManagement.encrypt([
+      p12Buffer,
+      Buffer.from(dto.passphrase, 'utf8'),
+    ]);
+
+    return this.store(tenantId, dto, certInfo, validation, {
+      backend: SignerBackend.P12,
+      encryptedP12,
+      encryptedPass: encryptedPass.toString('base64'),
+      ...envelope,
+    });
+  }
 
-    // Encrypt the passphrase
-    const encryptedPass = this.encryptString(dto.passphrase);
+  /**
+   * Register a certificate whose private key lives on a PKCS#11 device (HSM,
+   * SoftHSM). Only the certificate and the encrypted token PIN are stored;
+   * the certificate is read from the token when not given. A test seed is
+   * signed on the device and verified against the certificate before saving.
+   */
+  async registerPkcs11(tenantId: string, dto: RegisterPkcs11CertificateDto) {
+    assertCompanyAccess(dto.companyId);
 
-    // Deactivate previous certificates for this company
-    await this.prisma.certificate.updateMany({
-      where: { companyId: dto.companyId, tenantId, isActive: true },
-      data: { isActive: false },
+    const company = await this.prisma.company.findFirst({
+      where: { id: dto.companyId, tenantId },
     });
 
-    // Store encrypted certificate
-    const certificate = await this.prisma.certificate.create({
-      data: {
-        tenantId,
-        companyId: dto.companyId,
-        encryptedP12: encryptedP12,
-        encryptedPass: encryptedPass,
-        fingerprint: certInfo.fingerprint,
-        issuer: certInfo.issuer,
-        subject: certInfo.subject,
-        serialNumber: certInfo.serialNumber,
-        validFrom: certInfo.validFrom,
-        validTo: certInfo.validTo,
-        isActive: true,
-      },
-    });
+    if (!company) {
+      throw new NotFoundException('Company not found');
+    }
 
-    this.logger.log(
-      `Certificate uploaded for company ${dto.companyId}: ${certInfo.fingerprint}`,
-    );
+    if (!this.pkcs11.isConfigured()) {
+      throw new BadRequestException('Este servidor no tiene un módulo PKCS#11 configurado (PKCS11_MODULE)');
+    }
 
-    return {
-      id: certificate.id,
-      fingerprint: certificate.fingerprint,
-      issuer: certificate.issuer,
-      subject: certificate.subject,
-      validFrom: certificate.validFrom,
-      validTo: certificate.validTo,
-      isActive: certificate.isActive,
-      message: 'Certificado almacenado y encriptado exitosamente',
-    };
+    const key = { tokenLabel: dto.tokenLabel, keyLabel: dto.keyLabel, pin: dto.pin };
+
+    let certificatePem: string | null;
+    let cert: any;
+    try {
+      certificatePem = dto.certificatePem ?? this.pkcs11.readCertificate(key);
+      if (!certificatePem) {
+        throw new Error(`el token no tiene un certificado con la etiqueta "${dto.keyLabel}"; envíe certificatePem`);
+      }
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      cert = require('node-forge').pki.certificateFromPem(certificatePem);
+    } catch (error: any) {
+      throw new BadRequestException(`No se pudo obtener el certificado: ${error.message}`);
+    }
+
+    // The key on the token must match the certificate
+    try {
+      const { signedXml } = this.signingService.signXml(buildTestSeed(), this.pkcs11.createSigner(key, certificatePem));
+      this.signingService.verifySignedXml(signedXml);
+    } catch (error: any) {
+      throw new BadRequestException(`La prueba de firma con el token falló: ${error.message}`);
+    }
+
+    const validation = await this.assertValid(tenantId, dto.companyId, company.rnc, cert, []);
+    const certInfo = this.describeCertificate(cert);
+    const { ciphertexts: [encryptedPin], envelope } = await this.keyManagement.encrypt([Buffer.from(dto.pin, 'utf8')]);
+
+    return this.store(tenantId, dto, certInfo, validation, {
+      backend: SignerBackend.PKCS11,
+      certificatePem,
+      pkcs11TokenLabel: dto.tokenLabel,
+      pkcs11KeyLabel: dto.keyLabel,
+      encryptedPass: encryptedPin.toString('base64'),
+      ...envelope,
+    });
   }
 
   /**
    * Get active certificate for a company (metadata only)
    */
   async getActive(tenantId: string, companyId: string) {
+    assertCompanyAccess(companyId);
+
     const cert = await this.prisma.certificate.findFirst({
       where: { tenantId, companyId, isActive: true },
       select: {
@@ -140,6 +221,7 @@ export class CertificatesService {
         validFrom: true,
         validTo: true,
         isActive: true,
+        backend: true,
         createdAt: true,
       },
     });
@@ -161,33 +243,175 @@ export class CertificatesService {
   }
 
   /**
-   * List all certificates for a company
+   * List all certificates for a company, newest first: the rotation history
+   * (pending, active, retired and expired).
    */
   async findAll(tenantId: string, companyId: string) {
+    assertCompanyAccess(companyId);
+
     return this.prisma.certificate.findMany({
       where: { tenantId, companyId },
-      select: {
-        id: true,
-        fingerprint: true,
-        issuer: true,
-        subject: true,
-        validFrom: true,
-        validTo: true,
-        isActive: true,
-        createdAt: true,
-      },
+      select: CERTIFICATE_SELECT,
       orderBy: { createdAt: 'desc' },
     });
   }
 
   /**
-   * Decrypt and return the .p12 buffer + passphrase for signing.
+   * Dry-run: sign a test seed with the certificate. Against the DGII
+   * simulator when DGII_SIMULATOR_URL is set (full seed → token handshake),
+   * otherwise a local sign + verify self-test. The result is stored on the
+   * certificate.
+   */
+  async test(tenantId: string, companyId: string, certificateId: string): Promise<CertificateTestResult> {
+    const cert = await this.findOwned(tenantId, companyId, certificateId);
+    if (cert.status !== CertificateStatus.PENDING && cert.status !== CertificateStatus.ACTIVE) {
+      throw new BadRequestException(`Solo se pueden probar certificados pendientes o activos (estado: ${cert.status})`);
+    }
+
+    const result = await this.runDryRun(cert);
+    await this.auditService.record(tenantId, 'certificate', cert.id, 'tested', {
+      companyId,
+      ok: result.ok,
+      mode: result.mode,
+      message: result.message,
+    });
+    return result;
+  }
+
+  /**
+   * Activate a pending certificate now. The dry-run must pass first.
+   */
+  async activate(tenantId: string, companyId: string, certificateId: string) {
+    const cert = await this.findOwned(tenantId, companyId, certificateId);
+    if (cert.status !== CertificateStatus.PENDING) {
+      throw new BadRequestException(`Solo se pueden activar certificados pendientes (estado: ${cert.status})`);
+    }
+    if (cert.validFrom > new Date()) {
+      throw new BadRequestException(`El certificado es válido a partir de ${cert.validFrom.toISOString()}`);
+    }
+
+    const result = await this.runDryRun(cert);
+    if (!result.ok) {
+      throw new BadRequestException(`La prueba de firma falló; el certificado sigue pendiente: ${result.message}`);
+    }
+
+    await this.promote(cert, 'manual');
+    return this.prisma.certificate.findUniqueOrThrow({ where: { id: cert.id }, select: CERTIFICATE_SELECT });
+  }
+
+  /**
+   * Discard a pending certificate. It never signed anything, so it is
+   * deleted instead of retired.
+   */
+  async cancel(tenantId: string, companyId: string, certificateId: string) {
+    const cert = await this.findOwned(tenantId, companyId, certificateId);
+    if (cert.status !== CertificateStatus.PENDING) {
+      throw new BadRequestException('Solo se pueden cancelar certificados pendientes');
+    }
+
+    await this.prisma.certificate.delete({ where: { id: cert.id } });
+    await this.auditService.record(tenantId, 'certificate', cert.id, 'cancelled', {
+      companyId,
+      fingerprint: cert.fingerprint,
+    });
+
+    return { id: cert.id, message: 'Certificado pendiente cancelado' };
+  }
+
+  /**
+   * Verify a signed XML and tell which of the company's certificates
+   * (active or retired) signed it.
+   */
+  async verifySignature(tenantId: string, companyId: string, signedXml: string) {
+    assertCompanyAccess(companyId);
+
+    let certificatePem: string;
+    try {
+      ({ certificatePem } = this.signingService.verifySignedXml(signedXml));
+    } catch (error: any) {
+      return { valid: false, message: error.message, certificate: null };
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const forge = require('node-forge');
+    const fingerprint = this.fingerprintOf(forge.pki.certificateFromPem(certificatePem));
+
+    const certificate = await this.prisma.certificate.findFirst({
+      where: { tenantId, companyId, fingerprint },
+      select: { id: true, fingerprint: true, subject: true, status: true, validFrom: true, validTo: true },
+    });
+
+    return {
+      valid: true,
+      message: certificate
+        ? 'Firma válida, hecha con un certificado de la empresa'
+        : 'Firma válida, pero el certificado no pertenece a esta empresa',
+      certificate,
+    };
+  }
+
+  /**
+   * Scheduler: activate pending certificates whose trigger is due (activateAt
+   * reached, or the active certificate within activateDaysBeforeExpiry days of
+   * expiring / missing). A failed dry-run leaves the certificate pending and is
+   * retried on the next run; pending certificates that expire are marked EXPIRED.
+   */
+  async activateDueCertificates(): Promise<number> {
+    const now = new Date();
+    const pending = await this.prisma.certificate.findMany({
+      where: { status: CertificateStatus.PENDING },
+    });
+
+    let activated = 0;
+    for (const cert of pending) {
+      try {
+        if (cert.validTo <= now) {
+          await this.prisma.certificate.update({
+            where: { id: cert.id },
+            data: { status: CertificateStatus.EXPIRED },
+          });
+          await this.auditService.record(cert.tenantId, 'certificate', cert.id, 'expired', {
+            companyId: cert.companyId,
+            reason: 'Venció sin activarse',
+          }, 'system');
+          continue;
+        }
+
+        const trigger = await this.dueTrigger(cert, now);
+        if (!trigger) continue;
+
+        const result = await this.runDryRun(cert);
+        if (!result.ok) {
+          // Record the first failure only; the scheduler retries every run
+          if (cert.lastTestOk !== false) {
+            await this.auditService.record(cert.tenantId, 'certificate', cert.id, 'activation_failed', {
+              companyId: cert.companyId,
+              trigger,
+              message: result.message,
+            }, 'system');
+          }
+          this.logger.warn(`Certificate ${cert.id} not activated, dry-run failed: ${result.message}`);
+          continue;
+        }
+
+        await this.promote(cert, trigger, 'system');
+        activated++;
+      } catch (error: any) {
+        this.logger.error(`Certificate rotation failed for ${cert.id}: ${error.message}`);
+      }
+    }
+
+    if (activated > 0) this.logger.log(`Activated ${activated} pending certificate(s)`);
+    return activated;
+  }
+
+  /**
+   * Signer for the company's active certificate: the .p12 key in memory, or
+   * the HSM key for PKCS#11 certificates. With expectedRnc the certificate
+   * subject is checked against the company RNC.
    * Used internally by the signing module - never exposed to API.
    */
-  async getDecryptedCertificate(
-    tenantId: string,
-    companyId: string,
-  ): Promise<{ p12Buffer: Buffer; passphrase: string }> {
+  async getSigner(tenantId: string, companyId: string, expectedRnc?: string): Promise<XmlSigner> {
     const cert = await this.prisma.certificate.findFirst({
       where: { tenantId, companyId, isActive: true },
     });
@@ -201,10 +425,48 @@ export class CertificatesService {
       throw new BadRequestException('Certificate has expired');
     }
 
-    const p12Buffer = this.decrypt(cert.encryptedP12);
-    const passphrase = this.decryptString(cert.encryptedPass);
+    return this.signerFor(cert, expectedRnc);
+  }
+
+  /**
+   * Re-encryption job step: move up to `limit` certificates to the current
+   * master key. Rows keep working during the move because the key that
+   * wrapped them is still configured; `skipIds` are rows that already failed
+   * in this run.
+   */
+  async reencryptBatch(limit = 100, skipIds: string[] = []): Promise<{ reencrypted: number; failedIds: string[] }> {
+    const certificates = await this.prisma.certificate.findMany({
+      where: { ...this.keyManagement.staleKeyWhere(), ...(skipIds.length ? { id: { notIn: skipIds } } : {}) },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+
+    let reencrypted = 0;
+    const failedIds: string[] = [];
+    for (const cert of certificates) {
+      try {
+        // PKCS11 rows only hold the PIN
+        const { ciphertexts: [encryptedPass, encryptedP12], envelope } = await this.keyManagement.rewrap(
+          cert,
+          [Buffer.from(cert.encryptedPass, 'base64'), ...(cert.encryptedP12 ? [cert.encryptedP12] : [])],
+        );
+        await this.prisma.certificate.update({
+          where: { id: cert.id },
+          data: { encryptedPass: encryptedPass.toString('base64'), encryptedP12: encryptedP12 ?? null, ...envelope },
+        });
+        reencrypted++;
+      } catch (error: any) {
+        failedIds.push(cert.id);
+        this.logger.error(`Re-encryption failed for certificate ${cert.id}: ${error.message}`);
+      }
+    }
+
+    return { reencrypted, failedIds };
+  }
 
-    return { p12Buffer, passphrase };
+  /** Certificates not yet under the current master key */
+  async countStaleKeys(): Promise<number> {
+    return this.prisma.certificate.count({ where: this.keyManagement.staleKeyWhere() });
   }
 
   // ========================
@@ -212,10 +474,229 @@ export class CertificatesService {
   // ========================
 
   /**
-   * Extract certificate metadata from .p12 file using node-forge.
-   * Parses the PKCS#12 to get real issuer, subject, serial, and validity dates.
+   * Save a new certificate, either active (retiring the current one) or
+   * pending when an activation trigger is given.
    */
-  private extractCertInfo(p12Buffer: Buffer, passphrase: string): CertificateInfo {
+  private async store(
+    tenantId: string,
+    dto: CertificateActivation,
+    certInfo: CertificateInfo,
+    validation: CertificateValidation,
+    secrets: CertificateSecrets,
+  ) {
+    const pending = dto.activateAt !== undefined || dto.activateDaysBeforeExpiry !== undefined;
+    if (pending) {
+      await this.assertCanSchedule(tenantId, dto, certInfo);
+    }
+
+    const certificate = await this.prisma.$transaction(async (tx) => {
+      // Store encrypted certificate
+      const created = await tx.certificate.create({
+        data: {
+          tenantId,
+          companyId: dto.companyId,
+          ...secrets,
+          fingerprint: certInfo.fingerprint,
+          issuer: certInfo.issuer,
+          subject: certInfo.subject,
+          serialNumber: certInfo.serialNumber,
+          validFrom: certInfo.validFrom,
+          validTo: certInfo.validTo,
+          isActive: !pending,
+          status: pending ? CertificateStatus.PENDING : CertificateStatus.ACTIVE,
+          activateAt: dto.activateAt ? new Date(dto.activateAt) : null,
+          activateDaysBeforeExpiry: dto.activateDaysBeforeExpiry ?? null,
+          activatedAt: pending ? null : new Date(),
+        },
+      });
+
+      // Retire the previous certificate (kept to verify past signatures)
+      if (!pending) {
+        await tx.certificate.updateMany({
+          where: { companyId: dto.companyId, tenantId, status: CertificateStatus.ACTIVE, id: { not: created.id } },
+          data: { isActive: false, status: CertificateStatus.RETIRED, retiredAt: new Date(), replacedById: created.id },
+        });
+      }
+
+      return created;
+    });
+
+    await this.auditService.record(tenantId, 'certificate', certificate.id, 'uploaded', {
+      companyId: dto.companyId,
+      fingerprint: certificate.fingerprint,
+      subject: certificate.subject,
+      backend: certificate.backend,
+      validTo: certificate.validTo,
+      status: certificate.status,
+      activateAt: certificate.activateAt,
+      activateDaysBeforeExpiry: certificate.activateDaysBeforeExpiry,
+    });
+    this.logger.log(
+      `Certificate uploaded for company ${dto.companyId}: ${certInfo.fingerprint} (${certificate.backend})` +
+      (pending ? ' (pending activation)' : ''),
+    );
+
+    return {
+      id: certificate.id,
+      fingerprint: certificate.fingerprint,
+      issuer: certificate.issuer,
+      subject: certificate.subject,
+      validFrom: certificate.validFrom,
+      validTo: certificate.validTo,
+      isActive: certificate.isActive,
+      status: certificate.status,
+      backend: certificate.backend,
+      activateAt: certificate.activateAt,
+      activateDaysBeforeExpiry: certificate.activateDaysBeforeExpiry,
+      validation,
+      message: pending
+        ? 'Certificado almacenado y encriptado; queda pendiente de activación'
+        : 'Certificado almacenado y encriptado exitosamente',
+    };
+  }
+
+  private async findOwned(tenantId: string, companyId: string, certificateId: string): Promise<Certificate> {
+    assertCompanyAccess(companyId);
+
+    const cert = await this.prisma.certificate.findFirst({
+      where: { id: certificateId, tenantId, companyId },
+    });
+    if (!cert) {
+      throw new NotFoundException('Certificate not found');
+    }
+    return cert;
+  }
+
+  /**
+   * A pending certificate must outlive its activation and there can only be
+   * one pending per company.
+   */
+  private async assertCanSchedule(tenantId: string, dto: CertificateActivation, certInfo: CertificateInfo) {
+    if (certInfo.validTo <= new Date()) {
+      throw new BadRequestException('El certificado ya está vencido');
+    }
+    if (dto.activateAt && new Date(dto.activateAt) >= certInfo.validTo) {
+      throw new BadRequestException('activateAt debe ser anterior al vencimiento del certificado');
+    }
+
+    const existing = await this.prisma.certificate.findFirst({
+      where: { tenantId, companyId: dto.companyId, status: CertificateStatus.PENDING },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `La empresa ya tiene un certificado pendiente (${existing.id}). Actívelo o cancélelo antes de subir otro.`,
+      );
+    }
+  }
+
+  /** Why a pending certificate should activate now, or null if not yet */
+  private async dueTrigger(cert: Certificate, now: Date): Promise<ActivationTrigger | null> {
+    if (cert.validFrom > now) return null;
+    if (cert.activateAt && cert.activateAt <= now) return 'scheduled';
+
+    if (cert.activateDaysBeforeExpiry !== null) {
+      const active = await this.prisma.certificate.findFirst({
+        where: { companyId: cert.companyId, status: CertificateStatus.ACTIVE },
+        select: { validTo: true },
+      });
+      if (!active || active.validTo.getTime() - now.getTime() <= cert.activateDaysBeforeExpiry * DAY_MS) {
+        return 'expiry_window';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Make a pending certificate the active one and retire the current one.
+   */
+  private async promote(cert: Certificate, trigger: ActivationTrigger, actor?: string) {
+    const now = new Date();
+
+    const previous = await this.prisma.$transaction(async (tx) => {
+      const current = await tx.certificate.findFirst({
+        where: { companyId: cert.companyId, status: CertificateStatus.ACTIVE },
+        select: { id: true },
+      });
+
+      const claimed = await tx.certificate.updateMany({
+        where: { id: cert.id, status: CertificateStatus.PENDING },
+        data: { status: CertificateStatus.ACTIVE, isActive: true, activatedAt: now },
+      });
+      if (claimed.count === 0) {
+        throw new ConflictException('El certificado ya no está pendiente');
+      }
+
+      await tx.certificate.updateMany({
+        where: { companyId: cert.companyId, status: CertificateStatus.ACTIVE, id: { not: cert.id } },
+        data: { isActive: false, status: CertificateStatus.RETIRED, retiredAt: now, replacedById: cert.id },
+      });
+
+      return current;
+    });
+
+    await this.auditService.record(cert.tenantId, 'certificate', cert.id, 'activated', {
+      companyId: cert.companyId,
+      fingerprint: cert.fingerprint,
+      trigger,
+      previousCertificateId: previous?.id ?? null,
+    }, actor);
+    this.logger.log(`Certificate ${cert.fingerprint} activated for company ${cert.companyId} (${trigger})`);
+  }
+
+  private async runDryRun(cert: Certificate): Promise<CertificateTestResult> {
+    const company = await this.prisma.company.findUniqueOrThrow({
+      where: { id: cert.companyId },
+      select: { rnc: true, dgiiEnv: true },
+    });
+
+    const mode = this.dgiiService.usesSimulator() ? 'simulator' : 'self_test';
+    let ok = true;
+    let message: string;
+
+    try {
+      const signer = await this.signerFor(cert, company.rnc);
+
+      if (mode === 'simulator') {
+        await this.dgiiService.requestToken(signer, company.dgiiEnv);
+        message = 'Semilla firmada y aceptada por el simulador DGII';
+      } else {
+        const { signedXml } = this.signingService.signXml(buildTestSeed(), signer);
+        this.signingService.verifySignedXml(signedXml);
+        message = 'Semilla de prueba firmada y verificada localmente';
+      }
+    } catch (error: any) {
+      ok = false;
+      message = error.message;
+    }
+
+    const testedAt = new Date();
+    await this.prisma.certificate.update({
+      where: { id: cert.id },
+      data: { lastTestAt: testedAt, lastTestOk: ok, lastTestMessage: message.substring(0, 500) },
+    });
+
+    return { ok, mode, message, testedAt };
+  }
+
+  /** SHA-256 of the DER certificate (first 40 hex chars) */
+  private fingerprintOf(cert: any): string {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const forge = require('node-forge');
+    return forge.md.sha256
+      .create()
+      .update(forge.asn1.toDer(forge.pki.certificateToAsn1(cert)).getBytes())
+      .digest()
+      .toHex()
+      .substring(0, 40);
+  }
+
+  /**
+   * Open the .p12 with node-forge: the certificate that matches the private
+   * key, plus any other certificates in it (intermediate CAs).
+   */
+  private openP12(p12Buffer: Buffer, passphrase: string): { certificate: any; others: any[] } {
     // eslint-disable-next-line @typescript-eslint/no-var-requires
     const forge = require('node-forge');
 
@@ -237,8 +718,6 @@ export class CertificatesService {
       throw new BadRequestException('El archivo .p12 no contiene un certificado válido');
     }
 
-    const cert = certBag[0].cert;
-
     // Verify private key exists
     const keyBags = p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag });
     const keyBag = keyBags[forge.pki.oids.pkcs8ShroudedKeyBag];
@@ -247,13 +726,44 @@ export class CertificatesService {
       throw new BadRequestException('El archivo .p12 no contiene una llave privada');
     }
 
-    // Extract real metadata
-    const fingerprint = forge.md.sha256
-      .create()
-      .update(forge.asn1.toDer(forge.pki.certificateToAsn1(cert)).getBytes())
-      .digest()
-      .toHex()
-      .substring(0, 40);
+    const certs = certBag.map((bag: any) => bag.cert);
+    const key = keyBag[0].key;
+    const certificate = certs.find((c: any) => key?.n && c.publicKey?.n?.equals(key.n)) ?? certs[0];
+
+    return { certificate, others: certs.filter((c: any) => c !== certificate) };
+  }
+
+  /**
+   * Run the upload checks; errors reject the certificate (400 with the
+   * issues in `details`) and are audited.
+   */
+  private async assertValid(
+    tenantId: string,
+    companyId: string,
+    rnc: string,
+    certificate: any,
+    intermediates: any[],
+  ): Promise<CertificateValidation> {
+    const validation = await this.certificateValidation.validate(certificate, intermediates, rnc);
+    if (validation.valid) return validation;
+
+    const errors = validation.issues.filter((i) => i.level === 'ERROR');
+    // Never stored, so there is no certificate id to audit against
+    await this.auditService.record(tenantId, 'company', companyId, 'certificate_rejected', {
+      fingerprint: this.fingerprintOf(certificate),
+      subject: validation.chain[0],
+      issues: errors,
+    });
+    throw new BadRequestException({
+      message: `El certificado no pasó la validación: ${errors.map((i) => i.message).join('; ')}`,
+      error: 'Certificado inválido',
+      details: validation.issues,
+    });
+  }
+
+  /** Metadata of a node-forge certificate */
+  private describeCertificate(cert: any): CertificateInfo {
+    const fingerprint = this.fingerprintOf(cert);
 
     const getAttr = (attrs: any[], shortName: string): string => {
       const attr = attrs.find((a: any) => a.shortName === shortName);
@@ -290,47 +800,38 @@ export class CertificatesService {
     };
   }
 
-  /**
-   * Encrypt binary data with AES-256-GCM
-   */
-  private encrypt(data: Buffer): Buffer {
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
-    const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
-    const authTag = cipher.getAuthTag();
-
-    // Format: iv (16) + authTag (16) + encrypted data
-    return Buffer.concat([iv, authTag, encrypted]);
-  }
-
-  /**
-   * Decrypt binary data with AES-256-GCM
-   */
-  private decrypt(encryptedData: Buffer): Buffer {
-    const iv = encryptedData.subarray(0, 16);
-    const authTag = encryptedData.subarray(16, 32);
-    const data = encryptedData.subarray(32);
-
-    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
-    decipher.setAuthTag(authTag);
-
-    return Buffer.concat([decipher.update(data), decipher.final()]);
-  }
+  private async signerFor(cert: Certificate, expectedRnc?: string): Promise<XmlSigner> {
+    if (cert.backend === SignerBackend.PKCS11) {
+      const [pin] = await this.keyManagement.decrypt([Buffer.from(cert.encryptedPass, 'base64')], cert);
+      if (expectedRnc) {
+        this.signingService.validateCertificatePemRnc(cert.certificatePem!, expectedRnc);
+      }
+      return this.pkcs11.createSigner(
+        { tokenLabel: cert.pkcs11TokenLabel!, keyLabel: cert.pkcs11KeyLabel!, pin: pin.toString('utf8') },
+        cert.certificatePem!,
+      );
+    }
 
-  /**
-   * Encrypt a string and return base64
-   */
-  private encryptString(text: string): string {
-    const encrypted = this.encrypt(Buffer.from(text, 'utf8'));
-    return encrypted.toString('base64');
+    const [passphrase, p12Buffer] = await this.keyManagement.decrypt(
+      [Buffer.from(cert.encryptedPass, 'base64'), cert.encryptedP12!],
+      cert,
+    );
+    const { privateKey, certificate } = this.signingService.extractFromP12(
+      p12Buffer,
+      passphrase.toString('utf8'),
+      expectedRnc,
+    );
+    return new PemSigner(privateKey, certificate);
   }
+}
 
-  /**
-   * Decrypt a base64 string
-   */
-  private decryptString(encryptedBase64: string): string {
-    const encrypted = Buffer.from(encryptedBase64, 'base64');
-    const decrypted = this.decrypt(encrypted);
-    return decrypted.toString('utf8');
-  }
+/** Seed in the DGII SemillaModel format, for the local self-test */
+function buildTestSeed(): string {
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<SemillaModel xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema">',
+    `<valor>${crypto.randomBytes(32).toString('base64')}</valor>`,
+    `<fecha>${new Date().toISOString()}</fecha>`,
+    '</SemillaModel>',
+  ].join('');
 }
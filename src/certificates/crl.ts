@@ -0,0 +1,111 @@
+import * as crypto from 'crypto';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const forge = require('node-forge');
+
+/**
+ * Minimal X.509 CRL reader (RFC 5280 §5). node-forge parses certificates but
+ * not CRLs, so the CertificateList is walked with forge.asn1 and the
+ * signature checked with Node's crypto (RSA or ECDSA issuers).
+ */
+export interface Crl {
+  thisUpdate: Date;
+  nextUpdate: Date | null;
+  /** Revoked serial numbers, lowercase hex without leading zeros */
+  revokedSerials: Set<string>;
+  tbsDer: Buffer;
+  signature: Buffer;
+  /** Node hash name for the signature algorithm, null if unsupported */
+  hash: string | null;
+}
+
+const SIGNATURE_HASHES: Record<string, string> = {
+  '1.2.840.113549.1.1.5': 'sha1', // sha1WithRSAEncryption
+  '1.2.840.113549.1.1.11': 'sha256', // sha256WithRSAEncryption
+  '1.2.840.113549.1.1.12': 'sha384',
+  '1.2.840.113549.1.1.13': 'sha512',
+  '1.2.840.10045.4.3.2': 'sha256', // ecdsa-with-SHA256
+  '1.2.840.10045.4.3.3': 'sha384',
+  '1.2.840.10045.4.3.4': 'sha512',
+};
+
+/** Parse a CRL in DER or PEM ("-----BEGIN X509 CRL-----") */
+export function parseCrl(data: Buffer): Crl {
+  const pem = data.toString('latin1').match(/-----BEGIN X509 CRL-----([\s\S]+?)-----END X509 CRL-----/);
+  const der = pem ? Buffer.from(pem[1].replace(/\s/g, ''), 'base64') : data;
+
+  // decodeBitStrings: false keeps the signature bytes as-is
+  const asn1 = forge.asn1.fromDer(forge.util.createBuffer(der.toString('binary')), { decodeBitStrings: false });
+  const [tbs, signatureAlgorithm, signatureValue] = asn1.value;
+  const fields: any[] = tbs.value;
+  const { Class, Type } = forge.asn1;
+  const isUniversal = (node: any, type: number) => node && node.tagClass === Class.UNIVERSAL && node.type === type;
+  const isTime = (node: any) => isUniversal(node, Type.UTCTIME) || isUniversal(node, Type.GENERALIZEDTIME);
+  const toDate = (node: any): Date =>
+    node.type === Type.UTCTIME ? forge.asn1.utcTimeToDate(node.value) : forge.asn1.generalizedTimeToDate(node.value);
+
+  // version? signature issuer thisUpdate nextUpdate? revokedCertificates? crlExtensions?
+  let i = isUniversal(fields[0], Type.INTEGER) ? 1 : 0; // version
+  i += 2; // signature, issuer
+  const thisUpdate = toDate(fields[i++]);
+  const nextUpdate = isTime(fields[i]) ? toDate(fields[i++]) : null;
+
+  const revokedSerials = new Set<string>();
+  if (isUniversal(fields[i], Type.SEQUENCE)) {
+    for (const entry of fields[i].value) {
+      revokedSerials.add(normalizeSerial(forge.util.bytesToHex(entry.value[0].value)));
+    }
+  }
+
+  return {
+    thisUpdate,
+    nextUpdate,
+    revokedSerials,
+    tbsDer: Buffer.from(forge.asn1.toDer(tbs).getBytes(), 'binary'),
+    // First byte of a BIT STRING is the unused-bits count
+    signature: Buffer.from(signatureValue.value.substring(1), 'binary'),
+    hash: SIGNATURE_HASHES[forge.asn1.derToOid(signatureAlgorithm.value[0].value)] ?? null,
+  };
+}
+
+/** Whether the CRL was signed by this CA certificate (node-forge) */
+export function crlSignedBy(crl: Crl, issuer: any): boolean {
+  if (!crl.hash) return false;
+  try {
+    const publicKey = crypto.createPublicKey(forge.pki.certificateToPem(issuer));
+    return crypto.verify(crl.hash, crl.tbsDer, publicKey, crl.signature);
+  } catch {
+    return false;
+  }
+}
+
+export function isRevoked(crl: Crl, cert: any): boolean {
+  return crl.revokedSerials.has(normalizeSerial(cert.serialNumber));
+}
+
+/** HTTP(S) URLs from the certificate's CRL Distribution Points extension */
+export function crlDistributionPoints(cert: any): string[] {
+  const extension = cert.getExtension({ id: '2.5.29.31' });
+  if (!extension?.value) return [];
+
+  const urls: string[] = [];
+  const walk = (node: any) => {
+    // GeneralName uniformResourceIdentifier is [6] IA5String
+    if (node.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && node.type === 6 && !node.constructed) {
+      urls.push(node.value);
+    } else if (Array.isArray(node.value)) {
+      node.value.forEach(walk);
+    }
+  };
+  try {
+    // DER when parsed, an ASN.1 node on certificates built with node-forge
+    walk(typeof extension.value === 'string' ? forge.asn1.fromDer(extension.value) : extension.value);
+  } catch {
+    return [];
+  }
+  return urls.filter((url) => /^https?:\/\//i.test(url));
+}
+
+function normalizeSerial(hex: string): string {
+  return hex.toLowerCase().replace(/^0+(?=.)/, '');
+}
@@ -1,5 +1,5 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { IsString, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsInt, IsOptional, IsString, Max, MaxLength, Min, MinLength } from 'class-validator';
 
 export class UploadCertificateDto {
   @ApiProperty({
@@ -22,4 +22,85 @@ export class UploadCertificateDto {
   @IsString()
   @MinLength(1)
   passphrase: string;
+
+  @ApiPropertyOptional({
+    description: 'Guardar como pendiente y activarlo en esta fecha (ISO 8601). Sin activateAt ni '
+      + 'activateDaysBeforeExpiry el certificado se activa de inmediato',
+    example: '2026-11-01T04:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  activateAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Guardar como pendiente y activarlo cuando al certificado activo le queden estos días de vigencia',
+    example: 15,
+    minimum: 1,
+    maximum: 90,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  activateDaysBeforeExpiry?: number;
+}
+
+export class VerifySignatureDto {
+  @ApiProperty({ description: 'XML firmado (e-CF, ARECF, ACECF...) a verificar' })
+  @IsString()
+  @MinLength(1)
+  signedXml: string;
+}
+
+export class RegisterPkcs11CertificateDto {
+  @ApiProperty({
+    description: 'ID de la empresa a la que pertenece el certificado',
+    example: 'uuid-de-la-empresa',
+  })
+  @IsString()
+  companyId: string;
+
+  @ApiProperty({ description: 'Etiqueta del token PKCS#11 (HSM) donde está la llave', example: 'ecf-empresa' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(32)
+  tokenLabel: string;
+
+  @ApiProperty({ description: 'Etiqueta (CKA_LABEL) de la llave privada en el token', example: 'firma-ecf' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  keyLabel: string;
+
+  @ApiProperty({ description: 'PIN de usuario del token', example: '123456' })
+  @IsString()
+  @MinLength(1)
+  pin: string;
+
+  @ApiPropertyOptional({
+    description: 'Certificado X.509 en PEM. Si se omite se lee del token (objeto certificado con la misma etiqueta)',
+  })
+  @IsOptional()
+  @IsString()
+  certificatePem?: string;
+
+  @ApiPropertyOptional({
+    description: 'Guardar como pendiente y activarlo en esta fecha (ISO 8601)',
+    example: '2026-11-01T04:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  activateAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Guardar como pendiente y activarlo cuando al certificado activo le queden estos días de vigencia',
+    example: 15,
+    minimum: 1,
+    maximum: 90,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  activateDaysBeforeExpiry?: number;
 }
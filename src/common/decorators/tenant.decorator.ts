@@ -1,4 +1,5 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
 
 /**
  * Extract the current tenant from the request.
@@ -25,5 +26,19 @@ export interface RequestTenant {
   plan: string;
   isLive: boolean;
   scopes: string[];
-  apiKeyId: string;
+  authType: 'jwt' | 'apikey';
+  /** Set for API key auth */
+  apiKeyId?: string;
+  /** Companies the API key is bound to (empty = all) */
+  companyIds?: string[];
+  /** Set for dashboard (JWT) auth */
+  userId?: string;
+  role?: UserRole;
+  /** `user:<email>` or `api_key:<prefix>`, as recorded in AuditLog.actor */
+  actor: string;
+  /**
+   * PLATFORM parent when acting on a child tenant via X-Tenant-Id; `id` and
+   * `plan` are then the child's, actor and scopes the parent caller's.
+   */
+  actingTenantId?: string;
 }
@@ -20,6 +20,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
     let status: number;
     let message: string | string[];
     let error: string;
+    let details: unknown;
 
     if (exception instanceof HttpException) {
       status = exception.getStatus();
@@ -29,6 +30,8 @@ export class HttpExceptionFilter implements ExceptionFilter {
         const resp = exceptionResponse as any;
         message = resp.message || exception.message;
         error = resp.error || 'Error';
+        // Structured detail some endpoints attach (e.g. certificate upload issues)
+        details = resp.details;
       } else {
         message = exception.message;
         error = 'Error';
@@ -56,6 +59,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
         message,
         timestamp: new Date().toISOString(),
         path: request.url,
+        ...(details !== undefined && { details }),
       },
     };
 
@@ -0,0 +1,189 @@
+/**
+ * API Key Guard Tests
+ *
+ * Request context filled in by the guard (API key mode, X-Tenant-Id
+ * delegation) and the test vs live rule it feeds, with a mocked Prisma
+ * client and real bcrypt hashes.
+ */
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { DgiiEnvironment, Plan } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+import {
+  RequestContext,
+  assertDgiiEnvironmentAccess,
+  getRequestContext,
+  runWithRequestContext,
+} from '../middleware/request-context.middleware';
+import { ApiKeyGuard } from './api-key.guard';
+
+const TEST_KEY = 'frd_test_abcdefgh12345678';
+const LIVE_KEY = 'frd_live_abcdefgh12345678';
+const CHILD_ID = '6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b';
+
+function setup(plan: Plan = Plan.STARTER, companyIds: string[] = []) {
+  const prisma = {
+    apiKey: {
+      findFirst: jest.fn(async ({ where }: any) => ({
+        id: 'key-1',
+        tenantId: 'tenant-1',
+        keyPrefix: where.keyPrefix,
+        keyHash: where.keyPrefix.startsWith('frd_live') ? liveHash : testHash,
+        scopes: [],
+        companyIds,
+        allowedCidrs: [],
+        expiresAt: null,
+        tenant: { isActive: true, plan },
+      })),
+      update: jest.fn(async () => ({})),
+    },
+    user: {
+      findFirst: jest.fn(async () => ({
+        id: 'user-1',
+        email: 'owner@example.do',
+        role: 'OWNER',
+        isActive: true,
+        tenant: { id: 'tenant-1', plan: Plan.STARTER, isActive: true },
+      })),
+    },
+    tenant: {
+      findFirst: jest.fn(async ({ where }: any): Promise<any> =>
+        where.id === CHILD_ID && where.parentTenantId === 'tenant-1'
+          ? { id: CHILD_ID, plan: Plan.BUSINESS, isActive: true }
+          : null,
+      ),
+    },
+  };
+  const authService = { verifyJwt: jest.fn(() => ({ sub: 'user-1', tenantId: 'tenant-1' })) };
+  const guard = new ApiKeyGuard(prisma as any, new Reflector(), authService as any);
+
+  /** Run the guard for a request and return what it left in the request context */
+  async function authenticate(token: string, headers: Record<string, string> = {}) {
+    const request = { headers: { authorization: `Bearer ${token}`, ...headers }, query: {}, ip: '127.0.0.1' };
+    const context = {
+      switchToHttp: () => ({ getRequest: () => request }),
+      getHandler: () => authenticate,
+      getClass: () => ApiKeyGuard,
+    } as unknown as ExecutionContext;
+
+    return runWithRequestContext({}, async () => {
+      await guard.canActivate(context);
+      return { request: request as any, context: getRequestContext() as RequestContext };
+    });
+  }
+
+  return { prisma, authenticate };
+}
+
+let testHash: string;
+let liveHash: string;
+
+beforeAll(async () => {
+  [testHash, liveHash] = await Promise.all([bcrypt.hash(TEST_KEY, 4), bcrypt.hash(LIVE_KEY, 4)]);
+});
+
+describe('ApiKeyGuard', () => {
+  it('records the API key mode in the request context', async () => {
+    const { authenticate } = setup();
+
+    expect((await authenticate(TEST_KEY)).context).toMatchObject({ isLive: false, actor: 'api_key:frd_test_abcdefgh' });
+    expect((await authenticate(LIVE_KEY)).context).toMatchObject({ isLive: true, actor: 'api_key:frd_live_abcdefgh' });
+  });
+
+  it('leaves the mode unset for dashboard users', async () => {
+    const { authenticate } = setup();
+
+    const { context } = await authenticate('header.payload.signature');
+
+    expect(context.actor).toBe('user:owner@example.do');
+    expect(context.isLive).toBeUndefined();
+  });
+});
+
+describe('ApiKeyGuard X-Tenant-Id', () => {
+  it('runs a PLATFORM request as the child tenant and records the parent', async () => {
+    const { authenticate } = setup(Plan.PLATFORM);
+
+    const { request, context } = await authenticate(LIVE_KEY, { 'x-tenant-id': CHILD_ID });
+
+    expect(request.tenant).toMatchObject({
+      id: CHILD_ID,
+      plan: Plan.BUSINESS,
+      actingTenantId: 'tenant-1',
+      actor: 'api_key:frd_live_abcdefgh',
+      isLive: true,
+    });
+    expect(context).toMatchObject({ actingTenantId: 'tenant-1', actor: 'api_key:frd_live_abcdefgh', isLive: true });
+  });
+
+  it('only lets PLATFORM tenants act on other accounts', async () => {
+    const { authenticate } = setup(Plan.BUSINESS);
+
+    await expect(authenticate(LIVE_KEY, { 'x-tenant-id': CHILD_ID })).rejects.toThrow(
+      new ForbiddenException('X-Tenant-Id solo está disponible para el plan PLATFORM'),
+    );
+  });
+
+  it('rejects accounts that are not its children, without querying malformed ids', async () => {
+    const { prisma, authenticate } = setup(Plan.PLATFORM);
+
+    await expect(authenticate(LIVE_KEY, { 'x-tenant-id': '0b7e4d2c-1a9f-4c3e-9d8b-7a6f5e4d3c2b' }))
+      .rejects.toBeInstanceOf(ForbiddenException);
+    await expect(authenticate(LIVE_KEY, { 'x-tenant-id': 'not-a-uuid' })).rejects.toBeInstanceOf(ForbiddenException);
+    expect(prisma.tenant.findFirst).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects suspended child accounts', async () => {
+    const { prisma, authenticate } = setup(Plan.PLATFORM);
+    prisma.tenant.findFirst.mockResolvedValue({ id: CHILD_ID, plan: Plan.BUSINESS, isActive: false });
+
+    await expect(authenticate(LIVE_KEY, { 'x-tenant-id': CHILD_ID })).rejects.toThrow(
+      new ForbiddenException(`La cuenta ${CHILD_ID} está suspendida`),
+    );
+  });
+
+  it('does not let a company-restricted key act on other accounts', async () => {
+    const { authenticate } = setup(Plan.PLATFORM, ['company-1']);
+
+    await expect(authenticate(LIVE_KEY, { 'x-tenant-id': CHILD_ID })).rejects.toThrow(
+      new ForbiddenException('Una API key restringida a empresas no puede operar otras cuentas'),
+    );
+  });
+});
+
+describe('assertDgiiEnvironmentAccess', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  const inContext = (context: RequestContext, dgiiEnv: DgiiEnvironment) =>
+    runWithRequestContext(context, async () => assertDgiiEnvironmentAccess(dgiiEnv));
+
+  it('keeps test keys out of PROD companies', async () => {
+    delete process.env.DGII_SIMULATOR_URL;
+
+    await expect(inContext({ isLive: false }, DgiiEnvironment.PROD)).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(inContext({ isLive: false }, DgiiEnvironment.CERT)).resolves.toBeUndefined();
+    await expect(inContext({ isLive: false }, DgiiEnvironment.DEV)).resolves.toBeUndefined();
+  });
+
+  it('lets live keys, dashboard users and background jobs reach PROD', async () => {
+    delete process.env.DGII_SIMULATOR_URL;
+
+    await expect(inContext({ isLive: true }, DgiiEnvironment.PROD)).resolves.toBeUndefined();
+    await expect(inContext({ actor: 'user:owner@example.do' }, DgiiEnvironment.PROD)).resolves.toBeUndefined();
+    expect(() => assertDgiiEnvironmentAccess(DgiiEnvironment.PROD)).not.toThrow();
+  });
+
+  it('lets test keys reach PROD companies sandboxed to the simulator, except in production', async () => {
+    process.env.DGII_SIMULATOR_URL = 'http://localhost:3000/api/v1/dgii-simulator';
+
+    process.env.NODE_ENV = 'development';
+    await expect(inContext({ isLive: false }, DgiiEnvironment.PROD)).resolves.toBeUndefined();
+
+    process.env.NODE_ENV = 'production';
+    await expect(inContext({ isLive: false }, DgiiEnvironment.PROD)).rejects.toBeInstanceOf(ForbiddenException);
+  });
+});
@@ -3,13 +3,19 @@ import {
   CanActivate,
   ExecutionContext,
   UnauthorizedException,
+  ForbiddenException,
   Logger,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { PrismaService } from '../../prisma/prisma.service';
 import { AuthService } from '../../auth/auth.service';
 import { SCOPES_KEY } from '../decorators/scopes.decorator';
-import { ApiKeyScope } from '@prisma/client';
+import { RequestTenant } from '../decorators/tenant.decorator';
+import { getRequestContext } from '../middleware/request-context.middleware';
+import { ROLE_SCOPES, hasScopes } from '../../users/user-roles';
+import { isIpAllowed } from '../../auth/ip-allowlist';
+import { ApiKeyScope, Plan } from '@prisma/client';
+import { isUUID } from 'class-validator';
 import * as bcrypt from 'bcrypt';
 
 @Injectable()
@@ -48,44 +54,108 @@ export class ApiKeyGuard implements CanActivate {
     // Detect if it's a JWT or API key
     // JWT tokens have 3 parts separated by dots (header.payload.signature)
     // API keys have format: frd_live_xxx or frd_test_xxx
-    if (token.includes('.') && token.split('.').length === 3) {
-      return this.validateJwt(token, request);
-    } else {
-      return this.validateApiKey(token, request, context);
+    const tenant = token.includes('.') && token.split('.').length === 3
+      ? await this.validateJwt(token)
+      : await this.validateApiKey(token, request.ip);
+
+    // Check required scopes (users get the scopes of their role)
+    const requiredScopes = this.reflector.getAllAndOverride<ApiKeyScope[]>(
+      SCOPES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (requiredScopes && requiredScopes.length > 0
+      && !hasScopes(tenant.scopes as ApiKeyScope[], requiredScopes)) {
+      throw new UnauthorizedException(
+        `Insufficient permissions. Required: ${requiredScopes.join(', ')}`,
+      );
+    }
+
+    // PLATFORM tenants may act on one of their client accounts
+    const onBehalfOf = request.headers['x-tenant-id'];
+    const effective = onBehalfOf ? await this.actAsChild(tenant, String(onBehalfOf)) : tenant;
+
+    request.tenant = effective;
+
+    const requestContext = getRequestContext();
+    if (requestContext) {
+      requestContext.actor = effective.actor;
+      requestContext.companyIds = effective.companyIds;
+      requestContext.actingTenantId = effective.actingTenantId;
+      if (effective.authType === 'apikey') requestContext.isLive = effective.isLive;
+    }
+
+    return true;
+  }
+
+  /**
+   * X-Tenant-Id: run the request as a child tenant of the authenticated
+   * PLATFORM tenant. The caller keeps its scopes and actor; the parent is
+   * recorded as the acting tenant in audit entries.
+   */
+  private async actAsChild(caller: RequestTenant, childId: string): Promise<RequestTenant> {
+    if (caller.plan !== Plan.PLATFORM) {
+      throw new ForbiddenException('X-Tenant-Id solo está disponible para el plan PLATFORM');
+    }
+    if (caller.companyIds?.length) {
+      throw new ForbiddenException('Una API key restringida a empresas no puede operar otras cuentas');
     }
+
+    const child = isUUID(childId)
+      ? await this.prisma.tenant.findFirst({
+        where: { id: childId, parentTenantId: caller.id },
+        select: { id: true, plan: true, isActive: true },
+      })
+      : null;
+
+    if (!child) {
+      throw new ForbiddenException(`La cuenta ${childId} no pertenece a este tenant`);
+    }
+    if (!child.isActive) {
+      throw new ForbiddenException(`La cuenta ${childId} está suspendida`);
+    }
+
+    return { ...caller, id: child.id, plan: child.plan, companyIds: undefined, actingTenantId: caller.id };
   }
 
   /**
-   * Validate JWT token (dashboard login)
+   * Validate JWT token (dashboard login). The token identifies a user;
+   * their role decides the scopes.
    */
-  private async validateJwt(token: string, request: any): Promise<boolean> {
+  private async validateJwt(token: string): Promise<RequestTenant> {
     const payload = this.authService.verifyJwt(token);
 
-    const tenant = await this.prisma.tenant.findUnique({
-      where: { id: payload.sub },
-      select: { id: true, plan: true, isActive: true },
+    // Tokens issued before multi-user accounts carry only the tenant id
+    if (!payload.tenantId) {
+      throw new UnauthorizedException('Sesión expirada. Inicie sesión de nuevo.');
+    }
+
+    const user = await this.prisma.user.findFirst({
+      where: { id: payload.sub, tenantId: payload.tenantId },
+      include: { tenant: { select: { id: true, plan: true, isActive: true } } },
     });
 
-    if (!tenant || !tenant.isActive) {
+    if (!user || !user.isActive || !user.tenant.isActive) {
       throw new UnauthorizedException('Cuenta inactiva o no encontrada');
     }
 
-    // Attach tenant info — JWT users get FULL_ACCESS
-    request.tenant = {
-      id: tenant.id,
-      plan: tenant.plan,
+    return {
+      id: user.tenant.id,
+      plan: user.tenant.plan,
       isLive: false,
-      scopes: [ApiKeyScope.FULL_ACCESS],
+      scopes: ROLE_SCOPES[user.role],
       authType: 'jwt',
+      userId: user.id,
+      role: user.role,
+      actor: `user:${user.email}`.substring(0, 100),
     };
-
-    return true;
   }
 
   /**
-   * Validate API key (programmatic access)
+   * Validate API key (programmatic access), including its IP allowlist.
+   * The company restriction is enforced by the services through the request context.
    */
-  private async validateApiKey(apiKey: string, request: any, context: ExecutionContext): Promise<boolean> {
+  private async validateApiKey(apiKey: string, clientIp?: string): Promise<RequestTenant> {
     // Validate API key format: frd_live_xxx or frd_test_xxx
     const keyParts = apiKey.split('_');
     if (keyParts.length < 3) {
@@ -126,23 +196,9 @@ export class ApiKeyGuard implements CanActivate {
       throw new UnauthorizedException('Tenant account is inactive');
     }
 
-    // Check required scopes
-    const requiredScopes = this.reflector.getAllAndOverride<ApiKeyScope[]>(
-      SCOPES_KEY,
-      [context.getHandler(), context.getClass()],
-    );
-
-    if (requiredScopes && requiredScopes.length > 0) {
-      const hasFullAccess = apiKeyRecord.scopes.includes(ApiKeyScope.FULL_ACCESS);
-      const hasRequiredScopes = hasFullAccess || requiredScopes.every(
-        (scope) => apiKeyRecord.scopes.includes(scope),
-      );
-
-      if (!hasRequiredScopes) {
-        throw new UnauthorizedException(
-          `Insufficient permissions. Required: ${requiredScopes.join(', ')}`,
-        );
-      }
+    if (!isIpAllowed(clientIp, apiKeyRecord.allowedCidrs)) {
+      this.logger.warn(`API key ${apiKeyRecord.keyPrefix} used from non-allowed IP ${clientIp}`);
+      throw new ForbiddenException(`IP ${clientIp ?? 'desconocida'} no permitida para esta API key`);
     }
 
     // Update last used
@@ -153,16 +209,15 @@ export class ApiKeyGuard implements CanActivate {
       })
       .catch((err) => this.logger.warn(`Failed to update lastUsedAt: ${err.message}`));
 
-    // Attach tenant info to request
-    request.tenant = {
+    return {
       id: apiKeyRecord.tenantId,
       plan: apiKeyRecord.tenant.plan,
       isLive,
       scopes: apiKeyRecord.scopes,
       apiKeyId: apiKeyRecord.id,
+      companyIds: apiKeyRecord.companyIds,
       authType: 'apikey',
+      actor: `api_key:${apiKeyRecord.keyPrefix}`,
     };
-
-    return true;
   }
 }
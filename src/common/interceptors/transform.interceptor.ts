@@ -3,6 +3,7 @@ import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
+  StreamableFile,
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
@@ -23,6 +24,11 @@ export class TransformInterceptor<T>
   ): Observable<ApiResponse<T>> {
     return next.handle().pipe(
       map((data) => {
+        // File downloads are sent as-is
+        if (data instanceof StreamableFile) {
+          return data;
+        }
+
         // If response already has success field, pass through
         if (data && typeof data === 'object' && 'success' in data) {
           return data;
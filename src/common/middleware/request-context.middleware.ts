@@ -0,0 +1,96 @@
+import { ForbiddenException, Injectable, NestMiddleware } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { DgiiEnvironment } from '@prisma/client';
+import { NextFunction, Request, Response } from 'express';
+import { dgiiSimulatorUrl } from '../../config/configuration';
+
+/**
+ * Per-request context, readable anywhere down the call chain without
+ * threading it through every service method. The ApiKeyGuard fills it in
+ * once the caller is authenticated.
+ */
+export interface RequestContext {
+  /** Who is acting: `user:<email>`, `api_key:<prefix>` (stored in AuditLog.actor) */
+  actor?: string;
+  /** Companies an API key is bound to; empty or unset = every company of the tenant */
+  companyIds?: string[];
+  /** API key mode (frd_live_ vs frd_test_); unset for dashboard users and background jobs */
+  isLive?: boolean;
+  /** PLATFORM parent acting on a child tenant's behalf (stored in AuditLog.actingTenantId) */
+  actingTenantId?: string;
+  /** Client IP (honours TRUST_PROXY), stored in AuditLog.ipAddress */
+  ipAddress?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+@Injectable()
+export class RequestContextMiddleware implements NestMiddleware {
+  use(req: Request, _res: Response, next: NextFunction) {
+    storage.run({ ipAddress: req.ip }, next);
+  }
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Run queued work under the context of the request that queued it, so API
+ * key restrictions and the audit actor still apply in the worker.
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run({ ...context }, fn);
+}
+
+/**
+ * Actor for audit entries: the authenticated caller, or `system` outside a
+ * request (queue workers, scheduler).
+ */
+export function getRequestActor(): string {
+  return storage.getStore()?.actor ?? 'system';
+}
+
+/**
+ * PLATFORM tenant acting through X-Tenant-Id, recorded next to the actor in
+ * audit entries. Unset when tenants act on their own account.
+ */
+export function getRequestActingTenantId(): string | undefined {
+  return storage.getStore()?.actingTenantId;
+}
+
+/**
+ * Reject access to a company outside the caller's API key restriction.
+ * No-op outside a request (queue workers, scheduler) and for unrestricted callers.
+ */
+export function assertCompanyAccess(companyId: string): void {
+  const companyIds = storage.getStore()?.companyIds;
+  if (companyIds?.length && !companyIds.includes(companyId)) {
+    throw new ForbiddenException(`La API key no tiene acceso a la empresa ${companyId}`);
+  }
+}
+
+/**
+ * Prisma filter limiting company-owned rows (invoices, documents...) to the
+ * caller's companies. Spread into a where clause next to tenantId.
+ */
+export function companyScopeWhere(): { companyId?: { in: string[] } } {
+  const companyIds = storage.getStore()?.companyIds;
+  return companyIds?.length ? { companyId: { in: companyIds } } : {};
+}
+
+/**
+ * Test keys (frd_test_) only reach DEV/CERT companies; anything fiscal in PROD
+ * needs a live key. Allowed when DGII_SIMULATOR_URL routes every environment
+ * to the local simulator, since nothing reaches DGII then (never in
+ * production, where the variable is ignored). Dashboard users and background
+ * jobs are not restricted.
+ */
+export function assertDgiiEnvironmentAccess(dgiiEnv: DgiiEnvironment): void {
+  if (storage.getStore()?.isLive === false && dgiiEnv === DgiiEnvironment.PROD
+    && !dgiiSimulatorUrl()) {
+    throw new ForbiddenException(
+      'Las API keys de prueba (frd_test_) no pueden operar empresas en el ambiente PROD. Use una API key live.',
+    );
+  }
+}
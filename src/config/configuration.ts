@@ -1,3 +1,12 @@
+/**
+ * DGII_SIMULATOR_URL, ignored in production: it reroutes every environment
+ * (PROD included) away from the DGII. Shared with code that reads it outside
+ * ConfigService (assertDgiiEnvironmentAccess).
+ */
+export function dgiiSimulatorUrl(): string {
+  return process.env.NODE_ENV === 'production' ? '' : process.env.DGII_SIMULATOR_URL || '';
+}
+
 export default () => ({
   port: parseInt(process.env.PORT || '3000', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -39,11 +48,46 @@ export default () => ({
       CERT: 'https://fc.dgii.gov.do/certecf',
       PROD: 'https://fc.dgii.gov.do',
     },
+    // Local simulator (src/dgii-simulator): when set, every environment is routed here.
+    // Never in production
+    simulatorUrl: dgiiSimulatorUrl(),
+  },
+
+  // Plan quota overrides (src/usage/plan-limits.ts), JSON: {"STARTER":{"invoices":1000}}
+  usage: {
+    planLimits: process.env.PLAN_LIMITS || '',
+  },
+
+  webhooks: {
+    // Consecutive failed attempts that disable a subscription without its own failureThreshold
+    autoDisableThreshold: parseInt(process.env.WEBHOOK_AUTO_DISABLE_THRESHOLD || '25', 10),
+    secretKey: process.env.WEBHOOK_SECRET_KEY || '', // base64, 32 bytes; encrypts signing secrets at rest
+  },
+
+  // Envelope encryption of certificates (src/key-management)
+  keyManagement: {
+    provider: process.env.KEY_PROVIDER || 'local', // local | keyring | aws-kms
+    localMasterKey: process.env.LOCAL_MASTER_KEY || '', // base64, 32 bytes; default derived from JWT_SECRET
+    keyringFile: process.env.KEYRING_FILE || '',
+  },
+
+  // Upload checks (src/certificates/certificate-validation.service.ts)
+  certificates: {
+    trustedCaPath: process.env.CERT_TRUSTED_CA_PATH || '', // PEM bundle or directory of CA certificates
+    crlPath: process.env.CERT_CRL_PATH || '', // CRL file or directory (.crl, DER or PEM)
+    crlFetch: process.env.CERT_CRL_FETCH === 'true', // download CRLs from the certificate's distribution points
+    crlCacheHours: parseInt(process.env.CERT_CRL_CACHE_HOURS || '12', 10),
+  },
+
+  signing: {
+    pkcs11Module: process.env.PKCS11_MODULE || '', // e.g. /usr/lib/softhsm/libsofthsm2.so; empty = no HSM signing
   },
 
   aws: {
     region: process.env.AWS_REGION || 'us-east-1',
     kmsKeyId: process.env.AWS_KMS_KEY_ID || '',
+    // KMS-compatible endpoint (LocalStack, local-kms); default is the AWS regional endpoint
+    kmsEndpoint: process.env.AWS_KMS_ENDPOINT || '',
     s3Bucket: process.env.AWS_S3_BUCKET || '',
   },
 });
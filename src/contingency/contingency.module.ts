@@ -4,9 +4,10 @@ import { ContingencyController } from './contingency.controller';
 import { SigningModule } from '../signing/signing.module';
 import { DgiiModule } from '../dgii/dgii.module';
 import { CertificatesModule } from '../certificates/certificates.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 
 @Module({
-  imports: [SigningModule, DgiiModule, CertificatesModule],
+  imports: [SigningModule, DgiiModule, CertificatesModule, WebhooksModule],
   controllers: [ContingencyController],
   providers: [ContingencyService],
   exports: [ContingencyService],
@@ -4,7 +4,9 @@ import { InvoiceStatus } from '@prisma/client';
 import { SigningService } from '../signing/signing.service';
 import { DgiiService } from '../dgii/dgii.service';
 import { CertificatesService } from '../certificates/certificates.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
 import { DGII_STATUS, FC_FULL_SUBMISSION_THRESHOLD } from '../xml-builder/ecf-types';
+import { assertInvoiceEnvironment } from '../dgii/dgii-environment';
 
 /**
  * Contingency Module
@@ -22,6 +24,7 @@ export class ContingencyService {
     private readonly signingService: SigningService,
     private readonly dgiiService: DgiiService,
     private readonly certificatesService: CertificatesService,
+    private readonly webhooksService: WebhooksService,
   ) {}
 
   /**
@@ -153,13 +156,10 @@ export class ContingencyService {
     // Quick DGII health check before processing batch
     try {
       const testInvoice = pending[0];
-      const { p12Buffer, passphrase } = await this.certificatesService.getDecryptedCertificate(
-        testInvoice.tenantId, testInvoice.companyId,
-      );
-      const { privateKey, certificate } = this.signingService.extractFromP12(p12Buffer, passphrase);
+      const signer = await this.certificatesService.getSigner(testInvoice.tenantId, testInvoice.companyId);
       await this.dgiiService.getToken(
         testInvoice.tenantId, testInvoice.companyId,
-        privateKey, certificate, testInvoice.company.dgiiEnv,
+        signer, testInvoice.company.dgiiEnv,
       );
     } catch (error: any) {
       this.logger.warn(`DGII still unavailable, skipping contingency processing: ${error.message}`);
@@ -190,24 +190,23 @@ export class ContingencyService {
           continue;
         }
 
+        assertInvoiceEnvironment(invoice, invoice.company);
+
         // 1. Get certificate
-        const { p12Buffer, passphrase } = await this.certificatesService.getDecryptedCertificate(
-          invoice.tenantId, invoice.companyId,
-        );
-        const { privateKey, certificate } = this.signingService.extractFromP12(p12Buffer, passphrase);
+        const signer = await this.certificatesService.getSigner(invoice.tenantId, invoice.companyId);
 
         // 2. Sign the stored unsigned XML
         if (!invoice.xmlUnsigned) {
           throw new Error('No unsigned XML stored for invoice');
         }
         const { signedXml, securityCode } = this.signingService.signXml(
-          invoice.xmlUnsigned, privateKey, certificate,
+          invoice.xmlUnsigned, signer,
         );
 
         // 3. Authenticate with DGII
         const token = await this.dgiiService.getToken(
           invoice.tenantId, invoice.companyId,
-          privateKey, certificate, invoice.company.dgiiEnv,
+          signer, invoice.company.dgiiEnv,
         );
 
         // 4. Submit to DGII
@@ -234,7 +233,7 @@ export class ContingencyService {
           : result.status === DGII_STATUS.CONDITIONAL ? InvoiceStatus.CONDITIONAL
           : InvoiceStatus.PROCESSING;
 
-        await this.prisma.invoice.update({
+        const updated = await this.prisma.invoice.update({
           where: { id: invoice.id },
           data: {
             status: newStatus,
@@ -248,6 +247,7 @@ export class ContingencyService {
         });
 
         this.logger.log(`Contingency resubmit OK: ${invoice.encf} → ${newStatus}`);
+        await this.webhooksService.dispatchInvoiceStatus(updated, invoice.status);
         processed++;
       } catch (error: any) {
         this.logger.error(`Contingency resubmit FAILED: ${invoice.encf} — ${error.message}`);
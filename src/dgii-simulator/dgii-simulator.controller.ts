@@ -0,0 +1,318 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Headers,
+  Res,
+  UploadedFile,
+  UseInterceptors,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiExcludeEndpoint } from '@nestjs/swagger';
+import { Response } from 'express';
+import { DgiiSimulatorService } from './dgii-simulator.service';
+import {
+  SimulatedService,
+  SimulatedFailureDto,
+  SetSimulatedResultDto,
+  UpdateSimulatorConfigDto,
+} from './dto/simulator.dto';
+
+interface UploadedXml {
+  buffer: Buffer;
+  originalname: string;
+}
+
+/**
+ * DGII Simulator Controller
+ *
+ * Mirrors the DGII paths ({servicio}/api/...) so DgiiService only needs its
+ * base URL pointed here (DGII_SIMULATOR_URL=http://localhost:3000/api/v1/dgii-simulator).
+ * DGII-facing routes write raw responses (bypassing TransformInterceptor) so
+ * the payloads match what DgiiService parses from the real services.
+ *
+ * Control routes under _control/ configure results and scripted failures.
+ */
+@ApiTags('dgii-simulator')
+@Controller('dgii-simulator')
+export class DgiiSimulatorController {
+  constructor(private readonly simulator: DgiiSimulatorService) {}
+
+  // ============================================================
+  // CONTROL
+  // ============================================================
+
+  @Get('_control/config')
+  @ApiOperation({ summary: 'Ver configuración del simulador DGII' })
+  getConfig() {
+    return this.simulator.getConfig();
+  }
+
+  @Put('_control/config')
+  @ApiOperation({ summary: 'Configurar resultados del simulador DGII' })
+  updateConfig(@Body() dto: UpdateSimulatorConfigDto) {
+    return this.simulator.updateConfig(dto);
+  }
+
+  @Get('_control/failures')
+  @ApiOperation({ summary: 'Listar fallas programadas' })
+  listFailures() {
+    return this.simulator.listFailures();
+  }
+
+  @Post('_control/failures')
+  @ApiOperation({
+    summary: 'Programar falla',
+    description: 'Las próximas N llamadas al servicio indicado fallarán (HTTP 500/503 o conexión cerrada).',
+  })
+  scriptFailure(@Body() dto: SimulatedFailureDto) {
+    return this.simulator.scriptFailure(dto);
+  }
+
+  @Delete('_control/failures')
+  @ApiOperation({ summary: 'Eliminar fallas programadas' })
+  clearFailures() {
+    return this.simulator.clearFailures();
+  }
+
+  @Get('_control/submissions')
+  @ApiOperation({ summary: 'Listar documentos recibidos por el simulador' })
+  listSubmissions() {
+    return this.simulator.listSubmissions();
+  }
+
+  @Post('_control/submissions/:trackId/result')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Forzar resultado de un TrackId' })
+  setSubmissionResult(@Param('trackId') trackId: string, @Body() dto: SetSimulatedResultDto) {
+    return this.simulator.setSubmissionResult(trackId, dto.result);
+  }
+
+  @Post('_control/reset')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reiniciar estado del simulador' })
+  reset() {
+    return this.simulator.reset();
+  }
+
+  // ============================================================
+  // AUTHENTICATION
+  // ============================================================
+
+  @Get('autenticacion/api/autenticacion/semilla')
+  @ApiExcludeEndpoint()
+  async semilla(@Res() res: Response) {
+    await this.respond(res, 'SEED', () => {
+      res.type('application/xml').send(this.simulator.issueSeed());
+    });
+  }
+
+  @Post('autenticacion/api/autenticacion/validarsemilla')
+  @UseInterceptors(FileInterceptor('xml'))
+  @ApiExcludeEndpoint()
+  async validarSemilla(
+    @UploadedFile() file: UploadedXml | undefined,
+    @Body() body: any,
+    @Res() res: Response,
+  ) {
+    await this.respond(res, 'VALIDATE_SEED', () => {
+      const result = this.simulator.validateSeed(this.readXml(file, body));
+      if ('error' in result) {
+        res.status(HttpStatus.BAD_REQUEST).json({ mensaje: result.error });
+        return;
+      }
+      res.json(result);
+    });
+  }
+
+  // ============================================================
+  // RECEPTION
+  // ============================================================
+
+  @Post('recepcion/api/facturaselectronicas')
+  @UseInterceptors(FileInterceptor('xml'))
+  @ApiExcludeEndpoint()
+  async recepcion(
+    @UploadedFile() file: UploadedXml | undefined,
+    @Body() body: any,
+    @Headers('authorization') authorization: string,
+    @Res() res: Response,
+  ) {
+    await this.respondAuthenticated(res, 'SEND_ECF', authorization, () => {
+      res.json(this.simulator.receiveEcf(this.readXml(file, body), file?.originalname || 'ecf.xml'));
+    });
+  }
+
+  @Post('recepcionfc/api/recepcion/ecf')
+  @UseInterceptors(FileInterceptor('xml'))
+  @ApiExcludeEndpoint()
+  async recepcionFc(
+    @UploadedFile() file: UploadedXml | undefined,
+    @Body() body: any,
+    @Headers('authorization') authorization: string,
+    @Res() res: Response,
+  ) {
+    await this.respondAuthenticated(res, 'FC_RECEIVE', authorization, () => {
+      res.json(this.simulator.receiveRfce(this.readXml(file, body), file?.originalname || 'rfce.xml'));
+    });
+  }
+
+  @Post('anulacionrangos/api/operaciones/anularrango')
+  @UseInterceptors(FileInterceptor('xml'))
+  @ApiExcludeEndpoint()
+  async anularRango(@Headers('authorization') authorization: string, @Res() res: Response) {
+    await this.respondAuthenticated(res, 'VOID', authorization, () => {
+      res.json({ codigo: 1, mensaje: 'Rango anulado por el simulador DGII' });
+    });
+  }
+
+  @Post('aprobacioncomercial/api/aprobacioncomercial')
+  @UseInterceptors(FileInterceptor('xml'))
+  @ApiExcludeEndpoint()
+  async aprobacionComercial(@Headers('authorization') authorization: string, @Res() res: Response) {
+    await this.respondAuthenticated(res, 'COMMERCIAL_APPROVAL', authorization, () => {
+      res.json({ codigo: 1, mensaje: 'Aprobación comercial recibida por el simulador DGII' });
+    });
+  }
+
+  // ============================================================
+  // QUERIES
+  // ============================================================
+
+  @Get('consultaresultado/api/consultas/estado')
+  @ApiExcludeEndpoint()
+  async consultaResultado(
+    @Query('trackid') trackId: string,
+    @Headers('authorization') authorization: string,
+    @Res() res: Response,
+  ) {
+    await this.respondAuthenticated(res, 'QUERY_RESULT', authorization, () => {
+      res.json(this.simulator.queryResult(trackId));
+    });
+  }
+
+  @Get('consultaestado/api/consultas/estado')
+  @ApiExcludeEndpoint()
+  async consultaEstado(
+    @Query('rncemisor') rncEmisor: string,
+    @Query('ncfelectronico') encf: string,
+    @Headers('authorization') authorization: string,
+    @Res() res: Response,
+  ) {
+    await this.respondAuthenticated(res, 'QUERY_STATE', authorization, () => {
+      res.json(this.simulator.queryState(rncEmisor, encf));
+    });
+  }
+
+  @Get('consultatrackids/api/trackids/consulta')
+  @ApiExcludeEndpoint()
+  async consultaTrackIds(
+    @Query('rncemisor') rncEmisor: string,
+    @Query('encf') encf: string,
+    @Headers('authorization') authorization: string,
+    @Res() res: Response,
+  ) {
+    await this.respondAuthenticated(res, 'QUERY_TRACKIDS', authorization, () => {
+      res.json(this.simulator.queryTrackIds(rncEmisor, encf));
+    });
+  }
+
+  @Get('consultarfce/api/Consultas/Consulta')
+  @ApiExcludeEndpoint()
+  async consultaRfce(
+    @Query('RNC_Emisor') rncEmisor: string,
+    @Query('ENCF') encf: string,
+    @Headers('authorization') authorization: string,
+    @Res() res: Response,
+  ) {
+    await this.respondAuthenticated(res, 'FC_QUERY', authorization, () => {
+      res.json(this.simulator.queryRfce(rncEmisor, encf));
+    });
+  }
+
+  @Get('consultadirectorio/api/consultas/listado')
+  @ApiExcludeEndpoint()
+  async directorio(@Headers('authorization') authorization: string, @Res() res: Response) {
+    await this.respondAuthenticated(res, 'DIRECTORY', authorization, () => {
+      res.json(this.simulator.directory());
+    });
+  }
+
+  @Get('consultadirectorio/api/consultas/obtenerdirectorioporrnc')
+  @ApiExcludeEndpoint()
+  async directorioPorRnc(
+    @Query('RNC') rnc: string,
+    @Headers('authorization') authorization: string,
+    @Res() res: Response,
+  ) {
+    await this.respondAuthenticated(res, 'DIRECTORY', authorization, () => {
+      res.json(this.simulator.directory(rnc));
+    });
+  }
+
+  @Get('estatusservicios/api/estatusservicios/obtenerestatus')
+  @ApiExcludeEndpoint()
+  async estatusServicios(@Res() res: Response) {
+    await this.respond(res, 'STATUS', () => {
+      res.json(this.simulator.serviceStatus());
+    });
+  }
+
+  // ============================================================
+  // PRIVATE HELPERS
+  // ============================================================
+
+  /**
+   * Apply a scripted failure for the service (if any), otherwise run the handler.
+   */
+  private async respond(res: Response, service: SimulatedService, handler: () => void) {
+    const failure = this.simulator.takeFailure(service);
+
+    if (!failure) {
+      handler();
+      return;
+    }
+
+    if (failure.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, failure.delayMs));
+    }
+
+    switch (failure.mode) {
+      case 'DROP_CONNECTION':
+        res.socket?.destroy();
+        return;
+      case 'HTTP_503':
+        res.status(HttpStatus.SERVICE_UNAVAILABLE).send('Servicio no disponible (simulado)');
+        return;
+      default:
+        res.status(HttpStatus.INTERNAL_SERVER_ERROR).send('Error interno (simulado)');
+    }
+  }
+
+  private async respondAuthenticated(
+    res: Response,
+    service: SimulatedService,
+    authorization: string | undefined,
+    handler: () => void,
+  ) {
+    await this.respond(res, service, () => {
+      if (!this.simulator.isValidToken(authorization)) {
+        res.status(HttpStatus.UNAUTHORIZED).send('Token inválido o expirado');
+        return;
+      }
+      handler();
+    });
+  }
+
+  private readXml(file: UploadedXml | undefined, body: any): string {
+    if (file?.buffer) return file.buffer.toString('utf-8');
+    return typeof body === 'string' ? body : body?.xml || '';
+  }
+}
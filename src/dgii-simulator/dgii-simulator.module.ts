@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { DgiiSimulatorService } from './dgii-simulator.service';
+import { DgiiSimulatorController } from './dgii-simulator.controller';
+import { SigningModule } from '../signing/signing.module';
+
+/**
+ * Local DGII simulator for offline development and integration tests.
+ *
+ * Only loaded when DGII_SIMULATOR_ENABLED=true and NODE_ENV !== 'production'
+ * (see AppModule). Point DgiiService at it with DGII_SIMULATOR_URL.
+ */
+@Module({
+  imports: [SigningModule],
+  controllers: [DgiiSimulatorController],
+  providers: [DgiiSimulatorService],
+})
+export class DgiiSimulatorModule {}
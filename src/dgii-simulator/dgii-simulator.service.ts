@@ -0,0 +1,350 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { SigningService } from '../signing/signing.service';
+import { DGII_STATUS } from '../xml-builder/ecf-types';
+import {
+  SimulatedResult,
+  SimulatedService,
+  SimulatedFailureDto,
+  UpdateSimulatorConfigDto,
+} from './dto/simulator.dto';
+
+export interface SimulatorConfig {
+  /** Result returned for any eNCF without an explicit override */
+  defaultResult: SimulatedResult;
+  /** Number of status queries answered "En Proceso" before the final result */
+  pendingPolls: number;
+  /** Per-eNCF result overrides, e.g. { E310000000005: 'REJECTED' } */
+  resultsByEncf: Record<string, SimulatedResult>;
+  /** RNC → receptor base URL, served by the directory endpoints */
+  directory: Record<string, string>;
+  tokenTtlSeconds: number;
+}
+
+export interface SimulatedSubmission {
+  trackId: string;
+  service: SimulatedService;
+  rnc: string | null;
+  encf: string | null;
+  fileName: string;
+  result: SimulatedResult;
+  polls: number;
+  receivedAt: Date;
+}
+
+interface ScriptedFailure extends SimulatedFailureDto {
+  remaining: number;
+}
+
+const RESULT_CODES: Record<SimulatedResult, number> = {
+  ACCEPTED: DGII_STATUS.ACCEPTED,
+  REJECTED: DGII_STATUS.REJECTED,
+  IN_PROCESS: DGII_STATUS.IN_PROCESS,
+  CONDITIONAL: DGII_STATUS.CONDITIONAL,
+};
+
+const RESULT_LABELS: Record<SimulatedResult, string> = {
+  ACCEPTED: 'Aceptado',
+  REJECTED: 'Rechazado',
+  IN_PROCESS: 'En Proceso',
+  CONDITIONAL: 'Aceptado Condicional',
+};
+
+const DEFAULT_CONFIG: SimulatorConfig = {
+  defaultResult: 'ACCEPTED',
+  pendingPolls: 0,
+  resultsByEncf: {},
+  directory: {},
+  tokenTtlSeconds: 3600,
+};
+
+/**
+ * DGII Simulator
+ *
+ * In-memory stand-in for the DGII web services, used for offline development
+ * and integration tests. Never enabled in production (see DgiiSimulatorModule).
+ *
+ * - Issues seeds and verifies the signed seed before handing out a token
+ * - Assigns TrackIds and answers status queries with a configurable result
+ * - Can "hold" documents in En Proceso for N polls
+ * - Scripted failures (HTTP 500/503, dropped connection) per service, to
+ *   exercise CONTINGENCY and retry paths
+ */
+@Injectable()
+export class DgiiSimulatorService {
+  private readonly logger = new Logger(DgiiSimulatorService.name);
+
+  private config: SimulatorConfig = { ...DEFAULT_CONFIG };
+  private readonly seeds = new Map<string, Date>();
+  private readonly tokens = new Map<string, Date>();
+  private readonly submissions = new Map<string, SimulatedSubmission>();
+  private failures: ScriptedFailure[] = [];
+
+  constructor(private readonly signingService: SigningService) {}
+
+  // ============================================================
+  // CONTROL
+  // ============================================================
+
+  getConfig(): SimulatorConfig {
+    return this.config;
+  }
+
+  updateConfig(dto: UpdateSimulatorConfigDto): SimulatorConfig {
+    this.config = {
+      ...this.config,
+      ...Object.fromEntries(Object.entries(dto).filter(([, v]) => v !== undefined)),
+    };
+    this.logger.log(`Simulator config updated: default=${this.config.defaultResult}, pendingPolls=${this.config.pendingPolls}`);
+    return this.config;
+  }
+
+  scriptFailure(dto: SimulatedFailureDto) {
+    this.failures.push({ ...dto, remaining: dto.times ?? 1 });
+    this.logger.log(`Scripted failure: ${dto.service} → ${dto.mode} x${dto.times ?? 1}`);
+    return this.listFailures();
+  }
+
+  listFailures() {
+    return this.failures.map(({ remaining, ...f }) => ({ ...f, remaining }));
+  }
+
+  clearFailures() {
+    this.failures = [];
+    return { cleared: true };
+  }
+
+  /**
+   * Consume the next scripted failure for a service, if any.
+   */
+  takeFailure(service: SimulatedService): SimulatedFailureDto | null {
+    const failure = this.failures.find((f) => f.service === service && f.remaining > 0);
+    if (!failure) return null;
+
+    failure.remaining--;
+    this.failures = this.failures.filter((f) => f.remaining > 0);
+    return failure;
+  }
+
+  listSubmissions(): SimulatedSubmission[] {
+    return Array.from(this.submissions.values())
+      .sort((a, b) => b.receivedAt.getTime() - a.receivedAt.getTime());
+  }
+
+  setSubmissionResult(trackId: string, result: SimulatedResult): SimulatedSubmission {
+    const submission = this.submissions.get(trackId);
+    if (!submission) throw new NotFoundException(`TrackId ${trackId} no existe en el simulador`);
+
+    submission.result = result;
+    submission.polls = this.config.pendingPolls;
+    return submission;
+  }
+
+  reset() {
+    this.config = { ...DEFAULT_CONFIG };
+    this.seeds.clear();
+    this.tokens.clear();
+    this.submissions.clear();
+    this.failures = [];
+    return { reset: true };
+  }
+
+  // ============================================================
+  // AUTHENTICATION
+  // ============================================================
+
+  issueSeed(): string {
+    const valor = crypto.randomBytes(32).toString('base64');
+    const fecha = new Date();
+    this.seeds.set(valor, fecha);
+
+    return [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<SemillaModel xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema">',
+      `<valor>${valor}</valor>`,
+      `<fecha>${fecha.toISOString()}</fecha>`,
+      '</SemillaModel>',
+    ].join('');
+  }
+
+  /**
+   * Verify a signed seed and issue a token.
+   * Returns an error (→ HTTP 400) when the seed is unknown or the signature is invalid.
+   */
+  validateSeed(signedXml: string): { token: string; expira: string; expedido: string } | { error: string } {
+    const valorMatch = signedXml.match(/<valor>([\s\S]*?)<\/valor>/);
+    const valor = valorMatch?.[1]?.trim();
+
+    if (!valor || !this.seeds.has(valor)) {
+      return { error: 'Semilla no emitida por el simulador o ya utilizada' };
+    }
+
+    try {
+      this.signingService.verifySignedXml(signedXml);
+    } catch (error: any) {
+      return { error: `Firma digital inválida: ${error.message}` };
+    }
+
+    this.seeds.delete(valor);
+
+    const token = crypto.randomBytes(48).toString('base64url');
+    const expedido = new Date();
+    const expira = new Date(expedido.getTime() + this.config.tokenTtlSeconds * 1000);
+    this.tokens.set(token, expira);
+
+    return { token, expira: expira.toISOString(), expedido: expedido.toISOString() };
+  }
+
+  isValidToken(authorization?: string): boolean {
+    const token = authorization?.replace(/^bearer\s+/i, '').trim();
+    if (!token) return false;
+
+    const expira = this.tokens.get(token);
+    return !!expira && expira > new Date();
+  }
+
+  // ============================================================
+  // RECEPTION
+  // ============================================================
+
+  receiveEcf(xml: string, fileName: string) {
+    const submission = this.record('SEND_ECF', xml, fileName);
+    return {
+      trackId: submission.trackId,
+      error: null,
+      mensaje: 'Documento recibido por el simulador DGII',
+    };
+  }
+
+  /**
+   * RFCE is answered synchronously (no TrackId), so IN_PROCESS is reported
+   * as ACCEPTED — the FC service never leaves a summary pending.
+   */
+  receiveRfce(xml: string, fileName: string) {
+    const submission = this.record('FC_RECEIVE', xml, fileName);
+    const result = submission.result === 'IN_PROCESS' ? 'ACCEPTED' : submission.result;
+
+    return {
+      codigo: RESULT_CODES[result],
+      estado: RESULT_LABELS[result],
+      mensajes: this.messagesFor(result),
+      encf: submission.encf,
+      secuenciaUtilizada: result !== 'REJECTED',
+    };
+  }
+
+  // ============================================================
+  // QUERIES
+  // ============================================================
+
+  /**
+   * Consulta Resultado. `estado` is numeric because that is what
+   * DgiiService.parseStatusResponse reads.
+   */
+  queryResult(trackId: string) {
+    const submission = this.submissions.get(trackId);
+    if (!submission) {
+      return {
+        trackId,
+        estado: DGII_STATUS.NOT_FOUND,
+        mensaje: 'TrackId no encontrado',
+      };
+    }
+
+    let result = submission.result;
+    if (submission.polls > 0) {
+      submission.polls--;
+      result = 'IN_PROCESS';
+    }
+
+    return {
+      trackId,
+      codigo: RESULT_CODES[result],
+      estado: RESULT_CODES[result],
+      mensaje: RESULT_LABELS[result],
+      rnc: submission.rnc,
+      encf: submission.encf,
+      secuenciaUtilizada: result !== 'REJECTED',
+      fechaRecepcion: submission.receivedAt.toISOString(),
+      mensajes: this.messagesFor(result),
+    };
+  }
+
+  queryState(rncEmisor: string, encf: string) {
+    const submission = this.listSubmissions().find((s) => s.encf === encf && s.rnc === rncEmisor);
+    if (!submission) {
+      return { estado: DGII_STATUS.NOT_FOUND, mensaje: 'e-CF no encontrado' };
+    }
+    return { estado: RESULT_CODES[submission.result], mensaje: RESULT_LABELS[submission.result] };
+  }
+
+  queryTrackIds(rncEmisor: string, encf: string) {
+    return this.listSubmissions()
+      .filter((s) => s.encf === encf && s.rnc === rncEmisor && s.service === 'SEND_ECF')
+      .map((s) => ({
+        trackId: s.trackId,
+        estado: RESULT_LABELS[s.result],
+        fechaRecepcion: s.receivedAt.toISOString(),
+      }));
+  }
+
+  queryRfce(rncEmisor: string, encf: string) {
+    const submission = this.listSubmissions()
+      .find((s) => s.encf === encf && s.rnc === rncEmisor && s.service === 'FC_RECEIVE');
+    if (!submission) {
+      return { codigo: DGII_STATUS.NOT_FOUND, estado: 'No encontrado', encf };
+    }
+    return { codigo: RESULT_CODES[submission.result], estado: RESULT_LABELS[submission.result], encf };
+  }
+
+  directory(rnc?: string) {
+    const entries = Object.entries(this.config.directory)
+      .filter(([entryRnc]) => !rnc || entryRnc === rnc)
+      .map(([entryRnc, url]) => ({
+        rnc: entryRnc,
+        nombre: `Contribuyente simulado ${entryRnc}`,
+        urlRecepcion: url,
+        urlAceptacion: url,
+      }));
+    return entries;
+  }
+
+  serviceStatus() {
+    return ['Autenticación', 'Recepción', 'Consulta Resultado', 'Recepción FC', 'Aprobación Comercial']
+      .map((servicio) => ({ servicio, estatus: 'Disponible', ambiente: 'Simulador' }));
+  }
+
+  // ============================================================
+  // PRIVATE HELPERS
+  // ============================================================
+
+  private record(service: SimulatedService, xml: string, fileName: string): SimulatedSubmission {
+    const encf = xml.match(/<eNCF>([\s\S]*?)<\/eNCF>/)?.[1]?.trim() || null;
+    const rnc = xml.match(/<RNCEmisor>([\s\S]*?)<\/RNCEmisor>/)?.[1]?.trim() || null;
+
+    const submission: SimulatedSubmission = {
+      trackId: crypto.randomUUID(),
+      service,
+      rnc,
+      encf,
+      fileName,
+      result: (encf && this.config.resultsByEncf[encf]) || this.config.defaultResult,
+      polls: this.config.pendingPolls,
+      receivedAt: new Date(),
+    };
+
+    this.submissions.set(submission.trackId, submission);
+    this.logger.log(`[${service}] ${encf || fileName} → ${submission.result} (TrackId ${submission.trackId})`);
+    return submission;
+  }
+
+  private messagesFor(result: SimulatedResult) {
+    if (result === 'REJECTED') {
+      return [{ codigo: 1, valor: 'Rechazado por el simulador DGII' }];
+    }
+    if (result === 'CONDITIONAL') {
+      return [{ codigo: 2, valor: 'Aceptado condicional por el simulador DGII' }];
+    }
+    return [];
+  }
+}
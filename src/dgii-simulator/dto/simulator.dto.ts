@@ -0,0 +1,102 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsInt,
+  IsObject,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+
+export const SIMULATED_RESULTS = ['ACCEPTED', 'REJECTED', 'CONDITIONAL', 'IN_PROCESS'] as const;
+export type SimulatedResult = (typeof SIMULATED_RESULTS)[number];
+
+export const SIMULATED_SERVICES = [
+  'SEED',
+  'VALIDATE_SEED',
+  'SEND_ECF',
+  'FC_RECEIVE',
+  'QUERY_RESULT',
+  'QUERY_STATE',
+  'QUERY_TRACKIDS',
+  'FC_QUERY',
+  'VOID',
+  'COMMERCIAL_APPROVAL',
+  'DIRECTORY',
+  'STATUS',
+] as const;
+export type SimulatedService = (typeof SIMULATED_SERVICES)[number];
+
+/**
+ * HTTP_500 / HTTP_503: DGII answers with an error status.
+ * DROP_CONNECTION: the socket is closed without a response — DgiiService
+ * sees a network error and the invoice goes to CONTINGENCY.
+ */
+export const SIMULATED_FAILURE_MODES = ['HTTP_500', 'HTTP_503', 'DROP_CONNECTION'] as const;
+export type SimulatedFailureMode = (typeof SIMULATED_FAILURE_MODES)[number];
+
+export class UpdateSimulatorConfigDto {
+  @ApiPropertyOptional({ enum: SIMULATED_RESULTS, description: 'Resultado por defecto de cada e-CF recibido' })
+  @IsOptional()
+  @IsIn(SIMULATED_RESULTS)
+  defaultResult?: SimulatedResult;
+
+  @ApiPropertyOptional({ description: 'Consultas que responden "En Proceso" antes del resultado final', example: 2 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(50)
+  pendingPolls?: number;
+
+  @ApiPropertyOptional({
+    description: 'Resultado por eNCF (sobrescribe defaultResult)',
+    example: { E310000000005: 'REJECTED' },
+  })
+  @IsOptional()
+  @IsObject()
+  resultsByEncf?: Record<string, SimulatedResult>;
+
+  @ApiPropertyOptional({
+    description: 'Directorio simulado: RNC → URL de recepción',
+    example: { '131793916': 'http://localhost:4000' },
+  })
+  @IsOptional()
+  @IsObject()
+  directory?: Record<string, string>;
+
+  @ApiPropertyOptional({ description: 'Duración del token en segundos', example: 3600 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  tokenTtlSeconds?: number;
+}
+
+export class SimulatedFailureDto {
+  @ApiProperty({ enum: SIMULATED_SERVICES, description: 'Servicio DGII que debe fallar' })
+  @IsIn(SIMULATED_SERVICES)
+  service: SimulatedService;
+
+  @ApiProperty({ enum: SIMULATED_FAILURE_MODES })
+  @IsIn(SIMULATED_FAILURE_MODES)
+  mode: SimulatedFailureMode;
+
+  @ApiPropertyOptional({ description: 'Cantidad de llamadas que fallarán', default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  times?: number;
+
+  @ApiPropertyOptional({ description: 'Demora antes de fallar (ms)', example: 2000 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(60000)
+  delayMs?: number;
+}
+
+export class SetSimulatedResultDto {
+  @ApiProperty({ enum: SIMULATED_RESULTS })
+  @IsIn(SIMULATED_RESULTS)
+  result: SimulatedResult;
+}
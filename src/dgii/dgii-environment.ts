@@ -0,0 +1,21 @@
+import { DgiiEnvironment } from '@prisma/client';
+
+/**
+ * An invoice is only submitted to the DGII environment it was issued for.
+ * If the company moved (e.g. CERT → PROD) after the invoice was created, its
+ * eNCF and XML belong to the old environment and must not reach the new one.
+ *
+ * The message avoids the word "DGII" on purpose: workers treat such errors
+ * as network failures and retry them.
+ */
+export function assertInvoiceEnvironment(
+  invoice: { encf: string | null; dgiiEnv: DgiiEnvironment },
+  company: { dgiiEnv: DgiiEnvironment },
+): void {
+  if (invoice.dgiiEnv !== company.dgiiEnv) {
+    throw new Error(
+      `Factura ${invoice.encf ?? ''} emitida en ambiente ${invoice.dgiiEnv}, pero la empresa ahora está en ` +
+      `${company.dgiiEnv}. No se envía; emita una nueva factura en el ambiente actual.`,
+    );
+  }
+}
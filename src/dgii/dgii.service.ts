@@ -7,6 +7,7 @@ import {
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
 import { SigningService } from '../signing/signing.service';
+import { XmlSigner } from '../signing/signers/xml-signer';
 import { DGII_ENDPOINTS, DGII_SERVICES, DGII_STATUS, DGII_STATUS_SERVICE_URL, buildDgiiUrl } from '../xml-builder/ecf-types';
 
 /**
@@ -24,6 +25,9 @@ import { DGII_ENDPOINTS, DGII_SERVICES, DGII_STATUS, DGII_STATUS_SERVICE_URL, bu
  * 8. Aprobación Comercial: send/receive commercial approval
  * 9. Directorio Facturadores: list authorized electronic invoicers
  * 10. Estatus Servicios: check DGII service availability
+ *
+ * When DGII_SIMULATOR_URL is set, all environments (ecf + fc + estatus) are
+ * routed to the local DGII simulator instead of dgii.gov.do.
  */
 @Injectable()
 export class DgiiService {
@@ -33,7 +37,11 @@ export class DgiiService {
     private readonly config: ConfigService,
     private readonly prisma: PrismaService,
     private readonly signingService: SigningService,
-  ) {}
+  ) {
+    if (process.env.NODE_ENV === 'production' && process.env.DGII_SIMULATOR_URL) {
+      this.logger.error('DGII_SIMULATOR_URL is ignored in production: submissions go to the DGII');
+    }
+  }
 
   // ============================================================
   // AUTHENTICATION
@@ -42,8 +50,7 @@ export class DgiiService {
   async getToken(
     tenantId: string,
     companyId: string,
-    privateKey: string,
-    certificate: string,
+    signer: XmlSigner,
     environment: string,
   ): Promise<string> {
     // Check cached token
@@ -61,6 +68,29 @@ export class DgiiService {
       return cached.token;
     }
 
+    const token = await this.requestToken(signer, environment);
+
+    // Cache token (expires in 1 hour, cache for 55 min)
+    const expiresAt = new Date(Date.now() + 55 * 60 * 1000);
+
+    // Clean up expired tokens for this company
+    await this.prisma.dgiiToken.deleteMany({
+      where: { companyId, expiresAt: { lt: new Date() } },
+    });
+
+    await this.prisma.dgiiToken.create({
+      data: { tenantId, companyId, token, environment: environment as any, expiresAt },
+    });
+
+    this.logger.log(`DGII token obtained for company ${companyId} (${environment})`);
+    return token;
+  }
+
+  /**
+   * Seed → signed seed → token, without the per-company cache. Used as the
+   * dry-run of a certificate before activating it (CertificatesService).
+   */
+  async requestToken(signer: XmlSigner, environment: string): Promise<string> {
     const baseUrl = this.getBaseUrl(environment);
 
     // Step 1: Request seed
@@ -78,7 +108,7 @@ export class DgiiService {
     const seedXml = await seedResponse.text();
 
     // Step 2: Sign seed
-    const { signedXml: signedSeed } = this.signingService.signXml(seedXml, privateKey, certificate);
+    const { signedXml: signedSeed } = this.signingService.signXml(seedXml, signer);
 
     // Step 3: Validate signed seed → JWT
     // Per DGII spec: POST multipart/form-data with field "xml"
@@ -100,22 +130,14 @@ export class DgiiService {
       throw new ServiceUnavailableException('Could not extract token from DGII response');
     }
 
-    // Cache token (expires in 1 hour, cache for 55 min)
-    const expiresAt = new Date(Date.now() + 55 * 60 * 1000);
-
-    // Clean up expired tokens for this company
-    await this.prisma.dgiiToken.deleteMany({
-      where: { companyId, expiresAt: { lt: new Date() } },
-    });
-
-    await this.prisma.dgiiToken.create({
-      data: { tenantId, companyId, token, environment: environment as any, expiresAt },
-    });
-
-    this.logger.log(`DGII token obtained for company ${companyId} (${environment})`);
     return token;
   }
 
+  /** True when DGII_SIMULATOR_URL routes every environment to the local simulator */
+  usesSimulator(): boolean {
+    return !!this.getSimulatorUrl();
+  }
+
   // ============================================================
   // SUBMIT e-CF (standard, full XML)
   // ============================================================
@@ -169,11 +191,8 @@ export class DgiiService {
     environment: string,
     fileName = 'rfce.xml',
   ): Promise<DgiiSubmissionResult> {
-    const endpoints = DGII_ENDPOINTS[environment as keyof typeof DGII_ENDPOINTS];
-    if (!endpoints) throw new BadRequestException(`Invalid DGII environment: ${environment}`);
-
     // FC uses fc.dgii.gov.do domain with same service/resource pattern
-    const url = buildDgiiUrl(endpoints.fc, DGII_SERVICES.FC_RECEIVE);
+    const url = buildDgiiUrl(this.getFcBaseUrl(environment), DGII_SERVICES.FC_RECEIVE);
     this.logger.debug(`Submitting RFCE to DGII FC service: ${fileName}`);
 
     const response = await this.httpPostMultipart(url, rfceXml, token, fileName);
@@ -325,11 +344,8 @@ export class DgiiService {
     token: string,
     environment: string,
   ): Promise<DgiiStatusResult> {
-    const endpoints = DGII_ENDPOINTS[environment as keyof typeof DGII_ENDPOINTS];
-    if (!endpoints) throw new BadRequestException(`Invalid DGII environment: ${environment}`);
-
     // RFCE query uses fc.dgii.gov.do domain
-    const url = `${buildDgiiUrl(endpoints.fc, DGII_SERVICES.FC_QUERY)}?RNC_Emisor=${rncEmisor}&ENCF=${encf}&Cod_Seguridad_eCF=${securityCode}`;
+    const url = `${buildDgiiUrl(this.getFcBaseUrl(environment), DGII_SERVICES.FC_QUERY)}?RNC_Emisor=${rncEmisor}&ENCF=${encf}&Cod_Seguridad_eCF=${securityCode}`;
 
     const response = await this.httpGet(url, {
       Authorization: `bearer ${token}`,
@@ -504,7 +520,10 @@ export class DgiiService {
    */
   async checkServiceStatus(environment: string): Promise<DgiiServiceStatus> {
     // Estatus servicios uses a dedicated domain and Apikey auth per DGII spec
-    const url = DGII_STATUS_SERVICE_URL;
+    const simulatorUrl = this.getSimulatorUrl();
+    const url = simulatorUrl
+      ? `${simulatorUrl}/estatusservicios/api/estatusservicios/obtenerestatus`
+      : DGII_STATUS_SERVICE_URL;
     const apiKey = this.config.get<string>('DGII_STATUS_API_KEY') || '';
 
     try {
@@ -539,7 +558,18 @@ export class DgiiService {
   private getBaseUrl(environment: string): string {
     const endpoints = DGII_ENDPOINTS[environment as keyof typeof DGII_ENDPOINTS];
     if (!endpoints) throw new BadRequestException(`Invalid DGII environment: ${environment}`);
-    return endpoints.base;
+    return this.getSimulatorUrl() || endpoints.base;
+  }
+
+  private getFcBaseUrl(environment: string): string {
+    const endpoints = DGII_ENDPOINTS[environment as keyof typeof DGII_ENDPOINTS];
+    if (!endpoints) throw new BadRequestException(`Invalid DGII environment: ${environment}`);
+    return this.getSimulatorUrl() || endpoints.fc;
+  }
+
+  private getSimulatorUrl(): string | null {
+    const url = this.config.get<string>('dgii.simulatorUrl');
+    return url ? url.replace(/\/+$/, '') : null;
   }
 
   private extractToken(responseText: string): string | null {
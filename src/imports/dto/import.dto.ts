@@ -0,0 +1,60 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsObject,
+  IsOptional,
+  IsIn,
+  MinLength,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { IMPORT_LAYOUTS, ImportLayout } from '../import-parser';
+
+export class CreateImportProfileDto {
+  @ApiProperty({ description: 'Nombre del perfil', example: 'Facturación mensual' })
+  @IsString()
+  @MinLength(2, { message: 'Nombre debe tener al menos 2 caracteres' })
+  @MaxLength(100, { message: 'Nombre no puede exceder 100 caracteres' })
+  name: string;
+
+  @ApiProperty({
+    description: 'ROW_PER_INVOICE: una fila por factura. ROW_PER_LINE: una fila por item, agrupadas por groupColumn',
+    enum: IMPORT_LAYOUTS,
+  })
+  @IsIn(IMPORT_LAYOUTS, { message: `layout debe ser ${IMPORT_LAYOUTS.join(' o ')}` })
+  layout: ImportLayout;
+
+  @ApiPropertyOptional({ description: 'Columna que identifica la factura (obligatoria para ROW_PER_LINE)', example: 'No. Factura' })
+  @ValidateIf((o) => o.layout === 'ROW_PER_LINE')
+  @IsString({ message: 'groupColumn es obligatorio para ROW_PER_LINE' })
+  @MaxLength(100)
+  groupColumn?: string;
+
+  @ApiProperty({
+    description: 'Campo → encabezado de columna',
+    example: { 'buyer.rnc': 'RNC', 'buyer.name': 'Cliente', 'item.description': 'Producto', 'item.quantity': 'Cantidad', 'item.unitPrice': 'Precio' },
+  })
+  @IsObject({ message: 'columns debe ser un objeto JSON' })
+  columns: Record<string, string>;
+
+  @ApiPropertyOptional({ description: 'Valores por defecto por campo', example: { ecfType: 'E32', 'payment.type': 1 } })
+  @IsOptional()
+  @IsObject({ message: 'defaults debe ser un objeto JSON' })
+  defaults?: Record<string, string | number>;
+
+  @ApiPropertyOptional({ description: 'Separador CSV (se detecta si se omite)', example: ',' })
+  @IsOptional()
+  @IsIn([',', ';', '\t', '|'], { message: 'Separador debe ser , ; | o tabulador' })
+  delimiter?: string;
+}
+
+export class ImportFileDto {
+  @ApiProperty({ description: 'ID del perfil de columnas' })
+  @IsString()
+  @MinLength(36, { message: 'profileId inválido' })
+  @MaxLength(36, { message: 'profileId inválido' })
+  profileId: string;
+
+  @ApiProperty({ description: 'Archivo .csv o .xlsx', type: 'string', format: 'binary' })
+  file?: unknown;
+}
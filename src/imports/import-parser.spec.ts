@@ -0,0 +1,105 @@
+/**
+ * Import Parser Tests
+ *
+ * CSV/XLSX parsing and row → InvoiceInput mapping for spreadsheet imports.
+ */
+import * as ExcelJS from 'exceljs';
+import { ImportMapping, convertValue, mapRowsToInvoices, parseCsv, parseXlsx } from './import-parser';
+
+const COMPANY_ID = '00000000-0000-0000-0000-000000000001';
+
+const lineMapping: ImportMapping = {
+  layout: 'ROW_PER_LINE',
+  groupColumn: 'Factura',
+  columns: {
+    'buyer.rnc': 'RNC',
+    'buyer.name': 'Cliente',
+    'item.description': 'Producto',
+    'item.quantity': 'Cantidad',
+    'item.unitPrice': 'Precio',
+  },
+  defaults: { ecfType: 'E31', 'payment.type': '1' },
+};
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and CRLF', () => {
+    const rows = parseCsv('Cliente,Producto\r\n"Pérez, Juan","Tubo 1"" PVC"\r\n');
+    expect(rows).toEqual([['Cliente', 'Producto'], ['Pérez, Juan', 'Tubo 1" PVC']]);
+  });
+
+  it('detects semicolon delimiter and skips blank lines', () => {
+    const rows = parseCsv('\uFEFFa;b\n1;2\n\n3;4');
+    expect(rows).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+  });
+});
+
+describe('parseXlsx', () => {
+  it('reads the first worksheet with dates as DD-MM-YYYY', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Facturas');
+    sheet.addRow(['Cliente', 'Fecha', 'Precio']);
+    sheet.addRow(['Cliente SRL', new Date(Date.UTC(2026, 0, 15)), 1500.5]);
+    const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    const rows = await parseXlsx(buffer);
+    expect(rows).toEqual([['Cliente', 'Fecha', 'Precio'], ['Cliente SRL', '15-01-2026', '1500.5']]);
+  });
+});
+
+describe('mapRowsToInvoices', () => {
+  const table = [
+    ['Factura', 'RNC', 'Cliente', 'Producto', 'Cantidad', 'Precio'],
+    ['F-1', '131-79391-6', 'Cliente SRL', 'Servicio A', '2', '1,000.00'],
+    ['F-1', '', '', 'Servicio B', '1', '500'],
+    ['F-2', '101000001', 'Otro SRL', 'Producto C', '1', '250'],
+  ];
+
+  it('groups lines by invoice and applies defaults', () => {
+    const invoices = mapRowsToInvoices(table, lineMapping, COMPANY_ID);
+
+    expect(invoices).toHaveLength(2);
+    expect(invoices[0].key).toBe('F-1');
+    expect(invoices[0].rows).toEqual([2, 3]);
+    expect(invoices[0].errors).toEqual([]);
+    expect(invoices[0].input).toMatchObject({
+      companyId: COMPANY_ID,
+      ecfType: 'E31',
+      buyer: { rnc: '131793916', name: 'Cliente SRL' },
+      payment: { type: 1 },
+      items: [
+        { description: 'Servicio A', quantity: 2, unitPrice: 1000 },
+        { description: 'Servicio B', quantity: 1, unitPrice: 500 },
+      ],
+    });
+  });
+
+  it('treats every row as an invoice in ROW_PER_INVOICE layout', () => {
+    const invoices = mapRowsToInvoices(table, { ...lineMapping, layout: 'ROW_PER_INVOICE' }, COMPANY_ID);
+    expect(invoices).toHaveLength(3);
+    expect(invoices[1].errors).toContain(
+      'buyer.name es obligatorio (columna "Cliente" vacía o sin mapear)',
+    );
+  });
+
+  it('reports conversion errors with the row number', () => {
+    const invoices = mapRowsToInvoices(
+      [table[0], ['F-9', '101000001', 'Cliente', 'Item', 'dos', '100']],
+      lineMapping,
+      COMPANY_ID,
+    );
+    expect(invoices[0].errors).toContain('Fila 2: item.quantity "dos" no es un valor válido');
+  });
+});
+
+describe('convertValue', () => {
+  it('normalizes dates to DD-MM-YYYY', () => {
+    expect(convertValue('5/1/2026', 'date')).toBe('05-01-2026');
+    expect(convertValue('2026-01-05', 'date')).toBe('05-01-2026');
+    expect(convertValue('enero', 'date')).toBeUndefined();
+  });
+
+  it('rejects decimals for integer fields', () => {
+    expect(convertValue('1', 'int')).toBe(1);
+    expect(convertValue('1.5', 'int')).toBeUndefined();
+  });
+});
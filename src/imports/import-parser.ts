@@ -0,0 +1,298 @@
+import * as ExcelJS from 'exceljs';
+import { InvoiceInput } from '../xml-builder/invoice-input.interface';
+
+/**
+ * Spreadsheet → InvoiceInput conversion for CSV/XLSX imports.
+ *
+ * A mapping profile says which column feeds each invoice field. Two layouts:
+ * - ROW_PER_INVOICE: every row is an invoice with a single item
+ * - ROW_PER_LINE: every row is an item; rows sharing the `groupColumn` value
+ *   form one invoice and header fields are taken from its first row
+ */
+
+export type ImportFileFormat = 'csv' | 'xlsx';
+
+export const IMPORT_LAYOUTS = ['ROW_PER_INVOICE', 'ROW_PER_LINE'] as const;
+export type ImportLayout = typeof IMPORT_LAYOUTS[number];
+
+type FieldType = 'string' | 'number' | 'int' | 'date';
+
+/** Invoice fields that can be mapped to a column (dot path into InvoiceInput) */
+export const IMPORT_FIELDS: Record<string, { type: FieldType; scope: 'header' | 'line' }> = {
+  'ecfType': { type: 'string', scope: 'header' },
+  'buyer.rnc': { type: 'string', scope: 'header' },
+  'buyer.name': { type: 'string', scope: 'header' },
+  'buyer.email': { type: 'string', scope: 'header' },
+  'buyer.phone': { type: 'string', scope: 'header' },
+  'buyer.address': { type: 'string', scope: 'header' },
+  'buyer.type': { type: 'int', scope: 'header' },
+  'payment.type': { type: 'int', scope: 'header' },
+  'payment.method': { type: 'int', scope: 'header' },
+  'payment.date': { type: 'date', scope: 'header' },
+  'payment.termDays': { type: 'int', scope: 'header' },
+  'reference.encf': { type: 'string', scope: 'header' },
+  'reference.date': { type: 'date', scope: 'header' },
+  'reference.modificationCode': { type: 'int', scope: 'header' },
+  'reference.reason': { type: 'string', scope: 'header' },
+  'currency.code': { type: 'string', scope: 'header' },
+  'currency.exchangeRate': { type: 'number', scope: 'header' },
+  'idempotencyKey': { type: 'string', scope: 'header' },
+  'item.description': { type: 'string', scope: 'line' },
+  'item.quantity': { type: 'number', scope: 'line' },
+  'item.unitPrice': { type: 'number', scope: 'line' },
+  'item.discount': { type: 'number', scope: 'line' },
+  'item.itbisRate': { type: 'number', scope: 'line' },
+  'item.goodService': { type: 'int', scope: 'line' },
+  'item.code': { type: 'string', scope: 'line' },
+  'item.unit': { type: 'string', scope: 'line' },
+};
+
+/** Fields that need a column or a default value */
+export const REQUIRED_IMPORT_FIELDS = [
+  'ecfType',
+  'buyer.name',
+  'payment.type',
+  'item.description',
+  'item.quantity',
+  'item.unitPrice',
+];
+
+export interface ImportMapping {
+  layout: ImportLayout;
+  /** Column identifying the invoice (ROW_PER_LINE only) */
+  groupColumn?: string | null;
+  /** field → column header */
+  columns: Record<string, string>;
+  /** field → value used when the column is missing or empty */
+  defaults?: Record<string, string | number> | null;
+  /** CSV delimiter; detected from the header row when omitted */
+  delimiter?: string | null;
+}
+
+export interface ImportedInvoice {
+  /** Group value (ROW_PER_LINE) or row number (ROW_PER_INVOICE) */
+  key: string;
+  /** Spreadsheet row numbers (1-based, header is row 1) */
+  rows: number[];
+  input: InvoiceInput;
+  errors: string[];
+}
+
+// ============================================================
+// PARSING
+// ============================================================
+
+/**
+ * Parse CSV text (RFC 4180 quoting) into rows of cells.
+ * The delimiter is detected from the first line when not given.
+ */
+export function parseCsv(text: string, delimiter?: string | null): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const sep = delimiter || (firstLine.split(';').length > firstLine.split(',').length ? ';' : ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+
+    if (inQuotes) {
+      if (ch === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === sep) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+
+  if (cell !== '' || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+/**
+ * Read the first worksheet of an XLSX file into rows of cells.
+ * Dates become DD-MM-YYYY; formulas use their cached result.
+ */
+export async function parseXlsx(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as any);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      cells.push(cellToString(row.getCell(col).value));
+    }
+    rows.push(cells);
+  });
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    // Excel dates carry no timezone: read UTC components
+    const dd = String(value.getUTCDate()).padStart(2, '0');
+    const mm = String(value.getUTCMonth() + 1).padStart(2, '0');
+    return `${dd}-${mm}-${value.getUTCFullYear()}`;
+  }
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map((t) => t.text).join('');
+    if ('result' in value) return cellToString(value.result as ExcelJS.CellValue);
+    if ('text' in value) return String(value.text);
+    return '';
+  }
+  return String(value);
+}
+
+// ============================================================
+// MAPPING
+// ============================================================
+
+/**
+ * Convert parsed rows (first row = headers) into invoice inputs.
+ * Conversion problems are collected per invoice instead of thrown, so the
+ * caller can report every row of the file at once.
+ */
+export function mapRowsToInvoices(
+  table: string[][],
+  mapping: ImportMapping,
+  companyId: string,
+): ImportedInvoice[] {
+  const [headers, ...dataRows] = table;
+  if (!headers) return [];
+
+  const index = new Map(headers.map((h, i) => [h.trim().toLowerCase(), i]));
+  const column = (header?: string | null) =>
+    header ? index.get(header.trim().toLowerCase()) : undefined;
+
+  const groupIndex = column(mapping.groupColumn);
+  const groups = new Map<string, { rows: number[]; cells: string[][] }>();
+
+  dataRows.forEach((cells, i) => {
+    const rowNumber = i + 2;
+    const key = mapping.layout === 'ROW_PER_LINE' && groupIndex !== undefined
+      ? (cells[groupIndex] || '').trim() || `fila-${rowNumber}`
+      : `fila-${rowNumber}`;
+    const group = groups.get(key) || { rows: [], cells: [] };
+    group.rows.push(rowNumber);
+    group.cells.push(cells);
+    groups.set(key, group);
+  });
+
+  return [...groups.entries()].map(([key, group]) => {
+    const errors: string[] = [];
+
+    const read = (field: string, cells: string[], rowNumber: number): any => {
+      const colIndex = column(mapping.columns[field]);
+      const raw = colIndex !== undefined ? (cells[colIndex] ?? '').trim() : '';
+      if (raw === '') {
+        const fallback = mapping.defaults?.[field];
+        return typeof fallback === 'string' ? convertValue(fallback, IMPORT_FIELDS[field].type) : fallback;
+      }
+
+      const converted = convertValue(raw, IMPORT_FIELDS[field].type);
+      if (converted === undefined) {
+        errors.push(`Fila ${rowNumber}: ${field} "${raw}" no es un valor válido`);
+      }
+      return converted;
+    };
+
+    const header: Record<string, any> = {};
+    for (const [field, def] of Object.entries(IMPORT_FIELDS)) {
+      if (def.scope !== 'header') continue;
+      const value = read(field, group.cells[0], group.rows[0]);
+      if (value !== undefined) setPath(header, field, value);
+    }
+
+    const items = group.cells.map((cells, i) => {
+      const item: Record<string, any> = {};
+      for (const [field, def] of Object.entries(IMPORT_FIELDS)) {
+        if (def.scope !== 'line') continue;
+        const value = read(field, cells, group.rows[i]);
+        if (value !== undefined) item[field.substring('item.'.length)] = value;
+      }
+      return item;
+    });
+
+    for (const field of REQUIRED_IMPORT_FIELDS) {
+      const missing = IMPORT_FIELDS[field].scope === 'header'
+        ? getPath(header, field) === undefined
+        : items.some((item) => item[field.substring('item.'.length)] === undefined);
+      if (missing) errors.push(`${field} es obligatorio (columna "${mapping.columns[field] || '-'}" vacía o sin mapear)`);
+    }
+
+    if (typeof header.ecfType === 'string') header.ecfType = header.ecfType.toUpperCase();
+    if (header.buyer?.rnc) header.buyer.rnc = String(header.buyer.rnc).replace(/[-\s]/g, '');
+
+    return {
+      key,
+      rows: group.rows,
+      input: { ...header, companyId, items } as InvoiceInput,
+      errors,
+    };
+  });
+}
+
+/** Convert a cell to the field type; undefined when it can't be converted */
+export function convertValue(raw: string, type: FieldType): string | number | undefined {
+  switch (type) {
+    case 'number':
+    case 'int': {
+      // Accept "1,234.56" and plain "1234.56"
+      const num = Number(raw.replace(/,/g, ''));
+      if (isNaN(num)) return undefined;
+      return type === 'int' ? (Number.isInteger(num) ? num : undefined) : num;
+    }
+    case 'date': {
+      const dmy = raw.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/);
+      if (dmy) return `${dmy[1].padStart(2, '0')}-${dmy[2].padStart(2, '0')}-${dmy[3]}`;
+      const ymd = raw.match(/^(\d{4})-(\d{2})-(\d{2})/);
+      if (ymd) return `${ymd[3]}-${ymd[2]}-${ymd[1]}`;
+      return undefined;
+    }
+    default:
+      return raw;
+  }
+}
+
+function setPath(target: Record<string, any>, path: string, value: unknown) {
+  const parts = path.split('.');
+  let node = target;
+  for (const part of parts.slice(0, -1)) {
+    node[part] = node[part] || {};
+    node = node[part];
+  }
+  node[parts[parts.length - 1]] = value;
+}
+
+function getPath(target: Record<string, any>, path: string): unknown {
+  return path.split('.').reduce<any>((node, part) => node?.[part], target);
+}
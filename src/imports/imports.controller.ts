@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiBearerAuth, ApiOperation, ApiConsumes } from '@nestjs/swagger';
+import { ImportsService, UploadedSpreadsheet } from './imports.service';
+import { CreateImportProfileDto, ImportFileDto } from './dto/import.dto';
+import { ApiKeyGuard } from '../common/guards/api-key.guard';
+import { RequireScopes } from '../common/decorators/scopes.decorator';
+import { CurrentTenant, RequestTenant } from '../common/decorators/tenant.decorator';
+import { ApiKeyScope } from '@prisma/client';
+
+/** Spreadsheets above this size are rejected by multer */
+const MAX_IMPORT_FILE_BYTES = 10 * 1024 * 1024;
+
+@ApiTags('imports')
+@Controller('imports')
+@UseGuards(ApiKeyGuard)
+@ApiBearerAuth('api-key')
+export class ImportsController {
+  constructor(private readonly importsService: ImportsService) {}
+
+  @Post('profiles')
+  @RequireScopes(ApiKeyScope.INVOICES_WRITE)
+  @ApiOperation({
+    summary: 'Crear perfil de columnas para importación',
+    description: 'Define qué columna del archivo alimenta cada campo de la factura y valores por defecto.',
+  })
+  async createProfile(
+    @CurrentTenant() tenant: RequestTenant,
+    @Body() dto: CreateImportProfileDto,
+  ) {
+    return this.importsService.createProfile(tenant.id, dto);
+  }
+
+  @Get('profiles')
+  @RequireScopes(ApiKeyScope.INVOICES_READ)
+  @ApiOperation({ summary: 'Listar perfiles de importación' })
+  async findProfiles(@CurrentTenant() tenant: RequestTenant) {
+    return this.importsService.findProfiles(tenant.id);
+  }
+
+  @Delete('profiles/:id')
+  @RequireScopes(ApiKeyScope.INVOICES_WRITE)
+  @ApiOperation({ summary: 'Eliminar perfil de importación' })
+  async deleteProfile(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('id') id: string,
+  ) {
+    return this.importsService.deleteProfile(tenant.id, id);
+  }
+
+  @Post(':companyId/validate')
+  @RequireScopes(ApiKeyScope.INVOICES_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_BYTES } }))
+  @ApiOperation({
+    summary: 'Validar archivo de facturas (dry run)',
+    description:
+      'Convierte el archivo con el perfil indicado y ejecuta validaciones de negocio y ' +
+      'construcción de XML sin asignar eNCF ni guardar nada. Devuelve errores por fila.',
+  })
+  async validate(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('companyId') companyId: string,
+    @Body() dto: ImportFileDto,
+    @UploadedFile() file: UploadedSpreadsheet | undefined,
+  ) {
+    return this.importsService.validate(tenant.id, companyId, dto.profileId, file);
+  }
+
+  @Post(':companyId/submit')
+  @RequireScopes(ApiKeyScope.INVOICES_WRITE)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_BYTES } }))
+  @ApiOperation({
+    summary: 'Importar archivo de facturas',
+    description:
+      'Valida el archivo y, solo si no hay errores, crea las facturas como un lote ' +
+      '(ver GET /invoices/batches/:batchId).',
+  })
+  async submit(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('companyId') companyId: string,
+    @Body() dto: ImportFileDto,
+    @UploadedFile() file: UploadedSpreadsheet | undefined,
+  ) {
+    return this.importsService.submit(tenant.id, companyId, dto.profileId, file);
+  }
+}
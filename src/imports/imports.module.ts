@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ImportsService } from './imports.service';
+import { ImportsController } from './imports.controller';
+import { XmlBuilderModule } from '../xml-builder/xml-builder.module';
+import { InvoicesModule } from '../invoices/invoices.module';
+
+@Module({
+  imports: [XmlBuilderModule, InvoicesModule],
+  controllers: [ImportsController],
+  providers: [ImportsService],
+})
+export class ImportsModule {}
@@ -0,0 +1,281 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import * as crypto from 'crypto';
+import { ImportProfile } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { assertCompanyAccess } from '../common/middleware/request-context.middleware';
+import { ValidationService } from '../validation/validation.service';
+import { XmlBuilderService, EmitterData } from '../xml-builder/xml-builder.service';
+import { InvoiceInput } from '../xml-builder/invoice-input.interface';
+import { InvoicesService } from '../invoices/invoices.service';
+import { MAX_BATCH_SIZE } from '../invoices/dto/invoice-batch.dto';
+import { CreateImportProfileDto } from './dto/import.dto';
+import {
+  IMPORT_FIELDS,
+  ImportFileFormat,
+  ImportMapping,
+  ImportedInvoice,
+  mapRowsToInvoices,
+  parseCsv,
+  parseXlsx,
+} from './import-parser';
+
+/** Rows accepted per file (header excluded) */
+const MAX_IMPORT_ROWS = 10000;
+
+export interface UploadedSpreadsheet {
+  buffer: Buffer;
+  originalname: string;
+}
+
+/**
+ * Import Service
+ *
+ * CSV/XLSX invoice import driven by saved column-mapping profiles:
+ * 1. Parse the file and map rows to InvoiceInput (import-parser)
+ * 2. Dry run: DTO validation, ValidationService.validateInvoiceInput and
+ *    XmlBuilderService.buildEcfXml per invoice — nothing is persisted
+ * 3. Submit: only when the dry run is clean, through the bulk batch flow
+ *    (eNCF reservation + queue). Unless mapped, idempotency keys are derived
+ *    from each invoice's content, so uploading the same file again (or after
+ *    fixing other rows) doesn't duplicate invoices.
+ */
+@Injectable()
+export class ImportsService {
+  private readonly logger = new Logger(ImportsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly validationService: ValidationService,
+    private readonly xmlBuilder: XmlBuilderService,
+    private readonly invoicesService: InvoicesService,
+  ) {}
+
+  // ============================================================
+  // PROFILES
+  // ============================================================
+
+  async createProfile(tenantId: string, dto: CreateImportProfileDto) {
+    const unknownFields = [...Object.keys(dto.columns), ...Object.keys(dto.defaults || {})]
+      .filter((field) => !IMPORT_FIELDS[field]);
+    if (unknownFields.length) {
+      throw new BadRequestException(
+        `Campos no soportados: ${unknownFields.join(', ')}. Campos válidos: ${Object.keys(IMPORT_FIELDS).join(', ')}`,
+      );
+    }
+
+    const existing = await this.prisma.importProfile.findFirst({
+      where: { tenantId, name: dto.name },
+    });
+    if (existing) {
+      throw new ConflictException(`Ya existe un perfil con el nombre "${dto.name}"`);
+    }
+
+    return this.prisma.importProfile.create({
+      data: {
+        tenantId,
+        name: dto.name,
+        layout: dto.layout,
+        groupColumn: dto.layout === 'ROW_PER_LINE' ? dto.groupColumn : null,
+        columns: dto.columns,
+        defaults: dto.defaults,
+        delimiter: dto.delimiter,
+      },
+    });
+  }
+
+  async findProfiles(tenantId: string) {
+    return this.prisma.importProfile.findMany({
+      where: { tenantId },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async deleteProfile(tenantId: string, profileId: string) {
+    const profile = await this.getProfile(tenantId, profileId);
+    await this.prisma.importProfile.delete({ where: { id: profile.id } });
+    return { message: 'Perfil eliminado' };
+  }
+
+  // ============================================================
+  // IMPORT
+  // ============================================================
+
+  /**
+   * Dry run: report row-level errors for every invoice in the file.
+   */
+  async validate(tenantId: string, companyId: string, profileId: string, file?: UploadedSpreadsheet) {
+    const { invoices, report } = await this.analyze(tenantId, companyId, profileId, file);
+    return { ...report, invoices: invoices.map(({ input, ...result }) => result) };
+  }
+
+  /**
+   * Validate the file again and, only if every invoice passes, create them
+   * as a batch. Returns the batch status (see GET /invoices/batches/:id).
+   */
+  async submit(tenantId: string, companyId: string, profileId: string, file?: UploadedSpreadsheet) {
+    const { invoices, report } = await this.analyze(tenantId, companyId, profileId, file);
+
+    if (report.invalid > 0) {
+      throw new BadRequestException(
+        `El archivo tiene ${report.invalid} factura(s) con errores. ` +
+        `Corrija el archivo y valide de nuevo antes de enviar.`,
+      );
+    }
+
+    if (invoices.length > MAX_BATCH_SIZE) {
+      throw new BadRequestException(`Máximo ${MAX_BATCH_SIZE} facturas por archivo (tiene ${invoices.length})`);
+    }
+
+    const payloads = invoices.map(({ key, input }) => ({
+      ...input,
+      idempotencyKey: input.idempotencyKey || this.deriveIdempotencyKey(key, input),
+    }));
+
+    const batch = await this.invoicesService.createBatch(tenantId, payloads);
+
+    this.logger.log(`Import ${report.fileName}: ${payloads.length} invoice(s) → batch ${batch.id}`);
+
+    return { ...report, batch };
+  }
+
+  // ============================================================
+  // PRIVATE HELPERS
+  // ============================================================
+
+  private async getProfile(tenantId: string, profileId: string) {
+    const profile = await this.prisma.importProfile.findFirst({
+      where: { id: profileId, tenantId },
+    });
+    if (!profile) throw new NotFoundException('Perfil de importación no encontrado');
+    return profile;
+  }
+
+  private async analyze(tenantId: string, companyId: string, profileId: string, file?: UploadedSpreadsheet) {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException('Debe adjuntar un archivo .csv o .xlsx en el campo "file"');
+    }
+
+    const format = this.detectFormat(file.originalname);
+
+    assertCompanyAccess(companyId);
+    const company = await this.prisma.company.findFirst({
+      where: { id: companyId, tenantId, isActive: true },
+    });
+    if (!company) throw new NotFoundException('Empresa no encontrada o inactiva');
+
+    const profile = await this.getProfile(tenantId, profileId);
+    const mapping = this.toMapping(profile);
+
+    let table: string[][];
+    try {
+      table = format === 'xlsx'
+        ? await parseXlsx(file.buffer)
+        : parseCsv(file.buffer.toString('utf8'), mapping.delimiter);
+    } catch (error: any) {
+      throw new BadRequestException(`No se pudo leer el archivo: ${error.message}`);
+    }
+
+    if (table.length < 2) {
+      throw new BadRequestException('El archivo no tiene filas de datos');
+    }
+    if (table.length - 1 > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(`Máximo ${MAX_IMPORT_ROWS} filas por archivo`);
+    }
+
+    const emitterData: EmitterData = {
+      rnc: company.rnc,
+      businessName: company.businessName,
+      tradeName: company.tradeName || undefined,
+      address: company.address || undefined,
+      municipality: company.municipality || undefined,
+      province: company.province || undefined,
+    };
+
+    const invoices = mapRowsToInvoices(table, mapping, companyId);
+    const results: (ImportedInvoice & { totalAmount: number | null })[] = [];
+    for (const invoice of invoices) {
+      results.push(await this.dryRun(invoice, emitterData));
+    }
+
+    const invalid = results.filter((r) => r.errors.length > 0).length;
+
+    return {
+      invoices: results,
+      report: {
+        fileName: file.originalname,
+        format,
+        profile: profile.name,
+        totalRows: table.length - 1,
+        totalInvoices: results.length,
+        valid: results.length - invalid,
+        invalid,
+      },
+    };
+  }
+
+  /**
+   * Run the same checks as invoice creation without touching sequences or
+   * the database. A placeholder eNCF is used to build the XML.
+   */
+  private async dryRun(invoice: ImportedInvoice, emitterData: EmitterData) {
+    const errors = [...invoice.errors];
+    let totalAmount: number | null = null;
+
+    if (!errors.length) {
+      const { errors: dtoErrors } = await this.invoicesService.validateCreatePayload(invoice.input);
+      errors.push(...dtoErrors);
+    }
+
+    if (!errors.length) {
+      try {
+        this.validationService.validateInvoiceInput(invoice.input);
+        const { totals } = this.xmlBuilder.buildEcfXml(
+          invoice.input,
+          emitterData,
+          `${invoice.input.ecfType}0000000001`,
+        );
+        totalAmount = totals.totalAmount;
+      } catch (error: any) {
+        errors.push(error.message);
+      }
+    }
+
+    const rowLabel = invoice.rows.length > 1
+      ? `Filas ${invoice.rows[0]}-${invoice.rows[invoice.rows.length - 1]}`
+      : `Fila ${invoice.rows[0]}`;
+
+    return {
+      ...invoice,
+      // DTO/business errors don't carry a row number: prefix them
+      errors: errors.map((e) => (e.startsWith('Fila') ? e : `${rowLabel}: ${e}`)),
+      totalAmount,
+    };
+  }
+
+  private detectFormat(fileName: string): ImportFileFormat {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    if (extension === 'csv' || extension === 'xlsx') return extension;
+    throw new BadRequestException('Solo se aceptan archivos .csv o .xlsx');
+  }
+
+  private toMapping(profile: ImportProfile): ImportMapping {
+    return {
+      layout: profile.layout as ImportMapping['layout'],
+      groupColumn: profile.groupColumn,
+      columns: profile.columns as Record<string, string>,
+      defaults: profile.defaults as Record<string, string | number> | null,
+      delimiter: profile.delimiter,
+    };
+  }
+
+  private deriveIdempotencyKey(key: string, input: InvoiceInput): string {
+    const digest = crypto.createHash('sha256').update(`${key}:${JSON.stringify(input)}`).digest('hex');
+    return `import-${digest.substring(0, 48)}`;
+  }
+}
@@ -0,0 +1,88 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsArray,
+  IsObject,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  IsIn,
+  ValidateNested,
+  Min,
+  Max,
+  MaxLength,
+  ArrayMinSize,
+  ArrayMaxSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+class AdjustmentLineDto {
+  @ApiProperty({ description: 'Número de línea de la factura original', example: 1 })
+  @IsInt({ message: 'lineNumber debe ser un entero' })
+  @Min(1, { message: 'lineNumber mínimo es 1' })
+  lineNumber: number;
+
+  @ApiPropertyOptional({ description: 'Cantidad a acreditar/debitar (por defecto la cantidad original)', example: 1 })
+  @IsOptional()
+  @IsNumber({}, { message: 'Cantidad debe ser un número' })
+  @Min(0.0001, { message: 'Cantidad debe ser mayor a 0' })
+  quantity?: number;
+}
+
+/**
+ * Body for POST /invoices/:id/credit-note and /debit-note.
+ *
+ * Scope of the note (mutually exclusive):
+ * - `lines`: only the given original lines, optionally with a partial quantity
+ * - `amount`: a total amount (ITBIS included) prorated across the original lines
+ * - neither: full reversal of the original (credit notes only)
+ */
+export class CreateAdjustmentNoteDto {
+  @ApiPropertyOptional({ description: 'Líneas de la factura original a incluir', type: [AdjustmentLineDto] })
+  @IsOptional()
+  @IsArray({ message: 'lines debe ser un array' })
+  @ArrayMinSize(1, { message: 'Debe incluir al menos 1 línea' })
+  @ArrayMaxSize(1000, { message: 'Máximo 1000 líneas' })
+  @ValidateNested({ each: true })
+  @Type(() => AdjustmentLineDto)
+  lines?: AdjustmentLineDto[];
+
+  @ApiPropertyOptional({ description: 'Monto total de la nota (ITBIS incluido), prorrateado entre las líneas', example: 1180 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Monto debe ser un número con máximo 2 decimales' })
+  @Min(0.01, { message: 'Monto debe ser mayor a 0' })
+  amount?: number;
+
+  @ApiPropertyOptional({ description: 'Razón de la modificación' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, { message: 'Razón no puede exceder 500 caracteres' })
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description: 'Código: 1=Anula NCF, 2=Corrige texto, 3=Corrige montos, 4=Reemplazo contingencia. ' +
+      'Por defecto 1 para reversos totales y 3 para parciales',
+  })
+  @IsOptional()
+  @IsInt({ message: 'Código de modificación debe ser un entero' })
+  @IsIn([1, 2, 3, 4], { message: 'Código de modificación debe ser 1, 2, 3 o 4' })
+  modificationCode?: number;
+
+  @ApiPropertyOptional({ description: 'Forma de pago de la nota (por defecto la de la factura original)', example: 1 })
+  @IsOptional()
+  @IsInt({ message: 'Forma de pago debe ser un entero' })
+  @Min(1, { message: 'Forma de pago mínimo es 1' })
+  @Max(8, { message: 'Forma de pago máximo es 8' })
+  paymentMethod?: number;
+
+  @ApiPropertyOptional({ description: 'Clave de idempotencia para evitar duplicados' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64, { message: 'Clave de idempotencia no puede exceder 64 caracteres' })
+  idempotencyKey?: string;
+
+  @ApiPropertyOptional({ description: 'Metadata custom (no se envía a DGII)' })
+  @IsOptional()
+  @IsObject({ message: 'Metadata debe ser un objeto JSON' })
+  metadata?: Record<string, any>;
+}
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, IsObject, ArrayMinSize, ArrayMaxSize } from 'class-validator';
+
+/** Maximum invoices per POST /invoices/batch */
+export const MAX_BATCH_SIZE = 500;
+
+/**
+ * Each element is a CreateInvoiceDto. They are validated one by one in the
+ * service so a single invalid invoice doesn't reject the whole batch.
+ */
+export class CreateInvoiceBatchDto {
+  @ApiProperty({ description: `Facturas a crear (1-${MAX_BATCH_SIZE}), mismo formato que POST /invoices`, type: [Object] })
+  @IsArray({ message: 'invoices debe ser un array' })
+  @ArrayMinSize(1, { message: 'Debe incluir al menos 1 factura' })
+  @ArrayMaxSize(MAX_BATCH_SIZE, { message: `Máximo ${MAX_BATCH_SIZE} facturas por lote` })
+  @IsObject({ each: true, message: 'Cada factura debe ser un objeto JSON' })
+  invoices: Record<string, any>[];
+}
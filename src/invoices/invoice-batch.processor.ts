@@ -0,0 +1,37 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { QUEUES } from '../queue/queue.constants';
+import { InvoicesService } from './invoices.service';
+
+export interface InvoiceBatchJobData {
+  tenantId: string;
+  batchId: string;
+}
+
+/**
+ * Invoice Batch Worker
+ *
+ * Runs a bulk submission stored by POST /invoices/batch: per-item
+ * validation, eNCF reservation and persistence (InvoicesService.processBatch).
+ * Each created invoice then goes through the ecf-processing queue.
+ *
+ * Lives in InvoicesModule rather than QueueModule, which InvoicesModule
+ * imports.
+ */
+@Processor(QUEUES.INVOICE_BATCH)
+export class InvoiceBatchProcessor extends WorkerHost {
+  private readonly logger = new Logger(InvoiceBatchProcessor.name);
+
+  constructor(private readonly invoicesService: InvoicesService) {
+    super();
+  }
+
+  async process(job: Job<InvoiceBatchJobData>): Promise<any> {
+    const { tenantId, batchId } = job.data;
+    this.logger.log(`Processing batch ${batchId} (job ${job.id})`);
+
+    await this.invoicesService.processBatch(tenantId, batchId);
+    return { batchId };
+  }
+}
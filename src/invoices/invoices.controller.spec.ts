@@ -0,0 +1,93 @@
+/**
+ * Invoices Controller Tests
+ *
+ * POST /invoices over HTTP with the same global pipe, filter and interceptor
+ * as main.ts: synchronous creation answers 201, `async=true` answers 202.
+ */
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { ApiKeyGuard } from '../common/guards/api-key.guard';
+import { HttpExceptionFilter } from '../common/filters/http-exception.filter';
+import { TransformInterceptor } from '../common/interceptors/transform.interceptor';
+import { InvoicesController } from './invoices.controller';
+import { InvoicesService } from './invoices.service';
+
+const INVOICE = {
+  companyId: '00000000-0000-0000-0000-000000000001',
+  ecfType: 'E31',
+  buyer: { rnc: '131793916', name: 'Cliente SRL' },
+  payment: { type: 1 },
+  items: [{ description: 'Servicio', quantity: 1, unitPrice: 1000 }],
+};
+
+describe('InvoicesController', () => {
+  let app: INestApplication;
+  let baseUrl: string;
+  const invoicesService = {
+    create: jest.fn(async () => ({ id: 'inv-1', encf: 'E310000000001', status: 'ACCEPTED' })),
+    createAsync: jest.fn(async () => ({ id: 'inv-2', encf: 'E310000000002', status: 'PROCESSING' })),
+  };
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      controllers: [InvoicesController],
+      providers: [{ provide: InvoicesService, useValue: invoicesService }],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({
+        canActivate: (context: any) => {
+          context.switchToHttp().getRequest().tenant = { id: 'tenant-1', scopes: [] };
+          return true;
+        },
+      })
+      .compile();
+
+    app = moduleRef.createNestApplication({ logger: false });
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true }));
+    app.useGlobalFilters(new HttpExceptionFilter());
+    app.useGlobalInterceptors(new TransformInterceptor());
+    await app.listen(0);
+    baseUrl = `${await app.getUrl()}/invoices`.replace('[::1]', 'localhost');
+  });
+
+  afterAll(() => app.close());
+
+  beforeEach(() => jest.clearAllMocks());
+
+  const post = (query = '') =>
+    fetch(`${baseUrl}${query}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(INVOICE),
+    });
+
+  it('answers 201 with the processed invoice by default', async () => {
+    const response = await post();
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({
+      success: true,
+      data: { id: 'inv-1', encf: 'E310000000001', status: 'ACCEPTED' },
+    });
+    expect(invoicesService.createAsync).not.toHaveBeenCalled();
+  });
+
+  it('answers 202 with the queued invoice when async=true', async () => {
+    const response = await post('?async=true');
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({
+      success: true,
+      data: { id: 'inv-2', encf: 'E310000000002', status: 'PROCESSING' },
+    });
+    expect(invoicesService.createAsync).toHaveBeenCalledWith('tenant-1', expect.objectContaining({ ecfType: 'E31' }));
+    expect(invoicesService.create).not.toHaveBeenCalled();
+  });
+
+  it('keeps 201 for any other async value', async () => {
+    const response = await post('?async=false');
+
+    expect(response.status).toBe(201);
+    expect(invoicesService.create).toHaveBeenCalledTimes(1);
+  });
+});
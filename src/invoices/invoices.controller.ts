@@ -14,6 +14,8 @@ import { ApiTags, ApiBearerAuth, ApiOperation, ApiQuery } from '@nestjs/swagger'
 import { Response } from 'express';
 import { InvoicesService } from './invoices.service';
 import { CreateInvoiceDto } from './dto/invoice.dto';
+import { CreateAdjustmentNoteDto } from './dto/adjustment-note.dto';
+import { CreateInvoiceBatchDto } from './dto/invoice-batch.dto';
 import { ApiKeyGuard } from '../common/guards/api-key.guard';
 import { RequireScopes } from '../common/decorators/scopes.decorator';
 import { CurrentTenant, RequestTenant } from '../common/decorators/tenant.decorator';
@@ -33,15 +35,69 @@ export class InvoicesController {
     summary: 'Crear factura electrónica (e-CF)',
     description:
       'Crea una factura, construye XML según XSD de DGII, firma digitalmente, ' +
-      'y envía a la DGII. Soporta los 10 tipos de e-CF (31-47).',
+      'y envía a la DGII. Soporta los 10 tipos de e-CF (31-47). ' +
+      'Con async=true la factura se guarda con su eNCF asignado, se responde 202 ' +
+      'y la firma/envío a DGII se procesa en cola.',
   })
+  @ApiQuery({ name: 'async', required: false, type: Boolean, description: 'Procesar firma y envío en segundo plano (202 Accepted)' })
   async create(
     @CurrentTenant() tenant: RequestTenant,
     @Body() dto: CreateInvoiceDto,
+    @Res({ passthrough: true }) res: Response,
+    @Query('async') asyncMode?: string,
   ) {
+    if (asyncMode === 'true' || asyncMode === '1') {
+      res.status(HttpStatus.ACCEPTED);
+      return this.invoicesService.createAsync(tenant.id, dto);
+    }
     return this.invoicesService.create(tenant.id, dto);
   }
 
+  @Post('validate')
+  @RequireScopes(ApiKeyScope.INVOICES_WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Validar factura sin emitirla (dry run)',
+    description:
+      'Ejecuta las mismas reglas que POST /invoices (RNC, referencia, límite E32, cuadratura) ' +
+      'y la validación XSD con un eNCF de ejemplo. No consume secuencia ni guarda nada. ' +
+      'Devuelve los totales calculados, el XML sin firmar y la lista de errores y advertencias.',
+  })
+  async validate(
+    @CurrentTenant() tenant: RequestTenant,
+    @Body() dto: CreateInvoiceDto,
+  ) {
+    return this.invoicesService.validateDryRun(tenant.id, dto);
+  }
+
+  @Post('batch')
+  @RequireScopes(ApiKeyScope.INVOICES_WRITE)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Crear facturas en lote',
+    description:
+      'Registra el lote y lo procesa en segundo plano: valida cada factura por separado (incluido ' +
+      'el XSD), reserva los eNCF en una sola transacción por tipo y encola las válidas para firma ' +
+      'y envío. Consulte el resultado en GET /invoices/batches/:batchId. Las facturas con ' +
+      'idempotencyKey existente se reportan como EXISTING, por lo que reintentar un lote es seguro.',
+  })
+  async createBatch(
+    @CurrentTenant() tenant: RequestTenant,
+    @Body() dto: CreateInvoiceBatchDto,
+  ) {
+    return this.invoicesService.createBatch(tenant.id, dto.invoices);
+  }
+
+  @Get('batches/:batchId')
+  @RequireScopes(ApiKeyScope.INVOICES_READ)
+  @ApiOperation({ summary: 'Estado de un lote con el resultado por factura' })
+  async findBatch(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('batchId') batchId: string,
+  ) {
+    return this.invoicesService.findBatch(tenant.id, batchId);
+  }
+
   @Get()
   @RequireScopes(ApiKeyScope.INVOICES_READ)
   @ApiOperation({ summary: 'Listar facturas con filtros' })
@@ -112,17 +168,53 @@ export class InvoicesController {
     return this.invoicesService.pollStatus(tenant.id, id);
   }
 
+  @Post(':id/credit-note')
+  @RequireScopes(ApiKeyScope.INVOICES_WRITE)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Emitir Nota de Crédito (E34) sobre una factura',
+    description:
+      'Copia comprador e items de la factura original y completa InformacionReferencia. ' +
+      'Sin "lines" ni "amount" revierte la factura completa. Después de 30 días no se devuelve ITBIS. ' +
+      'No puede exceder el saldo pendiente de la factura considerando notas anteriores.',
+  })
+  async createCreditNote(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('id') id: string,
+    @Body() dto: CreateAdjustmentNoteDto,
+  ) {
+    return this.invoicesService.createAdjustmentNote(tenant.id, id, 'E34', dto);
+  }
+
+  @Post(':id/debit-note')
+  @RequireScopes(ApiKeyScope.INVOICES_WRITE)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Emitir Nota de Débito (E33) sobre una factura',
+    description:
+      'Copia comprador e items de la factura original y completa InformacionReferencia. ' +
+      'Requiere "lines" (líneas a debitar) o "amount" (monto prorrateado entre las líneas).',
+  })
+  async createDebitNote(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('id') id: string,
+    @Body() dto: CreateAdjustmentNoteDto,
+  ) {
+    return this.invoicesService.createAdjustmentNote(tenant.id, id, 'E33', dto);
+  }
+
   @Post(':id/void')
   @RequireScopes(ApiKeyScope.INVOICES_WRITE)
   @ApiOperation({
     summary: 'Anular una factura',
-    description: 'Anula una factura cambiando su estado a VOIDED. Solo facturas en estado DRAFT, ERROR o CONTINGENCY pueden ser anuladas directamente. Facturas ACCEPTED requieren emitir una Nota de Crédito (E34).',
+    description: 'Anula una factura cambiando su estado a VOIDED. Solo facturas en estado DRAFT, ERROR o CONTINGENCY pueden ser anuladas directamente. Facturas ACCEPTED requieren emitir una Nota de Crédito (E34). ' +
+      'annulmentType (01-10, por defecto 04) se reporta en el Formato 608.',
   })
   async voidInvoice(
     @CurrentTenant() tenant: RequestTenant,
     @Param('id') id: string,
-    @Body() body: { reason?: string },
+    @Body() body: { reason?: string; annulmentType?: string },
   ) {
-    return this.invoicesService.voidInvoice(tenant.id, id, body.reason);
+    return this.invoicesService.voidInvoice(tenant.id, id, body.reason, body.annulmentType);
   }
 }
@@ -1,11 +1,14 @@
 import { Module } from '@nestjs/common';
 import { InvoicesService } from './invoices.service';
 import { InvoicesController } from './invoices.controller';
+import { InvoiceBatchProcessor } from './invoice-batch.processor';
 import { XmlBuilderModule } from '../xml-builder/xml-builder.module';
 import { SigningModule } from '../signing/signing.module';
 import { DgiiModule } from '../dgii/dgii.module';
 import { CertificatesModule } from '../certificates/certificates.module';
 import { SequencesModule } from '../sequences/sequences.module';
+import { QueueModule } from '../queue/queue.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 
 @Module({
   imports: [
@@ -14,9 +17,11 @@ import { SequencesModule } from '../sequences/sequences.module';
     DgiiModule,
     CertificatesModule,
     SequencesModule,
+    QueueModule,
+    WebhooksModule,
   ],
   controllers: [InvoicesController],
-  providers: [InvoicesService],
+  providers: [InvoicesService, InvoiceBatchProcessor],
   exports: [InvoicesService],
 })
 export class InvoicesModule {}
@@ -0,0 +1,355 @@
+/**
+ * Invoices Service Tests
+ *
+ * Asynchronous creation and batch processing through the public API. Prisma
+ * is an in-memory invoice table; the XML builder, XSD validation, sequences
+ * and queue are mocked.
+ */
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { DgiiEnvironment, InvoiceStatus } from '@prisma/client';
+import { AuditService } from '../audit/audit.service';
+import { CertificatesService } from '../certificates/certificates.service';
+import { RncValidationService } from '../common/services/rnc-validation.service';
+import { DgiiService } from '../dgii/dgii.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { QueueService } from '../queue/queue.service';
+import { SequencesService } from '../sequences/sequences.service';
+import { SigningService } from '../signing/signing.service';
+import { QuotaExceededException } from '../usage/quota-exceeded.exception';
+import { UsageService } from '../usage/usage.service';
+import { ValidationService } from '../validation/validation.service';
+import { XsdValidationService } from '../validation/xsd-validation.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { XmlBuilderService } from '../xml-builder/xml-builder.service';
+import { CreateInvoiceDto } from './dto/invoice.dto';
+import { InvoicesService } from './invoices.service';
+
+const COMPANY_ID = '00000000-0000-0000-0000-000000000001';
+
+const PAYLOAD = {
+  companyId: COMPANY_ID,
+  ecfType: 'E31',
+  buyer: { rnc: '131793916', name: 'Cliente SRL' },
+  payment: { type: 1 },
+  items: [{ description: 'Servicio', quantity: 1, unitPrice: 1000 }],
+};
+
+/** Buyer names the mocks turn into failures at a given step */
+const XSD_INVALID = 'XSD inválido';
+const SAVE_FAILS = 'Falla al guardar';
+
+async function setup() {
+  const invoices: Record<string, any>[] = [];
+  const matches = (invoice: Record<string, any>, where: Record<string, any>) =>
+    Object.entries(where).every(([key, value]) => typeof value === 'object' || invoice[key] === value);
+
+  const tx = {
+    invoice: {
+      create: jest.fn(async ({ data }: any) => {
+        if (data.buyerName === SAVE_FAILS) throw new Error('deadlock detected');
+        const created = { id: `inv-${invoices.length + 1}`, ...data };
+        invoices.push(created);
+        return created;
+      }),
+    },
+    invoiceLine: { createMany: jest.fn() },
+  };
+  const prisma = {
+    company: {
+      findFirst: jest.fn(async () => ({
+        id: COMPANY_ID,
+        rnc: '131880681',
+        businessName: 'EMPRESA SRL',
+        dgiiEnv: DgiiEnvironment.DEV,
+        isActive: true,
+      })),
+    },
+    invoice: {
+      findFirst: jest.fn(async ({ where }: any) => invoices.find((i) => matches(i, where)) ?? null),
+      count: jest.fn(async () => 0),
+      update: jest.fn(async ({ where, data }: any) => Object.assign(invoices.find((i) => i.id === where.id)!, data)),
+    },
+    invoiceBatch: {
+      updateMany: jest.fn(async () => ({ count: 1 })),
+      findUniqueOrThrow: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    invoiceBatchItem: { createMany: jest.fn() },
+    $transaction: jest.fn(async (fn: (client: typeof tx) => unknown) => fn(tx)),
+  };
+  const xmlBuilder = {
+    buildEcfXml: jest.fn((input: any, _emitter: unknown, encf: string) => ({
+      xml: `<ECF><eNCF>${encf}</eNCF><RazonSocialComprador>${input.buyer.name}</RazonSocialComprador></ECF>`,
+      totals: { subtotalBeforeTax: 1000, totalDiscount: 0, totalItbis: 180, totalIsc: 0, totalAmount: 1180 },
+    })),
+  };
+  const xsdValidation = {
+    validateXml: jest.fn(async (xml: string) => xml.includes(XSD_INVALID)
+      ? { valid: false, errors: ['Elemento RazonSocialComprador inválido'], warnings: [], schema: 'e-CF 31 v1.0' }
+      : { valid: true, errors: [], warnings: [], schema: 'e-CF 31 v1.0' }),
+  };
+  const sequencesService = {
+    getNextEncf: jest.fn(async () => 'E310000000042'),
+    getAvailable: jest.fn(async () => ({ available: true })),
+    findRangeForEncf: jest.fn(async () => null),
+    reserveEncfs: jest.fn(async (_tenantId: string, _companyId: string, ecfType: string, count: number) =>
+      Array.from({ length: count }, (_, i) => `${ecfType}${String(i + 1).padStart(10, '0')}`),
+    ),
+    recordUnusedEncf: jest.fn(),
+  };
+  const usageService = { assertWithinLimit: jest.fn(async (..._args: unknown[]) => undefined) };
+  const queueService = { enqueueEcfProcessing: jest.fn(), enqueueInvoiceBatch: jest.fn() };
+  const auditService = { record: jest.fn() };
+
+  const moduleRef = await Test.createTestingModule({
+    providers: [
+      InvoicesService,
+      { provide: PrismaService, useValue: prisma },
+      { provide: XmlBuilderService, useValue: xmlBuilder },
+      { provide: SigningService, useValue: {} },
+      { provide: DgiiService, useValue: {} },
+      { provide: CertificatesService, useValue: {} },
+      { provide: SequencesService, useValue: sequencesService },
+      { provide: ValidationService, useValue: { validateCuadratura: () => ({ warnings: [] }) } },
+      { provide: XsdValidationService, useValue: xsdValidation },
+      { provide: RncValidationService, useValue: { validateFormat: () => ({ valid: true }) } },
+      { provide: QueueService, useValue: queueService },
+      { provide: WebhooksService, useValue: { dispatchInvoiceCreated: jest.fn() } },
+      { provide: UsageService, useValue: usageService },
+      { provide: AuditService, useValue: auditService },
+    ],
+  }).compile();
+
+  return {
+    service: moduleRef.get(InvoicesService),
+    invoices,
+    prisma,
+    xmlBuilder,
+    sequencesService,
+    usageService,
+    queueService,
+    auditService,
+  };
+}
+
+/** A payload as the ValidationPipe would hand it to the service */
+const dto = (overrides: Record<string, any> = {}) => ({ ...PAYLOAD, ...overrides }) as unknown as CreateInvoiceDto;
+
+describe('InvoicesService', () => {
+  describe('createAsync', () => {
+    it('persists the invoice, queues it for signing and returns it with its eNCF', async () => {
+      const { service, invoices, queueService, auditService } = await setup();
+
+      const result = await service.createAsync('tenant-1', dto());
+
+      expect(invoices).toHaveLength(1);
+      expect(queueService.enqueueEcfProcessing).toHaveBeenCalledWith({
+        invoiceId: 'inv-1',
+        tenantId: 'tenant-1',
+        companyId: COMPANY_ID,
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        'tenant-1', 'invoice', 'inv-1', 'queued', expect.objectContaining({ encf: 'E310000000042' }),
+      );
+      expect(result).toMatchObject({
+        id: 'inv-1',
+        encf: 'E310000000042',
+        status: InvoiceStatus.PROCESSING,
+        hasXml: true,
+        hasSignedXml: false,
+      });
+      expect(result).not.toHaveProperty('xmlUnsigned');
+    });
+
+    it('keeps the invoice in CONTINGENCY when the queue is unavailable', async () => {
+      const { service, prisma, queueService } = await setup();
+      queueService.enqueueEcfProcessing.mockRejectedValue(new Error('connect ECONNREFUSED 127.0.0.1:6379'));
+
+      const result = await service.createAsync('tenant-1', dto());
+
+      expect(prisma.invoice.update).toHaveBeenCalledWith({
+        where: { id: 'inv-1' },
+        data: {
+          status: InvoiceStatus.CONTINGENCY,
+          dgiiMessage: 'No se pudo encolar para envío: connect ECONNREFUSED 127.0.0.1:6379',
+        },
+      });
+      expect(result).toMatchObject({ status: InvoiceStatus.CONTINGENCY });
+    });
+
+    it('returns the existing invoice for a repeated idempotencyKey without queueing again', async () => {
+      const { service, invoices, sequencesService, queueService } = await setup();
+      invoices.push({
+        id: 'inv-old',
+        tenantId: 'tenant-1',
+        encf: 'E310000000001',
+        status: InvoiceStatus.ACCEPTED,
+        idempotencyKey: 'key-1',
+        xmlSigned: '<ECF/>',
+      });
+
+      const result = await service.createAsync('tenant-1', dto({ idempotencyKey: 'key-1' }));
+
+      expect(result).toMatchObject({ id: 'inv-old', status: InvoiceStatus.ACCEPTED, hasSignedXml: true });
+      expect(sequencesService.getNextEncf).not.toHaveBeenCalled();
+      expect(queueService.enqueueEcfProcessing).not.toHaveBeenCalled();
+    });
+
+    it('records the eNCF as unused when the XML does not pass the XSD', async () => {
+      const { service, invoices, sequencesService, queueService } = await setup();
+
+      await expect(
+        service.createAsync('tenant-1', dto({ buyer: { ...PAYLOAD.buyer, name: XSD_INVALID } })),
+      ).rejects.toThrow(
+        new BadRequestException('XML no pasa validación XSD de DGII: Elemento RazonSocialComprador inválido'),
+      );
+
+      expect(sequencesService.recordUnusedEncf).toHaveBeenCalledWith(
+        'tenant-1', COMPANY_ID, 'E310000000042', 'XML no pasa validación XSD de DGII: Elemento RazonSocialComprador inválido',
+      );
+      expect(invoices).toHaveLength(0);
+      expect(queueService.enqueueEcfProcessing).not.toHaveBeenCalled();
+    });
+
+    it('records the eNCF as unused when the XML cannot be built', async () => {
+      const { service, xmlBuilder, sequencesService } = await setup();
+      xmlBuilder.buildEcfXml.mockImplementation(() => {
+        throw new BadRequestException('Item 1: cantidad inválida');
+      });
+
+      await expect(service.createAsync('tenant-1', dto())).rejects.toBeInstanceOf(BadRequestException);
+
+      expect(sequencesService.recordUnusedEncf).toHaveBeenCalledWith(
+        'tenant-1', COMPANY_ID, 'E310000000042', 'Item 1: cantidad inválida',
+      );
+    });
+  });
+
+  describe('processBatch', () => {
+    /** Run a stored batch and return the item rows the worker wrote */
+    async function run(ctx: Awaited<ReturnType<typeof setup>>, payloads: Record<string, any>[]) {
+      ctx.prisma.invoiceBatch.findUniqueOrThrow.mockResolvedValue({ id: 'batch-1', payloads, context: {} });
+      await ctx.service.processBatch('tenant-1', 'batch-1');
+      const [{ data }] = ctx.prisma.invoiceBatchItem.createMany.mock.calls[0] as any;
+      return data.map(({ status, encf, errors }: any) => ({ status, encf, errors }));
+    }
+
+    it('reports each item with its own status and reserves eNCFs only for valid ones', async () => {
+      const ctx = await setup();
+      ctx.invoices.push({ id: 'inv-old', tenantId: 'tenant-1', encf: 'E310000000099', idempotencyKey: 'ya-emitida' });
+
+      const items = await run(ctx, [
+        { ...PAYLOAD, ecfType: 'E99' },
+        { ...PAYLOAD, idempotencyKey: 'ya-emitida' },
+        { ...PAYLOAD, idempotencyKey: 'nueva' },
+        { ...PAYLOAD, idempotencyKey: 'nueva' },
+        { ...PAYLOAD, buyer: { ...PAYLOAD.buyer, name: XSD_INVALID } },
+        { ...PAYLOAD, buyer: { ...PAYLOAD.buyer, name: SAVE_FAILS } },
+      ]);
+
+      expect(items).toEqual([
+        { status: 'VALIDATION_ERROR', encf: undefined, errors: [expect.stringContaining('ecfType')] },
+        { status: 'EXISTING', encf: 'E310000000099', errors: undefined },
+        { status: 'QUEUED', encf: 'E310000000001', errors: undefined },
+        { status: 'VALIDATION_ERROR', encf: undefined, errors: ['idempotencyKey repetida en el lote: nueva'] },
+        { status: 'VALIDATION_ERROR', encf: undefined, errors: ['Elemento RazonSocialComprador inválido'] },
+        { status: 'FAILED', encf: 'E310000000002', errors: ['deadlock detected'] },
+      ]);
+      expect(ctx.sequencesService.reserveEncfs).toHaveBeenCalledTimes(1);
+      expect(ctx.sequencesService.reserveEncfs).toHaveBeenCalledWith('tenant-1', COMPANY_ID, 'E31', 2);
+      expect(ctx.sequencesService.getNextEncf).not.toHaveBeenCalled();
+      expect(ctx.sequencesService.recordUnusedEncf).toHaveBeenCalledTimes(1);
+      expect(ctx.sequencesService.recordUnusedEncf).toHaveBeenCalledWith(
+        'tenant-1', COMPANY_ID, 'E310000000002', 'deadlock detected',
+      );
+      expect(ctx.queueService.enqueueEcfProcessing).toHaveBeenCalledTimes(1);
+      expect(ctx.prisma.invoiceBatch.update).toHaveBeenCalledWith({
+        where: { id: 'batch-1' },
+        data: expect.objectContaining({ status: 'COMPLETED' }),
+      });
+    });
+
+    it('fails the items beyond the monthly quota without reserving numbers for them', async () => {
+      const ctx = await setup();
+      ctx.usageService.assertWithinLimit.mockImplementation(async (_tenantId, _metric, count = 1) => {
+        if ((count as number) > 1) throw new QuotaExceededException('invoices', 'STARTER', 500, 499);
+      });
+
+      const items = await run(ctx, [PAYLOAD, PAYLOAD, PAYLOAD]);
+
+      expect(items.map((i: any) => i.status)).toEqual(['QUEUED', 'FAILED', 'FAILED']);
+      expect(items[1].errors[0]).toContain('(499/500)');
+      expect(ctx.sequencesService.reserveEncfs).toHaveBeenCalledWith('tenant-1', COMPANY_ID, 'E31', 1);
+    });
+
+    it('fails the whole group when its sequence cannot cover it', async () => {
+      const ctx = await setup();
+      ctx.sequencesService.reserveEncfs.mockRejectedValue(new Error('La secuencia para tipo E31 se ha agotado.'));
+
+      const items = await run(ctx, [PAYLOAD, PAYLOAD]);
+
+      expect(items.map((i: any) => [i.status, i.errors])).toEqual([
+        ['FAILED', ['La secuencia para tipo E31 se ha agotado.']],
+        ['FAILED', ['La secuencia para tipo E31 se ha agotado.']],
+      ]);
+      expect(ctx.invoices).toHaveLength(0);
+    });
+
+    it('skips a batch another worker already claimed', async () => {
+      const ctx = await setup();
+      ctx.prisma.invoiceBatch.updateMany.mockResolvedValue({ count: 0 });
+
+      await ctx.service.processBatch('tenant-1', 'batch-1');
+
+      expect(ctx.prisma.invoiceBatch.findUniqueOrThrow).not.toHaveBeenCalled();
+      expect(ctx.prisma.invoiceBatchItem.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findBatch', () => {
+    it('reports a processed batch as PROCESSING until its invoices leave the queue', async () => {
+      const { prisma, service } = await setup();
+      const item = (index: number, status: string, invoiceStatus?: InvoiceStatus) => ({
+        index,
+        status,
+        idempotencyKey: null,
+        invoiceId: invoiceStatus ? `inv-${index}` : null,
+        encf: null,
+        errors: invoiceStatus ? null : ['ecfType inválido'],
+        invoice: invoiceStatus
+          ? { id: `inv-${index}`, encf: `E31000000000${index}`, status: invoiceStatus, trackId: null, dgiiMessage: null }
+          : null,
+      });
+      prisma.invoiceBatch.findFirst.mockResolvedValue({
+        id: 'batch-1',
+        status: 'COMPLETED',
+        totalItems: 3,
+        createdAt: new Date(),
+        processedAt: new Date(),
+        errorMessage: null,
+        items: [
+          item(0, 'QUEUED', InvoiceStatus.ACCEPTED),
+          item(1, 'QUEUED', InvoiceStatus.PROCESSING),
+          item(2, 'VALIDATION_ERROR'),
+        ],
+      });
+
+      const batch = await service.findBatch('tenant-1', 'batch-1');
+
+      expect(batch.status).toBe('PROCESSING');
+      expect(batch.summary).toEqual({
+        QUEUED: 2,
+        VALIDATION_ERROR: 1,
+        invoice_ACCEPTED: 1,
+        invoice_PROCESSING: 1,
+      });
+      expect(batch.items.map((i) => [i.status, i.invoiceStatus, i.encf])).toEqual([
+        ['QUEUED', InvoiceStatus.ACCEPTED, 'E310000000000'],
+        ['QUEUED', InvoiceStatus.PROCESSING, 'E310000000001'],
+        ['VALIDATION_ERROR', null, null],
+      ]);
+    });
+  });
+});
@@ -3,10 +3,14 @@ import {
   NotFoundException,
   BadRequestException,
   ConflictException,
+  HttpException,
   Logger,
 } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
 import { PrismaService } from '../prisma/prisma.service';
 import { XmlBuilderService, EmitterData } from '../xml-builder/xml-builder.service';
+import { InvoiceTotals } from '../xml-builder/invoice-input.interface';
 import { SigningService } from '../signing/signing.service';
 import { DgiiService } from '../dgii/dgii.service';
 import { CertificatesService } from '../certificates/certificates.service';
@@ -14,13 +18,55 @@ import { SequencesService } from '../sequences/sequences.service';
 import { ValidationService } from '../validation/validation.service';
 import { XsdValidationService } from '../validation/xsd-validation.service';
 import { RncValidationService } from '../common/services/rnc-validation.service';
+import { QueueService } from '../queue/queue.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { UsageService } from '../usage/usage.service';
+import { AuditService } from '../audit/audit.service';
+import { QuotaExceededException } from '../usage/quota-exceeded.exception';
 import { CreateInvoiceDto, TYPES_REQUIRING_RNC } from './dto/invoice.dto';
-import { InvoiceStatus, EcfType } from '@prisma/client';
+import { CreateAdjustmentNoteDto } from './dto/adjustment-note.dto';
+import { Company, Invoice, InvoiceLine, InvoiceStatus, EcfType, Prisma } from '@prisma/client';
 import {
   DGII_STATUS,
   FC_FULL_SUBMISSION_THRESHOLD,
   ECF_TYPE_CODES,
+  MODIFICATION_CODES,
 } from '../xml-builder/ecf-types';
+import { DGII_ANNULMENT_TYPES, DEFAULT_VOID_ANNULMENT_TYPE } from '../reports/formats/format-608';
+import {
+  RequestContext,
+  assertCompanyAccess,
+  assertDgiiEnvironmentAccess,
+  companyScopeWhere,
+  getRequestContext,
+  runWithRequestContext,
+} from '../common/middleware/request-context.middleware';
+
+interface BatchItemResult {
+  index: number;
+  status: 'QUEUED' | 'EXISTING' | 'VALIDATION_ERROR' | 'FAILED';
+  idempotencyKey?: string;
+  invoiceId?: string;
+  encf?: string | null;
+  errors?: string[];
+}
+
+/** One finding of POST /invoices/validate */
+export interface DryRunIssue {
+  level: 'ERROR' | 'WARNING';
+  source: 'BUSINESS_RULES' | 'IDEMPOTENCY' | 'SEQUENCE' | 'VALIDATION' | 'CUADRATURA' | 'XSD';
+  message: string;
+}
+
+/** Sequence part of the placeholder eNCF used by the dry run */
+const DRY_RUN_ENCF_NUMBER = '0000000001';
+
+/** Notes in these statuses never reached DGII and don't count against the balance */
+const NON_EFFECTIVE_NOTE_STATUSES: InvoiceStatus[] = [
+  InvoiceStatus.REJECTED,
+  InvoiceStatus.VOIDED,
+  InvoiceStatus.ERROR,
+];
 
 @Injectable()
 export class InvoicesService {
@@ -36,6 +82,10 @@ export class InvoicesService {
     private readonly validationService: ValidationService,
     private readonly xsdValidation: XsdValidationService,
     private readonly rncValidation: RncValidationService,
+    private readonly queueService: QueueService,
+    private readonly webhooksService: WebhooksService,
+    private readonly usageService: UsageService,
+    private readonly auditService: AuditService,
   ) {}
 
   /**
@@ -54,212 +104,21 @@ export class InvoicesService {
    */
   async create(tenantId: string, dto: CreateInvoiceDto) {
     // Step 0: Idempotency check
-    if (dto.idempotencyKey) {
-      const existing = await this.prisma.invoice.findUnique({
-        where: { idempotencyKey: dto.idempotencyKey },
-      });
-      if (existing) {
-        this.logger.debug(`Idempotency hit: ${dto.idempotencyKey}`);
-        return this.formatInvoiceResponse(existing);
-      }
-    }
-
-    // Step 1: Get company data
-    const company = await this.prisma.company.findFirst({
-      where: { id: dto.companyId, tenantId, isActive: true },
-    });
-
-    if (!company) {
-      throw new NotFoundException('Empresa no encontrada o inactiva');
-    }
-
-    // ── Business Logic Validations ──
-
-    // RNC required for certain ecfTypes
-    if (TYPES_REQUIRING_RNC.includes(dto.ecfType) && !dto.buyer.rnc) {
-      throw new BadRequestException(
-        `RNC del comprador es obligatorio para tipo ${dto.ecfType}. ` +
-        `Solo E32 (Consumo), E46 (Exportaciones) y E47 (Pagos Exterior) permiten omitir RNC.`,
-      );
-    }
-
-    // Validate buyer RNC format if provided (check digit is soft, DGII lookup is authoritative)
-    if (dto.buyer.rnc) {
-      const rncCheck = this.rncValidation.validateFormat(dto.buyer.rnc);
-      if (!rncCheck.valid) {
-        throw new BadRequestException(
-          `RNC/Cédula del comprador inválido: ${rncCheck.error}`,
-        );
-      }
-      if (rncCheck.warning) {
-        this.logger.warn(`Buyer RNC ${dto.buyer.rnc}: ${rncCheck.warning}`);
-      }
-    }
-
-    // Reference required for NC (E34) and ND (E33)
-    if ((dto.ecfType === 'E33' || dto.ecfType === 'E34') && !dto.reference) {
-      throw new BadRequestException(
-        `Referencia al documento original es obligatoria para ${dto.ecfType === 'E33' ? 'Nota de Débito (E33)' : 'Nota de Crédito (E34)'}. ` +
-        `Incluya el campo "reference" con el eNCF original.`,
-      );
-    }
+    const existing = await this.findByIdempotencyKey(tenantId, dto.idempotencyKey);
+    if (existing) return this.formatInvoiceResponse(existing);
 
-    // Validate discount does not exceed line subtotal
-    for (let i = 0; i < dto.items.length; i++) {
-      const item = dto.items[i];
-      const lineSubtotal = item.quantity * item.unitPrice;
-      if (item.discount && item.discount > lineSubtotal) {
-        throw new BadRequestException(
-          `Item ${i + 1}: descuento (${item.discount}) no puede exceder subtotal de línea (${lineSubtotal})`,
-        );
-      }
-    }
-
-    // Calculate totals for E32 threshold check
-    const calcTotal = dto.items.reduce((sum, item) => {
-      const base = item.quantity * item.unitPrice - (item.discount || 0);
-      const rate = item.itbisRate ?? 18;
-      return sum + base + base * (rate / 100);
-    }, 0);
-
-    // E32 max 250K DOP (RFCE threshold)
-    if (dto.ecfType === 'E32' && calcTotal > FC_FULL_SUBMISSION_THRESHOLD) {
-      throw new BadRequestException(
-        `Factura de Consumo (E32) con monto RD$ ${calcTotal.toFixed(2)} excede el límite de ` +
-        `RD$ ${FC_FULL_SUBMISSION_THRESHOLD.toLocaleString()} para RFCE. Use E31 (Crédito Fiscal) en su lugar.`,
-      );
-    }
-
-    // Payment type 4 (Credit) requires termDays
-    if (dto.payment.type === 4 && !dto.payment.termDays) {
-      throw new BadRequestException(
-        'Pago a crédito (tipo 4) requiere especificar "termDays" (días de crédito).',
-      );
-    }
-
-    const ecfType = dto.ecfType as EcfType;
-    const typeCode = ECF_TYPE_CODES[dto.ecfType as keyof typeof ECF_TYPE_CODES];
-
-    // Step 2: Assign eNCF
-    const encf = await this.sequencesService.getNextEncf(tenantId, dto.companyId, ecfType);
-    this.logger.log(`eNCF assigned: ${encf}`);
-
-    // Get sequence expiry date for XML (E32/E34 don't include it in XML per DGII spec)
-    const activeSequence = await this.prisma.sequence.findFirst({
-      where: { tenantId, companyId: dto.companyId, ecfType, isActive: true },
-      select: { expiresAt: true },
-    });
-
-    // Step 3: Build XML
-    const emitterData: EmitterData = {
-      rnc: company.rnc,
-      businessName: company.businessName,
-      tradeName: company.tradeName || undefined,
-      address: company.address || undefined,
-      municipality: company.municipality || undefined,
-      province: company.province || undefined,
-    };
-
-    const inputWithSequence = {
-      ...(dto as any),
-      sequenceExpiresAt: activeSequence?.expiresAt?.toISOString(),
-    };
-
-    const { xml: unsignedXml, totals } = this.xmlBuilder.buildEcfXml(
-      inputWithSequence,
-      emitterData,
-      encf,
-    );
-
-    // Step 3b: Validate XML against XSD schema
-    const xsdResult = await this.xsdValidation.validateXml(unsignedXml, typeCode);
-    if (!xsdResult.valid) {
-      this.logger.error(`XSD validation failed for ${encf}: ${xsdResult.errors.join('; ')}`);
-      throw new BadRequestException(
-        `XML no pasa validación XSD de DGII: ${xsdResult.errors.slice(0, 3).join('; ')}`,
-      );
-    }
-
-    // Determine if RFCE (Factura Consumo < 250K)
-    const isRfce = typeCode === 32 && totals.totalAmount < FC_FULL_SUBMISSION_THRESHOLD;
-
-    // Step 4: Create invoice record
-    const invoice = await this.prisma.invoice.create({
-      data: {
-        tenantId,
-        companyId: dto.companyId,
-        ecfType,
-        encf,
-        status: InvoiceStatus.PROCESSING,
-        buyerRnc: dto.buyer.rnc,
-        buyerName: dto.buyer.name,
-        buyerEmail: dto.buyer.email,
-        subtotal: totals.subtotalBeforeTax,
-        totalDiscount: totals.totalDiscount,
-        totalItbis: totals.totalItbis,
-        totalIsc: totals.totalIsc,
-        totalAmount: totals.totalAmount,
-        paymentType: dto.payment.type,
-        referenceEncf: dto.reference?.encf,
-        referenceDate: dto.reference?.date ? new Date(dto.reference.date) : undefined,
-        referenceModCode: dto.reference?.modificationCode,
-        isRfce,
-        currency: dto.currency?.code || 'DOP',
-        exchangeRate: dto.currency?.exchangeRate,
-        xmlUnsigned: unsignedXml,
-        idempotencyKey: dto.idempotencyKey,
-        metadata: { ...dto.metadata, _originalDto: dto } as any,
-      },
-    });
-
-    // Create invoice lines
-    await this.prisma.invoiceLine.createMany({
-      data: dto.items.map((item, index) => {
-        const lineSubtotal = item.quantity * item.unitPrice - (item.discount || 0);
-        const rate = item.itbisRate ?? 18;
-        const itbisAmount = lineSubtotal * (rate / 100);
-
-        return {
-          tenantId,
-          invoiceId: invoice.id,
-          lineNumber: index + 1,
-          description: item.description,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          discount: item.discount || 0,
-          itbisRate: rate,
-          itbisAmount: Math.round(itbisAmount * 100) / 100,
-          iscAmount: 0,
-          subtotal: Math.round(lineSubtotal * 100) / 100,
-          additionalTaxCode: item.additionalTaxCode || null,
-          additionalTaxRate: item.additionalTaxRate || null,
-          goodService: item.goodService || 1,
-        };
-      }),
-    });
+    const {
+      invoice, company, emitterData, encf, ecfType, unsignedXml, totals, isRfce,
+    } = await this.persistInvoice(tenantId, dto);
 
     // Step 5: Sign and submit
     try {
-      // Get decrypted .p12 certificate
-      const { p12Buffer, passphrase } = await this.certificatesService.getDecryptedCertificate(
-        tenantId,
-        dto.companyId,
-      );
-
-      // Extract private key and certificate from .p12
+      // Get the company's signer (.p12 key or HSM)
       // Per DGII p.60: validate that certificate SN matches company RNC
-      const { privateKey, certificate } = this.signingService.extractFromP12(
-        p12Buffer,
-        passphrase,
-        company.rnc,
-      );
+      const signer = await this.certificatesService.getSigner(tenantId, dto.companyId, company.rnc);
 
       // Sign the XML
-      const { signedXml, securityCode, signTime } = this.signingService.signXml(
-        unsignedXml,
-        privateKey,
-        certificate,
-      );
+      const { signedXml, securityCode, signTime } = this.signingService.signXml(unsignedXml, signer);
 
       this.logger.log(`XML signed: ${encf} | Security code: ${securityCode}`);
 
@@ -277,8 +136,7 @@ export class InvoicesService {
       const token = await this.dgiiService.getToken(
         tenantId,
         dto.companyId,
-        privateKey,
-        certificate,
+        signer,
         company.dgiiEnv,
       );
 
@@ -322,7 +180,7 @@ export class InvoicesService {
       // Step 8: Update with DGII response
       const newStatus = this.mapDgiiStatus(submissionResult.status);
 
-      await this.prisma.invoice.update({
+      const submitted = await this.prisma.invoice.update({
         where: { id: invoice.id },
         data: {
           status: newStatus,
@@ -335,9 +193,12 @@ export class InvoicesService {
 
       this.logger.log(`${encf} → DGII: ${newStatus} | TrackId: ${submissionResult.trackId}`);
 
+      await this.webhooksService.dispatchInvoiceStatus(submitted, invoice.status);
+
       // Audit log
-      await this.createAuditLog(tenantId, 'invoice', invoice.id, 'submitted', {
+      await this.auditService.record(tenantId, 'invoice', invoice.id, 'submitted', {
         encf, ecfType, isRfce,
+        dgiiEnv: invoice.dgiiEnv,
         totalAmount: totals.totalAmount,
         securityCode,
         dgiiStatus: newStatus,
@@ -369,12 +230,509 @@ export class InvoicesService {
     return this.findOne(tenantId, invoice.id);
   }
 
+  /**
+   * Create an invoice asynchronously.
+   *
+   * Runs the same validations, eNCF assignment, XML build and persistence as
+   * create(), then hands signing + DGII submission to the ECF_PROCESSING queue
+   * and returns immediately. The eNCF is consumed and stored before returning,
+   * so the caller always knows which number was used even if DGII is slow.
+   */
+  async createAsync(tenantId: string, dto: CreateInvoiceDto) {
+    const existing = await this.findByIdempotencyKey(tenantId, dto.idempotencyKey);
+    if (existing) return this.formatInvoiceResponse(existing);
+
+    const { invoice } = await this.persistInvoice(tenantId, dto);
+    await this.enqueueProcessing(tenantId, invoice);
+
+    return this.findOne(tenantId, invoice.id);
+  }
+
+  /**
+   * Dry run of create(): business rules, ValidationService checks, XML build
+   * (placeholder eNCF) and XSD validation. Nothing is persisted and no
+   * sequence number is consumed; problems are collected instead of thrown so
+   * the caller sees all of them at once.
+   */
+  async validateDryRun(tenantId: string, dto: CreateInvoiceDto) {
+    const company = await this.getActiveCompany(tenantId, dto.companyId);
+
+    const ecfType = dto.ecfType as EcfType;
+    const typeCode = ECF_TYPE_CODES[dto.ecfType as keyof typeof ECF_TYPE_CODES];
+    const encf = `${ecfType}${DRY_RUN_ENCF_NUMBER}`;
+
+    const issues: DryRunIssue[] = [];
+    const error = (source: DryRunIssue['source'], message: string) =>
+      issues.push({ level: 'ERROR', source, message });
+    const warning = (source: DryRunIssue['source'], message: string) =>
+      issues.push({ level: 'WARNING', source, message });
+
+    try {
+      this.assertBusinessRules(dto).forEach((w) => warning('BUSINESS_RULES', w));
+    } catch (e) {
+      if (!(e instanceof HttpException)) throw e;
+      error('BUSINESS_RULES', e.message);
+    }
+
+    try {
+      const existing = await this.findByIdempotencyKey(tenantId, dto.idempotencyKey);
+      if (existing) {
+        warning(
+          'IDEMPOTENCY',
+          `idempotencyKey ya fue usada por ${existing.encf}: POST /invoices devolverá esa factura sin crear una nueva`,
+        );
+      }
+    } catch (e) {
+      if (!(e instanceof HttpException)) throw e;
+      error('IDEMPOTENCY', e.message);
+    }
+
+    // Same checks as SequencesService.reserveEncfs, without reserving
+    const availability = await this.sequencesService.getAvailable(tenantId, dto.companyId, ecfType);
+    if (!availability.available) {
+      error('SEQUENCE', availability.message!);
+    } else if (availability.message) {
+      warning('SEQUENCE', availability.message);
+    }
+
+    let xml: string | null = null;
+    let totals: InvoiceTotals | null = null;
+    try {
+      ({ xml, totals } = this.xmlBuilder.buildEcfXml(
+        { ...(dto as any), sequenceExpiresAt: availability.expiresAt?.toISOString() },
+        this.toEmitterData(company),
+        encf,
+      ));
+      // buildEcfXml only logs cuadratura warnings
+      this.validationService.validateCuadratura(dto.items as any, totals).warnings
+        .forEach((w) => warning('CUADRATURA', w));
+    } catch (e) {
+      if (!(e instanceof HttpException)) throw e;
+      error('VALIDATION', e.message);
+    }
+
+    let xsdSchema: string | null = null;
+    if (xml) {
+      const xsdResult = await this.xsdValidation.validateXml(xml, typeCode);
+      xsdResult.errors.forEach((e) => error('XSD', e));
+      xsdResult.warnings.forEach((w) => warning('XSD', w));
+      xsdSchema = xsdResult.schema;
+    }
+
+    return {
+      valid: !issues.some((i) => i.level === 'ERROR'),
+      ecfType,
+      placeholderEncf: encf,
+      isRfce: totals ? typeCode === 32 && totals.totalAmount < FC_FULL_SUBMISSION_THRESHOLD : null,
+      totals,
+      xmlUnsigned: xml,
+      xsdSchema,
+      issues,
+    };
+  }
+
+  /**
+   * Bulk creation. The payloads are stored with the batch and processed by
+   * the invoice-batch queue (processBatch), so the request only records the
+   * submission; findBatch() reports progress and the per-item outcome.
+   * If the queue is unavailable the batch is processed in the request.
+   */
+  async createBatch(tenantId: string, payloads: Record<string, any>[]) {
+    const batch = await this.prisma.invoiceBatch.create({
+      data: {
+        tenantId,
+        totalItems: payloads.length,
+        status: 'PENDING',
+        payloads: payloads as Prisma.InputJsonValue,
+        context: { ...getRequestContext() } as Prisma.InputJsonValue,
+      },
+    });
+
+    await this.auditService.record(tenantId, 'invoice_batch', batch.id, 'created', {
+      totalItems: payloads.length,
+    });
+
+    try {
+      await this.queueService.enqueueInvoiceBatch({ tenantId, batchId: batch.id });
+    } catch (error: any) {
+      this.logger.error(`Could not enqueue batch ${batch.id}, processing inline: ${error.message}`);
+      await this.processBatch(tenantId, batch.id);
+    }
+
+    return this.findBatch(tenantId, batch.id);
+  }
+
+  /**
+   * Invoice-batch worker: each payload is validated on its own (DTO,
+   * business rules, XML and XSD, as the dry run) before any eNCF is
+   * reserved; the valid ones get their eNCF in one sequence transaction per
+   * company/type, are persisted and queued exactly like createAsync().
+   * Runs under the submitting request's context (API key companies, test
+   * vs live, audit actor).
+   *
+   * Items whose idempotencyKey already exists are reported as EXISTING with
+   * the original invoice, so a batch can be retried safely. An eNCF reserved
+   * for an item that then fails is recorded for annulment (ANECF).
+   */
+  async processBatch(tenantId: string, batchId: string) {
+    const claimed = await this.prisma.invoiceBatch.updateMany({
+      where: { id: batchId, tenantId, status: 'PENDING' },
+      data: { status: 'PROCESSING' },
+    });
+    if (claimed.count === 0) {
+      this.logger.warn(`Batch ${batchId} is not pending; skipping`);
+      return;
+    }
+
+    const batch = await this.prisma.invoiceBatch.findUniqueOrThrow({ where: { id: batchId } });
+    const payloads = (batch.payloads ?? []) as Record<string, any>[];
+
+    await runWithRequestContext((batch.context ?? {}) as RequestContext, async () => {
+      let results: BatchItemResult[];
+      try {
+        results = await this.runBatch(tenantId, batchId, payloads);
+      } catch (error: any) {
+        this.logger.error(`Batch ${batchId} failed: ${error.message}`);
+        await this.prisma.invoiceBatch.update({
+          where: { id: batchId },
+          data: { status: 'FAILED', processedAt: new Date(), errorMessage: String(error.message).slice(0, 500) },
+        });
+        throw error;
+      }
+
+      await this.prisma.invoiceBatchItem.createMany({
+        data: results.map((r) => ({
+          tenantId,
+          batchId,
+          index: r.index,
+          status: r.status,
+          idempotencyKey: r.idempotencyKey,
+          invoiceId: r.invoiceId,
+          encf: r.encf,
+          errors: r.errors,
+        })),
+      });
+      await this.prisma.invoiceBatch.update({
+        where: { id: batchId },
+        data: { status: 'COMPLETED', processedAt: new Date(), payloads: Prisma.DbNull },
+      });
+
+      await this.auditService.record(tenantId, 'invoice_batch', batchId, 'processed', {
+        totalItems: payloads.length,
+        queued: results.filter((r) => r.status === 'QUEUED').length,
+      });
+    });
+  }
+
+  private async runBatch(tenantId: string, batchId: string, payloads: Record<string, any>[]) {
+    const results: BatchItemResult[] = payloads.map((_, index) => ({ index, status: 'QUEUED' }));
+    const valid: { index: number; dto: CreateInvoiceDto }[] = [];
+    const seenKeys = new Set<string>();
+
+    // Step 1: Validate each payload independently
+    for (const [index, payload] of payloads.entries()) {
+      const result = results[index];
+      result.idempotencyKey = typeof payload?.idempotencyKey === 'string' ? payload.idempotencyKey : undefined;
+
+      const { dto, errors } = await this.validateCreatePayload(payload);
+      if (errors.length) {
+        Object.assign(result, { status: 'VALIDATION_ERROR', errors });
+        continue;
+      }
+
+      if (dto.idempotencyKey) {
+        if (seenKeys.has(dto.idempotencyKey)) {
+          Object.assign(result, {
+            status: 'VALIDATION_ERROR',
+            errors: [`idempotencyKey repetida en el lote: ${dto.idempotencyKey}`],
+          });
+          continue;
+        }
+        seenKeys.add(dto.idempotencyKey);
+
+        let existing: Invoice | null;
+        try {
+          existing = await this.findByIdempotencyKey(tenantId, dto.idempotencyKey);
+        } catch (error: any) {
+          Object.assign(result, { status: 'VALIDATION_ERROR', errors: [error.message] });
+          continue;
+        }
+        if (existing) {
+          Object.assign(result, { status: 'EXISTING', invoiceId: existing.id, encf: existing.encf });
+          continue;
+        }
+      }
+
+      // Everything persistInvoice() can reject, checked before reserving:
+      // a number reserved for an item that then fails is burned. Sequence
+      // availability is left to the reservation below.
+      try {
+        const dryRun = await this.validateDryRun(tenantId, dto);
+        const dryRunErrors = dryRun.issues
+          .filter((i) => i.level === 'ERROR' && i.source !== 'SEQUENCE')
+          .map((i) => i.message);
+        if (dryRunErrors.length) {
+          Object.assign(result, { status: 'VALIDATION_ERROR', errors: dryRunErrors });
+          continue;
+        }
+      } catch (error: any) {
+        Object.assign(result, { status: 'VALIDATION_ERROR', errors: [error.message] });
+        continue;
+      }
+
+      valid.push({ index, dto });
+    }
+
+    // Plan quota: items beyond what is left this month are not created
+    try {
+      await this.usageService.assertWithinLimit(tenantId, 'invoices', valid.length);
+    } catch (error) {
+      if (!(error instanceof QuotaExceededException)) throw error;
+      for (const { index } of valid.splice(Math.max(0, error.limit - error.used))) {
+        Object.assign(results[index], { status: 'FAILED', errors: [error.message] });
+      }
+    }
+
+    // Step 2: Reserve eNCFs, one transaction per company + e-CF type
+    const groups = new Map<string, { index: number; dto: CreateInvoiceDto }[]>();
+    for (const item of valid) {
+      const key = `${item.dto.companyId}:${item.dto.ecfType}`;
+      groups.set(key, [...(groups.get(key) || []), item]);
+    }
+
+    for (const group of groups.values()) {
+      const { companyId, ecfType } = group[0].dto;
+      let encfs: string[];
+      try {
+        encfs = await this.sequencesService.reserveEncfs(tenantId, companyId, ecfType as EcfType, group.length);
+      } catch (error: any) {
+        for (const { index } of group) {
+          Object.assign(results[index], { status: 'FAILED', errors: [error.message] });
+        }
+        continue;
+      }
+
+      // Step 3: Persist and queue
+      for (const [i, { index, dto }] of group.entries()) {
+        const result = results[index];
+        result.encf = encfs[i];
+        try {
+          const { invoice } = await this.persistInvoice(tenantId, dto, encfs[i]);
+          await this.enqueueProcessing(tenantId, invoice);
+          result.invoiceId = invoice.id;
+        } catch (error: any) {
+          this.logger.error(`Batch ${batchId} item ${index} (${encfs[i]}) failed: ${error.message}`);
+          Object.assign(result, { status: 'FAILED', errors: [error.message] });
+
+          // The eNCF stays consumed: unless the invoice row made it in, it
+          // must be annulled
+          const persisted = await this.prisma.invoice.findFirst({
+            where: { tenantId, companyId, encf: encfs[i] },
+            select: { id: true },
+          });
+          if (persisted) {
+            result.invoiceId = persisted.id;
+          } else {
+            await this.sequencesService.recordUnusedEncf(tenantId, companyId, encfs[i], error.message);
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Validate a raw payload against CreateInvoiceDto with the same options as
+   * the global ValidationPipe, returning "path: message" errors instead of
+   * throwing. Used where one bad payload must not reject the others.
+   */
+  async validateCreatePayload(payload: Record<string, any>) {
+    const dto = plainToInstance(CreateInvoiceDto, payload, { enableImplicitConversion: true });
+    const errors = await validate(dto, { whitelist: true, forbidNonWhitelisted: true });
+    return { dto, errors: flattenValidationErrors(errors) };
+  }
+
+  /**
+   * Batch status with per-item outcome: validation result and, for created
+   * items, the current invoice status (DGII result once processed).
+   */
+  async findBatch(tenantId: string, batchId: string) {
+    const batch = await this.prisma.invoiceBatch.findFirst({
+      where: { id: batchId, tenantId },
+      include: {
+        items: {
+          orderBy: { index: 'asc' },
+          include: {
+            invoice: {
+              select: { id: true, encf: true, ecfType: true, status: true, trackId: true, dgiiMessage: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!batch) throw new NotFoundException('Lote no encontrado');
+
+    const pendingStatuses: InvoiceStatus[] = [
+      InvoiceStatus.DRAFT,
+      InvoiceStatus.PROCESSING,
+      InvoiceStatus.SENT,
+      InvoiceStatus.CONTINGENCY,
+    ];
+
+    const summary: Record<string, number> = {};
+    const count = (key: string) => { summary[key] = (summary[key] || 0) + 1; };
+
+    const items = batch.items.map(({ invoice, ...item }) => {
+      count(item.status);
+      if (invoice) count(`invoice_${invoice.status}`);
+      return {
+        index: item.index,
+        status: item.status,
+        idempotencyKey: item.idempotencyKey,
+        invoiceId: item.invoiceId,
+        encf: invoice?.encf || item.encf,
+        errors: item.errors,
+        invoiceStatus: invoice?.status || null,
+        trackId: invoice?.trackId || null,
+        dgiiMessage: invoice?.dgiiMessage || null,
+      };
+    });
+
+    const pending = batch.items.some((i) => i.invoice && pendingStatuses.includes(i.invoice.status));
+
+    // PENDING/PROCESSING until the worker has created the items; then
+    // PROCESSING while their invoices are on the way to the DGII
+    let status = batch.status;
+    if (status === 'COMPLETED' && pending) status = 'PROCESSING';
+
+    return {
+      id: batch.id,
+      status,
+      totalItems: batch.totalItems,
+      summary,
+      createdAt: batch.createdAt,
+      processedAt: batch.processedAt,
+      ...(batch.errorMessage && { error: batch.errorMessage }),
+      items,
+    };
+  }
+
+  /**
+   * Issue a Nota de Crédito (E34) or Nota de Débito (E33) against an
+   * ACCEPTED/CONDITIONAL invoice.
+   *
+   * Buyer, currency and items are copied from the original; the note is
+   * built as a regular CreateInvoiceDto with InformacionReferencia set and
+   * goes through create() like any other e-CF.
+   *
+   * - Credit notes issued more than 30 days after the original carry no
+   *   ITBIS (ValidationService.canReturnItbisInNc)
+   * - Credit notes cannot exceed the original's remaining balance:
+   *   total + debit notes - credit notes already issued (re-checked in
+   *   persistInvoice() under a row lock on the original)
+   */
+  async createAdjustmentNote(
+    tenantId: string,
+    invoiceId: string,
+    noteType: 'E33' | 'E34',
+    dto: CreateAdjustmentNoteDto,
+  ) {
+    const existing = await this.findByIdempotencyKey(tenantId, dto.idempotencyKey);
+    if (existing) return this.formatInvoiceResponse(existing);
+
+    const isCredit = noteType === 'E34';
+    const noteLabel = isCredit ? 'Nota de Crédito (E34)' : 'Nota de Débito (E33)';
+
+    const original = await this.prisma.invoice.findFirst({
+      where: { id: invoiceId, tenantId, ...companyScopeWhere() },
+      include: { lines: { orderBy: { lineNumber: 'asc' } } },
+    });
+
+    if (!original) throw new NotFoundException('Factura no encontrada');
+
+    if (original.status !== InvoiceStatus.ACCEPTED && original.status !== InvoiceStatus.CONDITIONAL) {
+      throw new BadRequestException(
+        `Solo se puede emitir una ${noteLabel} sobre facturas aceptadas por DGII (estado actual: ${original.status})`,
+      );
+    }
+
+    if (!original.encf || original.ecfType === EcfType.E33 || original.ecfType === EcfType.E34) {
+      throw new BadRequestException(`No se puede emitir una ${noteLabel} sobre una nota de crédito o débito`);
+    }
+
+    if (dto.lines && dto.amount !== undefined) {
+      throw new BadRequestException('Indique "lines" o "amount", no ambos');
+    }
+
+    if (!isCredit && !dto.lines && dto.amount === undefined) {
+      throw new BadRequestException('Nota de Débito requiere "lines" o "amount"');
+    }
+
+    const originalDto = (original.metadata as any)?._originalDto || {};
+    const originalDate = originalDto.fechaEmision
+      ? parseDateDgii(originalDto.fechaEmision)
+      : original.createdAt;
+    const returnItbis = !isCredit || this.validationService.canReturnItbisInNc(originalDate);
+
+    const items = this.buildAdjustmentItems(original, originalDto.items || [], dto, isCredit, returnItbis);
+    const noteTotal = ValidationService.round2(items.reduce((sum, item) => {
+      const base = item.quantity * item.unitPrice - (item.discount || 0);
+      return sum + base + base * ((item.itbisRate ?? 18) / 100);
+    }, 0));
+
+    // Checked again with the original locked when the note is persisted
+    if (isCredit) {
+      await this.assertCreditWithinBalance(this.prisma, tenantId, original, noteTotal);
+    }
+
+    const isFullReversal = isCredit && !dto.lines && dto.amount === undefined;
+
+    const noteDto: CreateInvoiceDto = {
+      companyId: original.companyId,
+      ecfType: noteType,
+      buyer: originalDto.buyer || {
+        rnc: original.buyerRnc || undefined,
+        name: original.buyerName || '',
+        email: original.buyerEmail || undefined,
+      },
+      items,
+      payment: {
+        type: originalDto.payment?.type || original.paymentType || 1,
+        method: dto.paymentMethod ?? originalDto.payment?.method,
+      },
+      reference: {
+        encf: original.encf,
+        date: originalDto.fechaEmision || formatDateDgii(original.createdAt),
+        reason: dto.reason,
+        modificationCode: dto.modificationCode
+          ?? (isFullReversal ? MODIFICATION_CODES.VOID : MODIFICATION_CODES.CORRECT_AMOUNT),
+      },
+      currency: original.currency !== 'DOP' && original.exchangeRate
+        ? { code: original.currency, exchangeRate: Number(original.exchangeRate) }
+        : undefined,
+      idempotencyKey: dto.idempotencyKey,
+      metadata: {
+        ...dto.metadata,
+        originalInvoiceId: original.id,
+        itbisReturned: returnItbis,
+      },
+    };
+
+    if (!returnItbis) {
+      this.logger.log(`${noteLabel} for ${original.encf}: >30 days, ITBIS not returned`);
+    }
+
+    return this.create(tenantId, noteDto);
+  }
+
   /**
    * Poll DGII for invoice status update.
    */
   async pollStatus(tenantId: string, invoiceId: string) {
     const invoice = await this.prisma.invoice.findFirst({
-      where: { id: invoiceId, tenantId },
+      where: { id: invoiceId, tenantId, ...companyScopeWhere() },
       include: { company: true },
     });
 
@@ -383,12 +741,9 @@ export class InvoicesService {
       throw new BadRequestException('Factura sin TrackId para consultar');
     }
 
-    const { p12Buffer, passphrase } = await this.certificatesService.getDecryptedCertificate(
-      tenantId, invoice.companyId,
-    );
-    const { privateKey, certificate } = this.signingService.extractFromP12(p12Buffer, passphrase);
+    const signer = await this.certificatesService.getSigner(tenantId, invoice.companyId);
     const token = await this.dgiiService.getToken(
-      tenantId, invoice.companyId, privateKey, certificate, invoice.company.dgiiEnv,
+      tenantId, invoice.companyId, signer, invoice.company.dgiiEnv,
     );
 
     const result = await this.dgiiService.queryStatus(
@@ -398,7 +753,7 @@ export class InvoicesService {
     const newStatus = this.mapDgiiStatus(result.status);
 
     if (newStatus !== invoice.status) {
-      await this.prisma.invoice.update({
+      const updated = await this.prisma.invoice.update({
         where: { id: invoice.id },
         data: {
           status: newStatus,
@@ -408,11 +763,14 @@ export class InvoicesService {
         },
       });
 
-      await this.createAuditLog(tenantId, 'invoice', invoice.id, 'status_updated', {
+      await this.auditService.record(tenantId, 'invoice', invoice.id, 'status_updated', {
+        dgiiEnv: invoice.dgiiEnv,
         previousStatus: invoice.status,
         newStatus,
         dgiiMessage: result.message,
       });
+
+      await this.webhooksService.dispatchInvoiceStatus(updated, invoice.status);
     }
 
     return {
@@ -427,7 +785,7 @@ export class InvoicesService {
 
   async findOne(tenantId: string, invoiceId: string) {
     const invoice = await this.prisma.invoice.findFirst({
-      where: { id: invoiceId, tenantId },
+      where: { id: invoiceId, tenantId, ...companyScopeWhere() },
       include: {
         lines: { orderBy: { lineNumber: 'asc' } },
         company: { select: { rnc: true, businessName: true } },
@@ -454,7 +812,9 @@ export class InvoicesService {
     const limit = Math.min(filters.limit || 20, 100);
     const skip = (page - 1) * limit;
 
-    const where: any = { tenantId };
+    if (filters.companyId) assertCompanyAccess(filters.companyId);
+
+    const where: any = { tenantId, ...companyScopeWhere() };
     if (filters.companyId) where.companyId = filters.companyId;
     if (filters.ecfType) where.ecfType = filters.ecfType;
     if (filters.status) where.status = filters.status;
@@ -483,7 +843,7 @@ export class InvoicesService {
 
   async getXml(tenantId: string, invoiceId: string): Promise<string> {
     const invoice = await this.prisma.invoice.findFirst({
-      where: { id: invoiceId, tenantId },
+      where: { id: invoiceId, tenantId, ...companyScopeWhere() },
       select: { xmlSigned: true, xmlUnsigned: true, xmlRfce: true },
     });
     if (!invoice) throw new NotFoundException('Factura no encontrada');
@@ -501,13 +861,20 @@ export class InvoicesService {
    * - PROCESSING, SENT: Cannot void while in transit to DGII
    * - VOIDED: Already voided
    */
-  async voidInvoice(tenantId: string, invoiceId: string, reason?: string) {
+  async voidInvoice(tenantId: string, invoiceId: string, reason?: string, annulmentType?: string) {
+    if (annulmentType && !DGII_ANNULMENT_TYPES[annulmentType]) {
+      throw new BadRequestException(
+        `Tipo de anulación inválido: ${annulmentType}. Valores permitidos: ${Object.keys(DGII_ANNULMENT_TYPES).join(', ')}`,
+      );
+    }
+
     const invoice = await this.prisma.invoice.findFirst({
-      where: { id: invoiceId, tenantId },
+      where: { id: invoiceId, tenantId, ...companyScopeWhere() },
       include: { company: true },
     });
 
     if (!invoice) throw new NotFoundException('Factura no encontrada');
+    assertDgiiEnvironmentAccess(invoice.dgiiEnv);
 
     // Check what statuses allow voiding
     const voidableStatuses: InvoiceStatus[] = [
@@ -549,6 +916,7 @@ export class InvoicesService {
           ...(invoice.metadata as any || {}),
           voidedAt: new Date().toISOString(),
           voidReason: reason || 'Anulada por el usuario',
+          annulmentType: annulmentType || DEFAULT_VOID_ANNULMENT_TYPE,
           previousStatus: invoice.status,
         },
       },
@@ -558,18 +926,455 @@ export class InvoicesService {
       },
     });
 
-    await this.createAuditLog(tenantId, 'invoice', invoice.id, 'voided', {
+    await this.auditService.record(tenantId, 'invoice', invoice.id, 'voided', {
       encf: invoice.encf,
       ecfType: invoice.ecfType,
+      dgiiEnv: invoice.dgiiEnv,
       previousStatus: invoice.status,
       reason: reason || 'Anulada por el usuario',
+      annulmentType: annulmentType || DEFAULT_VOID_ANNULMENT_TYPE,
     });
 
+    await this.webhooksService.dispatchInvoiceStatus(updated, invoice.status);
+
     this.logger.log(`Invoice ${invoice.encf || invoice.id} voided (was ${invoice.status})`);
 
     return updated;
   }
 
+  /**
+   * Invoice already created with this idempotencyKey by the caller (same
+   * tenant, within the API key's companies). Keys are unique across tenants,
+   * so one used elsewhere is a conflict rather than a hit.
+   */
+  private async findByIdempotencyKey(tenantId: string, idempotencyKey?: string) {
+    if (!idempotencyKey) return null;
+
+    const existing = await this.prisma.invoice.findFirst({
+      where: { idempotencyKey, tenantId, ...companyScopeWhere() },
+    });
+    if (existing) {
+      this.logger.debug(`Idempotency hit: ${idempotencyKey}`);
+      return existing;
+    }
+
+    const usedElsewhere = await this.prisma.invoice.count({ where: { idempotencyKey } });
+    if (usedElsewhere > 0) {
+      throw new ConflictException('idempotencyKey ya fue usada por otra solicitud; use una clave distinta');
+    }
+    return null;
+  }
+
+  /**
+   * Load the emitting company and check the business rules that don't need
+   * an eNCF (buyer RNC, NC/ND reference, discounts, E32 threshold, credit terms).
+   */
+  private async validateBusinessRules(tenantId: string, dto: CreateInvoiceDto) {
+    const company = await this.getActiveCompany(tenantId, dto.companyId);
+
+    const warnings = this.assertBusinessRules(dto);
+    warnings.forEach((w) => this.logger.warn(w));
+
+    return company;
+  }
+
+  private toEmitterData(company: Company): EmitterData {
+    return {
+      rnc: company.rnc,
+      businessName: company.businessName,
+      tradeName: company.tradeName || undefined,
+      address: company.address || undefined,
+      municipality: company.municipality || undefined,
+      province: company.province || undefined,
+    };
+  }
+
+  private async getActiveCompany(tenantId: string, companyId: string) {
+    assertCompanyAccess(companyId);
+
+    const company = await this.prisma.company.findFirst({
+      where: { id: companyId, tenantId, isActive: true },
+    });
+
+    if (!company) {
+      throw new NotFoundException('Empresa no encontrada o inactiva');
+    }
+    assertDgiiEnvironmentAccess(company.dgiiEnv);
+
+    return company;
+  }
+
+  /**
+   * Business rules on the request itself. Throws on the first violation;
+   * returns non-blocking warnings.
+   */
+  private assertBusinessRules(dto: CreateInvoiceDto): string[] {
+    const warnings: string[] = [];
+
+    // RNC required for certain ecfTypes
+    if (TYPES_REQUIRING_RNC.includes(dto.ecfType) && !dto.buyer.rnc) {
+      throw new BadRequestException(
+        `RNC del comprador es obligatorio para tipo ${dto.ecfType}. ` +
+        `Solo E32 (Consumo), E46 (Exportaciones) y E47 (Pagos Exterior) permiten omitir RNC.`,
+      );
+    }
+
+    // Validate buyer RNC format if provided (check digit is soft, DGII lookup is authoritative)
+    if (dto.buyer.rnc) {
+      const rncCheck = this.rncValidation.validateFormat(dto.buyer.rnc);
+      if (!rncCheck.valid) {
+        throw new BadRequestException(
+          `RNC/Cédula del comprador inválido: ${rncCheck.error}`,
+        );
+      }
+      if (rncCheck.warning) {
+        warnings.push(`RNC/Cédula del comprador ${dto.buyer.rnc}: ${rncCheck.warning}`);
+      }
+    }
+
+    // Reference required for NC (E34) and ND (E33)
+    if ((dto.ecfType === 'E33' || dto.ecfType === 'E34') && !dto.reference) {
+      throw new BadRequestException(
+        `Referencia al documento original es obligatoria para ${dto.ecfType === 'E33' ? 'Nota de Débito (E33)' : 'Nota de Crédito (E34)'}. ` +
+        `Incluya el campo "reference" con el eNCF original.`,
+      );
+    }
+
+    // Validate discount does not exceed line subtotal
+    for (let i = 0; i < dto.items.length; i++) {
+      const item = dto.items[i];
+      const lineSubtotal = item.quantity * item.unitPrice;
+      if (item.discount && item.discount > lineSubtotal) {
+        throw new BadRequestException(
+          `Item ${i + 1}: descuento (${item.discount}) no puede exceder subtotal de línea (${lineSubtotal})`,
+        );
+      }
+    }
+
+    // Calculate totals for E32 threshold check
+    const calcTotal = dto.items.reduce((sum, item) => {
+      const base = item.quantity * item.unitPrice - (item.discount || 0);
+      const rate = item.itbisRate ?? 18;
+      return sum + base + base * (rate / 100);
+    }, 0);
+
+    // E32 max 250K DOP (RFCE threshold)
+    if (dto.ecfType === 'E32' && calcTotal > FC_FULL_SUBMISSION_THRESHOLD) {
+      throw new BadRequestException(
+        `Factura de Consumo (E32) con monto RD$ ${calcTotal.toFixed(2)} excede el límite de ` +
+        `RD$ ${FC_FULL_SUBMISSION_THRESHOLD.toLocaleString()} para RFCE. Use E31 (Crédito Fiscal) en su lugar.`,
+      );
+    }
+
+    // Payment type 4 (Credit) requires termDays
+    if (dto.payment.type === 4 && !dto.payment.termDays) {
+      throw new BadRequestException(
+        'Pago a crédito (tipo 4) requiere especificar "termDays" (días de crédito).',
+      );
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Validate, assign eNCF, build + XSD-validate the XML and persist the
+   * invoice with its lines in PROCESSING status. Shared by the sync and
+   * async creation paths; nothing here talks to DGII.
+   */
+  private async persistInvoice(tenantId: string, dto: CreateInvoiceDto, reservedEncf?: string) {
+    // Step 1: Company + business rules
+    const company = await this.validateBusinessRules(tenantId, dto);
+
+    const ecfType = dto.ecfType as EcfType;
+    const typeCode = ECF_TYPE_CODES[dto.ecfType as keyof typeof ECF_TYPE_CODES];
+
+    // Step 2: Assign eNCF (bulk creation reserves them upfront and checks
+    // the plan quota for the whole batch)
+    if (!reservedEncf) {
+      await this.usageService.assertWithinLimit(tenantId, 'invoices');
+    }
+    const encf = reservedEncf || await this.sequencesService.getNextEncf(tenantId, dto.companyId, ecfType);
+    this.logger.log(`eNCF assigned: ${encf}`);
+
+    // From here on a failure leaves the eNCF unused. A single create()
+    // consumed it itself and records it; bulk creation records its own
+    const emitterData = this.toEmitterData(company);
+    let unsignedXml: string;
+    let totals: InvoiceTotals;
+    let isRfce: boolean;
+    let invoice: Invoice;
+    try {
+      // Get sequence expiry date for XML (E32/E34 don't include it in XML per DGII spec)
+      const sequence = await this.sequencesService.findRangeForEncf(tenantId, dto.companyId, encf);
+
+      // Step 3: Build XML
+      const inputWithSequence = {
+        ...(dto as any),
+        sequenceExpiresAt: sequence?.expiresAt?.toISOString(),
+      };
+
+      ({ xml: unsignedXml, totals } = this.xmlBuilder.buildEcfXml(
+        inputWithSequence,
+        emitterData,
+        encf,
+      ));
+
+      // Step 3b: Validate XML against XSD schema
+      const xsdResult = await this.xsdValidation.validateXml(unsignedXml, typeCode);
+      if (!xsdResult.valid) {
+        this.logger.error(`XSD validation failed for ${encf}: ${xsdResult.errors.join('; ')}`);
+        throw new BadRequestException(
+          `XML no pasa validación XSD de DGII: ${xsdResult.errors.slice(0, 3).join('; ')}`,
+        );
+      }
+
+      // Determine if RFCE (Factura Consumo < 250K)
+      isRfce = typeCode === 32 && totals.totalAmount < FC_FULL_SUBMISSION_THRESHOLD;
+
+      // Step 4: Create invoice record
+      invoice = await this.prisma.$transaction(async (tx) => {
+        // Locked quota check (the one above is unlocked, to avoid burning an
+        // eNCF); a batch checked its whole size upfront the same way
+        await this.usageService.assertWithinLimit(tenantId, 'invoices', 1, tx);
+
+        if (ecfType === EcfType.E34 && dto.reference?.encf) {
+          await this.lockAndCheckCreditBalance(tx, tenantId, dto.companyId, dto.reference.encf, totals.totalAmount);
+        }
+
+        const created = await tx.invoice.create({
+          data: {
+            tenantId,
+            companyId: dto.companyId,
+            ecfType,
+            encf,
+            status: InvoiceStatus.PROCESSING,
+            dgiiEnv: company.dgiiEnv,
+            buyerRnc: dto.buyer.rnc,
+            buyerName: dto.buyer.name,
+            buyerEmail: dto.buyer.email,
+            subtotal: totals.subtotalBeforeTax,
+            totalDiscount: totals.totalDiscount,
+            totalItbis: totals.totalItbis,
+            totalIsc: totals.totalIsc,
+            totalAmount: totals.totalAmount,
+            paymentType: dto.payment.type,
+            referenceEncf: dto.reference?.encf,
+            referenceDate: dto.reference?.date ? parseDateDgii(dto.reference.date) : undefined,
+            referenceModCode: dto.reference?.modificationCode,
+            isRfce,
+            currency: dto.currency?.code || 'DOP',
+            exchangeRate: dto.currency?.exchangeRate,
+            xmlUnsigned: unsignedXml,
+            idempotencyKey: dto.idempotencyKey,
+            metadata: { ...dto.metadata, _originalDto: dto } as any,
+          },
+        });
+
+        // Create invoice lines
+        await tx.invoiceLine.createMany({
+          data: dto.items.map((item, index) => {
+            const lineSubtotal = item.quantity * item.unitPrice - (item.discount || 0);
+            const rate = item.itbisRate ?? 18;
+            const itbisAmount = lineSubtotal * (rate / 100);
+
+            return {
+              tenantId,
+              invoiceId: created.id,
+              lineNumber: index + 1,
+              description: item.description,
+              quantity: item.quantity,
+              unitPrice: item.unitPrice,
+              discount: item.discount || 0,
+              itbisRate: rate,
+              itbisAmount: Math.round(itbisAmount * 100) / 100,
+              iscAmount: 0,
+              subtotal: Math.round(lineSubtotal * 100) / 100,
+              additionalTaxCode: item.additionalTaxCode || null,
+              additionalTaxRate: item.additionalTaxRate || null,
+              goodService: item.goodService || 1,
+            };
+          }),
+        });
+
+        return created;
+      });
+    } catch (error) {
+      if (!reservedEncf) {
+        await this.sequencesService.recordUnusedEncf(tenantId, dto.companyId, encf, (error as Error).message);
+      }
+      throw error;
+    }
+
+    await this.webhooksService.dispatchInvoiceCreated(invoice);
+
+    return { invoice, company, emitterData, encf, ecfType, unsignedXml, totals, isRfce };
+  }
+
+  /**
+   * Items for a credit/debit note, based on the original request items
+   * (which keep ISC fields) with amounts taken from the stored lines.
+   */
+  private buildAdjustmentItems(
+    original: Invoice & { lines: InvoiceLine[] },
+    originalItems: any[],
+    dto: CreateAdjustmentNoteDto,
+    isCredit: boolean,
+    returnItbis: boolean,
+  ): CreateInvoiceDto['items'] {
+    const toItem = (line: InvoiceLine, quantity: number) => {
+      const originalQuantity = Number(line.quantity);
+      return {
+        ...(originalItems[line.lineNumber - 1] || {}),
+        description: line.description,
+        quantity,
+        unitPrice: Number(line.unitPrice),
+        discount: ValidationService.round2(Number(line.discount) * (quantity / originalQuantity)),
+        itbisRate: returnItbis ? Number(line.itbisRate) : 0,
+        goodService: line.goodService,
+        additionalTaxCode: line.additionalTaxCode || undefined,
+        additionalTaxRate: line.additionalTaxRate !== null ? Number(line.additionalTaxRate) : undefined,
+      };
+    };
+
+    if (dto.lines) {
+      const seen = new Set<number>();
+      return dto.lines.map(({ lineNumber, quantity }) => {
+        const line = original.lines.find((l) => l.lineNumber === lineNumber);
+        if (!line) {
+          throw new BadRequestException(`La factura ${original.encf} no tiene línea ${lineNumber}`);
+        }
+        if (seen.has(lineNumber)) {
+          throw new BadRequestException(`Línea ${lineNumber} repetida`);
+        }
+        seen.add(lineNumber);
+
+        const originalQuantity = Number(line.quantity);
+        if (isCredit && quantity !== undefined && quantity > originalQuantity) {
+          throw new BadRequestException(
+            `Línea ${lineNumber}: cantidad (${quantity}) excede la cantidad facturada (${originalQuantity})`,
+          );
+        }
+        return toItem(line, quantity ?? originalQuantity);
+      });
+    }
+
+    const fullItems = original.lines.map((line) => toItem(line, Number(line.quantity)));
+    if (dto.amount === undefined) return fullItems;
+
+    // Prorate the amount across the original lines, keeping their quantities
+    const fullTotal = fullItems.reduce((sum, item) => {
+      const base = item.quantity * item.unitPrice - item.discount;
+      return sum + base + base * (item.itbisRate / 100);
+    }, 0);
+    const factor = dto.amount / fullTotal;
+
+    return fullItems.map((item) => ({
+      ...item,
+      unitPrice: ValidationService.round4(item.unitPrice * factor),
+      discount: ValidationService.round2(item.discount * factor),
+    }));
+  }
+
+  /**
+   * Lock the invoice a credit note refers to (when it was issued here) and
+   * check the note against its balance, inside the transaction that inserts
+   * the note, so concurrent notes can't both fit in the same balance.
+   */
+  private async lockAndCheckCreditBalance(
+    tx: Prisma.TransactionClient,
+    tenantId: string,
+    companyId: string,
+    referenceEncf: string,
+    noteTotal: number,
+  ) {
+    const locked = await tx.$queryRaw<{ id: string }[]>`
+      SELECT id FROM invoices
+      WHERE tenant_id = ${tenantId}::uuid AND company_id = ${companyId}::uuid AND encf = ${referenceEncf}
+      FOR UPDATE
+    `;
+    if (locked.length === 0) return;
+
+    const original = await tx.invoice.findUniqueOrThrow({ where: { id: locked[0].id } });
+    await this.assertCreditWithinBalance(tx, tenantId, original, noteTotal);
+  }
+
+  private async assertCreditWithinBalance(
+    client: Prisma.TransactionClient,
+    tenantId: string,
+    original: Invoice,
+    noteTotal: number,
+  ) {
+    const balance = await this.getNoteBalance(client, tenantId, original);
+    if (noteTotal > balance.remaining + 0.01) {
+      throw new BadRequestException(
+        `La Nota de Crédito (${noteTotal.toFixed(2)}) excede el saldo disponible de ${original.encf} ` +
+        `(${balance.remaining.toFixed(2)}: total ${balance.total.toFixed(2)}, ` +
+        `acreditado ${balance.credited.toFixed(2)}, debitado ${balance.debited.toFixed(2)})`,
+      );
+    }
+  }
+
+  /**
+   * Balance of an invoice after the credit/debit notes already issued
+   * against it (notes rejected, voided or in error are not counted).
+   */
+  private async getNoteBalance(client: Prisma.TransactionClient, tenantId: string, original: Invoice) {
+    const notes = await client.invoice.findMany({
+      where: {
+        tenantId,
+        companyId: original.companyId,
+        referenceEncf: original.encf,
+        ecfType: { in: [EcfType.E33, EcfType.E34] },
+        status: { notIn: NON_EFFECTIVE_NOTE_STATUSES },
+      },
+      select: { ecfType: true, totalAmount: true },
+    });
+
+    const sum = (type: EcfType) => ValidationService.round2(
+      notes.filter((n) => n.ecfType === type).reduce((acc, n) => acc + Number(n.totalAmount), 0),
+    );
+
+    const total = Number(original.totalAmount);
+    const credited = sum(EcfType.E34);
+    const debited = sum(EcfType.E33);
+
+    return {
+      total,
+      credited,
+      debited,
+      remaining: ValidationService.round2(total + debited - credited),
+    };
+  }
+
+  /**
+   * Hand a persisted invoice to the ECF_PROCESSING queue (sign + submit).
+   */
+  private async enqueueProcessing(tenantId: string, invoice: Invoice) {
+    try {
+      await this.queueService.enqueueEcfProcessing({
+        invoiceId: invoice.id,
+        tenantId,
+        companyId: invoice.companyId,
+      });
+    } catch (error: any) {
+      // Queue unavailable (Redis down): keep the invoice so the contingency
+      // processor signs and submits it later
+      this.logger.error(`Could not enqueue ${invoice.encf}: ${error.message}`);
+      await this.prisma.invoice.update({
+        where: { id: invoice.id },
+        data: {
+          status: InvoiceStatus.CONTINGENCY,
+          dgiiMessage: `No se pudo encolar para envío: ${error.message}`,
+        },
+      });
+    }
+
+    await this.auditService.record(tenantId, 'invoice', invoice.id, 'queued', {
+      encf: invoice.encf, ecfType: invoice.ecfType, dgiiEnv: invoice.dgiiEnv,
+      totalAmount: Number(invoice.totalAmount),
+    });
+  }
+
   private mapDgiiStatus(dgiiStatus: number): InvoiceStatus {
     switch (dgiiStatus) {
       case DGII_STATUS.ACCEPTED: return InvoiceStatus.ACCEPTED;
@@ -589,13 +1394,26 @@ export class InvoicesService {
       isRfce: rest.isRfce || false,
     };
   }
+}
 
-  private async createAuditLog(
-    tenantId: string, entityType: string, entityId: string,
-    action: string, metadata?: any,
-  ) {
-    await this.prisma.auditLog.create({
-      data: { tenantId, entityType, entityId, action, actor: 'api', metadata },
-    });
-  }
+/** Parse a DGII date (DD-MM-YYYY) */
+function parseDateDgii(value: string): Date {
+  const [dd, mm, yyyy] = value.split('-').map(Number);
+  return new Date(yyyy, mm - 1, dd);
+}
+
+/** Format a date as DD-MM-YYYY (DGII) */
+function formatDateDgii(d: Date): string {
+  const dd = String(d.getDate()).padStart(2, '0');
+  const mm = String(d.getMonth() + 1).padStart(2, '0');
+  return `${dd}-${mm}-${d.getFullYear()}`;
+}
+
+/** Flatten nested class-validator errors into "path: message" strings */
+function flattenValidationErrors(errors: ValidationError[], parent = ''): string[] {
+  return errors.flatMap((error) => {
+    const path = parent ? `${parent}.${error.property}` : error.property;
+    const own = Object.values(error.constraints || {}).map((message) => `${path}: ${message}`);
+    return [...own, ...flattenValidationErrors(error.children || [], path)];
+  });
 }
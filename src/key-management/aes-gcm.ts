@@ -0,0 +1,37 @@
+import * as crypto from 'crypto';
+
+/**
+ * AES-256-GCM with the format used for every encrypted column:
+ * iv (16) + authTag (16) + encrypted data
+ */
+export function aesGcmEncrypt(key: Buffer, data: Buffer): Buffer {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+}
+
+export function aesGcmDecrypt(key: Buffer, encryptedData: Buffer): Buffer {
+  const iv = encryptedData.subarray(0, 16);
+  const authTag = encryptedData.subarray(16, 32);
+  const data = encryptedData.subarray(32);
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+}
+
+/** Short, non-reversible id of a master key (SHA-256, first 16 hex chars) */
+export function keyFingerprint(key: Buffer): string {
+  return crypto.createHash('sha256').update(key).digest('hex').substring(0, 16);
+}
+
+/** Decode a base64 master key; must be exactly 32 bytes (AES-256) */
+export function parseMasterKey(base64: string, name: string): Buffer {
+  const key = Buffer.from(base64, 'base64');
+  if (key.length !== 32) {
+    throw new Error(`${name} debe ser una llave de 32 bytes en Base64 (tiene ${key.length})`);
+  }
+  return key;
+}
@@ -0,0 +1,207 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { aesGcmDecrypt, aesGcmEncrypt, parseMasterKey } from './aes-gcm';
+import { KEY_PROVIDERS, KeyProvider, KeyProviderName } from './key-provider';
+import { LocalKeyProvider } from './providers/local-key.provider';
+import { KeyringKeyProvider } from './providers/keyring-key.provider';
+import { AwsKmsKeyProvider } from './providers/aws-kms-key.provider';
+import { AwsKmsHttpClient } from './providers/kms-client';
+
+/** How a row's data key is wrapped */
+export interface Envelope {
+  keyProvider: KeyProviderName;
+  kmsKeyId: string;
+  keyVersion: string | null;
+  encryptedDataKey: Buffer;
+}
+
+/**
+ * Envelope columns as stored. Rows from before envelope encryption have no
+ * provider: they are encrypted directly with a legacy key (the
+ * JWT_SECRET-derived one unless the caller passes its own).
+ */
+export interface StoredEnvelope {
+  keyProvider: string | null;
+  kmsKeyId: string | null;
+  keyVersion: string | null;
+  encryptedDataKey: Buffer | null;
+}
+
+/**
+ * Envelope encryption for secrets at rest (certificate .p12 and passphrase,
+ * webhook signing secrets).
+ *
+ * KEY_PROVIDER picks the provider that wraps new data keys (local, keyring or
+ * aws-kms). Every other configured provider is kept to unwrap older rows, so
+ * switching providers or master keys works while the re-encryption job moves
+ * rows over.
+ */
+@Injectable()
+export class KeyManagementService {
+  private readonly logger = new Logger(KeyManagementService.name);
+  private readonly providers = new Map<KeyProviderName, KeyProvider>();
+  private readonly current: KeyProvider;
+
+  /** Pre-envelope key: SHA-256 of JWT_SECRET */
+  private readonly legacyKey: Buffer;
+
+  constructor(private readonly config: ConfigService) {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+      const fallback = process.env.NODE_ENV === 'production' ? null : 'dev-secret-do-not-use-in-prod';
+      if (!fallback) {
+        throw new Error('JWT_SECRET environment variable is required in production for certificate encryption');
+      }
+      this.legacyKey = crypto.createHash('sha256').update(fallback).digest();
+    } else {
+      this.legacyKey = crypto.createHash('sha256').update(secret).digest();
+    }
+
+    const localMasterKey = this.config.get<string>('keyManagement.localMasterKey');
+    this.providers.set('local', new LocalKeyProvider(
+      localMasterKey ? parseMasterKey(localMasterKey, 'LOCAL_MASTER_KEY') : this.legacyKey,
+    ));
+
+    const keyringFile = this.config.get<string>('keyManagement.keyringFile');
+    if (keyringFile) {
+      this.providers.set('keyring', KeyringKeyProvider.fromFile(keyringFile));
+    }
+
+    const kmsKeyId = this.config.get<string>('aws.kmsKeyId');
+    if (kmsKeyId) {
+      const client = new AwsKmsHttpClient(
+        this.config.get<string>('aws.region') || 'us-east-1',
+        {
+          accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+          secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+          sessionToken: process.env.AWS_SESSION_TOKEN || undefined,
+        },
+        this.config.get<string>('aws.kmsEndpoint') || undefined,
+      );
+      this.providers.set('aws-kms', new AwsKmsKeyProvider(client, kmsKeyId));
+    }
+
+    const name = (this.config.get<string>('keyManagement.provider') || 'local') as KeyProviderName;
+    if (!KEY_PROVIDERS.includes(name)) {
+      throw new Error(`KEY_PROVIDER inválido: ${name} (${KEY_PROVIDERS.join(', ')})`);
+    }
+    const current = this.providers.get(name);
+    if (!current) {
+      throw new Error(`KEY_PROVIDER=${name} requiere ${name === 'keyring' ? 'KEYRING_FILE' : 'AWS_KMS_KEY_ID'}`);
+    }
+    this.current = current;
+
+    const { keyId, keyVersion } = current.currentKey();
+    this.logger.log(`Key provider: ${name} (key ${keyId}${keyVersion ? ` ${keyVersion}` : ''})`);
+  }
+
+  /** Provider and key new rows are encrypted with */
+  currentKey(): { keyProvider: KeyProviderName; kmsKeyId: string; keyVersion: string | null } {
+    const { keyId, keyVersion } = this.current.currentKey();
+    return { keyProvider: this.current.name, kmsKeyId: keyId, keyVersion };
+  }
+
+  /** True when the row's data key is wrapped with the current key */
+  isCurrent(stored: StoredEnvelope): boolean {
+    const current = this.currentKey();
+    return stored.encryptedDataKey !== null
+      && stored.keyProvider === current.keyProvider
+      && stored.kmsKeyId === current.kmsKeyId
+      && stored.keyVersion === current.keyVersion;
+  }
+
+  /**
+   * Where clause for rows not under the current key, for any model with the
+   * envelope columns (re-encryption job).
+   */
+  staleKeyWhere() {
+    const { keyProvider, kmsKeyId, keyVersion } = this.currentKey();
+    return {
+      OR: [
+        { keyProvider: null },
+        { keyProvider: { not: keyProvider } },
+        { kmsKeyId: { not: kmsKeyId } },
+        keyVersion === null
+          ? { keyVersion: { not: null } }
+          : { OR: [{ keyVersion: null }, { keyVersion: { not: keyVersion } }] },
+      ],
+    };
+  }
+
+  /**
+   * Encrypt values under one new data key (one per row).
+   */
+  async encrypt(values: Buffer[]): Promise<{ ciphertexts: Buffer[]; envelope: Envelope }> {
+    const dataKey = crypto.randomBytes(32);
+    try {
+      const wrapped = await this.current.wrap(dataKey);
+      return {
+        ciphertexts: values.map((value) => aesGcmEncrypt(dataKey, value)),
+        envelope: {
+          keyProvider: this.current.name,
+          kmsKeyId: wrapped.keyId,
+          keyVersion: wrapped.keyVersion,
+          encryptedDataKey: wrapped.encryptedKey,
+        },
+      };
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  async decrypt(ciphertexts: Buffer[], stored: StoredEnvelope, legacyKey = this.legacyKey): Promise<Buffer[]> {
+    if (!stored.keyProvider || !stored.encryptedDataKey) {
+      return ciphertexts.map((ciphertext) => aesGcmDecrypt(legacyKey, ciphertext));
+    }
+
+    const dataKey = await this.unwrap(stored);
+    try {
+      return ciphertexts.map((ciphertext) => aesGcmDecrypt(dataKey, ciphertext));
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  /**
+   * Move a row to the current key. Only the data key is re-wrapped; legacy
+   * rows have none, so their values are decrypted and encrypted again.
+   */
+  async rewrap(
+    stored: StoredEnvelope,
+    ciphertexts: Buffer[],
+    legacyKey = this.legacyKey,
+  ): Promise<{ ciphertexts: Buffer[]; envelope: Envelope }> {
+    if (!stored.keyProvider || !stored.encryptedDataKey) {
+      return this.encrypt(await this.decrypt(ciphertexts, stored, legacyKey));
+    }
+
+    const dataKey = await this.unwrap(stored);
+    try {
+      const wrapped = await this.current.wrap(dataKey);
+      return {
+        ciphertexts,
+        envelope: {
+          keyProvider: this.current.name,
+          kmsKeyId: wrapped.keyId,
+          keyVersion: wrapped.keyVersion,
+          encryptedDataKey: wrapped.encryptedKey,
+        },
+      };
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  private unwrap(stored: StoredEnvelope): Promise<Buffer> {
+    const provider = this.providers.get(stored.keyProvider as KeyProviderName);
+    if (!provider) {
+      throw new Error(`El proveedor de llaves ${stored.keyProvider} no está configurado`);
+    }
+    return provider.unwrap({
+      keyId: stored.kmsKeyId || '',
+      keyVersion: stored.keyVersion,
+      encryptedKey: stored.encryptedDataKey!,
+    });
+  }
+}
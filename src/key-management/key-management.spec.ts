@@ -0,0 +1,142 @@
+/**
+ * Key Management Tests
+ *
+ * Envelope encryption round trips per provider (AWS KMS through the local
+ * stand-in) and master key rotation.
+ */
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { aesGcmEncrypt } from './aes-gcm';
+import { KeyManagementService } from './key-management.service';
+import { AwsKmsKeyProvider } from './providers/aws-kms-key.provider';
+import { KeyringKeyProvider } from './providers/keyring-key.provider';
+import { LocalKmsClient } from './providers/kms-client';
+import { LocalKeyProvider } from './providers/local-key.provider';
+
+const key = () => crypto.randomBytes(32);
+const DATA_KEY = crypto.randomBytes(32);
+
+describe('key providers', () => {
+  it('local: unwraps its own keys and rejects keys from another master key', async () => {
+    const provider = new LocalKeyProvider(key());
+    const wrapped = await provider.wrap(DATA_KEY);
+
+    expect(await provider.unwrap(wrapped)).toEqual(DATA_KEY);
+    await expect(new LocalKeyProvider(key()).unwrap(wrapped)).rejects.toThrow('ya no está configurada');
+  });
+
+  it('keyring: wraps with the current version and still unwraps older ones', async () => {
+    const v1 = key().toString('base64');
+    const before = new KeyringKeyProvider({ name: 'ecf', current: 'v1', keys: { v1 } });
+    const wrappedV1 = await before.wrap(DATA_KEY);
+
+    const after = new KeyringKeyProvider({ name: 'ecf', current: 'v2', keys: { v1, v2: key().toString('base64') } });
+    expect(after.currentKey()).toEqual({ keyId: 'ecf', keyVersion: 'v2' });
+    expect(await after.unwrap(wrappedV1)).toEqual(DATA_KEY);
+
+    const withoutV1 = new KeyringKeyProvider({ name: 'ecf', current: 'v2', keys: { v2: key().toString('base64') } });
+    await expect(withoutV1.unwrap(wrappedV1)).rejects.toThrow('v1');
+  });
+
+  it('keyring: rejects a current version that has no key', () => {
+    expect(() => new KeyringKeyProvider({ current: 'v2', keys: { v1: key().toString('base64') } })).toThrow('v2');
+  });
+
+  it('aws-kms: round trips through the KMS client and fails once the key is gone', async () => {
+    const kms = new LocalKmsClient();
+    const keyId = kms.createKey('alias/ecf-certificates');
+    const provider = new AwsKmsKeyProvider(kms, keyId);
+
+    const wrapped = await provider.wrap(DATA_KEY);
+    expect(wrapped.keyId).toBe('alias/ecf-certificates');
+    expect(await provider.unwrap(wrapped)).toEqual(DATA_KEY);
+
+    await expect(new AwsKmsKeyProvider(new LocalKmsClient(), keyId).unwrap(wrapped)).rejects.toThrow('NotFoundException');
+  });
+});
+
+describe('KeyManagementService', () => {
+  const JWT_SECRET = 'test-jwt-secret';
+  let dir: string;
+  let previousSecret: string | undefined;
+
+  const service = (keyManagement: Record<string, string>) =>
+    new KeyManagementService(new ConfigService({ keyManagement, aws: {} }));
+
+  const writeKeyring = (current: string, keys: Record<string, string>) => {
+    const file = path.join(dir, `keyring-${current}.json`);
+    fs.writeFileSync(file, JSON.stringify({ name: 'ecf', current, keys }));
+    return file;
+  };
+
+  beforeAll(() => {
+    previousSecret = process.env.JWT_SECRET;
+    process.env.JWT_SECRET = JWT_SECRET;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ecf-keyring-'));
+  });
+
+  afterAll(() => {
+    process.env.JWT_SECRET = previousSecret;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('encrypts values under one data key and decrypts them back', async () => {
+    const kms = service({ provider: 'local', localMasterKey: key().toString('base64') });
+    const { ciphertexts, envelope } = await kms.encrypt([Buffer.from('p12'), Buffer.from('secret')]);
+
+    expect(envelope.keyProvider).toBe('local');
+    expect(kms.isCurrent(envelope)).toBe(true);
+    expect((await kms.decrypt(ciphertexts, envelope)).map(String)).toEqual(['p12', 'secret']);
+  });
+
+  it('decrypts legacy rows encrypted directly with the JWT_SECRET key', async () => {
+    const legacyKey = crypto.createHash('sha256').update(JWT_SECRET).digest();
+    const legacy = { keyProvider: null, kmsKeyId: null, keyVersion: null, encryptedDataKey: null };
+    const kms = service({ provider: 'local' });
+
+    const [plaintext] = await kms.decrypt([aesGcmEncrypt(legacyKey, Buffer.from('old'))], legacy);
+    expect(plaintext.toString()).toBe('old');
+    expect(kms.isCurrent(legacy)).toBe(false);
+
+    const moved = await kms.rewrap(legacy, [aesGcmEncrypt(legacyKey, Buffer.from('old'))]);
+    expect(moved.envelope.keyProvider).toBe('local');
+    expect((await kms.decrypt(moved.ciphertexts, moved.envelope))[0].toString()).toBe('old');
+  });
+
+  it('uses the caller\'s legacy key for rows of other secrets (webhooks)', async () => {
+    const webhookKey = key();
+    const legacy = { keyProvider: null, kmsKeyId: null, keyVersion: null, encryptedDataKey: null };
+    const kms = service({ provider: 'local', localMasterKey: key().toString('base64') });
+
+    const moved = await kms.rewrap(legacy, [aesGcmEncrypt(webhookKey, Buffer.from('whsec_1'))], webhookKey);
+    expect(kms.isCurrent(moved.envelope)).toBe(true);
+    expect((await kms.decrypt(moved.ciphertexts, moved.envelope))[0].toString()).toBe('whsec_1');
+    await expect(kms.decrypt([aesGcmEncrypt(webhookKey, Buffer.from('whsec_1'))], legacy)).rejects.toThrow();
+  });
+
+  it('rotates keyring versions by re-wrapping only the data key', async () => {
+    const v1 = key().toString('base64');
+    const before = service({ provider: 'keyring', keyringFile: writeKeyring('v1', { v1 }) });
+    const { ciphertexts, envelope } = await before.encrypt([Buffer.from('p12')]);
+
+    const after = service({ provider: 'keyring', keyringFile: writeKeyring('v2', { v1, v2: key().toString('base64') }) });
+    expect(after.isCurrent(envelope)).toBe(false);
+    // Rows not yet moved keep working
+    expect((await after.decrypt(ciphertexts, envelope))[0].toString()).toBe('p12');
+
+    const moved = await after.rewrap(envelope, ciphertexts);
+    expect(moved.ciphertexts).toBe(ciphertexts);
+    expect(moved.envelope.keyVersion).toBe('v2');
+    expect(after.isCurrent(moved.envelope)).toBe(true);
+    expect((await after.decrypt(moved.ciphertexts, moved.envelope))[0].toString()).toBe('p12');
+  });
+
+  it('requires the provider settings for the selected KEY_PROVIDER', () => {
+    expect(() => service({ provider: 'keyring' })).toThrow('KEYRING_FILE');
+    expect(() => service({ provider: 'aws-kms' })).toThrow('AWS_KMS_KEY_ID');
+    expect(() => service({ provider: 'vault' })).toThrow('KEY_PROVIDER inválido');
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Master key providers for envelope encryption.
+ *
+ * Each secret is encrypted with its own random data key (AES-256-GCM); the
+ * provider only wraps/unwraps that data key with a master key it controls.
+ * Rotating the master key then means re-wrapping data keys, not re-encrypting
+ * the secrets.
+ */
+
+export const KEY_PROVIDERS = ['local', 'keyring', 'aws-kms'] as const;
+export type KeyProviderName = typeof KEY_PROVIDERS[number];
+
+export interface KeyRef {
+  /** Master key id (local fingerprint, keyring name or KMS key ARN/alias) */
+  keyId: string;
+  /** Version inside the key id, when the provider has versions (keyring) */
+  keyVersion: string | null;
+}
+
+export interface WrappedKey extends KeyRef {
+  encryptedKey: Buffer;
+}
+
+export interface KeyProvider {
+  readonly name: KeyProviderName;
+
+  /** Key new data keys are wrapped with */
+  currentKey(): KeyRef;
+
+  wrap(dataKey: Buffer): Promise<WrappedKey>;
+
+  /** Throws if the key/version that wrapped it is no longer available */
+  unwrap(wrapped: WrappedKey): Promise<Buffer>;
+}
@@ -0,0 +1,34 @@
+import { KeyProvider, KeyRef, WrappedKey } from '../key-provider';
+import { KmsClient } from './kms-client';
+
+/**
+ * Data keys wrapped by AWS KMS (or a KMS-compatible service). KMS versions
+ * key material internally, so rotating means pointing AWS_KMS_KEY_ID at a
+ * new key; the old key must stay enabled until the re-encryption job ends.
+ */
+export class AwsKmsKeyProvider implements KeyProvider {
+  readonly name = 'aws-kms' as const;
+
+  constructor(
+    private readonly client: KmsClient,
+    private readonly keyId: string,
+  ) {
+    if (!keyId) throw new Error('AWS_KMS_KEY_ID es requerido con KEY_PROVIDER=aws-kms');
+  }
+
+  currentKey(): KeyRef {
+    return { keyId: this.keyId, keyVersion: null };
+  }
+
+  async wrap(dataKey: Buffer): Promise<WrappedKey> {
+    const { ciphertext } = await this.client.encrypt(this.keyId, dataKey);
+    // Keep the configured id (alias or ARN) so rows can be matched to the current key
+    return { keyId: this.keyId, keyVersion: null, encryptedKey: ciphertext };
+  }
+
+  async unwrap(wrapped: WrappedKey): Promise<Buffer> {
+    // KMS resolves the key from the ciphertext; an alias is not accepted as KeyId here
+    const { plaintext } = await this.client.decrypt(wrapped.encryptedKey);
+    return plaintext;
+  }
+}
@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import { aesGcmDecrypt, aesGcmEncrypt, parseMasterKey } from '../aes-gcm';
+import { KeyProvider, KeyRef, WrappedKey } from '../key-provider';
+
+/** Keyring file: every version stays available to unwrap, `current` wraps new keys */
+export interface Keyring {
+  /** Keyring name, stored as the key id */
+  name?: string;
+  current: string;
+  /** version → base64 32-byte key */
+  keys: Record<string, string>;
+}
+
+/**
+ * Versioned master keys read from a JSON file (KEYRING_FILE):
+ *
+ *   { "name": "ecf", "current": "v2", "keys": { "v1": "<base64>", "v2": "<base64>" } }
+ *
+ * To rotate, add a version, point `current` at it and restart; the
+ * re-encryption job moves data keys to it. Drop the old version only after
+ * the job reports nothing left.
+ */
+export class KeyringKeyProvider implements KeyProvider {
+  readonly name = 'keyring' as const;
+  private readonly keyId: string;
+  private readonly current: string;
+  private readonly keys = new Map<string, Buffer>();
+
+  constructor(keyring: Keyring) {
+    this.keyId = keyring.name || 'keyring';
+    this.current = keyring.current;
+
+    for (const [version, key] of Object.entries(keyring.keys || {})) {
+      this.keys.set(version, parseMasterKey(key, `Keyring ${version}`));
+    }
+    if (!this.keys.has(this.current)) {
+      throw new Error(`La versión actual del keyring (${this.current}) no está en "keys"`);
+    }
+  }
+
+  static fromFile(path: string): KeyringKeyProvider {
+    let keyring: Keyring;
+    try {
+      keyring = JSON.parse(fs.readFileSync(path, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`No se pudo leer el keyring ${path}: ${error.message}`);
+    }
+    return new KeyringKeyProvider(keyring);
+  }
+
+  currentKey(): KeyRef {
+    return { keyId: this.keyId, keyVersion: this.current };
+  }
+
+  async wrap(dataKey: Buffer): Promise<WrappedKey> {
+    return { ...this.currentKey(), encryptedKey: aesGcmEncrypt(this.keys.get(this.current)!, dataKey) };
+  }
+
+  async unwrap(wrapped: WrappedKey): Promise<Buffer> {
+    const key = wrapped.keyVersion ? this.keys.get(wrapped.keyVersion) : undefined;
+    if (wrapped.keyId !== this.keyId || !key) {
+      throw new Error(`La versión ${wrapped.keyVersion} del keyring ${wrapped.keyId} ya no está configurada`);
+    }
+    return aesGcmDecrypt(key, wrapped.encryptedKey);
+  }
+}
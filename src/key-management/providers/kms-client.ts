@@ -0,0 +1,143 @@
+import * as crypto from 'crypto';
+import { aesGcmDecrypt, aesGcmEncrypt } from '../aes-gcm';
+
+/**
+ * The two AWS KMS operations envelope encryption needs. Ciphertexts are
+ * opaque and, as in KMS, carry the key they were encrypted with.
+ */
+export interface KmsClient {
+  encrypt(keyId: string, plaintext: Buffer): Promise<{ ciphertext: Buffer; keyId: string }>;
+  decrypt(ciphertext: Buffer, keyId?: string): Promise<{ plaintext: Buffer; keyId: string }>;
+}
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+/**
+ * AWS KMS JSON API over fetch with Signature V4. `endpoint` allows
+ * KMS-compatible services (LocalStack, local-kms). Credentials come from the
+ * standard AWS_* env vars; instance/task roles are not resolved.
+ */
+export class AwsKmsHttpClient implements KmsClient {
+  private readonly endpoint: string;
+
+  constructor(
+    private readonly region: string,
+    private readonly credentials: AwsCredentials,
+    endpoint?: string,
+  ) {
+    this.endpoint = (endpoint || `https://kms.${region}.amazonaws.com`).replace(/\/+$/, '');
+  }
+
+  async encrypt(keyId: string, plaintext: Buffer) {
+    const res = await this.call('Encrypt', { KeyId: keyId, Plaintext: plaintext.toString('base64') });
+    return { ciphertext: Buffer.from(res.CiphertextBlob, 'base64'), keyId: res.KeyId };
+  }
+
+  async decrypt(ciphertext: Buffer, keyId?: string) {
+    const res = await this.call('Decrypt', {
+      CiphertextBlob: ciphertext.toString('base64'),
+      ...(keyId ? { KeyId: keyId } : {}),
+    });
+    return { plaintext: Buffer.from(res.Plaintext, 'base64'), keyId: res.KeyId };
+  }
+
+  private async call(operation: 'Encrypt' | 'Decrypt', body: Record<string, string>): Promise<any> {
+    const url = new URL(`${this.endpoint}/`);
+    const payload = JSON.stringify(body);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.substring(0, 8);
+    const scope = `${date}/${this.region}/kms/aws4_request`;
+
+    const headers: Record<string, string> = {
+      'content-type': 'application/x-amz-json-1.1',
+      host: url.host,
+      'x-amz-date': amzDate,
+      'x-amz-target': `TrentService.${operation}`,
+    };
+    if (this.credentials.sessionToken) headers['x-amz-security-token'] = this.credentials.sessionToken;
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      'POST',
+      url.pathname,
+      '',
+      ...signedHeaders.map((name) => `${name}:${headers[name]}`),
+      '',
+      signedHeaders.join(';'),
+      sha256Hex(payload),
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = ['kms', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${this.credentials.secretAccessKey}`, date), this.region),
+    );
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.credentials.accessKeyId}/${scope}, `
+          + `SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      body: payload,
+      signal: AbortSignal.timeout(10_000),
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`AWS KMS ${operation} falló: ${response.status} ${text}`);
+    }
+    return JSON.parse(text);
+  }
+}
+
+/**
+ * In-process stand-in for KMS (tests and local development): keys live in
+ * memory and ciphertexts embed the key id like real KMS blobs.
+ */
+export class LocalKmsClient implements KmsClient {
+  private readonly keys = new Map<string, Buffer>();
+
+  /** Create (or replace) a key; returns its id */
+  createKey(keyId: string = `local-kms-${crypto.randomUUID()}`): string {
+    this.keys.set(keyId, crypto.randomBytes(32));
+    return keyId;
+  }
+
+  async encrypt(keyId: string, plaintext: Buffer) {
+    const key = this.keys.get(keyId);
+    if (!key) throw new Error(`NotFoundException: key ${keyId} does not exist`);
+
+    const id = Buffer.from(keyId, 'utf8');
+    const header = Buffer.alloc(2);
+    header.writeUInt16BE(id.length);
+    return { ciphertext: Buffer.concat([header, id, aesGcmEncrypt(key, plaintext)]), keyId };
+  }
+
+  async decrypt(ciphertext: Buffer, keyId?: string) {
+    const idLength = ciphertext.readUInt16BE(0);
+    const embeddedKeyId = ciphertext.subarray(2, 2 + idLength).toString('utf8');
+    if (keyId && keyId !== embeddedKeyId) {
+      throw new Error('IncorrectKeyException: ciphertext was encrypted with a different key');
+    }
+
+    const key = this.keys.get(embeddedKeyId);
+    if (!key) throw new Error(`NotFoundException: key ${embeddedKeyId} does not exist`);
+
+    return { plaintext: aesGcmDecrypt(key, ciphertext.subarray(2 + idLength)), keyId: embeddedKeyId };
+  }
+}
+
+function sha256Hex(data: string): string {
+  return crypto.createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data, 'utf8').digest();
+}
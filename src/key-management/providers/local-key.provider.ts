@@ -0,0 +1,32 @@
+import { aesGcmDecrypt, aesGcmEncrypt, keyFingerprint } from '../aes-gcm';
+import { KeyProvider, KeyRef, WrappedKey } from '../key-provider';
+
+/**
+ * Single master key held by the app (LOCAL_MASTER_KEY, or derived from
+ * JWT_SECRET). The key id is its fingerprint, so data keys wrapped with a
+ * previous master key are detected but can't be unwrapped: rotate with the
+ * keyring provider instead.
+ */
+export class LocalKeyProvider implements KeyProvider {
+  readonly name = 'local' as const;
+  private readonly keyId: string;
+
+  constructor(private readonly masterKey: Buffer) {
+    this.keyId = keyFingerprint(masterKey);
+  }
+
+  currentKey(): KeyRef {
+    return { keyId: this.keyId, keyVersion: null };
+  }
+
+  async wrap(dataKey: Buffer): Promise<WrappedKey> {
+    return { ...this.currentKey(), encryptedKey: aesGcmEncrypt(this.masterKey, dataKey) };
+  }
+
+  async unwrap(wrapped: WrappedKey): Promise<Buffer> {
+    if (wrapped.keyId !== this.keyId) {
+      throw new Error(`La llave maestra local ${wrapped.keyId} ya no está configurada`);
+    }
+    return aesGcmDecrypt(this.masterKey, wrapped.encryptedKey);
+  }
+}
@@ -2,13 +2,14 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, VersioningType } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { ConfigService } from '@nestjs/config';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import helmet from 'helmet';
 import { AppModule } from './app.module';
 import { HttpExceptionFilter } from './common/filters/http-exception.filter';
 import { TransformInterceptor } from './common/interceptors/transform.interceptor';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     logger: ['error', 'warn', 'log', 'debug', 'verbose'],
   });
 
@@ -16,6 +17,13 @@ async function bootstrap() {
 
   // Security
   app.use(helmet());
+
+  // Behind a load balancer: take the client IP from X-Forwarded-For
+  // (needed for API key IP allowlists). Value: hop count, `true` or a subnet list.
+  const trustProxy = configService.get<string>('TRUST_PROXY');
+  if (trustProxy && trustProxy !== 'false') {
+    app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === 'true' || trustProxy);
+  }
   app.enableCors({
     origin: configService.get('CORS_ORIGIN', '*'),
     methods: 'GET,HEAD,PUT,PATCH,POST,DELETE',
@@ -58,6 +66,9 @@ async function bootstrap() {
     .addTag('certificates', 'Certificados digitales (.p12)')
     .addTag('sequences', 'Secuencias de eNCF')
     .addTag('invoices', 'Facturación electrónica')
+    .addTag('reports', 'Formatos de envío DGII (606/607/608)')
+    .addTag('imports', 'Importación de facturas desde CSV/XLSX')
+    .addTag('audit', 'Audit log')
     .addTag('health', 'Estado del servicio')
     .build();
 
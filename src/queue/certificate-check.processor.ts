@@ -2,6 +2,8 @@ import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
 import { PrismaService } from '../prisma/prisma.service';
+import { CertificateStatus, WebhookEvent } from '@prisma/client';
+import { WebhooksService } from '../webhooks/webhooks.service';
 
 export interface CertificateCheckJobData {
   /** If provided, only check this tenant. Otherwise check all. */
@@ -12,18 +14,26 @@ export interface CertificateCheckJobData {
  * Certificate Check Worker
  *
  * Periodic job (run daily via cron) that checks certificate expiration
- * dates and logs warnings at different severity levels.
+ * dates, logs warnings at different severity levels and fires
+ * CERTIFICATE_EXPIRING for every certificate at WARNING level or worse
+ * (so subscribers get a daily reminder until it's replaced).
  *
  * Thresholds:
  * - 30 days: WARNING
  * - 7 days: CRITICAL
  * - 0 days: EXPIRED (auto-deactivate)
+ *
+ * Pending replacements are activated separately by
+ * CertificatesService.activateDueCertificates (scheduler, every 15 min).
  */
 @Processor('certificate-check')
 export class CertificateCheckProcessor extends WorkerHost {
   private readonly logger = new Logger(CertificateCheckProcessor.name);
 
-  constructor(private readonly prisma: PrismaService) {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly webhooksService: WebhooksService,
+  ) {
     super();
   }
 
@@ -53,6 +63,7 @@ export class CertificateCheckProcessor extends WorkerHost {
 
       const info = {
         certificateId: cert.id,
+        companyId: cert.companyId,
         companyRnc: cert.company.rnc,
         companyName: cert.company.businessName,
         validTo: cert.validTo,
@@ -64,7 +75,7 @@ export class CertificateCheckProcessor extends WorkerHost {
 
         await this.prisma.certificate.update({
           where: { id: cert.id },
-          data: { isActive: false },
+          data: { isActive: false, status: CertificateStatus.EXPIRED },
         });
 
         this.logger.error(
@@ -80,7 +91,17 @@ export class CertificateCheckProcessor extends WorkerHost {
         this.logger.log(
           `WARNING: Certificate for ${cert.company.businessName} expires in ${daysUntilExpiry} days`,
         );
+      } else {
+        continue;
       }
+
+      const severity = daysUntilExpiry <= 0 ? 'EXPIRED' : daysUntilExpiry <= 7 ? 'CRITICAL' : 'WARNING';
+      await this.webhooksService.dispatch(cert.tenantId, WebhookEvent.CERTIFICATE_EXPIRING, {
+        ...info,
+        validTo: cert.validTo.toISOString(),
+        severity,
+        deactivated: severity === 'EXPIRED',
+      });
     }
 
     const result = {
@@ -0,0 +1,109 @@
+/**
+ * ECF Processing Worker Tests
+ *
+ * Which invoices the worker picks up and who owns the retries after a
+ * network failure (BullMQ while attempts remain, contingency afterwards).
+ */
+import { Test } from '@nestjs/testing';
+import { DgiiEnvironment, InvoiceStatus } from '@prisma/client';
+import { Job } from 'bullmq';
+import { CertificatesService } from '../certificates/certificates.service';
+import { DgiiService } from '../dgii/dgii.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SigningService } from '../signing/signing.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { XmlBuilderService } from '../xml-builder/xml-builder.service';
+import { EcfProcessingJobData, EcfProcessingProcessor } from './ecf-processing.processor';
+import { QueueService } from './queue.service';
+
+async function setup(status: InvoiceStatus = InvoiceStatus.PROCESSING) {
+  const prisma = {
+    invoice: {
+      findFirst: jest.fn(async () => ({
+        id: 'inv-1',
+        encf: 'E310000000001',
+        ecfType: 'E31',
+        status,
+        dgiiEnv: DgiiEnvironment.CERT,
+        totalAmount: 1180,
+        xmlUnsigned: '<ECF/>',
+        company: { rnc: '131793916', dgiiEnv: DgiiEnvironment.CERT },
+      })),
+      update: jest.fn(async (_args: any) => ({})),
+    },
+  };
+  const dgiiService = {
+    getToken: jest.fn(async () => 'token'),
+    submitEcf: jest.fn(async (): Promise<any> => {
+      throw new Error('connect ECONNREFUSED ecf.dgii.gov.do');
+    }),
+  };
+
+  const moduleRef = await Test.createTestingModule({
+    providers: [
+      EcfProcessingProcessor,
+      { provide: PrismaService, useValue: prisma },
+      { provide: XmlBuilderService, useValue: {} },
+      {
+        provide: SigningService,
+        useValue: { signXml: () => ({ signedXml: '<ECF signed/>', securityCode: 'AbC123', signTime: new Date() }) },
+      },
+      { provide: DgiiService, useValue: dgiiService },
+      { provide: CertificatesService, useValue: { getSigner: async () => ({}) } },
+      { provide: QueueService, useValue: { enqueueStatusPoll: jest.fn() } },
+      { provide: WebhooksService, useValue: { dispatchInvoiceStatus: jest.fn() } },
+    ],
+  }).compile();
+
+  const job = (attemptsMade: number) => ({
+    id: 'ecf-inv-1',
+    data: { invoiceId: 'inv-1', tenantId: 'tenant-1', companyId: 'company-1' },
+    attemptsMade,
+    opts: { attempts: 3 },
+  }) as Job<EcfProcessingJobData>;
+  const lastUpdate = () => prisma.invoice.update.mock.calls.at(-1)![0];
+
+  return { processor: moduleRef.get(EcfProcessingProcessor), prisma, dgiiService, job, lastUpdate };
+}
+
+describe('EcfProcessingProcessor', () => {
+  it('keeps the invoice PROCESSING and rethrows while BullMQ attempts remain', async () => {
+    const { processor, job, lastUpdate } = await setup();
+
+    await expect(processor.process(job(1))).rejects.toThrow('ECONNREFUSED');
+
+    expect(lastUpdate()).toEqual({
+      where: { id: 'inv-1' },
+      data: { dgiiMessage: '[Job ecf-inv-1] connect ECONNREFUSED ecf.dgii.gov.do' },
+    });
+  });
+
+  it('hands the invoice to contingency on the last attempt without rethrowing', async () => {
+    const { processor, job, lastUpdate } = await setup();
+
+    await expect(processor.process(job(2))).resolves.toMatchObject({ status: InvoiceStatus.CONTINGENCY });
+
+    expect(lastUpdate()).toEqual({
+      where: { id: 'inv-1' },
+      data: { status: InvoiceStatus.CONTINGENCY, dgiiMessage: '[Job ecf-inv-1] connect ECONNREFUSED ecf.dgii.gov.do' },
+    });
+  });
+
+  it('marks other failures ERROR without retrying', async () => {
+    const { processor, dgiiService, job, lastUpdate } = await setup();
+    dgiiService.submitEcf.mockRejectedValue(new Error('XML mal formado'));
+
+    await expect(processor.process(job(0))).resolves.toMatchObject({ status: InvoiceStatus.ERROR });
+    expect(lastUpdate().data.status).toBe(InvoiceStatus.ERROR);
+  });
+
+  it('skips invoices that are no longer pending submission', async () => {
+    for (const status of [InvoiceStatus.SENT, InvoiceStatus.ERROR, InvoiceStatus.REJECTED, InvoiceStatus.ACCEPTED]) {
+      const { processor, prisma, dgiiService, job } = await setup(status);
+
+      await expect(processor.process(job(0))).resolves.toEqual({ status });
+      expect(prisma.invoice.update).not.toHaveBeenCalled();
+      expect(dgiiService.submitEcf).not.toHaveBeenCalled();
+    }
+  });
+});
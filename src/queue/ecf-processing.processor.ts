@@ -8,7 +8,10 @@ import { DgiiService } from '../dgii/dgii.service';
 import { CertificatesService } from '../certificates/certificates.service';
 import { InvoiceStatus } from '@prisma/client';
 import { QUEUES } from './queue.constants';
+import { QueueService } from './queue.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
 import { FC_FULL_SUBMISSION_THRESHOLD } from '../xml-builder/ecf-types';
+import { assertInvoiceEnvironment } from '../dgii/dgii-environment';
 
 export interface EcfProcessingJobData {
   invoiceId: string;
@@ -31,8 +34,9 @@ export interface EcfProcessingJobData {
  * 7. Schedule status poll job (if IN_PROCESS)
  * 8. Fire webhook event
  *
- * On failure: mark as CONTINGENCY (network) or ERROR (other),
- * with automatic retry via BullMQ backoff.
+ * On network failure the invoice stays PROCESSING while BullMQ retries with
+ * backoff; once the attempts run out it is marked CONTINGENCY and the
+ * contingency processor takes over. Other failures mark it ERROR, no retry.
  */
 @Processor(QUEUES.ECF_PROCESSING)
 export class EcfProcessingProcessor extends WorkerHost {
@@ -44,6 +48,8 @@ export class EcfProcessingProcessor extends WorkerHost {
     private readonly signingService: SigningService,
     private readonly dgiiService: DgiiService,
     private readonly certificatesService: CertificatesService,
+    private readonly queueService: QueueService,
+    private readonly webhooksService: WebhooksService,
   ) {
     super();
   }
@@ -68,22 +74,22 @@ export class EcfProcessingProcessor extends WorkerHost {
       return { status: 'NO_XML' };
     }
 
-    // Skip if already processed
-    if (invoice.status === InvoiceStatus.ACCEPTED || invoice.status === InvoiceStatus.VOIDED) {
-      this.logger.warn(`Invoice ${invoiceId} already in final state: ${invoice.status}`);
+    // Skip if something else already moved it on (DGII answer, void, error)
+    if (invoice.status !== InvoiceStatus.PROCESSING && invoice.status !== InvoiceStatus.CONTINGENCY) {
+      this.logger.warn(`Invoice ${invoiceId} no longer pending submission: ${invoice.status}`);
       return { status: invoice.status };
     }
 
     try {
+      // Only submit to the environment the invoice was issued for
+      assertInvoiceEnvironment(invoice, invoice.company);
+
       // 2. Get certificate
-      const { p12Buffer, passphrase } = await this.certificatesService.getDecryptedCertificate(
-        tenantId, companyId,
-      );
+      const signer = await this.certificatesService.getSigner(tenantId, companyId, invoice.company.rnc);
 
       // 3. Sign XML (validate certificate SN matches RNC per DGII p.60)
-      const { privateKey, certificate } = this.signingService.extractFromP12(p12Buffer, passphrase, invoice.company.rnc);
       const { signedXml, securityCode, signTime } = this.signingService.signXml(
-        invoice.xmlUnsigned, privateKey, certificate,
+        invoice.xmlUnsigned, signer,
       );
 
       this.logger.log(`XML signed: ${invoice.encf} | Security: ${securityCode}`);
@@ -101,7 +107,7 @@ export class EcfProcessingProcessor extends WorkerHost {
 
       // 4. Authenticate with DGII
       const token = await this.dgiiService.getToken(
-        tenantId, companyId, privateKey, certificate, invoice.company.dgiiEnv,
+        tenantId, companyId, signer, invoice.company.dgiiEnv,
       );
 
       // 5. Submit to DGII
@@ -163,7 +169,7 @@ export class EcfProcessingProcessor extends WorkerHost {
       // 6. Update with DGII response
       const newStatus = this.mapDgiiStatus(submissionResult.status);
 
-      await this.prisma.invoice.update({
+      const submitted = await this.prisma.invoice.update({
         where: { id: invoiceId },
         data: {
           status: newStatus,
@@ -177,11 +183,16 @@ export class EcfProcessingProcessor extends WorkerHost {
       this.logger.log(`${invoice.encf} → DGII: ${newStatus} | TrackId: ${submissionResult.trackId}`);
 
       // 7. If IN_PROCESS, schedule status poll
-      if (newStatus === InvoiceStatus.PROCESSING || newStatus === InvoiceStatus.SENT) {
-        // The status poll processor will be scheduled by the caller or a separate cron
-        this.logger.log(`${invoice.encf} needs status polling (${newStatus})`);
+      if (
+        (newStatus === InvoiceStatus.PROCESSING || newStatus === InvoiceStatus.SENT) &&
+        submissionResult.trackId
+      ) {
+        await this.queueService.enqueueStatusPoll({ invoiceId, tenantId, companyId });
       }
 
+      // 8. Fire webhook (only when DGII answered with a final status)
+      await this.webhooksService.dispatchInvoiceStatus(submitted, invoice.status);
+
       return {
         status: newStatus,
         trackId: submissionResult.trackId,
@@ -197,6 +208,18 @@ export class EcfProcessingProcessor extends WorkerHost {
         error.message?.includes('ECONNREFUSED') ||
         error.message?.includes('ETIMEDOUT');
 
+      // Network errors: stay PROCESSING and rethrow so BullMQ retries with
+      // backoff; only the last attempt hands the invoice to contingency, so
+      // the worker and ContingencyService never submit it at the same time
+      const retriesLeft = job.attemptsMade + 1 < (job.opts.attempts ?? 1);
+      if (isNetworkError && retriesLeft) {
+        await this.prisma.invoice.update({
+          where: { id: invoiceId },
+          data: { dgiiMessage: `[Job ${job.id}] ${error.message}` },
+        });
+        throw error;
+      }
+
       const failStatus = isNetworkError ? InvoiceStatus.CONTINGENCY : InvoiceStatus.ERROR;
 
       await this.prisma.invoice.update({
@@ -207,12 +230,7 @@ export class EcfProcessingProcessor extends WorkerHost {
         },
       });
 
-      // Network errors: rethrow so BullMQ retries with backoff
-      if (isNetworkError) {
-        throw error;
-      }
-
-      // Non-network errors: don't retry
+      // Contingency or non-network errors: no further BullMQ attempts
       return { status: failStatus, error: error.message };
     }
   }
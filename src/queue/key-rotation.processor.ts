@@ -0,0 +1,64 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { CertificatesService } from '../certificates/certificates.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+
+/** Rows re-encrypted per batch */
+const BATCH_SIZE = 100;
+
+/** What the job moves: certificates and webhook signing secrets */
+interface ReencryptionTarget {
+  reencryptBatch(limit: number, skipIds: string[]): Promise<{ reencrypted: number; failedIds: string[] }>;
+  countStaleKeys(): Promise<number>;
+}
+
+/**
+ * Key Rotation Worker
+ *
+ * Re-wraps certificate and webhook secret data keys with the current master
+ * key (KEY_PROVIDER, LOCAL_MASTER_KEY, KEYRING_FILE current version or
+ * AWS_KMS_KEY_ID) and moves legacy rows to envelope encryption. Queued by the
+ * scheduler (hourly check) while some row is not under the current key.
+ *
+ * Signing keeps working during the run: rows not yet moved are decrypted with
+ * the key that wrapped them, which must stay configured until `remaining` is 0.
+ */
+@Processor('key-rotation')
+export class KeyRotationProcessor extends WorkerHost {
+  private readonly logger = new Logger(KeyRotationProcessor.name);
+
+  constructor(
+    private readonly certificatesService: CertificatesService,
+    private readonly webhooksService: WebhooksService,
+  ) {
+    super();
+  }
+
+  async process(): Promise<any> {
+    return {
+      certificates: await this.run('certificate', this.certificatesService),
+      webhooks: await this.run('webhook', this.webhooksService),
+    };
+  }
+
+  private async run(label: string, target: ReencryptionTarget) {
+    const failedIds: string[] = [];
+    let reencrypted = 0;
+
+    for (;;) {
+      const batch = await target.reencryptBatch(BATCH_SIZE, failedIds);
+      reencrypted += batch.reencrypted;
+      failedIds.push(...batch.failedIds);
+      if (batch.reencrypted + batch.failedIds.length < BATCH_SIZE) break;
+    }
+
+    const remaining = await target.countStaleKeys();
+    if (reencrypted > 0 || failedIds.length > 0) {
+      this.logger.log(
+        `Key rotation: ${reencrypted} ${label}(s) re-encrypted, ${failedIds.length} failed, ${remaining} remaining`,
+      );
+    }
+
+    return { reencrypted, failed: failedIds.length, failedIds, remaining };
+  }
+}
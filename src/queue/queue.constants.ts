@@ -9,4 +9,6 @@ export const QUEUES = {
   ECF_STATUS_POLL: 'ecf-status-poll',   // Poll DGII for TrackId status
   WEBHOOK_DELIVERY: 'webhook-delivery', // Deliver webhook events
   CERTIFICATE_CHECK: 'certificate-check', // Check certificate expiration
+  KEY_ROTATION: 'key-rotation',         // Re-wrap certificate and webhook secret data keys with the current master key
+  INVOICE_BATCH: 'invoice-batch',       // Validate, reserve and persist a bulk submission
 } as const;
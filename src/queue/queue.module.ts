@@ -5,11 +5,13 @@ import { XmlBuilderModule } from '../xml-builder/xml-builder.module';
 import { SigningModule } from '../signing/signing.module';
 import { DgiiModule } from '../dgii/dgii.module';
 import { CertificatesModule } from '../certificates/certificates.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 
 import { EcfProcessingProcessor } from './ecf-processing.processor';
 import { StatusPollProcessor } from './status-poll.processor';
 import { WebhookDeliveryProcessor } from './webhook-delivery.processor';
 import { CertificateCheckProcessor } from './certificate-check.processor';
+import { KeyRotationProcessor } from './key-rotation.processor';
 import { QueueService } from './queue.service';
 import { QUEUES } from './queue.constants';
 
@@ -23,6 +25,8 @@ export { QUEUES } from './queue.constants';
       { name: QUEUES.ECF_STATUS_POLL },
       { name: QUEUES.WEBHOOK_DELIVERY },
       { name: QUEUES.CERTIFICATE_CHECK },
+      { name: QUEUES.KEY_ROTATION },
+      { name: QUEUES.INVOICE_BATCH },
     ),
 
     // Dependencies needed by processors
@@ -31,6 +35,7 @@ export { QUEUES } from './queue.constants';
     SigningModule,
     DgiiModule,
     CertificatesModule,
+    WebhooksModule,
   ],
   providers: [
     // Processors (auto-registered as BullMQ workers)
@@ -38,6 +43,7 @@ export { QUEUES } from './queue.constants';
     StatusPollProcessor,
     WebhookDeliveryProcessor,
     CertificateCheckProcessor,
+    KeyRotationProcessor,
 
     // Service for enqueuing jobs
     QueueService,
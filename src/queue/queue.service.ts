@@ -6,6 +6,7 @@ import { EcfProcessingJobData } from './ecf-processing.processor';
 import { StatusPollJobData } from './status-poll.processor';
 import { WebhookDeliveryJobData } from './webhook-delivery.processor';
 import { CertificateCheckJobData } from './certificate-check.processor';
+import { InvoiceBatchJobData } from '../invoices/invoice-batch.processor';
 import { WebhookEvent } from '@prisma/client';
 
 /**
@@ -23,6 +24,8 @@ export class QueueService {
     @InjectQueue(QUEUES.ECF_STATUS_POLL) private readonly pollQueue: Queue,
     @InjectQueue(QUEUES.WEBHOOK_DELIVERY) private readonly webhookQueue: Queue,
     @InjectQueue(QUEUES.CERTIFICATE_CHECK) private readonly certQueue: Queue,
+    @InjectQueue(QUEUES.KEY_ROTATION) private readonly keyRotationQueue: Queue,
+    @InjectQueue(QUEUES.INVOICE_BATCH) private readonly batchQueue: Queue,
   ) {}
 
   /**
@@ -45,6 +48,22 @@ export class QueueService {
     return job;
   }
 
+  /**
+   * Enqueue a bulk submission. Not retried: the worker claims the batch, so
+   * a second attempt would find it already taken.
+   */
+  async enqueueInvoiceBatch(data: InvoiceBatchJobData) {
+    const job = await this.batchQueue.add('process', data, {
+      jobId: `batch-${data.batchId}`,
+      attempts: 1,
+      removeOnComplete: { age: 86400 },
+      removeOnFail: { age: 604800 },
+    });
+
+    this.logger.log(`Enqueued invoice batch: ${job.id}`);
+    return job;
+  }
+
   /**
    * Enqueue a status poll for an invoice.
    * Uses exponential delay: 30s → 1m → 2m → 5m → 10m → 30m → 1h
@@ -69,16 +88,12 @@ export class QueueService {
 
   /**
    * Fire a webhook event to all subscribed endpoints.
+   * Retries happen per endpoint in WebhooksService, not at the job level.
    */
   async fireWebhookEvent(tenantId: string, event: WebhookEvent, payload: Record<string, any>) {
     const data: WebhookDeliveryJobData = { tenantId, event, payload };
 
     const job = await this.webhookQueue.add(event, data, {
-      attempts: 3,
-      backoff: {
-        type: 'exponential',
-        delay: 10000, // 10s, 20s, 40s
-      },
       removeOnComplete: { age: 86400 },
       removeOnFail: { age: 604800 },
     });
@@ -102,18 +117,41 @@ export class QueueService {
     return job;
   }
 
+  /**
+   * Schedule the certificate re-encryption job (master key rotation).
+   */
+  async scheduleKeyRotation() {
+    const job = await this.keyRotationQueue.add('rotate', {}, {
+      jobId: `key-rotation-${Date.now()}`,
+      removeOnComplete: { age: 86400 },
+      removeOnFail: { age: 604800 },
+    });
+
+    this.logger.log(`Key rotation scheduled: ${job.id}`);
+    return job;
+  }
+
   /**
    * Get queue health/stats for monitoring.
    */
   async getQueueStats() {
-    const [ecf, poll, webhook, cert] = await Promise.all([
+    const [ecf, poll, webhook, cert, keyRotation, batch] = await Promise.all([
       this.getStats(this.ecfQueue),
       this.getStats(this.pollQueue),
       this.getStats(this.webhookQueue),
       this.getStats(this.certQueue),
+      this.getStats(this.keyRotationQueue),
+      this.getStats(this.batchQueue),
     ]);
 
-    return { ecfProcessing: ecf, statusPoll: poll, webhookDelivery: webhook, certificateCheck: cert };
+    return {
+      ecfProcessing: ecf,
+      statusPoll: poll,
+      webhookDelivery: webhook,
+      certificateCheck: cert,
+      keyRotation,
+      invoiceBatch: batch,
+    };
   }
 
   private async getStats(queue: Queue) {
@@ -3,8 +3,8 @@ import { Logger } from '@nestjs/common';
 import { Job, DelayedError } from 'bullmq';
 import { PrismaService } from '../prisma/prisma.service';
 import { DgiiService } from '../dgii/dgii.service';
-import { SigningService } from '../signing/signing.service';
 import { CertificatesService } from '../certificates/certificates.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
 import { InvoiceStatus } from '@prisma/client';
 import { QUEUES } from './queue.constants';
 
@@ -25,7 +25,7 @@ export interface StatusPollJobData {
  * Strategy:
  * - Poll with exponential backoff: 30s, 1m, 2m, 5m, 10m, 30m, 1h
  * - Max 20 attempts (~24 hours of polling)
- * - On final status (ACCEPTED/REJECTED), fire webhook
+ * - On status change to ACCEPTED/REJECTED/CONDITIONAL, fire the invoice webhook
  * - On CONDITIONAL, log and stop (requires manual action)
  */
 @Processor(QUEUES.ECF_STATUS_POLL)
@@ -38,8 +38,8 @@ export class StatusPollProcessor extends WorkerHost {
   constructor(
     private readonly prisma: PrismaService,
     private readonly dgiiService: DgiiService,
-    private readonly signingService: SigningService,
     private readonly certificatesService: CertificatesService,
+    private readonly webhooksService: WebhooksService,
   ) {
     super();
   }
@@ -86,12 +86,9 @@ export class StatusPollProcessor extends WorkerHost {
 
     try {
       // Authenticate
-      const { p12Buffer, passphrase } = await this.certificatesService.getDecryptedCertificate(
-        tenantId, companyId,
-      );
-      const { privateKey, certificate } = this.signingService.extractFromP12(p12Buffer, passphrase);
+      const signer = await this.certificatesService.getSigner(tenantId, companyId);
       const token = await this.dgiiService.getToken(
-        tenantId, companyId, privateKey, certificate, invoice.company.dgiiEnv,
+        tenantId, companyId, signer, invoice.company.dgiiEnv,
       );
 
       // Query DGII
@@ -106,7 +103,7 @@ export class StatusPollProcessor extends WorkerHost {
 
       // Update if status changed
       if (newStatus !== invoice.status) {
-        await this.prisma.invoice.update({
+        const updated = await this.prisma.invoice.update({
           where: { id: invoiceId },
           data: {
             status: newStatus,
@@ -117,6 +114,8 @@ export class StatusPollProcessor extends WorkerHost {
         });
 
         this.logger.log(`${invoice.encf}: ${invoice.status} → ${newStatus}`);
+
+        await this.webhooksService.dispatchInvoiceStatus(updated, invoice.status);
       }
 
       // If still processing, schedule next poll with backoff
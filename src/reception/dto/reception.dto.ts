@@ -1,5 +1,6 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsBoolean, IsOptional, MaxLength } from 'class-validator';
+import { IsString, IsBoolean, IsOptional, IsIn, MaxLength } from 'class-validator';
+import { DGII_EXPENSE_TYPES, DGII_ISR_RETENTION_TYPES } from '../../reports/formats/format-606';
 
 export class ApproveReceptionDto {
   @ApiProperty({ description: 'Aprobar (true) o rechazar (false) el documento recibido' })
@@ -12,3 +13,21 @@ export class ApproveReceptionDto {
   @MaxLength(500)
   rejectionReason?: string;
 }
+
+export class ClassifyReceivedDto {
+  @ApiProperty({
+    description: 'Tipo de bienes y servicios comprados para el 606 (01-11)',
+    enum: Object.keys(DGII_EXPENSE_TYPES),
+    example: '02',
+  })
+  @IsIn(Object.keys(DGII_EXPENSE_TYPES))
+  expenseType: string;
+
+  @ApiPropertyOptional({
+    description: 'Tipo de retención en ISR (1-8), si aplica',
+    enum: Object.keys(DGII_ISR_RETENTION_TYPES),
+  })
+  @IsOptional()
+  @IsIn(Object.keys(DGII_ISR_RETENTION_TYPES))
+  isrRetentionType?: string;
+}
@@ -200,11 +200,8 @@ export class FeReceptorController {
     const arecfXml = this.responseXmlBuilder.buildArecfXml(arecfInput);
 
     // Sign the ARECF with the receiver's certificate
-    const { p12Buffer, passphrase } = await this.certificatesService.getDecryptedCertificate(
-      company.tenantId, company.id,
-    );
-    const { privateKey, certificate } = this.signingService.extractFromP12(p12Buffer, passphrase);
-    const { signedXml } = this.signingService.signXml(arecfXml, privateKey, certificate);
+    const signer = await this.certificatesService.getSigner(company.tenantId, company.id);
+    const { signedXml } = this.signingService.signXml(arecfXml, signer);
 
     this.logger.log(`ARECF returned for ${encf} from ${rncEmisor}`);
     return signedXml;
@@ -2,6 +2,7 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Body,
   Param,
   Query,
@@ -9,7 +10,7 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation, ApiQuery } from '@nestjs/swagger';
 import { ReceptionService } from './reception.service';
-import { ApproveReceptionDto } from './dto/reception.dto';
+import { ApproveReceptionDto, ClassifyReceivedDto } from './dto/reception.dto';
 import { ApiKeyGuard } from '../common/guards/api-key.guard';
 import { CurrentTenant, RequestTenant } from '../common/decorators/tenant.decorator';
 
@@ -44,4 +45,14 @@ export class ReceptionController {
       dto.rejectionReason,
     );
   }
+
+  @Patch(':id/classification')
+  @ApiOperation({ summary: 'Clasificar documento recibido para el Formato 606' })
+  async classify(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('id') id: string,
+    @Body() dto: ClassifyReceivedDto,
+  ) {
+    return this.receptionService.classify(tenant.id, id, dto.expenseType, dto.isrRetentionType);
+  }
 }
@@ -1,9 +1,16 @@
 import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import {
+  assertCompanyAccess,
+  assertDgiiEnvironmentAccess,
+  companyScopeWhere,
+} from '../common/middleware/request-context.middleware';
 import { WebhooksService } from '../webhooks/webhooks.service';
 import { SigningService } from '../signing/signing.service';
 import { DgiiService } from '../dgii/dgii.service';
 import { CertificatesService } from '../certificates/certificates.service';
+import { UsageService } from '../usage/usage.service';
+import { AuditService } from '../audit/audit.service';
 import { ResponseXmlBuilder, ArecfInput, AcecfInput } from '../xml-builder/response-xml-builder';
 import { ACECF_EXCLUDED_TYPES, getTypeFromEncf } from '../xml-builder/ecf-types';
 import { WebhookEvent, EcfType, ReceivedDocumentStatus } from '@prisma/client';
@@ -19,6 +26,8 @@ export class ReceptionService {
     private readonly dgiiService: DgiiService,
     private readonly certificatesService: CertificatesService,
     private readonly responseXmlBuilder: ResponseXmlBuilder,
+    private readonly usageService: UsageService,
+    private readonly auditService: AuditService,
   ) {}
 
   async storeReceived(tenantId: string, data: {
@@ -44,6 +53,12 @@ export class ReceptionService {
       throw new BadRequestException(`Documento ${data.encf} ya fue recibido anteriormente`);
     }
 
+    // Soft quota: the emitter already sent it to DGII, rejecting would only
+    // break the receipt (ARECF) flow. Over-limit documents are billed.
+    if (await this.usageService.remaining(tenantId, 'receivedDocuments') === 0) {
+      this.logger.warn(`Tenant ${tenantId} is over its received documents quota (${data.encf})`);
+    }
+
     const received = await this.prisma.receivedDocument.create({
       data: {
         tenantId,
@@ -68,6 +83,7 @@ export class ReceptionService {
 
     await this.webhooksService.dispatch(tenantId, WebhookEvent.DOCUMENT_RECEIVED, {
       id: received.id,
+      companyId: received.companyId,
       encf: data.encf,
       emitterRnc: data.emitterRnc,
       emitterName: data.emitterName,
@@ -75,6 +91,12 @@ export class ReceptionService {
       totalAmount: data.totalAmount,
     });
 
+    await this.auditService.record(tenantId, 'received_document', received.id, 'received', {
+      companyId: received.companyId,
+      encf: data.encf,
+      emitterRnc: data.emitterRnc,
+      totalAmount: data.totalAmount,
+    });
     this.logger.log(`Document received: ${data.encf} from ${data.emitterRnc}`);
 
     return {
@@ -87,7 +109,7 @@ export class ReceptionService {
 
   async sendArecf(tenantId: string, receivedDocId: string) {
     const doc = await this.prisma.receivedDocument.findFirst({
-      where: { id: receivedDocId, tenantId },
+      where: { id: receivedDocId, tenantId, ...companyScopeWhere() },
       include: { company: true },
     });
     if (!doc) throw new NotFoundException('Received document not found');
@@ -106,14 +128,11 @@ export class ReceptionService {
 
     const arecfXml = this.responseXmlBuilder.buildArecfXml(arecfInput);
 
-    const { p12Buffer, passphrase } = await this.certificatesService.getDecryptedCertificate(
-      tenantId, doc.companyId,
-    );
-    const { privateKey, certificate } = this.signingService.extractFromP12(p12Buffer, passphrase);
-    const { signedXml } = this.signingService.signXml(arecfXml, privateKey, certificate);
+    const signer = await this.certificatesService.getSigner(tenantId, doc.companyId);
+    const { signedXml } = this.signingService.signXml(arecfXml, signer);
 
     const token = await this.dgiiService.getToken(
-      tenantId, doc.companyId, privateKey, certificate, doc.company.dgiiEnv,
+      tenantId, doc.companyId, signer, doc.company.dgiiEnv,
     );
 
     // Per DGII p.59: ARECF filename = {RNCComprador}{eNCF}.xml
@@ -141,11 +160,12 @@ export class ReceptionService {
     rejectionReason?: string,
   ) {
     const doc = await this.prisma.receivedDocument.findFirst({
-      where: { id: documentId, tenantId },
+      where: { id: documentId, tenantId, ...companyScopeWhere() },
       include: { company: true },
     });
 
     if (!doc) throw new NotFoundException('Documento recibido no encontrado');
+    assertDgiiEnvironmentAccess(doc.company.dgiiEnv);
 
     // Per DGII Descripción Técnica p.28-29:
     // ACECF does NOT apply to types E32, E41, E43, E46, E47
@@ -181,14 +201,11 @@ export class ReceptionService {
 
     const acecfXml = this.responseXmlBuilder.buildAcecfXml(acecfInput);
 
-    const { p12Buffer, passphrase } = await this.certificatesService.getDecryptedCertificate(
-      tenantId, doc.companyId,
-    );
-    const { privateKey, certificate } = this.signingService.extractFromP12(p12Buffer, passphrase);
-    const { signedXml } = this.signingService.signXml(acecfXml, privateKey, certificate);
+    const signer = await this.certificatesService.getSigner(tenantId, doc.companyId);
+    const { signedXml } = this.signingService.signXml(acecfXml, signer);
 
     const token = await this.dgiiService.getToken(
-      tenantId, doc.companyId, privateKey, certificate, doc.company.dgiiEnv,
+      tenantId, doc.companyId, signer, doc.company.dgiiEnv,
     );
 
     // Per DGII p.59: ACECF filename = {RNCComprador}{eNCF}.xml
@@ -213,9 +230,16 @@ export class ReceptionService {
     await this.webhooksService.dispatch(
       tenantId,
       WebhookEvent.COMMERCIAL_APPROVAL_RECEIVED,
-      { encf: doc.encf, emitterRnc: doc.emitterRnc, approved, rejectionReason },
+      { companyId: doc.companyId, encf: doc.encf, ecfType: doc.ecfType, emitterRnc: doc.emitterRnc, approved, rejectionReason },
     );
 
+    await this.auditService.record(tenantId, 'received_document', doc.id, approved ? 'approved' : 'rejected', {
+      companyId: doc.companyId,
+      encf: doc.encf,
+      emitterRnc: doc.emitterRnc,
+      rejectionReason,
+      trackId: result.trackId,
+    });
     this.logger.log(`Document ${doc.encf} ${approved ? 'approved' : 'rejected'} commercially`);
 
     return {
@@ -228,8 +252,42 @@ export class ReceptionService {
     };
   }
 
+  /**
+   * Classify a received document for the 606 (Tipo de Bienes y Servicios
+   * Comprados and, when ISR was retained, Tipo de Retención en ISR).
+   */
+  async classify(
+    tenantId: string,
+    documentId: string,
+    expenseType: string,
+    isrRetentionType?: string,
+  ) {
+    const doc = await this.findOne(tenantId, documentId);
+
+    const updated = await this.prisma.receivedDocument.update({
+      where: { id: doc.id },
+      data: {
+        metadata: {
+          ...((doc.metadata as any) || {}),
+          expenseType,
+          ...(isrRetentionType ? { isrRetentionType } : {}),
+        },
+      },
+    });
+
+    await this.auditService.record(tenantId, 'received_document', doc.id, 'classified', {
+      encf: doc.encf,
+      expenseType,
+      isrRetentionType,
+    });
+
+    return updated;
+  }
+
   async findAll(tenantId: string, companyId?: string, status?: string) {
-    const where: any = { tenantId };
+    if (companyId) assertCompanyAccess(companyId);
+
+    const where: any = { tenantId, ...companyScopeWhere() };
     if (companyId) where.companyId = companyId;
     if (status) where.status = status;
 
@@ -243,7 +301,7 @@ export class ReceptionService {
 
   async findOne(tenantId: string, id: string) {
     const doc = await this.prisma.receivedDocument.findFirst({
-      where: { id, tenantId },
+      where: { id, tenantId, ...companyScopeWhere() },
       include: { company: { select: { rnc: true, businessName: true } } },
     });
     if (!doc) throw new NotFoundException('Documento recibido no encontrado');
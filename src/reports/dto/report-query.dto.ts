@@ -0,0 +1,19 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsString, Matches } from 'class-validator';
+import { REPORT_EXPORT_FORMATS, ReportExportFormat } from '../formats/report-format';
+
+export class ReportQueryDto {
+  @ApiProperty({ description: 'Período fiscal (AAAAMM)', example: '202601' })
+  @IsString()
+  @Matches(/^\d{4}(0[1-9]|1[0-2])$/, { message: 'Período debe tener formato AAAAMM' })
+  period: string;
+
+  @ApiPropertyOptional({
+    description: 'Formato de salida: json (vista previa), txt (archivo DGII), csv, xlsx',
+    enum: REPORT_EXPORT_FORMATS,
+    default: 'json',
+  })
+  @IsOptional()
+  @IsIn(REPORT_EXPORT_FORMATS)
+  format?: ReportExportFormat;
+}
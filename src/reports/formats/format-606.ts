@@ -0,0 +1,237 @@
+import { Invoice, ReceivedDocument } from '@prisma/client';
+import {
+  ReportColumn,
+  dtoDateToYmd,
+  formatDateYmd,
+  identificationType,
+  round2,
+} from './report-format';
+
+/**
+ * Formato 606 — Envío de Datos de Compras de Bienes y Servicios (Norma 07-2018).
+ *
+ * Sources:
+ * - ReceivedDocument: supplier e-CF received through the FE receptor
+ * - Own E41 (Compras) and E43 (Gastos Menores) invoices
+ */
+export const FORMAT_606_ECF_TYPES = ['E41', 'E43'] as const;
+
+/** Tipo de Bienes y Servicios Comprados (casilla 3) */
+export const DGII_EXPENSE_TYPES: Record<string, string> = {
+  '01': 'Gastos de personal',
+  '02': 'Gastos por trabajos, suministros y servicios',
+  '03': 'Arrendamientos',
+  '04': 'Gastos de activos fijos',
+  '05': 'Gastos de representación',
+  '06': 'Otras deducciones admitidas',
+  '07': 'Gastos financieros',
+  '08': 'Gastos extraordinarios',
+  '09': 'Compras y gastos que formarán parte del costo de venta',
+  '10': 'Adquisiciones de activos',
+  '11': 'Gastos de seguros',
+};
+
+/** Tipo de Retención en ISR (casilla 17) */
+export const DGII_ISR_RETENTION_TYPES: Record<string, string> = {
+  '1': 'Alquileres',
+  '2': 'Honorarios por servicios',
+  '3': 'Otras rentas',
+  '4': 'Otras rentas (rentas presuntas)',
+  '5': 'Intereses pagados a personas jurídicas residentes',
+  '6': 'Intereses pagados a personas físicas residentes',
+  '7': 'Retención por proveedores del Estado',
+  '8': 'Juegos telefónicos de apuestas',
+};
+
+export interface Row606 {
+  rncCedula: string;
+  tipoIdentificacion: string;
+  tipoBienesServicios: string;
+  ncf: string;
+  ncfModificado: string;
+  fechaComprobante: string;
+  fechaPago: string;
+  montoServicios: number;
+  montoBienes: number;
+  totalMontoFacturado: number;
+  itbisFacturado: number;
+  itbisRetenido: number;
+  itbisProporcionalidad: number;
+  itbisLlevadoCosto: number;
+  itbisPorAdelantar: number;
+  itbisPercibido: number;
+  tipoRetencionIsr: string;
+  montoRetencionRenta: number;
+  isrPercibido: number;
+  impuestoSelectivoConsumo: number;
+  otrosImpuestos: number;
+  montoPropinaLegal: number;
+  formaPago: string;
+  /** Not part of the DGII layout — identifies the source record in previews */
+  origen: 'RECEIVED' | 'INVOICE';
+}
+
+export const COLUMNS_606: ReportColumn<Row606>[] = [
+  { key: 'rncCedula', header: 'RNC o Cédula', type: 'text' },
+  { key: 'tipoIdentificacion', header: 'Tipo Id', type: 'text' },
+  { key: 'tipoBienesServicios', header: 'Tipo Bienes y Servicios Comprados', type: 'text' },
+  { key: 'ncf', header: 'NCF', type: 'text' },
+  { key: 'ncfModificado', header: 'NCF o Documento Modificado', type: 'text' },
+  { key: 'fechaComprobante', header: 'Fecha Comprobante', type: 'date' },
+  { key: 'fechaPago', header: 'Fecha Pago', type: 'date' },
+  { key: 'montoServicios', header: 'Monto Facturado en Servicios', type: 'amount' },
+  { key: 'montoBienes', header: 'Monto Facturado en Bienes', type: 'amount' },
+  { key: 'totalMontoFacturado', header: 'Total Monto Facturado', type: 'amount' },
+  { key: 'itbisFacturado', header: 'ITBIS Facturado', type: 'amount' },
+  { key: 'itbisRetenido', header: 'ITBIS Retenido', type: 'amount' },
+  { key: 'itbisProporcionalidad', header: 'ITBIS sujeto a Proporcionalidad (Art. 349)', type: 'amount' },
+  { key: 'itbisLlevadoCosto', header: 'ITBIS llevado al Costo', type: 'amount' },
+  { key: 'itbisPorAdelantar', header: 'ITBIS por Adelantar', type: 'amount' },
+  { key: 'itbisPercibido', header: 'ITBIS percibido en compras', type: 'amount' },
+  { key: 'tipoRetencionIsr', header: 'Tipo de Retención en ISR', type: 'text' },
+  { key: 'montoRetencionRenta', header: 'Monto Retención Renta', type: 'amount' },
+  { key: 'isrPercibido', header: 'ISR Percibido en compras', type: 'amount' },
+  { key: 'impuestoSelectivoConsumo', header: 'Impuesto Selectivo al Consumo', type: 'amount' },
+  { key: 'otrosImpuestos', header: 'Otros Impuestos/Tasas', type: 'amount' },
+  { key: 'montoPropinaLegal', header: 'Monto Propina Legal', type: 'amount' },
+  { key: 'formaPago', header: 'Forma de Pago', type: 'text' },
+];
+
+/** Forma de pago 606, indexed by FormaPago code (1-8) of the e-CF */
+const PAYMENT_METHODS_606: Record<number, string> = {
+  1: '01', // Efectivo
+  2: '02', // Cheques/Transferencias/Depósito
+  3: '03', // Tarjeta crédito/débito
+  4: '04', // Compra a crédito
+  5: '07', // Bonos → Mixto/otras
+  6: '05', // Permuta
+  7: '06', // Nota de crédito
+  8: '07', // Otras → Mixto
+};
+
+function paymentForm606(paymentType?: number, method?: number): string {
+  if (paymentType === 2) return '04';
+  return (method && PAYMENT_METHODS_606[method]) || '01';
+}
+
+/**
+ * Build a 606 row from a supplier e-CF received through the FE receptor.
+ *
+ * Goods/services split, ITBIS retained and ISR retention are read from the
+ * original XML when it was stored; otherwise the whole base is reported as
+ * goods. The expense classification comes from `metadata.expenseType`
+ * (set via PATCH /received/:id/classification), defaulting to 02 for
+ * services and 09 (costo de venta) for goods.
+ */
+export function build606RowFromReceived(doc: ReceivedDocument): Row606 {
+  const meta = (doc.metadata as any) || {};
+  const xml = doc.originalXml || '';
+  const field = (name: string) => {
+    const match = xml.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+    return match ? match[1].trim() : null;
+  };
+  const amount = (name: string) => Number(field(name) || 0);
+
+  const totalAmount = Number(doc.totalAmount);
+  const itbisFacturado = round2(doc.totalItbis !== null ? Number(doc.totalItbis) : amount('TotalITBIS'));
+  const isc = round2(amount('MontoImpuestoAdicional'));
+  const base = round2(totalAmount - itbisFacturado - isc);
+
+  // Split by IndicadorBienoServicio (1=Bien, 2=Servicio) per item
+  let services = 0;
+  const items = xml.match(/<Item>[\s\S]*?<\/Item>/g) || [];
+  for (const item of items) {
+    const indicator = item.match(/<IndicadorBienoServicio>(\d)<\/IndicadorBienoServicio>/)?.[1];
+    const itemAmount = Number(item.match(/<MontoItem>([\d.]+)<\/MontoItem>/)?.[1] || 0);
+    if (indicator === '2') services += itemAmount;
+  }
+  services = round2(Math.min(services, base));
+  const goods = round2(base - services);
+
+  const itbisRetenido = round2(amount('TotalITBISRetenido'));
+  const isrRetenido = round2(amount('TotalISRRetencion'));
+  const fechaComprobante = dtoDateToYmd(field('FechaEmision') || undefined) || formatDateYmd(doc.issueDate);
+
+  return {
+    rncCedula: doc.emitterRnc,
+    tipoIdentificacion: identificationType(doc.emitterRnc),
+    tipoBienesServicios: meta.expenseType || (services > 0 && goods === 0 ? '02' : '09'),
+    ncf: doc.encf,
+    ncfModificado: field('NCFModificado') || '',
+    fechaComprobante,
+    fechaPago: itbisRetenido || isrRetenido ? fechaComprobante : '',
+    montoServicios: services,
+    montoBienes: goods,
+    totalMontoFacturado: base,
+    itbisFacturado,
+    itbisRetenido,
+    itbisProporcionalidad: 0,
+    itbisLlevadoCosto: 0,
+    itbisPorAdelantar: itbisFacturado,
+    itbisPercibido: round2(amount('TotalITBISPercepcion')),
+    tipoRetencionIsr: isrRetenido ? meta.isrRetentionType || (services > 0 ? '2' : '3') : '',
+    montoRetencionRenta: isrRetenido,
+    isrPercibido: round2(amount('TotalISRPercepcion')),
+    impuestoSelectivoConsumo: isc,
+    otrosImpuestos: 0,
+    montoPropinaLegal: 0,
+    formaPago: paymentForm606(Number(field('TipoPago')) || undefined, Number(field('FormaPago')) || undefined),
+    origen: 'RECEIVED',
+  };
+}
+
+/**
+ * Build a 606 row from our own E41 (Compras) or E43 (Gastos Menores).
+ *
+ * For E41 the `buyer` of the request is the informal supplier. E43 has no
+ * supplier identification, so the company's own RNC is reported.
+ * Classification: `metadata.expenseType`, default 09 for E41 and 02 for E43.
+ */
+export function build606RowFromInvoice(invoice: Invoice & { lines?: { goodService: number; subtotal: unknown }[] }, companyRnc: string): Row606 {
+  const meta = (invoice.metadata as any) || {};
+  const dto = meta._originalDto || {};
+  const retention = dto.retention || {};
+  const rate = invoice.currency !== 'DOP' && invoice.exchangeRate ? Number(invoice.exchangeRate) : 1;
+  const dop = (value: unknown) => round2(Number(value || 0) * rate);
+
+  const base = dop(invoice.subtotal);
+  const services = round2(Math.min(
+    base,
+    (invoice.lines || [])
+      .filter((l) => l.goodService === 2)
+      .reduce((sum, l) => sum + Number(l.subtotal) * rate, 0),
+  ));
+
+  const rnc = invoice.ecfType === 'E43' ? invoice.buyerRnc || companyRnc : invoice.buyerRnc || '';
+  const itbisFacturado = dop(invoice.totalItbis);
+  const itbisRetenido = dop(retention.itbisRetenido);
+  const isrRetenido = dop(retention.isrRetencion);
+  const fechaComprobante = dtoDateToYmd(dto.fechaEmision) || formatDateYmd(invoice.createdAt);
+
+  return {
+    rncCedula: rnc,
+    tipoIdentificacion: identificationType(rnc),
+    tipoBienesServicios: meta.expenseType || (invoice.ecfType === 'E43' ? '02' : '09'),
+    ncf: invoice.encf || '',
+    ncfModificado: '',
+    fechaComprobante,
+    fechaPago: itbisRetenido || isrRetenido ? dtoDateToYmd(dto.payment?.date) || fechaComprobante : '',
+    montoServicios: services,
+    montoBienes: round2(base - services),
+    totalMontoFacturado: base,
+    itbisFacturado,
+    itbisRetenido,
+    itbisProporcionalidad: 0,
+    itbisLlevadoCosto: 0,
+    itbisPorAdelantar: itbisFacturado,
+    itbisPercibido: dop(retention.itbisPercepcion),
+    tipoRetencionIsr: isrRetenido ? meta.isrRetentionType || (services > 0 ? '2' : '3') : '',
+    montoRetencionRenta: isrRetenido,
+    isrPercibido: dop(retention.isrPercepcion),
+    impuestoSelectivoConsumo: dop(invoice.totalIsc),
+    otrosImpuestos: 0,
+    montoPropinaLegal: 0,
+    formaPago: paymentForm606(dto.payment?.type ?? invoice.paymentType ?? undefined, dto.payment?.method),
+    origen: 'INVOICE',
+  };
+}
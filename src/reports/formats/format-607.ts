@@ -0,0 +1,148 @@
+import { Invoice } from '@prisma/client';
+import {
+  ReportColumn,
+  dtoDateToYmd,
+  formatDateYmd,
+  identificationType,
+  round2,
+} from './report-format';
+
+/**
+ * Formato 607 — Envío de Datos de Ventas de Bienes y Servicios (Norma 07-2018).
+ *
+ * One row per e-CF issued in the period. E41/E43/E47 are purchase-side
+ * documents and belong to the 606, not here.
+ */
+export const FORMAT_607_ECF_TYPES = ['E31', 'E32', 'E33', 'E34', 'E44', 'E45', 'E46'] as const;
+
+export interface Row607 {
+  rncCedula: string;
+  tipoIdentificacion: string;
+  ncf: string;
+  ncfModificado: string;
+  tipoIngreso: string;
+  fechaComprobante: string;
+  fechaRetencion: string;
+  montoFacturado: number;
+  itbisFacturado: number;
+  itbisRetenidoTerceros: number;
+  itbisPercibido: number;
+  retencionRentaTerceros: number;
+  isrPercibido: number;
+  impuestoSelectivoConsumo: number;
+  otrosImpuestos: number;
+  montoPropinaLegal: number;
+  efectivo: number;
+  chequeTransferencia: number;
+  tarjeta: number;
+  ventaCredito: number;
+  bonosCertificados: number;
+  permuta: number;
+  otrasFormasVenta: number;
+}
+
+export const COLUMNS_607: ReportColumn<Row607>[] = [
+  { key: 'rncCedula', header: 'RNC/Cédula o Pasaporte', type: 'text' },
+  { key: 'tipoIdentificacion', header: 'Tipo Identificación', type: 'text' },
+  { key: 'ncf', header: 'Número Comprobante Fiscal', type: 'text' },
+  { key: 'ncfModificado', header: 'Número Comprobante Fiscal Modificado', type: 'text' },
+  { key: 'tipoIngreso', header: 'Tipo de Ingreso', type: 'text' },
+  { key: 'fechaComprobante', header: 'Fecha Comprobante', type: 'date' },
+  { key: 'fechaRetencion', header: 'Fecha de Retención', type: 'date' },
+  { key: 'montoFacturado', header: 'Monto Facturado', type: 'amount' },
+  { key: 'itbisFacturado', header: 'ITBIS Facturado', type: 'amount' },
+  { key: 'itbisRetenidoTerceros', header: 'ITBIS Retenido por Terceros', type: 'amount' },
+  { key: 'itbisPercibido', header: 'ITBIS Percibido', type: 'amount' },
+  { key: 'retencionRentaTerceros', header: 'Retención Renta por Terceros', type: 'amount' },
+  { key: 'isrPercibido', header: 'ISR Percibido', type: 'amount' },
+  { key: 'impuestoSelectivoConsumo', header: 'Impuesto Selectivo al Consumo', type: 'amount' },
+  { key: 'otrosImpuestos', header: 'Otros Impuestos/Tasas', type: 'amount' },
+  { key: 'montoPropinaLegal', header: 'Monto Propina Legal', type: 'amount' },
+  { key: 'efectivo', header: 'Efectivo', type: 'amount' },
+  { key: 'chequeTransferencia', header: 'Cheque/Transferencia/Depósito', type: 'amount' },
+  { key: 'tarjeta', header: 'Tarjeta Débito/Crédito', type: 'amount' },
+  { key: 'ventaCredito', header: 'Venta a Crédito', type: 'amount' },
+  { key: 'bonosCertificados', header: 'Bonos o Certificados de Regalo', type: 'amount' },
+  { key: 'permuta', header: 'Permuta', type: 'amount' },
+  { key: 'otrasFormasVenta', header: 'Otras Formas de Ventas', type: 'amount' },
+];
+
+/** Payment columns, indexed by FormaPago code (1-8) from PaymentDto.method */
+const PAYMENT_METHOD_COLUMNS: Record<number, keyof Row607> = {
+  1: 'efectivo',
+  2: 'chequeTransferencia',
+  3: 'tarjeta',
+  4: 'ventaCredito',
+  5: 'bonosCertificados',
+  6: 'permuta',
+  7: 'otrasFormasVenta',
+  8: 'otrasFormasVenta',
+};
+
+export const PAYMENT_COLUMNS_607: (keyof Row607)[] = [
+  'efectivo', 'chequeTransferencia', 'tarjeta', 'ventaCredito',
+  'bonosCertificados', 'permuta', 'otrasFormasVenta',
+];
+
+/**
+ * Build a 607 row from an emitted invoice.
+ *
+ * Amounts are converted to DOP with the invoice exchange rate. Retentions
+ * come from the original request (`metadata._originalDto.retention`) and the
+ * income type from `metadata.incomeType` (1-6, default 1 = operaciones).
+ */
+export function build607Row(invoice: Invoice): Row607 {
+  const meta = (invoice.metadata as any) || {};
+  const dto = meta._originalDto || {};
+  const retention = dto.retention || {};
+  const rate = invoice.currency !== 'DOP' && invoice.exchangeRate ? Number(invoice.exchangeRate) : 1;
+  const dop = (value: unknown) => round2(Number(value || 0) * rate);
+
+  const montoFacturado = dop(invoice.subtotal);
+  const itbisFacturado = dop(invoice.totalItbis);
+  const isc = dop(invoice.totalIsc);
+  const totalAmount = dop(invoice.totalAmount);
+  const otrosImpuestos = round2(Math.max(0, totalAmount - montoFacturado - itbisFacturado - isc));
+
+  const fechaComprobante = dtoDateToYmd(dto.fechaEmision) || formatDateYmd(invoice.createdAt);
+  const hasRetention = !!(retention.itbisRetenido || retention.isrRetencion);
+
+  const row: Row607 = {
+    rncCedula: invoice.buyerRnc || '',
+    tipoIdentificacion: identificationType(invoice.buyerRnc),
+    ncf: invoice.encf || '',
+    ncfModificado:
+      invoice.ecfType === 'E33' || invoice.ecfType === 'E34' ? invoice.referenceEncf || '' : '',
+    tipoIngreso: String(meta.incomeType || 1).padStart(2, '0'),
+    fechaComprobante,
+    fechaRetencion: hasRetention ? dtoDateToYmd(dto.payment?.date) || fechaComprobante : '',
+    montoFacturado,
+    itbisFacturado,
+    itbisRetenidoTerceros: dop(retention.itbisRetenido),
+    itbisPercibido: dop(retention.itbisPercepcion),
+    retencionRentaTerceros: dop(retention.isrRetencion),
+    isrPercibido: dop(retention.isrPercepcion),
+    impuestoSelectivoConsumo: isc,
+    otrosImpuestos,
+    montoPropinaLegal: 0,
+    efectivo: 0,
+    chequeTransferencia: 0,
+    tarjeta: 0,
+    ventaCredito: 0,
+    bonosCertificados: 0,
+    permuta: 0,
+    otrasFormasVenta: 0,
+  };
+
+  // Credit notes reduce a previous sale — no new form of payment
+  if (invoice.ecfType !== 'E34') {
+    const paymentType = dto.payment?.type ?? invoice.paymentType;
+    const column: keyof Row607 =
+      paymentType === 2 ? 'ventaCredito'
+        : paymentType === 3 ? 'otrasFormasVenta'
+          : PAYMENT_METHOD_COLUMNS[dto.payment?.method] || 'efectivo';
+    (row[column] as number) = totalAmount;
+  }
+
+  return row;
+}
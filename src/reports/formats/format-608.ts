@@ -0,0 +1,105 @@
+import { Invoice, SequenceAnnulment } from '@prisma/client';
+import { ReportColumn, dtoDateToYmd, formatDateYmd } from './report-format';
+
+/**
+ * Formato 608 — Envío de Comprobantes Anulados (Norma 07-2018).
+ *
+ * Sources:
+ * - Invoices voided through InvoicesService.voidInvoice (eNCF consumed)
+ * - SequenceAnnulment (ANECF) ranges, expanded to one row per eNCF
+ */
+
+/** Tipo de Anulación (casilla 3) */
+export const DGII_ANNULMENT_TYPES: Record<string, string> = {
+  '01': 'Deterioro de factura pre-impresa',
+  '02': 'Errores de impresión (factura pre-impresa)',
+  '03': 'Impresión defectuosa',
+  '04': 'Corrección de la información',
+  '05': 'Cambio de productos',
+  '06': 'Devolución de productos',
+  '07': 'Omisión de productos',
+  '08': 'Errores en secuencia de NCF',
+  '09': 'Por cese de operaciones',
+  '10': 'Pérdida o hurto de talonarios',
+};
+
+/** Default for voided invoices without an explicit type */
+export const DEFAULT_VOID_ANNULMENT_TYPE = '04';
+/** ANECF annuls numbers that were never used as documents */
+export const DEFAULT_ANECF_ANNULMENT_TYPE = '08';
+
+/**
+ * Upper bound on eNCF produced by expanding ANECF ranges in one report.
+ * expandEncfRange() applies it to a single range; get608() to the total.
+ */
+export const MAX_EXPANDED_ENCF = 100_000;
+
+export interface Row608 {
+  ncf: string;
+  fechaComprobante: string;
+  tipoAnulacion: string;
+  /** Not part of the DGII layout — identifies the source record in previews */
+  origen: 'INVOICE' | 'ANECF';
+}
+
+export const COLUMNS_608: ReportColumn<Row608>[] = [
+  { key: 'ncf', header: 'Número de Comprobante Fiscal', type: 'text' },
+  { key: 'fechaComprobante', header: 'Fecha de Comprobante', type: 'date' },
+  { key: 'tipoAnulacion', header: 'Tipo de Anulación', type: 'text' },
+];
+
+/**
+ * Build a 608 row from a voided invoice. The annulment type comes from
+ * `metadata.annulmentType` (set on void), defaulting to 04.
+ */
+export function build608RowFromInvoice(invoice: Invoice): Row608 {
+  const meta = (invoice.metadata as any) || {};
+  const dto = meta._originalDto || {};
+
+  return {
+    ncf: invoice.encf || '',
+    fechaComprobante: dtoDateToYmd(dto.fechaEmision) || formatDateYmd(invoice.createdAt),
+    tipoAnulacion: meta.annulmentType || DEFAULT_VOID_ANNULMENT_TYPE,
+    origen: 'INVOICE',
+  };
+}
+
+/**
+ * Expand an eNCF range (E310000000010 → E310000000015) into every number.
+ * Both ends must share the same type prefix.
+ */
+export function expandEncfRange(encfFrom: string, encfTo: string): string[] {
+  const prefix = encfFrom.substring(0, 3);
+  if (encfTo.substring(0, 3) !== prefix) {
+    throw new Error(`Rango inválido: ${encfFrom} y ${encfTo} son de tipos distintos`);
+  }
+
+  const from = parseInt(encfFrom.substring(3), 10);
+  const to = parseInt(encfTo.substring(3), 10);
+  if (isNaN(from) || isNaN(to) || to < from) {
+    throw new Error(`Rango inválido: ${encfFrom} - ${encfTo}`);
+  }
+  if (to - from + 1 > MAX_EXPANDED_ENCF) {
+    throw new Error(`Rango ${encfFrom} - ${encfTo} excede ${MAX_EXPANDED_ENCF} comprobantes`);
+  }
+
+  const result: string[] = [];
+  for (let n = from; n <= to; n++) {
+    result.push(`${prefix}${String(n).padStart(10, '0')}`);
+  }
+  return result;
+}
+
+/**
+ * Build 608 rows from an ANECF annulment. The annulment date is used as the
+ * comprobante date, since the numbers were never issued.
+ */
+export function build608RowsFromAnnulment(annulment: SequenceAnnulment): Row608[] {
+  const fecha = formatDateYmd(annulment.createdAt);
+  return expandEncfRange(annulment.encfFrom, annulment.encfTo).map((ncf) => ({
+    ncf,
+    fechaComprobante: fecha,
+    tipoAnulacion: DEFAULT_ANECF_ANNULMENT_TYPE,
+    origen: 'ANECF',
+  }));
+}
@@ -0,0 +1,170 @@
+import { StreamableFile } from '@nestjs/common';
+import * as ExcelJS from 'exceljs';
+
+/**
+ * Shared export helpers for DGII "Formatos de Envío" (606/607/608).
+ *
+ * Each format declares its columns once; the same definition drives the
+ * pipe-delimited TXT upload file, the CSV preview and the XLSX preview.
+ */
+
+export type ReportColumnType = 'text' | 'date' | 'amount';
+
+export interface ReportColumn<T> {
+  key: keyof T & string;
+  header: string;
+  type: ReportColumnType;
+}
+
+export type ReportExportFormat = 'json' | 'txt' | 'csv' | 'xlsx';
+
+export const REPORT_EXPORT_FORMATS: ReportExportFormat[] = ['json', 'txt', 'csv', 'xlsx'];
+
+/**
+ * Format a value for the DGII TXT layout:
+ * - dates: YYYYMMDD
+ * - amounts: 2 decimals, no thousands separator, empty when zero
+ * - text: as-is with pipes stripped
+ */
+export function formatTxtValue(value: unknown, type: ReportColumnType): string {
+  if (value === null || value === undefined || value === '') return '';
+
+  if (type === 'amount') {
+    const num = Number(value);
+    return num === 0 ? '' : num.toFixed(2);
+  }
+
+  if (type === 'date') {
+    return value instanceof Date ? formatDateYmd(value) : String(value);
+  }
+
+  return String(value).replace(/\|/g, ' ').trim();
+}
+
+/**
+ * DGII TXT: header `{formato}|{RNC}|{AAAAMM}|{cantidad}` followed by one
+ * pipe-delimited line per record, CRLF line endings.
+ */
+export function toDgiiTxt<T>(
+  formatCode: string,
+  rnc: string,
+  period: string,
+  columns: ReportColumn<T>[],
+  rows: T[],
+): string {
+  const lines = [
+    [formatCode, rnc, period, rows.length].join('|'),
+    ...rows.map((row) => columns.map((c) => formatTxtValue(row[c.key], c.type)).join('|')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * CSV preview. Text cells starting with `=`, `+`, `-`, `@`, tab or CR are
+ * prefixed with `'` so spreadsheets show them as text instead of evaluating
+ * a formula (names, notes and audit values come from API callers).
+ */
+export function toCsv<T>(columns: ReportColumn<T>[], rows: T[]): string {
+  const escape = (value: string) =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const neutralise = (value: string) => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+
+  const lines = [
+    columns.map((c) => escape(c.header)).join(','),
+    ...rows.map((row) =>
+      columns
+        .map((c) => {
+          const value = row[c.key];
+          if (c.type === 'amount') return Number(value || 0).toFixed(2);
+          return escape(neutralise(formatTxtValue(value, c.type)));
+        })
+        .join(','),
+    ),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Download response for an exported file. Returned from the handler (no
+ * res.send): Nest streams it and TransformInterceptor leaves it unwrapped.
+ */
+export function toStreamableFile(file: { fileName: string; contentType: string; content: string | Buffer }) {
+  return new StreamableFile(typeof file.content === 'string' ? Buffer.from(file.content, 'utf8') : file.content, {
+    type: file.contentType,
+    disposition: `attachment; filename="${file.fileName}"`,
+  });
+}
+
+export async function toXlsx<T>(
+  sheetName: string,
+  columns: ReportColumn<T>[],
+  rows: T[],
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+
+  sheet.columns = columns.map((c) => ({
+    header: c.header,
+    key: c.key,
+    width: Math.max(12, c.header.length + 2),
+    style: c.type === 'amount' ? { numFmt: '#,##0.00' } : undefined,
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  for (const row of rows) {
+    sheet.addRow(
+      Object.fromEntries(
+        columns.map((c) => [
+          c.key,
+          c.type === 'amount' ? Number(row[c.key] || 0) : formatTxtValue(row[c.key], c.type),
+        ]),
+      ),
+    );
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// ============================================================
+// FIELD HELPERS
+// ============================================================
+
+export function formatDateYmd(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}${m}${d}`;
+}
+
+/** DD-MM-YYYY (as used in invoice DTOs) → YYYYMMDD */
+export function dtoDateToYmd(date?: string): string | null {
+  const match = date?.match(/^(\d{2})-(\d{2})-(\d{4})$/);
+  return match ? `${match[3]}${match[2]}${match[1]}` : null;
+}
+
+/**
+ * Tipo de Identificación: 1=RNC (9 dígitos), 2=Cédula (11 dígitos), 3=Pasaporte/otro.
+ */
+export function identificationType(id?: string | null): string {
+  if (!id) return '';
+  const digits = id.replace(/\D/g, '');
+  if (digits.length === 9) return '1';
+  if (digits.length === 11) return '2';
+  return '3';
+}
+
+/**
+ * Parse a reporting period (YYYYMM) into a [from, to) date range.
+ */
+export function periodRange(period: string): { from: Date; to: Date } {
+  const year = parseInt(period.substring(0, 4), 10);
+  const month = parseInt(period.substring(4, 6), 10);
+  return {
+    from: new Date(year, month - 1, 1),
+    to: new Date(year, month, 1),
+  };
+}
+
+export function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
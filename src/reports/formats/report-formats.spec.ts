@@ -0,0 +1,304 @@
+/**
+ * DGII Formatos de Envío Tests
+ *
+ * Row mapping and TXT/CSV layout for the 606/607/608 reports.
+ */
+import { Invoice, Prisma, ReceivedDocument, SequenceAnnulment } from '@prisma/client';
+import { build606RowFromInvoice, build606RowFromReceived } from './format-606';
+import { build607Row, COLUMNS_607 } from './format-607';
+import { build608RowFromInvoice, build608RowsFromAnnulment, expandEncfRange } from './format-608';
+import { identificationType, toCsv, toDgiiTxt } from './report-format';
+
+// ============================================================
+// TEST FIXTURES
+// ============================================================
+
+const invoice = (overrides?: Partial<Invoice>): Invoice => ({
+  id: 'inv-1',
+  tenantId: 'tenant-1',
+  companyId: 'company-1',
+  ecfType: 'E31',
+  encf: 'E310000000001',
+  status: 'ACCEPTED',
+  trackId: null,
+  securityCode: null,
+  buyerId: null,
+  buyerRnc: '131793916',
+  buyerName: 'Cliente SRL',
+  buyerEmail: null,
+  subtotal: new Prisma.Decimal(1000),
+  totalDiscount: new Prisma.Decimal(0),
+  totalItbis: new Prisma.Decimal(180),
+  totalIsc: new Prisma.Decimal(0),
+  totalAmount: new Prisma.Decimal(1180),
+  paymentType: 1,
+  paymentDate: null,
+  referenceEncf: null,
+  referenceDate: null,
+  xmlUnsigned: null,
+  xmlSigned: null,
+  xmlS3Key: null,
+  signedAt: null,
+  signatureValue: null,
+  isRfce: false,
+  xmlRfce: null,
+  referenceModCode: null,
+  dgiiResponse: null,
+  dgiiMessage: null,
+  dgiiTimestamp: null,
+  currency: 'DOP',
+  exchangeRate: null,
+  idempotencyKey: null,
+  metadata: { _originalDto: { fechaEmision: '15-01-2026', payment: { type: 1, method: 3 } } },
+  createdAt: new Date(2026, 0, 15),
+  updatedAt: new Date(2026, 0, 15),
+  ...overrides,
+} as Invoice);
+
+const receivedDoc = (overrides?: Partial<ReceivedDocument>): ReceivedDocument => ({
+  id: 'rec-1',
+  tenantId: 'tenant-1',
+  companyId: 'company-1',
+  encf: 'E310000000050',
+  ecfType: 'E31',
+  emitterRnc: '101000001',
+  emitterName: 'Proveedor SRL',
+  totalAmount: new Prisma.Decimal(2360),
+  totalItbis: new Prisma.Decimal(360),
+  issueDate: new Date(2026, 0, 10),
+  status: 'RECEIVED',
+  arecfXml: null,
+  arecfSentAt: null,
+  arecfTrackId: null,
+  acecfXml: null,
+  acecfSentAt: null,
+  acecfTrackId: null,
+  acecfStatus: null,
+  rejectionReason: null,
+  originalXml: [
+    '<ECF><Encabezado><IdDoc><TipoPago>1</TipoPago></IdDoc>',
+    '<FechaEmision>10-01-2026</FechaEmision>',
+    '<Totales><TotalITBIS>360.00</TotalITBIS><TotalITBISRetenido>108.00</TotalITBISRetenido></Totales></Encabezado>',
+    '<DetallesItems>',
+    '<Item><IndicadorBienoServicio>1</IndicadorBienoServicio><MontoItem>1500.00</MontoItem></Item>',
+    '<Item><IndicadorBienoServicio>2</IndicadorBienoServicio><MontoItem>500.00</MontoItem></Item>',
+    '</DetallesItems></ECF>',
+  ].join(''),
+  metadata: null,
+  createdAt: new Date(2026, 0, 10),
+  updatedAt: new Date(2026, 0, 10),
+  ...overrides,
+} as ReceivedDocument);
+
+// ============================================================
+// 606
+// ============================================================
+
+describe('Formato 606', () => {
+  it('splits goods and services from the received e-CF items', () => {
+    const row = build606RowFromReceived(receivedDoc());
+
+    expect(row.rncCedula).toBe('101000001');
+    expect(row.ncf).toBe('E310000000050');
+    expect(row.fechaComprobante).toBe('20260110');
+    expect(row.montoBienes).toBe(1500);
+    expect(row.montoServicios).toBe(500);
+    expect(row.totalMontoFacturado).toBe(2000);
+    expect(row.itbisFacturado).toBe(360);
+    expect(row.itbisRetenido).toBe(108);
+    expect(row.fechaPago).toBe('20260110');
+    expect(row.formaPago).toBe('01');
+    expect(row.tipoBienesServicios).toBe('09');
+  });
+
+  it('uses the stored expense classification', () => {
+    const row = build606RowFromReceived(receivedDoc({ metadata: { expenseType: '03' } }));
+    expect(row.tipoBienesServicios).toBe('03');
+  });
+
+  it('reports E41 supplier and retentions from the original request', () => {
+    const row = build606RowFromInvoice({
+      ...invoice({
+        ecfType: 'E41',
+        encf: 'E410000000001',
+        buyerRnc: '00114272360',
+        metadata: {
+          _originalDto: {
+            fechaEmision: '05-01-2026',
+            payment: { type: 1, method: 2, date: '06-01-2026' },
+            retention: { itbisRetenido: 180, isrRetencion: 100 },
+          },
+        },
+      }),
+      lines: [{ goodService: 2, subtotal: new Prisma.Decimal(1000) }],
+    }, '131000001');
+
+    expect(row.rncCedula).toBe('00114272360');
+    expect(row.tipoIdentificacion).toBe('2');
+    expect(row.montoServicios).toBe(1000);
+    expect(row.itbisRetenido).toBe(180);
+    expect(row.montoRetencionRenta).toBe(100);
+    expect(row.tipoRetencionIsr).toBe('2');
+    expect(row.fechaPago).toBe('20260106');
+    expect(row.formaPago).toBe('02');
+  });
+
+  it('reports E43 with the company RNC', () => {
+    const row = build606RowFromInvoice(invoice({ ecfType: 'E43', buyerRnc: null }), '131000001');
+    expect(row.rncCedula).toBe('131000001');
+    expect(row.tipoBienesServicios).toBe('02');
+  });
+});
+
+// ============================================================
+// 607
+// ============================================================
+
+describe('Formato 607', () => {
+  it('maps buyer, eNCF, amounts and payment method', () => {
+    const row = build607Row(invoice());
+
+    expect(row.rncCedula).toBe('131793916');
+    expect(row.tipoIdentificacion).toBe('1');
+    expect(row.ncf).toBe('E310000000001');
+    expect(row.ncfModificado).toBe('');
+    expect(row.tipoIngreso).toBe('01');
+    expect(row.fechaComprobante).toBe('20260115');
+    expect(row.montoFacturado).toBe(1000);
+    expect(row.itbisFacturado).toBe(180);
+    expect(row.tarjeta).toBe(1180);
+    expect(row.efectivo).toBe(0);
+  });
+
+  it('reports credit sales under Venta a Crédito', () => {
+    const row = build607Row(invoice({
+      metadata: { _originalDto: { payment: { type: 2, termDays: 30 } } },
+    }));
+    expect(row.ventaCredito).toBe(1180);
+  });
+
+  it('includes modified NCF and no payment breakdown for credit notes', () => {
+    const row = build607Row(invoice({ ecfType: 'E34', encf: 'E340000000001', referenceEncf: 'E310000000001' }));
+
+    expect(row.ncfModificado).toBe('E310000000001');
+    expect(row.tarjeta).toBe(0);
+  });
+
+  it('takes retentions from the original request', () => {
+    const row = build607Row(invoice({
+      metadata: {
+        _originalDto: {
+          fechaEmision: '15-01-2026',
+          payment: { type: 1, date: '20-01-2026' },
+          retention: { itbisRetenido: 54, isrRetencion: 100 },
+        },
+      },
+    }));
+
+    expect(row.itbisRetenidoTerceros).toBe(54);
+    expect(row.retencionRentaTerceros).toBe(100);
+    expect(row.fechaRetencion).toBe('20260120');
+  });
+
+  it('converts foreign currency invoices to DOP', () => {
+    const row = build607Row(invoice({ currency: 'USD', exchangeRate: new Prisma.Decimal(60) }));
+    expect(row.montoFacturado).toBe(60000);
+    expect(row.itbisFacturado).toBe(10800);
+  });
+});
+
+// ============================================================
+// 608
+// ============================================================
+
+describe('Formato 608', () => {
+  it('reports voided invoices with the stored annulment type', () => {
+    const row = build608RowFromInvoice(invoice({
+      status: 'VOIDED',
+      metadata: { _originalDto: { fechaEmision: '15-01-2026' }, annulmentType: '06' },
+    }));
+
+    expect(row.ncf).toBe('E310000000001');
+    expect(row.fechaComprobante).toBe('20260115');
+    expect(row.tipoAnulacion).toBe('06');
+  });
+
+  it('defaults voided invoices to type 04', () => {
+    const row = build608RowFromInvoice(invoice({ status: 'VOIDED', metadata: null }));
+    expect(row.tipoAnulacion).toBe('04');
+    expect(row.fechaComprobante).toBe('20260115');
+  });
+
+  it('expands ANECF ranges to one row per eNCF', () => {
+    const rows = build608RowsFromAnnulment({
+      id: 'ann-1',
+      encfFrom: 'E320000000009',
+      encfTo: 'E320000000011',
+      createdAt: new Date(2026, 0, 20),
+    } as SequenceAnnulment);
+
+    expect(rows.map((r) => r.ncf)).toEqual(['E320000000009', 'E320000000010', 'E320000000011']);
+    expect(rows[0].fechaComprobante).toBe('20260120');
+    expect(rows[0].tipoAnulacion).toBe('08');
+  });
+
+  it('rejects ranges across types or reversed', () => {
+    expect(() => expandEncfRange('E310000000001', 'E320000000005')).toThrow();
+    expect(() => expandEncfRange('E310000000005', 'E310000000001')).toThrow();
+  });
+});
+
+// ============================================================
+// EXPORT LAYOUT
+// ============================================================
+
+describe('Report export', () => {
+  it('builds DGII TXT with header and pipe-delimited rows', () => {
+    const txt = toDgiiTxt('607', '101000001', '202601', COLUMNS_607, [build607Row(invoice())]);
+    const lines = txt.split('\r\n');
+
+    expect(lines[0]).toBe('607|101000001|202601|1');
+    expect(lines[1].split('|')).toHaveLength(COLUMNS_607.length);
+    expect(lines[1]).toContain('|20260115||1000.00|180.00|');
+  });
+
+  it('quotes CSV values containing commas', () => {
+    const csv = toCsv(
+      [{ key: 'name', header: 'Nombre', type: 'text' }] as any,
+      [{ name: 'Pérez, Juan' }],
+    );
+    expect(csv).toBe('Nombre\r\n"Pérez, Juan"\r\n');
+  });
+
+  it('neutralises CSV text cells that a spreadsheet would run as a formula', () => {
+    const csv = toCsv(
+      [
+        { key: 'name', header: 'Nombre', type: 'text' },
+        { key: 'amount', header: 'Monto', type: 'amount' },
+      ] as any,
+      [
+        { name: '=HYPERLINK("http://x","y")', amount: -50 },
+        { name: '+1', amount: 0 },
+        { name: '-2', amount: 0 },
+        { name: '@SUM(A1)', amount: 0 },
+        { name: 'Juan-Pérez', amount: 0 },
+      ],
+    );
+    expect(csv.split('\r\n')).toEqual([
+      'Nombre,Monto',
+      `"'=HYPERLINK(""http://x"",""y"")",-50.00`,
+      "'+1,0.00",
+      "'-2,0.00",
+      "'@SUM(A1),0.00",
+      'Juan-Pérez,0.00',
+      '',
+    ]);
+  });
+
+  it('detects identification type by length', () => {
+    expect(identificationType('131793916')).toBe('1');
+    expect(identificationType('00114272360')).toBe('2');
+    expect(identificationType('AB123456')).toBe('3');
+    expect(identificationType(null)).toBe('');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Reports Controller Tests
+ *
+ * File exports over HTTP with the same global pipe, filter and interceptor
+ * as main.ts: the download must be the only response sent, and the server
+ * must still answer afterwards.
+ */
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { ApiKeyGuard } from '../common/guards/api-key.guard';
+import { HttpExceptionFilter } from '../common/filters/http-exception.filter';
+import { TransformInterceptor } from '../common/interceptors/transform.interceptor';
+import { ReportsController } from './reports.controller';
+import { ReportsService } from './reports.service';
+
+const TXT = '607|131880681|202601|1\r\n101010101|1|E310000000001\r\n';
+
+describe('ReportsController', () => {
+  let app: INestApplication;
+  let baseUrl: string;
+  const reportsService = {
+    get607: jest.fn(async () => ({ rows: [], totals: {} })),
+    export607: jest.fn(async () => ({
+      fileName: '607_131880681_202601.txt',
+      contentType: 'text/plain; charset=utf-8',
+      content: TXT,
+    })),
+  };
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      controllers: [ReportsController],
+      providers: [{ provide: ReportsService, useValue: reportsService }],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({
+        canActivate: (context: any) => {
+          context.switchToHttp().getRequest().tenant = { id: 'tenant-1', scopes: [] };
+          return true;
+        },
+      })
+      .compile();
+
+    app = moduleRef.createNestApplication({ logger: false });
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true }));
+    app.useGlobalFilters(new HttpExceptionFilter());
+    app.useGlobalInterceptors(new TransformInterceptor());
+    await app.listen(0);
+    baseUrl = `${await app.getUrl()}/reports/company-1`.replace('[::1]', 'localhost');
+  });
+
+  afterAll(() => app.close());
+
+  it('sends the export as a download, twice in a row', async () => {
+    for (let i = 0; i < 2; i++) {
+      const response = await fetch(`${baseUrl}/607?period=202601&format=txt`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('text/plain; charset=utf-8');
+      expect(response.headers.get('content-disposition')).toBe('attachment; filename="607_131880681_202601.txt"');
+      expect(await response.text()).toBe(TXT);
+    }
+    expect(reportsService.export607).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the JSON envelope for the preview', async () => {
+    const response = await fetch(`${baseUrl}/607?period=202601`);
+
+    expect(await response.json()).toEqual({ success: true, data: { rows: [], totals: {} } });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { ReportsService } from './reports.service';
+import { ReportQueryDto } from './dto/report-query.dto';
+import { toStreamableFile } from './formats/report-format';
+import { ApiKeyGuard } from '../common/guards/api-key.guard';
+import { RequireScopes } from '../common/decorators/scopes.decorator';
+import { CurrentTenant, RequestTenant } from '../common/decorators/tenant.decorator';
+import { ApiKeyScope } from '@prisma/client';
+
+@ApiTags('reports')
+@Controller('reports')
+@UseGuards(ApiKeyGuard)
+@ApiBearerAuth('api-key')
+export class ReportsController {
+  constructor(private readonly reportsService: ReportsService) {}
+
+  @Get(':companyId/606')
+  @RequireScopes(ApiKeyScope.INVOICES_READ)
+  @ApiOperation({
+    summary: 'Formato 606 — Compras de bienes y servicios',
+    description:
+      'Genera el 606 del período combinando documentos recibidos de proveedores y los e-CF ' +
+      'propios E41 (Compras) y E43 (Gastos Menores).',
+  })
+  async get606(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('companyId') companyId: string,
+    @Query() query: ReportQueryDto,
+  ) {
+    if (!query.format || query.format === 'json') {
+      return this.reportsService.get606(tenant.id, companyId, query.period);
+    }
+    const file = await this.reportsService.export606(tenant.id, companyId, query.period, query.format);
+    return toStreamableFile(file);
+  }
+
+  @Get(':companyId/607')
+  @RequireScopes(ApiKeyScope.INVOICES_READ)
+  @ApiOperation({
+    summary: 'Formato 607 — Ventas de bienes y servicios',
+    description:
+      'Genera el 607 del período a partir de los e-CF aceptados. ' +
+      'format=json devuelve vista previa con totales y conciliación; txt genera el archivo para la DGII.',
+  })
+  async get607(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('companyId') companyId: string,
+    @Query() query: ReportQueryDto,
+  ) {
+    if (!query.format || query.format === 'json') {
+      return this.reportsService.get607(tenant.id, companyId, query.period);
+    }
+    const file = await this.reportsService.export607(tenant.id, companyId, query.period, query.format);
+    return toStreamableFile(file);
+  }
+
+  @Get(':companyId/608')
+  @RequireScopes(ApiKeyScope.INVOICES_READ)
+  @ApiOperation({
+    summary: 'Formato 608 — Comprobantes anulados',
+    description:
+      'Genera el 608 del período con las facturas anuladas y los rangos ANECF, ' +
+      'expandidos a un eNCF por línea.',
+  })
+  async get608(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('companyId') companyId: string,
+    @Query() query: ReportQueryDto,
+  ) {
+    if (!query.format || query.format === 'json') {
+      return this.reportsService.get608(tenant.id, companyId, query.period);
+    }
+    const file = await this.reportsService.export608(tenant.id, companyId, query.period, query.format);
+    return toStreamableFile(file);
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Reports Service Tests
+ *
+ * 608 assembly from ANECF ranges and its per-report expansion cap, with a
+ * mocked Prisma client.
+ */
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { PrismaService } from '../prisma/prisma.service';
+import { MAX_EXPANDED_ENCF } from './formats/format-608';
+import { ReportsService } from './reports.service';
+
+const COMPANY_ID = '00000000-0000-0000-0000-000000000001';
+
+/** ANECF annulment of `count` numbers starting at `first` */
+const annulment = (first: number, count: number) => ({
+  encfFrom: `E31${String(first).padStart(10, '0')}`,
+  encfTo: `E31${String(first + count - 1).padStart(10, '0')}`,
+  createdAt: new Date('2026-01-15T12:00:00Z'),
+});
+
+async function setup(annulments: ReturnType<typeof annulment>[]) {
+  const prisma = {
+    company: { findFirst: jest.fn(async () => ({ id: COMPANY_ID, rnc: '131793916', businessName: 'EMPRESA SRL' })) },
+    invoice: { findMany: jest.fn(async () => []) },
+    sequenceAnnulment: { findMany: jest.fn(async () => annulments) },
+  };
+
+  const moduleRef = await Test.createTestingModule({
+    providers: [ReportsService, { provide: PrismaService, useValue: prisma }],
+  }).compile();
+
+  return moduleRef.get(ReportsService);
+}
+
+describe('ReportsService.get608', () => {
+  it('expands ANECF ranges into one row per number', async () => {
+    const service = await setup([annulment(10, 3), annulment(11, 3)]);
+
+    const report = await service.get608('tenant-1', COMPANY_ID, '202601');
+
+    expect(report.rows.map((r) => r.ncf)).toEqual([
+      'E310000000010', 'E310000000011', 'E310000000012', 'E310000000013',
+    ]);
+    expect(report.sources).toEqual({ voidedInvoices: 0, annulmentRanges: 2 });
+  });
+
+  it('rejects a report whose ranges together pass the cap', async () => {
+    const half = MAX_EXPANDED_ENCF / 2;
+    const service = await setup([annulment(1, half), annulment(half + 1, half), annulment(MAX_EXPANDED_ENCF + 1, 1)]);
+
+    await expect(service.get608('tenant-1', COMPANY_ID, '202601')).rejects.toThrow(
+      new BadRequestException(`Los rangos anulados del período 202601 exceden ${MAX_EXPANDED_ENCF} comprobantes`),
+    );
+  });
+});
@@ -0,0 +1,364 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  Invoice,
+  InvoiceLine,
+  InvoiceStatus,
+  EcfType,
+  ReceivedDocumentStatus,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { assertCompanyAccess } from '../common/middleware/request-context.middleware';
+import {
+  ReportColumn,
+  ReportExportFormat,
+  periodRange,
+  round2,
+  toCsv,
+  toDgiiTxt,
+  toXlsx,
+} from './formats/report-format';
+import {
+  COLUMNS_606,
+  FORMAT_606_ECF_TYPES,
+  Row606,
+  build606RowFromInvoice,
+  build606RowFromReceived,
+} from './formats/format-606';
+import {
+  COLUMNS_607,
+  FORMAT_607_ECF_TYPES,
+  PAYMENT_COLUMNS_607,
+  Row607,
+  build607Row,
+} from './formats/format-607';
+import {
+  COLUMNS_608,
+  MAX_EXPANDED_ENCF,
+  Row608,
+  build608RowFromInvoice,
+  build608RowsFromAnnulment,
+} from './formats/format-608';
+
+/** Statuses that count as issued for DGII reporting */
+const REPORTABLE_STATUSES: InvoiceStatus[] = [InvoiceStatus.ACCEPTED, InvoiceStatus.CONDITIONAL];
+
+export interface ReportFile {
+  fileName: string;
+  contentType: string;
+  content: string | Buffer;
+}
+
+export interface ReconciliationCheck {
+  report: number;
+  invoices: number;
+  difference: number;
+}
+
+@Injectable()
+export class ReportsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ============================================================
+  // 606 — COMPRAS
+  // ============================================================
+
+  /**
+   * Build the Formato 606 for a company and period: supplier e-CF received
+   * through the FE receptor (except those commercially rejected) plus our
+   * own ACCEPTED/CONDITIONAL E41 and E43.
+   */
+  async get606(tenantId: string, companyId: string, period: string) {
+    const company = await this.getCompany(tenantId, companyId);
+    const { from, to } = periodRange(period);
+
+    const [received, invoices] = await Promise.all([
+      this.prisma.receivedDocument.findMany({
+        where: {
+          tenantId,
+          companyId,
+          status: { notIn: [ReceivedDocumentStatus.REJECTED, ReceivedDocumentStatus.ERROR] },
+          issueDate: { gte: from, lt: to },
+        },
+        orderBy: { issueDate: 'asc' },
+      }),
+      this.prisma.invoice.findMany({
+        where: {
+          tenantId,
+          companyId,
+          ecfType: { in: [...FORMAT_606_ECF_TYPES] as EcfType[] },
+          status: { in: REPORTABLE_STATUSES },
+          createdAt: { gte: from, lt: to },
+        },
+        include: { lines: { select: { goodService: true, subtotal: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const rows: Row606[] = [
+      ...received.map(build606RowFromReceived),
+      ...invoices.map((invoice) => build606RowFromInvoice(invoice, company.rnc)),
+    ].sort((a, b) => a.fechaComprobante.localeCompare(b.fechaComprobante));
+
+    const unclassified = received
+      .filter((doc) => !(doc.metadata as any)?.expenseType)
+      .map((doc) => ({ id: doc.id, encf: doc.encf, emitterRnc: doc.emitterRnc }));
+
+    return {
+      format: '606',
+      rnc: company.rnc,
+      businessName: company.businessName,
+      period,
+      count: rows.length,
+      sources: { receivedDocuments: received.length, invoices: invoices.length },
+      totals: this.sumColumns(COLUMNS_606, rows),
+      unclassified,
+      rows,
+    };
+  }
+
+  async export606(tenantId: string, companyId: string, period: string, format: ReportExportFormat) {
+    const report = await this.get606(tenantId, companyId, period);
+    return this.toFile('606', report.rnc, period, COLUMNS_606, report.rows, format);
+  }
+
+  // ============================================================
+  // 607 — VENTAS
+  // ============================================================
+
+  /**
+   * Build the Formato 607 for a company and period from ACCEPTED/CONDITIONAL
+   * e-CF, with a reconciliation against the invoice headers and lines.
+   */
+  async get607(tenantId: string, companyId: string, period: string) {
+    const company = await this.getCompany(tenantId, companyId);
+    const { from, to } = periodRange(period);
+
+    const invoices = await this.prisma.invoice.findMany({
+      where: {
+        tenantId,
+        companyId,
+        ecfType: { in: [...FORMAT_607_ECF_TYPES] as EcfType[] },
+        status: { in: REPORTABLE_STATUSES },
+        createdAt: { gte: from, lt: to },
+      },
+      include: { lines: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const rows = invoices.map(build607Row);
+    const totals = this.sumColumns(COLUMNS_607, rows);
+
+    return {
+      format: '607',
+      rnc: company.rnc,
+      businessName: company.businessName,
+      period,
+      count: rows.length,
+      totals,
+      reconciliation: this.reconcile607(invoices, rows, totals),
+      rows,
+    };
+  }
+
+  async export607(tenantId: string, companyId: string, period: string, format: ReportExportFormat) {
+    const report = await this.get607(tenantId, companyId, period);
+    return this.toFile('607', report.rnc, period, COLUMNS_607, report.rows, format);
+  }
+
+  // ============================================================
+  // 608 — ANULADOS
+  // ============================================================
+
+  /**
+   * Build the Formato 608 for a company and period: invoices voided in the
+   * period that had consumed an eNCF, plus ANECF ranges accepted/sent to DGII
+   * expanded to one row per eNCF. An eNCF present in both is reported once.
+   */
+  async get608(tenantId: string, companyId: string, period: string) {
+    const company = await this.getCompany(tenantId, companyId);
+    const { from, to } = periodRange(period);
+
+    const [voided, annulments] = await Promise.all([
+      // voidedAt lives in metadata; updatedAt >= from narrows the scan
+      this.prisma.invoice.findMany({
+        where: {
+          tenantId,
+          companyId,
+          status: InvoiceStatus.VOIDED,
+          encf: { not: null },
+          updatedAt: { gte: from },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.sequenceAnnulment.findMany({
+        where: {
+          tenantId,
+          companyId,
+          status: { in: ['SENT', 'ACCEPTED'] },
+          createdAt: { gte: from, lt: to },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const voidedInPeriod = voided.filter((invoice) => {
+      const voidedAt = new Date((invoice.metadata as any)?.voidedAt || invoice.updatedAt);
+      return voidedAt >= from && voidedAt < to;
+    });
+
+    const rows: Row608[] = voidedInPeriod.map(build608RowFromInvoice);
+    const seen = new Set(rows.map((r) => r.ncf));
+    let expandedTotal = 0;
+
+    for (const annulment of annulments) {
+      let expanded: Row608[];
+      try {
+        expanded = build608RowsFromAnnulment(annulment);
+      } catch (error: any) {
+        throw new BadRequestException(error.message);
+      }
+      expandedTotal += expanded.length;
+      if (expandedTotal > MAX_EXPANDED_ENCF) {
+        throw new BadRequestException(
+          `Los rangos anulados del período ${period} exceden ${MAX_EXPANDED_ENCF} comprobantes`,
+        );
+      }
+      for (const row of expanded) {
+        if (seen.has(row.ncf)) continue;
+        seen.add(row.ncf);
+        rows.push(row);
+      }
+    }
+
+    return {
+      format: '608',
+      rnc: company.rnc,
+      businessName: company.businessName,
+      period,
+      count: rows.length,
+      sources: { voidedInvoices: voidedInPeriod.length, annulmentRanges: annulments.length },
+      rows,
+    };
+  }
+
+  async export608(tenantId: string, companyId: string, period: string, format: ReportExportFormat) {
+    const report = await this.get608(tenantId, companyId, period);
+    return this.toFile('608', report.rnc, period, COLUMNS_608, report.rows, format);
+  }
+
+  // ============================================================
+  // PRIVATE HELPERS
+  // ============================================================
+
+  private async getCompany(tenantId: string, companyId: string) {
+    assertCompanyAccess(companyId);
+
+    const company = await this.prisma.company.findFirst({
+      where: { id: companyId, tenantId },
+    });
+    if (!company) throw new NotFoundException('Empresa no encontrada');
+    return company;
+  }
+
+  /**
+   * Check the 607 against the invoice records:
+   * - every invoice produced exactly one row
+   * - Monto Facturado / ITBIS match the sum of the invoice lines
+   *   (tolerance 0.01 per line, same rounding the lines were stored with)
+   * - payment breakdown adds up to the invoice totals (credit notes excluded)
+   */
+  private reconcile607(
+    invoices: (Invoice & { lines: InvoiceLine[] })[],
+    rows: Row607[],
+    totals: Record<string, number>,
+  ) {
+    const mismatches: { encf: string | null; field: string; invoice: number; lines: number }[] = [];
+    let linesSubtotal = 0;
+    let linesItbis = 0;
+    let expectedPayments = 0;
+
+    for (const invoice of invoices) {
+      const rate = invoice.currency !== 'DOP' && invoice.exchangeRate ? Number(invoice.exchangeRate) : 1;
+      const subtotal = invoice.lines.reduce((sum, l) => sum + Number(l.subtotal), 0);
+      const itbis = invoice.lines.reduce((sum, l) => sum + Number(l.itbisAmount), 0);
+      const tolerance = Math.max(0.01, invoice.lines.length * 0.01);
+
+      if (Math.abs(subtotal - Number(invoice.subtotal)) > tolerance) {
+        mismatches.push({ encf: invoice.encf, field: 'montoFacturado', invoice: Number(invoice.subtotal), lines: round2(subtotal) });
+      }
+      if (Math.abs(itbis - Number(invoice.totalItbis)) > tolerance) {
+        mismatches.push({ encf: invoice.encf, field: 'itbisFacturado', invoice: Number(invoice.totalItbis), lines: round2(itbis) });
+      }
+
+      linesSubtotal += subtotal * rate;
+      linesItbis += itbis * rate;
+      if (invoice.ecfType !== EcfType.E34) {
+        expectedPayments += Number(invoice.totalAmount) * rate;
+      }
+    }
+
+    const paymentTotal = PAYMENT_COLUMNS_607.reduce((sum, key) => sum + (totals[key] || 0), 0);
+    const check = (report: number, expected: number): ReconciliationCheck => ({
+      report: round2(report),
+      invoices: round2(expected),
+      difference: round2(report - expected),
+    });
+
+    const montoFacturado = check(totals.montoFacturado, linesSubtotal);
+    const itbisFacturado = check(totals.itbisFacturado, linesItbis);
+    const formasPago = check(paymentTotal, expectedPayments);
+    const lineTolerance = Math.max(0.01, invoices.reduce((n, i) => n + i.lines.length, 0) * 0.01);
+
+    return {
+      invoiceCount: invoices.length,
+      rowCount: rows.length,
+      montoFacturado,
+      itbisFacturado,
+      formasPago,
+      mismatches,
+      balanced:
+        invoices.length === rows.length &&
+        mismatches.length === 0 &&
+        Math.abs(montoFacturado.difference) <= lineTolerance &&
+        Math.abs(itbisFacturado.difference) <= lineTolerance &&
+        Math.abs(formasPago.difference) <= 0.01 * Math.max(1, rows.length),
+    };
+  }
+
+  private sumColumns<T>(columns: ReportColumn<T>[], rows: T[]): Record<string, number> {
+    const totals: Record<string, number> = {};
+    for (const column of columns.filter((c) => c.type === 'amount')) {
+      totals[column.key] = round2(rows.reduce((sum, row) => sum + Number(row[column.key] || 0), 0));
+    }
+    return totals;
+  }
+
+  private async toFile<T>(
+    formatCode: string,
+    rnc: string,
+    period: string,
+    columns: ReportColumn<T>[],
+    rows: T[],
+    format: ReportExportFormat,
+  ): Promise<ReportFile> {
+    // DGII naming convention: DGII_F_{formato}_{RNC}_{AAAAMM}
+    const baseName = `DGII_F_${formatCode}_${rnc}_${period}`;
+
+    switch (format) {
+      case 'csv':
+        return { fileName: `${baseName}.csv`, contentType: 'text/csv; charset=utf-8', content: toCsv(columns, rows) };
+      case 'xlsx':
+        return {
+          fileName: `${baseName}.xlsx`,
+          contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          content: await toXlsx(formatCode, columns, rows),
+        };
+      default:
+        return {
+          fileName: `${baseName}.TXT`,
+          contentType: 'text/plain; charset=utf-8',
+          content: toDgiiTxt(formatCode, rnc, period, columns, rows),
+        };
+    }
+  }
+}
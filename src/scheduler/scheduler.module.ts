@@ -4,9 +4,11 @@ import { DgiiModule } from '../dgii/dgii.module';
 import { SigningModule } from '../signing/signing.module';
 import { CertificatesModule } from '../certificates/certificates.module';
 import { ContingencyModule } from '../contingency/contingency.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { QueueModule } from '../queue/queue.module';
 
 @Module({
-  imports: [DgiiModule, SigningModule, CertificatesModule, ContingencyModule],
+  imports: [DgiiModule, SigningModule, CertificatesModule, ContingencyModule, WebhooksModule, QueueModule],
   providers: [SchedulerService],
 })
 export class SchedulerModule {}
@@ -2,9 +2,11 @@ import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/commo
 import { PrismaService } from '../prisma/prisma.service';
 import { InvoiceStatus } from '@prisma/client';
 import { DgiiService } from '../dgii/dgii.service';
-import { SigningService } from '../signing/signing.service';
 import { CertificatesService } from '../certificates/certificates.service';
 import { ContingencyService } from '../contingency/contingency.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { QueueService } from '../queue/queue.service';
+import { UsageService } from '../usage/usage.service';
 import { DGII_STATUS } from '../xml-builder/ecf-types';
 
 /**
@@ -14,6 +16,11 @@ import { DGII_STATUS } from '../xml-builder/ecf-types';
  * 1. Poll DGII for status of invoices in PROCESSING/SENT state
  * 2. Process contingency queue when DGII is available
  * 3. Clean up expired DGII tokens
+ * 4. Queue the daily certificate expiration check
+ * 5. Retry failed webhook deliveries whose backoff elapsed
+ * 6. Close the previous billing period (usage snapshots) once it ends
+ * 7. Activate pending certificates whose rotation trigger is due
+ * 8. Queue the certificate re-encryption job (master key rotation)
  *
  * Uses simple setInterval instead of @nestjs/schedule to avoid
  * extra dependency. In production, consider using BullMQ repeatable jobs.
@@ -24,13 +31,20 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
   private pollInterval: NodeJS.Timeout | null = null;
   private contingencyInterval: NodeJS.Timeout | null = null;
   private cleanupInterval: NodeJS.Timeout | null = null;
+  private certificateCheckInterval: NodeJS.Timeout | null = null;
+  private webhookRetryInterval: NodeJS.Timeout | null = null;
+  private usageCloseInterval: NodeJS.Timeout | null = null;
+  private certificateRotationInterval: NodeJS.Timeout | null = null;
+  private keyRotationInterval: NodeJS.Timeout | null = null;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly dgiiService: DgiiService,
-    private readonly signingService: SigningService,
     private readonly certificatesService: CertificatesService,
     private readonly contingencyService: ContingencyService,
+    private readonly webhooksService: WebhooksService,
+    private readonly queueService: QueueService,
+    private readonly usageService: UsageService,
   ) {}
 
   onModuleInit() {
@@ -43,13 +57,33 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
     // Clean expired tokens every hour
     this.cleanupInterval = setInterval(() => this.cleanupTokens(), 60 * 60 * 1000);
 
-    this.logger.log('Scheduler started: polling (2min), contingency (5min), cleanup (1hr)');
+    // Certificate expiration check (fires CERTIFICATE_EXPIRING) once a day
+    this.certificateCheckInterval = setInterval(() => this.checkCertificates(), 24 * 60 * 60 * 1000);
+
+    // Retry webhook deliveries every minute (backoff is tracked per delivery)
+    this.webhookRetryInterval = setInterval(() => this.retryWebhooks(), 60 * 1000);
+
+    // Close the previous usage period every hour (no-op once closed)
+    this.usageCloseInterval = setInterval(() => this.closeUsagePeriod(), 60 * 60 * 1000);
+
+    // Activate pending certificates (scheduled time or expiry window)
+    this.certificateRotationInterval = setInterval(() => this.rotateCertificates(), 15 * 60 * 1000);
+
+    // Re-encrypt certificates still under a previous master key
+    this.keyRotationInterval = setInterval(() => this.rotateKeys(), 60 * 60 * 1000);
+
+    this.logger.log('Scheduler started: polling (2min), contingency (5min), cleanup (1hr), certificates (24hr), webhooks (1min), usage (1hr), certificate rotation (15min), key rotation (1hr)');
   }
 
   onModuleDestroy() {
     if (this.pollInterval) clearInterval(this.pollInterval);
     if (this.contingencyInterval) clearInterval(this.contingencyInterval);
     if (this.cleanupInterval) clearInterval(this.cleanupInterval);
+    if (this.certificateCheckInterval) clearInterval(this.certificateCheckInterval);
+    if (this.webhookRetryInterval) clearInterval(this.webhookRetryInterval);
+    if (this.usageCloseInterval) clearInterval(this.usageCloseInterval);
+    if (this.certificateRotationInterval) clearInterval(this.certificateRotationInterval);
+    if (this.keyRotationInterval) clearInterval(this.keyRotationInterval);
     this.logger.log('Scheduler stopped');
   }
 
@@ -77,13 +111,10 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
       for (const invoice of pending) {
         try {
           // Authenticate with DGII to get token
-          const { p12Buffer, passphrase } = await this.certificatesService.getDecryptedCertificate(
-            invoice.tenantId, invoice.companyId,
-          );
-          const { privateKey, certificate } = this.signingService.extractFromP12(p12Buffer, passphrase);
+          const signer = await this.certificatesService.getSigner(invoice.tenantId, invoice.companyId);
           const token = await this.dgiiService.getToken(
             invoice.tenantId, invoice.companyId,
-            privateKey, certificate, invoice.company.dgiiEnv,
+            signer, invoice.company.dgiiEnv,
           );
 
           const result = await this.dgiiService.queryStatus(
@@ -92,7 +123,7 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
 
           const newStatus = this.mapStatus(result.status);
           if (newStatus !== invoice.status) {
-            await this.prisma.invoice.update({
+            const updated = await this.prisma.invoice.update({
               where: { id: invoice.id },
               data: {
                 status: newStatus,
@@ -102,6 +133,8 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
               },
             });
             this.logger.log(`Poll: ${invoice.encf} → ${newStatus}`);
+
+            await this.webhooksService.dispatchInvoiceStatus(updated, invoice.status);
           }
         } catch (error: any) {
           // Don't fail the whole batch for one invoice
@@ -137,6 +170,65 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Queue the certificate expiration check (CertificateCheckProcessor).
+   */
+  private async checkCertificates() {
+    try {
+      await this.queueService.scheduleCertificateCheck();
+    } catch (error: any) {
+      this.logger.error(`Certificate check scheduling error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Activate pending certificates whose activation is due.
+   */
+  private async rotateCertificates() {
+    try {
+      await this.certificatesService.activateDueCertificates();
+    } catch (error: any) {
+      this.logger.error(`Certificate rotation error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Queue the re-encryption job (KeyRotationProcessor) when some certificate
+   * or webhook secret is not under the current master key.
+   */
+  private async rotateKeys() {
+    try {
+      const stale = await this.certificatesService.countStaleKeys() + await this.webhooksService.countStaleKeys();
+      if (stale > 0) {
+        await this.queueService.scheduleKeyRotation();
+      }
+    } catch (error: any) {
+      this.logger.error(`Key rotation scheduling error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Retry webhook deliveries due for another attempt.
+   */
+  private async retryWebhooks() {
+    try {
+      await this.webhooksService.retryFailed();
+    } catch (error: any) {
+      this.logger.error(`Webhook retry cycle error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Freeze last month's usage per tenant for billing.
+   */
+  private async closeUsagePeriod() {
+    try {
+      await this.usageService.closePeriod();
+    } catch (error: any) {
+      this.logger.error(`Usage period close error: ${error.message}`);
+    }
+  }
+
   /**
    * Clean up expired DGII tokens.
    */
@@ -2,6 +2,7 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
   Body,
   Param,
   Query,
@@ -24,7 +25,10 @@ export class SequencesController {
 
   @Post()
   @RequireScopes(ApiKeyScope.INVOICES_WRITE)
-  @ApiOperation({ summary: 'Registrar nueva secuencia eNCF autorizada por DGII' })
+  @ApiOperation({
+    summary: 'Registrar nueva secuencia eNCF autorizada por DGII',
+    description: 'Si ya hay un rango activo para el tipo, el nuevo queda en cola y se activa al agotarse o expirar el actual.',
+  })
   async create(
     @CurrentTenant() tenant: RequestTenant,
     @Body() dto: CreateSequenceDto,
@@ -54,13 +58,27 @@ export class SequencesController {
     return this.sequencesService.getAvailable(tenant.id, companyId, ecfType);
   }
 
+  @Delete(':companyId/:id')
+  @RequireScopes(ApiKeyScope.INVOICES_WRITE)
+  @ApiOperation({ summary: 'Cancelar un rango de secuencia en cola' })
+  async cancel(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('companyId') companyId: string,
+    @Param('id') id: string,
+  ) {
+    return this.sequencesService.cancel(tenant.id, companyId, id);
+  }
+
   @Post(':companyId/annul')
   @RequireScopes(ApiKeyScope.INVOICES_WRITE)
-  @ApiOperation({ summary: 'Anular rangos de eNCF no utilizados (ANECF)' })
+  @ApiOperation({
+    summary: 'Anular rangos de eNCF no utilizados (ANECF)',
+    description: 'Sin ranges, envía los eNCF reservados que quedaron sin factura (p. ej. ítems fallidos de un lote).',
+  })
   async annulSequences(
     @CurrentTenant() tenant: RequestTenant,
     @Param('companyId') companyId: string,
-    @Body() body: { ranges: Array<{ encfFrom: string; encfTo: string }> },
+    @Body() body: { ranges?: Array<{ encfFrom: string; encfTo: string }> },
   ) {
     return this.sequencesService.annulSequences(tenant.id, companyId, body.ranges);
   }
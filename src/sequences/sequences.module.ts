@@ -5,9 +5,10 @@ import { SigningModule } from '../signing/signing.module';
 import { DgiiModule } from '../dgii/dgii.module';
 import { CertificatesModule } from '../certificates/certificates.module';
 import { XmlBuilderModule } from '../xml-builder/xml-builder.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 
 @Module({
-  imports: [SigningModule, DgiiModule, CertificatesModule, XmlBuilderModule],
+  imports: [SigningModule, DgiiModule, CertificatesModule, XmlBuilderModule, WebhooksModule],
   controllers: [SequencesController],
   providers: [SequencesService],
   exports: [SequencesService],
@@ -0,0 +1,206 @@
+/**
+ * Sequences Service Tests
+ *
+ * Range queueing against an in-memory `sequence` table: rollover inside a
+ * reservation, expired queued ranges, a concurrent rollover, SEQUENCE_LOW
+ * and cancelling a queued range.
+ */
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { EcfType, Sequence, SequenceStatus, WebhookEvent } from '@prisma/client';
+import { SequencesService } from './sequences.service';
+
+const TENANT = 'tenant-1';
+const COMPANY = 'company-1';
+const PAST = new Date('2020-01-01T00:00:00Z');
+
+function range(id: string, startNumber: number, endNumber: number, overrides: Partial<Sequence> = {}): Sequence {
+  return {
+    id,
+    tenantId: TENANT,
+    companyId: COMPANY,
+    ecfType: EcfType.E31,
+    prefix: 'E31',
+    currentNumber: startNumber - 1,
+    startNumber,
+    endNumber,
+    expiresAt: null,
+    isActive: false,
+    status: SequenceStatus.QUEUED,
+    createdAt: PAST,
+    updatedAt: PAST,
+    activatedAt: null,
+    closedAt: null,
+    previousSequenceId: null,
+    ...overrides,
+  };
+}
+
+function active(id: string, startNumber: number, endNumber: number, overrides: Partial<Sequence> = {}): Sequence {
+  return range(id, startNumber, endNumber, { status: SequenceStatus.ACTIVE, isActive: true, ...overrides });
+}
+
+/** Equality filters on the fields the service queries by (count() applies the expiry OR itself) */
+function matches(row: Sequence, where: Record<string, any>): boolean {
+  return Object.entries(where).every(([key, value]) => key === 'OR' || (row as any)[key] === value);
+}
+
+function setup(rows: Sequence[]) {
+  const table = rows.map((row) => ({ ...row }));
+  const byStart = (a: Sequence, b: Sequence) => a.startNumber - b.startNumber;
+
+  const sequence = {
+    findFirst: jest.fn(async ({ where }: any) => {
+      const found = table.filter((row) => matches(row, where)).sort(byStart)[0];
+      return found ? { ...found } : null;
+    }),
+    update: jest.fn(async ({ where, data }: any) => ({ ...Object.assign(table.find((row) => row.id === where.id)!, data) })),
+    updateMany: jest.fn(async ({ where, data }: any) => {
+      const hit = table.filter((row) => matches(row, where));
+      hit.forEach((row) => Object.assign(row, data));
+      return { count: hit.length };
+    }),
+    count: jest.fn(async ({ where }: any) =>
+      table.filter((row) => matches(row, where) && !(row.expiresAt && row.expiresAt < new Date())).length,
+    ),
+    deleteMany: jest.fn(async ({ where }: any) => {
+      const hit = table.filter((row) => matches(row, where));
+      hit.forEach((row) => table.splice(table.indexOf(row), 1));
+      return { count: hit.length };
+    }),
+  };
+  const prisma = { sequence, $transaction: jest.fn(async (fn: (tx: unknown) => unknown) => fn({ sequence })) };
+  const webhooksService = { dispatch: jest.fn() };
+  const auditService = { record: jest.fn() };
+  const service = new SequencesService(
+    prisma as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    webhooksService as any,
+    auditService as any,
+  );
+  const row = (id: string) => table.find((r) => r.id === id);
+  const audited = () => auditService.record.mock.calls.map(([, , id, action]) => `${action}:${id}`);
+
+  return { table, sequence, webhooksService, auditService, service, row, audited };
+}
+
+describe('SequencesService', () => {
+  describe('reserveEncfs', () => {
+    it('rolls over to the queued range in the middle of a batch', async () => {
+      const { service, row, audited } = setup([active('a', 1, 3, { currentNumber: 1 }), range('b', 11, 20)]);
+
+      const encfs = await service.reserveEncfs(TENANT, COMPANY, EcfType.E31, 4);
+
+      expect(encfs).toEqual(['E310000000002', 'E310000000003', 'E310000000011', 'E310000000012']);
+      expect(row('a')).toMatchObject({ status: SequenceStatus.EXHAUSTED, isActive: false, currentNumber: 3 });
+      expect(row('a')!.closedAt).toBeInstanceOf(Date);
+      expect(row('b')).toMatchObject({ status: SequenceStatus.ACTIVE, previousSequenceId: 'a', currentNumber: 12 });
+      expect(audited()).toEqual(['exhausted:a', 'activated:b']);
+    });
+
+    it('closes queued ranges that expired while waiting and takes the next one', async () => {
+      const { service, row, audited } = setup([
+        active('a', 1, 3, { currentNumber: 3 }),
+        range('b', 11, 20, { expiresAt: PAST }),
+        range('c', 21, 30),
+      ]);
+
+      const encfs = await service.reserveEncfs(TENANT, COMPANY, EcfType.E31, 1);
+
+      expect(encfs).toEqual(['E310000000021']);
+      expect(row('b')).toMatchObject({ status: SequenceStatus.EXPIRED, currentNumber: 10 });
+      expect(row('c')).toMatchObject({ status: SequenceStatus.ACTIVE, previousSequenceId: 'a' });
+      expect(audited()).toEqual(['exhausted:a', 'expired:b', 'activated:c']);
+    });
+
+    it('continues with the range another request activated when it loses the close', async () => {
+      const { table, sequence, service, audited } = setup([active('a', 1, 3, { currentNumber: 3 }), range('b', 11, 20)]);
+      // The other request closes `a` and activates `b` between our read and our close
+      sequence.updateMany.mockImplementationOnce(async () => {
+        Object.assign(table[0], { status: SequenceStatus.EXHAUSTED, isActive: false });
+        Object.assign(table[1], { status: SequenceStatus.ACTIVE, isActive: true, currentNumber: 12 });
+        return { count: 0 };
+      });
+
+      const encfs = await service.reserveEncfs(TENANT, COMPANY, EcfType.E31, 2);
+
+      expect(encfs).toEqual(['E310000000013', 'E310000000014']);
+      expect(audited()).toEqual([]);
+    });
+
+    it('fails when the queue runs out before the batch is covered', async () => {
+      const { service } = setup([active('a', 1, 3, { currentNumber: 1 })]);
+
+      await expect(service.reserveEncfs(TENANT, COMPANY, EcfType.E31, 3)).rejects.toThrow(
+        new BadRequestException(
+          'Las secuencias para tipo E31 solo tienen 2 números disponibles (se solicitaron 3). ' +
+          'Registre más rangos autorizados por la DGII.',
+        ),
+      );
+    });
+
+    it('sends SEQUENCE_LOW when crossing 10% remaining without a queued range', async () => {
+      const { service, webhooksService } = setup([active('a', 1, 100, { currentNumber: 85 })]);
+
+      await service.reserveEncfs(TENANT, COMPANY, EcfType.E31, 10);
+
+      expect(webhooksService.dispatch).toHaveBeenCalledWith(
+        TENANT,
+        WebhookEvent.SEQUENCE_LOW,
+        expect.objectContaining({ sequenceId: 'a', remaining: 5 }),
+      );
+    });
+
+    it('does not send SEQUENCE_LOW while a usable range is queued', async () => {
+      const { service, webhooksService } = setup([
+        active('a', 1, 100, { currentNumber: 85 }),
+        range('b', 101, 200),
+      ]);
+
+      await service.reserveEncfs(TENANT, COMPANY, EcfType.E31, 10);
+
+      expect(webhooksService.dispatch).not.toHaveBeenCalled();
+    });
+
+    it('still sends SEQUENCE_LOW when the only queued range has expired', async () => {
+      const { service, webhooksService } = setup([
+        active('a', 1, 100, { currentNumber: 85 }),
+        range('b', 101, 200, { expiresAt: PAST }),
+      ]);
+
+      await service.reserveEncfs(TENANT, COMPANY, EcfType.E31, 10);
+
+      expect(webhooksService.dispatch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cancel', () => {
+    it('removes a queued range and audits it', async () => {
+      const { service, row, auditService } = setup([active('a', 1, 10), range('b', 11, 20)]);
+
+      await expect(service.cancel(TENANT, COMPANY, 'b')).resolves.toEqual({
+        id: 'b',
+        message: 'Secuencia en cola cancelada',
+      });
+      expect(row('b')).toBeUndefined();
+      expect(auditService.record).toHaveBeenCalledWith(TENANT, 'sequence', 'b', 'cancelled', { companyId: COMPANY });
+    });
+
+    it('refuses to cancel the active range', async () => {
+      const { service, row } = setup([active('a', 1, 10)]);
+
+      await expect(service.cancel(TENANT, COMPANY, 'a')).rejects.toThrow(
+        new BadRequestException('Solo se pueden cancelar secuencias en cola'),
+      );
+      expect(row('a')).toBeDefined();
+    });
+
+    it('reports an unknown range as not found', async () => {
+      const { service } = setup([]);
+
+      await expect(service.cancel(TENANT, COMPANY, 'missing')).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+});
@@ -6,12 +6,18 @@ import {
   Logger,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import {
+  assertCompanyAccess,
+  assertDgiiEnvironmentAccess,
+} from '../common/middleware/request-context.middleware';
 import { SigningService } from '../signing/signing.service';
 import { DgiiService } from '../dgii/dgii.service';
 import { CertificatesService } from '../certificates/certificates.service';
 import { XmlBuilderService, EmitterData } from '../xml-builder/xml-builder.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { AuditService } from '../audit/audit.service';
 import { CreateSequenceDto } from './dto/sequence.dto';
-import { EcfType } from '@prisma/client';
+import { EcfType, Prisma, Sequence, SequenceStatus, WebhookEvent } from '@prisma/client';
 
 /**
  * Maps EcfType enum to the 2-digit prefix used in eNCF.
@@ -31,6 +37,12 @@ const ECF_TYPE_PREFIX: Record<EcfType, string> = {
   E47: 'E47',
 };
 
+/** Range closed or activated by a rollover, audited after the commit */
+interface RolloverEvent {
+  action: 'exhausted' | 'expired' | 'activated';
+  sequence: Sequence;
+}
+
 @Injectable()
 export class SequencesService {
   private readonly logger = new Logger(SequencesService.name);
@@ -41,12 +53,16 @@ export class SequencesService {
     private readonly dgiiService: DgiiService,
     private readonly certificatesService: CertificatesService,
     private readonly xmlBuilder: XmlBuilderService,
+    private readonly webhooksService: WebhooksService,
+    private readonly auditService: AuditService,
   ) {}
 
   /**
    * Register a new sequence range authorized by the DGII.
    */
   async create(tenantId: string, dto: CreateSequenceDto) {
+    assertCompanyAccess(dto.companyId);
+
     // Verify company belongs to tenant
     const company = await this.prisma.company.findFirst({
       where: { id: dto.companyId, tenantId },
@@ -96,21 +112,15 @@ export class SequencesService {
       );
     }
 
-    // Check for overlapping active sequences of same type
+    // With an active range, the new one waits in the queue until it's used up
     const existing = await this.prisma.sequence.findFirst({
       where: {
         companyId: dto.companyId,
         ecfType: dto.ecfType,
-        isActive: true,
+        status: SequenceStatus.ACTIVE,
       },
     });
-
-    if (existing) {
-      throw new ConflictException(
-        `Ya existe una secuencia activa para tipo ${dto.ecfType}. ` +
-        `Desactívela primero o espere a que se agote.`,
-      );
-    }
+    const status = existing ? SequenceStatus.QUEUED : SequenceStatus.ACTIVE;
 
     const prefix = ECF_TYPE_PREFIX[dto.ecfType];
 
@@ -124,12 +134,23 @@ export class SequencesService {
         currentNumber: dto.startNumber - 1, // Will be incremented on first use
         endNumber: dto.endNumber,
         expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : null,
-        isActive: true,
+        isActive: status === SequenceStatus.ACTIVE,
+        status,
+        activatedAt: status === SequenceStatus.ACTIVE ? new Date() : null,
       },
     });
 
+    await this.auditService.record(tenantId, 'sequence', sequence.id, 'created', {
+      companyId: dto.companyId,
+      ecfType: dto.ecfType,
+      startNumber: dto.startNumber,
+      endNumber: dto.endNumber,
+      expiresAt: sequence.expiresAt,
+      status,
+    });
     this.logger.log(
-      `Sequence created: ${prefix} [${dto.startNumber}-${dto.endNumber}] for company ${dto.companyId}`,
+      `Sequence created: ${prefix} [${dto.startNumber}-${dto.endNumber}] for company ${dto.companyId}` +
+      (status === SequenceStatus.QUEUED ? ' (queued)' : ''),
     );
 
     return sequence;
@@ -141,122 +162,267 @@ export class SequencesService {
    * Returns the full eNCF string (e.g., "E310000000001")
    */
   async getNextEncf(tenantId: string, companyId: string, ecfType: EcfType): Promise<string> {
-    return this.prisma.$transaction(async (tx) => {
-      // Lock the row for update
-      const sequence = await tx.sequence.findFirst({
-        where: {
-          tenantId,
-          companyId,
-          ecfType,
-          isActive: true,
-        },
-      });
+    const [encf] = await this.reserveEncfs(tenantId, companyId, ecfType, 1);
+    return encf;
+  }
 
-      if (!sequence) {
-        throw new NotFoundException(
-          `No hay secuencia activa para tipo ${ecfType} en esta empresa. ` +
-          `Registre una secuencia primero.`,
-        );
-      }
+  /**
+   * Reserve `count` consecutive eNCF numbers in a single transaction.
+   * Used by bulk creation so a batch never interleaves with other requests
+   * and fails as a whole if the sequences can't cover it.
+   *
+   * When the active range is exhausted or expired it is closed and the next
+   * queued range (lowest startNumber) takes over in the same transaction, so
+   * a batch may span ranges. It only fails when the queue runs out too.
+   *
+   * Fires SEQUENCE_LOW once when the reservation crosses below 10% remaining
+   * and once more when it uses the last number, unless another range is
+   * queued behind it.
+   */
+  async reserveEncfs(
+    tenantId: string,
+    companyId: string,
+    ecfType: EcfType,
+    count: number,
+  ): Promise<string[]> {
+    const { encfs, rollovers, lowSequence } = await this.prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const rollovers: RolloverEvent[] = [];
+      const encfs: string[] = [];
+      let lowSequence: Record<string, any> | null = null;
+
+      let sequence = await tx.sequence.findFirst({
+        where: { tenantId, companyId, ecfType, status: SequenceStatus.ACTIVE },
+      });
 
-      // Check expiration
-      if (sequence.expiresAt && sequence.expiresAt < new Date()) {
-        await tx.sequence.update({
-          where: { id: sequence.id },
-          data: { isActive: false },
-        });
-        throw new BadRequestException(
-          `La secuencia para tipo ${ecfType} ha expirado. Solicite una nueva a la DGII.`,
-        );
-      }
+      while (encfs.length < count) {
+        if (!sequence || !isUsable(sequence, now)) {
+          const next = await this.rollOver(tx, tenantId, companyId, ecfType, sequence, now, rollovers);
+          if (!next) {
+            throw this.unavailable(ecfType, sequence, now, encfs.length, count);
+          }
+          sequence = next;
+          continue;
+        }
 
-      const nextNumber = sequence.currentNumber + 1;
+        const nextNumber = sequence.currentNumber + 1;
+        const lastNumber = Math.min(sequence.currentNumber + count - encfs.length, sequence.endNumber);
 
-      // Check if sequence is exhausted
-      if (nextNumber > sequence.endNumber) {
+        // Update current number
         await tx.sequence.update({
           where: { id: sequence.id },
-          data: { isActive: false },
+          data: { currentNumber: lastNumber },
         });
-        throw new BadRequestException(
-          `La secuencia para tipo ${ecfType} se ha agotado. Solicite más secuencias a la DGII.`,
-        );
-      }
 
-      // Update current number
-      await tx.sequence.update({
-        where: { id: sequence.id },
-        data: { currentNumber: nextNumber },
-      });
-
-      // Format: E31 + 10 digit padded number = 13 chars total
-      const encf = `${sequence.prefix}${String(nextNumber).padStart(10, '0')}`;
-
-      // Log warning if running low (< 10% remaining)
-      const total = sequence.endNumber - sequence.startNumber;
-      const remaining = sequence.endNumber - nextNumber;
-      if (remaining < total * 0.1) {
-        this.logger.warn(
-          `⚠️ Sequence ${ecfType} for company ${companyId} running low: ${remaining} remaining`,
-        );
+        // Format: E31 + 10 digit padded number = 13 chars total
+        for (let n = nextNumber; n <= lastNumber; n++) {
+          encfs.push(`${sequence.prefix}${String(n).padStart(10, '0')}`);
+        }
+
+        // Log warning if running low (< 10% remaining)
+        const total = sequence.endNumber - sequence.startNumber;
+        const remaining = sequence.endNumber - lastNumber;
+        const remainingBefore = sequence.endNumber - sequence.currentNumber;
+        if (remaining < total * 0.1 && !(await this.hasQueued(tx, tenantId, companyId, ecfType, now))) {
+          this.logger.warn(
+            `⚠️ Sequence ${ecfType} for company ${companyId} running low: ${remaining} remaining`,
+          );
+
+          if (remainingBefore >= total * 0.1 || remaining === 0) {
+            lowSequence = {
+              sequenceId: sequence.id,
+              companyId,
+              ecfType,
+              startNumber: sequence.startNumber,
+              endNumber: sequence.endNumber,
+              currentNumber: lastNumber,
+              remaining,
+              expiresAt: sequence.expiresAt?.toISOString() || null,
+            };
+          }
+        }
+
+        sequence = { ...sequence, currentNumber: lastNumber };
       }
 
-      return encf;
+      return { encfs, rollovers, lowSequence };
     });
+
+    // Outside the transaction: only audit and notify once the numbers are committed
+    for (const { action, sequence } of rollovers) {
+      await this.auditService.record(tenantId, 'sequence', sequence.id, action, {
+        companyId,
+        ecfType,
+        startNumber: sequence.startNumber,
+        endNumber: sequence.endNumber,
+        currentNumber: sequence.currentNumber,
+        ...(action === 'activated' && { trigger: 'rollover', previousSequenceId: sequence.previousSequenceId }),
+      }, 'system');
+      this.logger.log(
+        `Sequence ${ecfType} [${sequence.startNumber}-${sequence.endNumber}] for company ${companyId} ${action}`,
+      );
+    }
+    if (lowSequence) {
+      await this.webhooksService.dispatch(tenantId, WebhookEvent.SEQUENCE_LOW, lowSequence);
+    }
+
+    return encfs;
   }
 
   /**
-   * Get all sequences for a company
+   * Get all sequences for a company: the active range, the queue in the
+   * order it will be used, and the closed ones.
    */
   async findAll(tenantId: string, companyId: string) {
+    assertCompanyAccess(companyId);
+
     const sequences = await this.prisma.sequence.findMany({
       where: { tenantId, companyId },
-      orderBy: [{ ecfType: 'asc' }, { createdAt: 'desc' }],
+      orderBy: [{ ecfType: 'asc' }, { startNumber: 'asc' }],
     });
 
-    return sequences.map((seq) => ({
-      ...seq,
-      used: seq.currentNumber - seq.startNumber + 1,
-      remaining: seq.endNumber - seq.currentNumber,
-      total: seq.endNumber - seq.startNumber + 1,
-      percentUsed: Math.round(
-        ((seq.currentNumber - seq.startNumber + 1) / (seq.endNumber - seq.startNumber + 1)) * 100,
-      ),
-    }));
+    return sequences
+      .sort((a, b) =>
+        a.ecfType.localeCompare(b.ecfType) || STATUS_ORDER[a.status] - STATUS_ORDER[b.status],
+      )
+      .map((seq) => ({
+        ...seq,
+        used: seq.currentNumber - seq.startNumber + 1,
+        remaining: seq.endNumber - seq.currentNumber,
+        total: seq.endNumber - seq.startNumber + 1,
+        percentUsed: Math.round(
+          ((seq.currentNumber - seq.startNumber + 1) / (seq.endNumber - seq.startNumber + 1)) * 100,
+        ),
+      }));
   }
 
   /**
-   * Get available sequence info for a specific type
+   * Get available sequence info for a specific type. The next number comes
+   * from the first queued range when the active one can no longer be used.
    */
   async getAvailable(tenantId: string, companyId: string, ecfType: EcfType) {
-    const sequence = await this.prisma.sequence.findFirst({
-      where: { tenantId, companyId, ecfType, isActive: true },
-    });
+    assertCompanyAccess(companyId);
 
-    if (!sequence) {
-      return { available: false, message: `No hay secuencia activa para tipo ${ecfType}` };
+    const now = new Date();
+    const sequences = await this.prisma.sequence.findMany({
+      where: {
+        tenantId,
+        companyId,
+        ecfType,
+        status: { in: [SequenceStatus.ACTIVE, SequenceStatus.QUEUED] },
+      },
+      orderBy: { startNumber: 'asc' },
+    });
+    const active = sequences.find((s) => s.status === SequenceStatus.ACTIVE) ?? null;
+    const queued = sequences.filter((s) => s.status === SequenceStatus.QUEUED && isUsable(s, now));
+    const next = active && isUsable(active, now) ? active : queued[0];
+
+    if (!next) {
+      return {
+        available: false,
+        message: this.unavailable(ecfType, active, now, 0, 1).message,
+      };
     }
 
-    const remaining = sequence.endNumber - sequence.currentNumber;
+    const remaining = next === active ? active.endNumber - active.currentNumber : 0;
+    const queuedRemaining = queued.reduce((sum, s) => sum + s.endNumber - s.currentNumber, 0);
+
+    // The next invoice will roll over: say why
+    let message: string | undefined;
+    if (next !== active) {
+      const reason = !active
+        ? 'no hay rango activo'
+        : `el rango activo ${active.startNumber}-${active.endNumber} ` +
+          (this.closedStatus(active, now) === SequenceStatus.EXPIRED ? 'ha expirado' : 'se ha agotado');
+      message = `Tipo ${ecfType}: ${reason}; se usará el rango en cola ${next.startNumber}-${next.endNumber}`;
+    }
 
     return {
       available: true,
       remaining,
-      nextNumber: sequence.currentNumber + 1,
-      nextEncf: `${sequence.prefix}${String(sequence.currentNumber + 1).padStart(10, '0')}`,
-      expiresAt: sequence.expiresAt,
+      queuedRanges: queued.length,
+      queuedRemaining,
+      sequenceId: next.id,
+      nextNumber: next.currentNumber + 1,
+      nextEncf: `${next.prefix}${String(next.currentNumber + 1).padStart(10, '0')}`,
+      expiresAt: next.expiresAt,
+      message,
     };
   }
 
+  /**
+   * Range an eNCF was taken from (the active one may have rolled over since).
+   */
+  async findRangeForEncf(tenantId: string, companyId: string, encf: string) {
+    const number = parseInt(encf.slice(3), 10);
+    return this.prisma.sequence.findFirst({
+      where: {
+        tenantId,
+        companyId,
+        ecfType: encf.slice(0, 3) as EcfType,
+        startNumber: { lte: number },
+        endNumber: { gte: number },
+      },
+    });
+  }
+
+  /**
+   * Remove a queued range that hasn't been used yet.
+   */
+  async cancel(tenantId: string, companyId: string, sequenceId: string) {
+    assertCompanyAccess(companyId);
+
+    const deleted = await this.prisma.sequence.deleteMany({
+      where: { id: sequenceId, tenantId, companyId, status: SequenceStatus.QUEUED },
+    });
+    if (deleted.count === 0) {
+      const sequence = await this.prisma.sequence.findFirst({
+        where: { id: sequenceId, tenantId, companyId },
+      });
+      if (!sequence) {
+        throw new NotFoundException('Secuencia no encontrada');
+      }
+      throw new BadRequestException('Solo se pueden cancelar secuencias en cola');
+    }
+
+    await this.auditService.record(tenantId, 'sequence', sequenceId, 'cancelled', { companyId });
+
+    return { id: sequenceId, message: 'Secuencia en cola cancelada' };
+  }
+
+  /**
+   * Record a reserved eNCF that never became an invoice (a batch item that
+   * failed after its number was reserved). It stays PENDING until
+   * annulSequences() is called without ranges.
+   */
+  async recordUnusedEncf(tenantId: string, companyId: string, encf: string, reason: string) {
+    const annulment = await this.prisma.sequenceAnnulment.create({
+      data: { tenantId, companyId, encfFrom: encf, encfTo: encf, status: 'PENDING' },
+    });
+
+    await this.auditService.record(tenantId, 'sequence_annulment', annulment.id, 'pending', {
+      companyId,
+      encf,
+      reason,
+    });
+    this.logger.warn(`eNCF ${encf} reserved but not used; pending annulment (ANECF)`);
+
+    return annulment;
+  }
+
   /**
    * Annul unused eNCF sequences (ANECF).
-   * Stores annulment records for later DGII submission.
+   * Stores annulment records for later DGII submission. Without ranges, sends
+   * the PENDING ones recorded by recordUnusedEncf() (left PENDING if the DGII
+   * doesn't accept them).
    */
   async annulSequences(
     tenantId: string,
     companyId: string,
-    ranges: Array<{ encfFrom: string; encfTo: string }>,
+    ranges?: Array<{ encfFrom: string; encfTo: string }>,
   ) {
+    assertCompanyAccess(companyId);
+
     const company = await this.prisma.company.findFirst({
       where: { id: companyId, tenantId, isActive: true },
     });
@@ -264,9 +430,21 @@ export class SequencesService {
     if (!company) {
       throw new NotFoundException('Empresa no encontrada');
     }
+    assertDgiiEnvironmentAccess(company.dgiiEnv);
 
-    if (!ranges || ranges.length === 0) {
-      throw new BadRequestException('Debe incluir al menos un rango de eNCF para anular');
+    const pending = ranges?.length
+      ? []
+      : await this.prisma.sequenceAnnulment.findMany({
+        where: { tenantId, companyId, status: 'PENDING' },
+        orderBy: { encfFrom: 'asc' },
+      });
+    if (!ranges?.length) {
+      if (pending.length === 0) {
+        throw new BadRequestException(
+          'Debe incluir al menos un rango de eNCF para anular (no hay eNCF pendientes de anulación)',
+        );
+      }
+      ranges = pending.map((p) => ({ encfFrom: p.encfFrom, encfTo: p.encfTo }));
     }
 
     for (const range of ranges) {
@@ -292,15 +470,12 @@ export class SequencesService {
     );
 
     // Sign the ANECF XML
-    const { p12Buffer, passphrase } = await this.certificatesService.getDecryptedCertificate(
-      tenantId, companyId,
-    );
-    const { privateKey, certificate } = this.signingService.extractFromP12(p12Buffer, passphrase);
-    const { signedXml } = this.signingService.signXml(anecfXml, privateKey, certificate);
+    const signer = await this.certificatesService.getSigner(tenantId, companyId);
+    const { signedXml } = this.signingService.signXml(anecfXml, signer);
 
     // Authenticate with DGII
     const token = await this.dgiiService.getToken(
-      tenantId, companyId, privateKey, certificate, company.dgiiEnv,
+      tenantId, companyId, signer, company.dgiiEnv,
     );
 
     // Submit ANECF to DGII
@@ -308,7 +483,13 @@ export class SequencesService {
 
     // Store annulment records
     const annulments = [];
-    for (const range of ranges) {
+    for (const annulment of pending) {
+      annulments.push(await this.prisma.sequenceAnnulment.update({
+        where: { id: annulment.id },
+        data: { status: result.success ? 'SENT' : 'PENDING' },
+      }));
+    }
+    for (const range of pending.length ? [] : ranges) {
       const annulment = await this.prisma.sequenceAnnulment.create({
         data: {
           tenantId,
@@ -321,6 +502,15 @@ export class SequencesService {
       annulments.push(annulment);
     }
 
+    for (const annulment of annulments) {
+      await this.auditService.record(tenantId, 'sequence_annulment', annulment.id, 'annulled', {
+        companyId,
+        encfFrom: annulment.encfFrom,
+        encfTo: annulment.encfTo,
+        status: annulment.status,
+        trackId: result.trackId,
+      });
+    }
     this.logger.log(
       `ANECF submitted for company ${companyId}: ${ranges.length} range(s), result: ${result.success ? 'OK' : 'FAILED'}`,
     );
@@ -332,4 +522,146 @@ export class SequencesService {
       annulments,
     };
   }
+
+  // ============================================================
+  // PRIVATE HELPERS
+  // ============================================================
+
+  /**
+   * Close `current` and activate the next usable queued range, skipping
+   * (and closing) queued ranges that expired while waiting. Returns null
+   * when the queue is empty.
+   */
+  private async rollOver(
+    tx: Prisma.TransactionClient,
+    tenantId: string,
+    companyId: string,
+    ecfType: EcfType,
+    current: Sequence | null,
+    now: Date,
+    rollovers: RolloverEvent[],
+  ): Promise<Sequence | null> {
+    if (current) {
+      const status = this.closedStatus(current, now);
+      const closed = await tx.sequence.updateMany({
+        where: { id: current.id, status: SequenceStatus.ACTIVE },
+        data: { status, isActive: false, closedAt: now },
+      });
+      if (closed.count === 0) {
+        // Another request rolled over first: continue with its range
+        return tx.sequence.findFirst({
+          where: { tenantId, companyId, ecfType, status: SequenceStatus.ACTIVE },
+        });
+      }
+      rollovers.push({ action: status === SequenceStatus.EXPIRED ? 'expired' : 'exhausted', sequence: current });
+    }
+
+    for (;;) {
+      const next = await tx.sequence.findFirst({
+        where: { tenantId, companyId, ecfType, status: SequenceStatus.QUEUED },
+        orderBy: { startNumber: 'asc' },
+      });
+      if (!next) return null;
+
+      if (!isUsable(next, now)) {
+        await tx.sequence.update({
+          where: { id: next.id },
+          data: { status: SequenceStatus.EXPIRED, closedAt: now },
+        });
+        rollovers.push({ action: 'expired', sequence: next });
+        continue;
+      }
+
+      const claimed = await tx.sequence.updateMany({
+        where: { id: next.id, status: SequenceStatus.QUEUED },
+        data: {
+          status: SequenceStatus.ACTIVE,
+          isActive: true,
+          activatedAt: now,
+          previousSequenceId: current?.id ?? null,
+        },
+      });
+      if (claimed.count === 0) {
+        throw new ConflictException(`La secuencia en cola para tipo ${ecfType} ya fue activada`);
+      }
+
+      const activated: Sequence = {
+        ...next,
+        status: SequenceStatus.ACTIVE,
+        isActive: true,
+        activatedAt: now,
+        previousSequenceId: current?.id ?? null,
+      };
+      rollovers.push({ action: 'activated', sequence: activated });
+      return activated;
+    }
+  }
+
+  private async hasQueued(
+    tx: Prisma.TransactionClient,
+    tenantId: string,
+    companyId: string,
+    ecfType: EcfType,
+    now: Date,
+  ): Promise<boolean> {
+    const queued = await tx.sequence.count({
+      where: {
+        tenantId,
+        companyId,
+        ecfType,
+        status: SequenceStatus.QUEUED,
+        OR: [{ expiresAt: null }, { expiresAt: { gte: now } }],
+      },
+    });
+    return queued > 0;
+  }
+
+  private closedStatus(sequence: Sequence, now: Date): SequenceStatus {
+    return sequence.currentNumber < sequence.endNumber && sequence.expiresAt && sequence.expiresAt < now
+      ? SequenceStatus.EXPIRED
+      : SequenceStatus.EXHAUSTED;
+  }
+
+  /** Why no number can be handed out, worded as before queueing existed */
+  private unavailable(
+    ecfType: EcfType,
+    last: Sequence | null,
+    now: Date,
+    reserved: number,
+    count: number,
+  ): BadRequestException | NotFoundException {
+    if (!last) {
+      return new NotFoundException(
+        `No hay secuencia activa para tipo ${ecfType} en esta empresa. ` +
+        `Registre una secuencia primero.`,
+      );
+    }
+    if (reserved > 0) {
+      return new BadRequestException(
+        `Las secuencias para tipo ${ecfType} solo tienen ${reserved} números disponibles ` +
+        `(se solicitaron ${count}). Registre más rangos autorizados por la DGII.`,
+      );
+    }
+    if (this.closedStatus(last, now) === SequenceStatus.EXPIRED) {
+      return new BadRequestException(
+        `La secuencia para tipo ${ecfType} ha expirado. Solicite una nueva a la DGII.`,
+      );
+    }
+    return new BadRequestException(
+      `La secuencia para tipo ${ecfType} se ha agotado. Solicite más secuencias a la DGII.`,
+    );
+  }
 }
+
+/** Numbers left and not expired */
+function isUsable(sequence: Sequence, now: Date): boolean {
+  return sequence.currentNumber < sequence.endNumber && !(sequence.expiresAt && sequence.expiresAt < now);
+}
+
+/** findAll: active range, then the queue, then history */
+const STATUS_ORDER: Record<SequenceStatus, number> = {
+  ACTIVE: 0,
+  QUEUED: 1,
+  EXHAUSTED: 2,
+  EXPIRED: 2,
+};
@@ -0,0 +1,33 @@
+/**
+ * RNC matching on a certificate subject (node-forge certificate).
+ *
+ * Per DGII Descripción Técnica p.60: "El campo SN del certificado =
+ * RNC/Cédula/Pasaporte del propietario". Dominican CAs write it with
+ * prefixes ("RNC-131880681", "IDCDO-00112345678"); those are stripped, with
+ * dashes and spaces, and the rest must equal the RNC. Certificates without
+ * an SN are matched on the CN the same way.
+ */
+
+const SERIAL_NUMBER_OID = '2.5.4.5';
+const COMMON_NAME_OID = '2.5.4.3';
+
+/** Known prefixes of the SN value */
+const ID_PREFIX = /^(RNC|IDCDO)[-\s]*/i;
+
+/** "CN=..., serialName=..." for logs and messages */
+export function describeSubject(cert: any): string {
+  return (cert.subject?.attributes ?? [])
+    .map((attr: any) => `${attr.shortName || attr.name || attr.type}=${attr.value}`)
+    .join(', ');
+}
+
+export function certificateHasRnc(cert: any, rnc: string): boolean {
+  const normalize = (value: string) => String(value).trim().replace(ID_PREFIX, '').replace(/[-\s]/g, '');
+  const valuesOf = (type: string) => (cert.subject?.attributes ?? [])
+    .filter((attr: any) => attr.type === type)
+    .map((attr: any) => normalize(attr.value));
+
+  const serialNumbers = valuesOf(SERIAL_NUMBER_OID);
+  const candidates = serialNumbers.length > 0 ? serialNumbers : valuesOf(COMMON_NAME_OID);
+  return candidates.includes(normalize(rnc));
+}
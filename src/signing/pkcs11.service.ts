@@ -0,0 +1,145 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type * as Pkcs11js from 'pkcs11js';
+import { Pkcs11KeyRef, Pkcs11Signer } from './signers/pkcs11-signer';
+
+/** Max RSA signature size we accept (4096-bit keys) */
+const MAX_SIGNATURE_BYTES = 512;
+
+/**
+ * PKCS#11 access for HSM-held signing keys.
+ *
+ * PKCS11_MODULE is the vendor library (SoftHSM: /usr/lib/softhsm/libsofthsm2.so).
+ * The pkcs11js binding (optional dependency) is loaded on first use, so
+ * deployments without HSM customers don't need it built. Each operation opens its own session
+ * and logs out when done; nothing is cached but the loaded module.
+ */
+@Injectable()
+export class Pkcs11Service implements OnModuleDestroy {
+  private readonly logger = new Logger(Pkcs11Service.name);
+  private pkcs11js: typeof Pkcs11js | null = null;
+  private module: Pkcs11js.PKCS11 | null = null;
+
+  constructor(private readonly config: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!this.config.get<string>('signing.pkcs11Module');
+  }
+
+  createSigner(key: Pkcs11KeyRef, certificatePem: string): Pkcs11Signer {
+    return new Pkcs11Signer(this, key, certificatePem);
+  }
+
+  /** CKM_SHA256_RSA_PKCS signature of `data` with the key on the token */
+  sign(key: Pkcs11KeyRef, data: Buffer): Buffer {
+    return this.withSession(key, (lib, session) => {
+      const handle = this.findObject(lib, session, this.binding().CKO_PRIVATE_KEY, key.keyLabel);
+      if (!handle) {
+        throw new Error(`No se encontró la llave privada "${key.keyLabel}" en el token ${key.tokenLabel}`);
+      }
+
+      lib.C_SignInit(session, { mechanism: this.binding().CKM_SHA256_RSA_PKCS }, handle);
+      return lib.C_Sign(session, data, Buffer.alloc(MAX_SIGNATURE_BYTES));
+    });
+  }
+
+  /** Certificate stored on the token with the key's label, as PEM (null if none) */
+  readCertificate(key: Pkcs11KeyRef): string | null {
+    return this.withSession(key, (lib, session) => {
+      const handle = this.findObject(lib, session, this.binding().CKO_CERTIFICATE, key.keyLabel);
+      if (!handle) return null;
+
+      const [{ value }] = lib.C_GetAttributeValue(session, handle, [{ type: this.binding().CKA_VALUE }]);
+      const base64 = (value as Buffer).toString('base64').match(/.{1,64}/g)!.join('\n');
+      return `-----BEGIN CERTIFICATE-----\n${base64}\n-----END CERTIFICATE-----`;
+    });
+  }
+
+  onModuleDestroy() {
+    if (!this.module) return;
+    try {
+      this.module.C_Finalize();
+      this.module.close();
+    } catch (error: any) {
+      this.logger.warn(`PKCS#11 finalize failed: ${error.message}`);
+    }
+    this.module = null;
+  }
+
+  // ============================================================
+  // PRIVATE HELPERS
+  // ============================================================
+
+  private withSession<T>(key: Pkcs11KeyRef, fn: (lib: Pkcs11js.PKCS11, session: Buffer) => T): T {
+    const lib = this.load();
+
+    const slot = lib.C_GetSlotList(true).find(
+      (s) => lib.C_GetTokenInfo(s).label.trim() === key.tokenLabel,
+    );
+    if (!slot) {
+      throw new Error(`No hay un token PKCS#11 con la etiqueta "${key.tokenLabel}"`);
+    }
+
+    const session = lib.C_OpenSession(slot, this.binding().CKF_SERIAL_SESSION);
+    try {
+      lib.C_Login(session, this.binding().CKU_USER, key.pin);
+      try {
+        return fn(lib, session);
+      } finally {
+        lib.C_Logout(session);
+      }
+    } finally {
+      lib.C_CloseSession(session);
+    }
+  }
+
+  private findObject(lib: Pkcs11js.PKCS11, session: Buffer, objectClass: number, label: string): Buffer | null {
+    lib.C_FindObjectsInit(session, [
+      { type: this.binding().CKA_CLASS, value: objectClass },
+      { type: this.binding().CKA_LABEL, value: label },
+    ]);
+    try {
+      const [handle] = lib.C_FindObjects(session, 1);
+      return handle ?? null;
+    } finally {
+      lib.C_FindObjectsFinal(session);
+    }
+  }
+
+  /** The pkcs11js module (constants), loading it if needed */
+  private binding(): typeof Pkcs11js {
+    if (!this.pkcs11js) this.load();
+    return this.pkcs11js!;
+  }
+
+  private load(): Pkcs11js.PKCS11 {
+    if (this.module) return this.module;
+
+    const modulePath = this.config.get<string>('signing.pkcs11Module');
+    if (!modulePath) {
+      throw new Error('PKCS11_MODULE no está configurado; no se puede firmar con HSM');
+    }
+
+    let binding: typeof Pkcs11js;
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      binding = require('pkcs11js');
+    } catch {
+      throw new Error('Falta el paquete pkcs11js (npm install pkcs11js) para firmar con HSM');
+    }
+
+    const lib = new binding.PKCS11();
+    lib.load(modulePath);
+    try {
+      lib.C_Initialize();
+    } catch (error: any) {
+      // Another component in the process already initialized the module
+      if (!String(error.message).includes('CKR_CRYPTOKI_ALREADY_INITIALIZED')) throw error;
+    }
+
+    this.logger.log(`PKCS#11 module loaded: ${modulePath}`);
+    this.pkcs11js = binding;
+    this.module = lib;
+    return lib;
+  }
+}
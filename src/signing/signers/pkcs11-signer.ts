@@ -0,0 +1,28 @@
+import type { Pkcs11Service } from '../pkcs11.service';
+import { XmlSigner } from './xml-signer';
+
+/** Where the key lives on the device */
+export interface Pkcs11KeyRef {
+  /** Token label (CKA_LABEL of the token, e.g. as set by softhsm2-util --init-token) */
+  tokenLabel: string;
+  /** CKA_LABEL of the private key (and of the certificate, when stored on the token) */
+  keyLabel: string;
+  /** User PIN */
+  pin: string;
+}
+
+/**
+ * Signs on a PKCS#11 device (HSM, SoftHSM) with CKM_SHA256_RSA_PKCS: the
+ * private key never leaves the token, only the data to sign goes in.
+ */
+export class Pkcs11Signer implements XmlSigner {
+  constructor(
+    private readonly pkcs11: Pkcs11Service,
+    private readonly key: Pkcs11KeyRef,
+    readonly certificatePem: string,
+  ) {}
+
+  signRsaSha256(data: string): string {
+    return this.pkcs11.sign(this.key, Buffer.from(data, 'utf8')).toString('base64');
+  }
+}
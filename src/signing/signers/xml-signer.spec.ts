@@ -0,0 +1,116 @@
+/**
+ * XML Signer Tests
+ *
+ * Every backend must produce the same XMLDSig bytes as the in-memory .p12
+ * signer. The SoftHSM test only runs when a token is configured:
+ *
+ *   softhsm2-util --init-token --free --label ecf-test --pin 1234 --so-pin 0000
+ *   (import the key and certificate with label "firma", e.g. pkcs11-tool)
+ *   PKCS11_MODULE=/usr/lib/softhsm/libsofthsm2.so PKCS11_TEST_TOKEN=ecf-test \
+ *   PKCS11_TEST_KEY=firma PKCS11_TEST_PIN=1234 npx jest xml-signer
+ */
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { SigningService } from '../signing.service';
+import { Pkcs11Service } from '../pkcs11.service';
+import { PemSigner, XmlSigner } from './xml-signer';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const forge = require('node-forge');
+
+const SEED = [
+  '<?xml version="1.0" encoding="utf-8"?>',
+  '<SemillaModel xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema">',
+  '<valor>c2VtaWxsYS1kZS1wcnVlYmE=</valor>',
+  '<fecha>2026-10-19T10:00:00.0000000-04:00</fecha>',
+  '</SemillaModel>',
+].join('\n');
+
+/** SHA-256 DigestInfo prefix (RFC 8017 §9.2) */
+const SHA256_DIGEST_INFO = Buffer.from('3031300d060960864801650304020105000420', 'hex');
+
+/**
+ * What a device does with CKM_RSA_PKCS: the host builds the DigestInfo and
+ * only the raw RSA operation happens with the private key.
+ */
+class RawRsaSigner implements XmlSigner {
+  constructor(private readonly privateKeyPem: string, readonly certificatePem: string) {}
+
+  signRsaSha256(data: string): string {
+    const digest = crypto.createHash('sha256').update(data, 'utf8').digest();
+    return crypto
+      .privateEncrypt(
+        { key: this.privateKeyPem, padding: crypto.constants.RSA_PKCS1_PADDING },
+        Buffer.concat([SHA256_DIGEST_INFO, digest]),
+      )
+      .toString('base64');
+  }
+}
+
+function selfSignedCertificate() {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const privateKeyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = forge.pki.publicKeyFromPem(publicKey.export({ type: 'spki', format: 'pem' }).toString());
+  cert.serialNumber = '01';
+  cert.validity.notBefore = new Date();
+  cert.validity.notAfter = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+  const attrs = [{ shortName: 'CN', value: 'EMPRESA DE PRUEBA SRL' }, { type: '2.5.4.5', value: '131880681' }];
+  cert.setSubject(attrs);
+  cert.setIssuer(attrs);
+  cert.sign(forge.pki.privateKeyFromPem(privateKeyPem), forge.md.sha256.create());
+
+  return { privateKeyPem, certificatePem: forge.pki.certificateToPem(cert) as string };
+}
+
+describe('XmlSigner backends', () => {
+  const signing = new SigningService();
+  const { privateKeyPem, certificatePem } = selfSignedCertificate();
+
+  it('produces byte-identical XMLDSig output whichever backend holds the key', () => {
+    const fromMemory = signing.signXml(SEED, new PemSigner(privateKeyPem, certificatePem));
+    const fromDevice = signing.signXml(SEED, new RawRsaSigner(privateKeyPem, certificatePem));
+
+    expect(fromDevice.signedXml).toBe(fromMemory.signedXml);
+    expect(fromDevice.securityCode).toBe(fromMemory.securityCode);
+    expect(signing.verifySignedXml(fromDevice.signedXml).certificatePem.replace(/\s/g, ''))
+      .toBe(certificatePem.replace(/\s/g, ''));
+  });
+
+  it('keeps the Signature structure: SignedInfo, SignatureValue, X509 KeyInfo', () => {
+    const { signedXml } = signing.signXml(SEED, new PemSigner(privateKeyPem, certificatePem));
+
+    expect(signedXml).toMatch(
+      /<Signature xmlns="http:\/\/www\.w3\.org\/2000\/09\/xmldsig#">\n<SignedInfo>[\s\S]*<\/SignedInfo>\n<SignatureValue>[\s\S]+<\/SignatureValue>\n<KeyInfo>\n  <X509Data>\n    <X509Certificate>[\s\S]+<\/X509Certificate>\n  <\/X509Data>\n<\/KeyInfo>\n<\/Signature>\n<\/SemillaModel>$/,
+    );
+  });
+});
+
+const softHsm = {
+  module: process.env.PKCS11_MODULE,
+  tokenLabel: process.env.PKCS11_TEST_TOKEN,
+  keyLabel: process.env.PKCS11_TEST_KEY,
+  pin: process.env.PKCS11_TEST_PIN,
+};
+const describeSoftHsm = Object.values(softHsm).every(Boolean) ? describe : describe.skip;
+
+describeSoftHsm('Pkcs11Signer (SoftHSM)', () => {
+  const signing = new SigningService();
+  const pkcs11 = new Pkcs11Service(new ConfigService({ signing: { pkcs11Module: softHsm.module } }));
+  const key = { tokenLabel: softHsm.tokenLabel!, keyLabel: softHsm.keyLabel!, pin: softHsm.pin! };
+
+  afterAll(() => pkcs11.onModuleDestroy());
+
+  it('signs on the token with a signature the certificate verifies', () => {
+    const certificatePem = pkcs11.readCertificate(key);
+    expect(certificatePem).toBeTruthy();
+
+    const signer = pkcs11.createSigner(key, certificatePem!);
+    const first = signing.signXml(SEED, signer);
+    signing.verifySignedXml(first.signedXml);
+
+    // PKCS#1 v1.5 is deterministic: same input, same bytes
+    expect(signing.signXml(SEED, signer).signatureValue).toBe(first.signatureValue);
+  });
+});
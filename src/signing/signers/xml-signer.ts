@@ -0,0 +1,34 @@
+import * as crypto from 'crypto';
+
+/**
+ * Produces the XMLDSig SignatureValue for SigningService.signXml.
+ *
+ * Implementations must return an RSA PKCS#1 v1.5 signature over SHA-256
+ * (http://www.w3.org/2001/04/xmldsig-more#rsa-sha256). That scheme is
+ * deterministic, so every backend yields the same bytes for the same key.
+ */
+export interface XmlSigner {
+  /** Certificate embedded in <X509Certificate> */
+  readonly certificatePem: string;
+
+  /** RSA-SHA256 signature of the UTF-8 bytes of `data`, base64 */
+  signRsaSha256(data: string): string;
+}
+
+/**
+ * In-memory signer: the private key extracted from the .p12 lives in the
+ * process for as long as the signer does.
+ */
+export class PemSigner implements XmlSigner {
+  constructor(
+    private readonly privateKeyPem: string,
+    readonly certificatePem: string,
+  ) {}
+
+  signRsaSha256(data: string): string {
+    const sign = crypto.createSign('RSA-SHA256');
+    sign.update(data);
+    sign.end();
+    return sign.sign(this.privateKeyPem, 'base64');
+  }
+}
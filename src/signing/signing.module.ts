@@ -1,8 +1,9 @@
 import { Module } from '@nestjs/common';
 import { SigningService } from './signing.service';
+import { Pkcs11Service } from './pkcs11.service';
 
 @Module({
-  providers: [SigningService],
-  exports: [SigningService],
+  providers: [SigningService, Pkcs11Service],
+  exports: [SigningService, Pkcs11Service],
 })
 export class SigningModule {}
@@ -6,6 +6,8 @@ import {
   getAmbiente,
   FC_FULL_SUBMISSION_THRESHOLD,
 } from '../xml-builder/ecf-types';
+import { XmlSigner } from './signers/xml-signer';
+import { certificateHasRnc, describeSubject } from './certificate-rnc';
 
 /**
  * Digital signature service for e-CF documents.
@@ -18,6 +20,9 @@ import {
  * - Reference URI: "" (signs entire document)
  * - X.509 certificate included in KeyInfo
  *
+ * The RSA operation is delegated to an XmlSigner: PemSigner for keys
+ * extracted from a .p12, Pkcs11Signer for keys held on an HSM.
+ *
  * XSD e-CF 32 v1.0 structure (xs:sequence inside <ECF>):
  *   Encabezado → DetallesItems → Subtotales? → DescuentosORecargos?
  *   → Paginacion? → InformacionReferencia?
@@ -42,11 +47,7 @@ export class SigningService {
    * Sign an e-CF XML document.
    * Returns signed XML + metadata needed for RI/QR.
    */
-  signXml(
-    xml: string,
-    privateKeyPem: string,
-    certificatePem: string,
-  ): SigningResult {
+  signXml(xml: string, signer: XmlSigner): SigningResult {
     const signTime = new Date();
 
     // Detect the root closing tag dynamically so we can sign ANY XML type:
@@ -80,10 +81,10 @@ export class SigningService {
 
     // 5. Sign the SignedInfo (with xmlns for standalone canonicalization context)
     const signedInfoForSigning = `<SignedInfo xmlns="http://www.w3.org/2000/09/xmldsig#">${signedInfo.substring('<SignedInfo>'.length)}`;
-    const signatureValue = this.computeSignature(signedInfoForSigning, privateKeyPem);
+    const signatureValue = signer.signRsaSha256(signedInfoForSigning);
 
     // 6. Get cert as base64
-    const certBase64 = this.extractCertBase64(certificatePem);
+    const certBase64 = this.extractCertBase64(signer.certificatePem);
 
     // 7. Build Signature element
     const signatureXml = this.buildSignatureElement(signedInfo, signatureValue, certBase64);
@@ -189,7 +190,10 @@ export class SigningService {
     const expectedDigest = digestMatch[1].replace(/\s/g, '');
 
     // 2. Verify DigestValue: hash document without Signature and XML declaration
-    const xmlWithoutDeclaration = signedXml.replace(/<\?xml[^?]*\?>\s*/, '');
+    //    signXml() inserts the Signature followed by "\n" — strip both
+    const xmlWithoutDeclaration = signedXml
+      .replace(/<\?xml[^?]*\?>\s*/, '')
+      .replace(/<Signature[\s\S]*?<\/Signature>\n?/, '');
     const actualDigest = this.computeDigest(xmlWithoutDeclaration);
 
     if (actualDigest !== expectedDigest) {
@@ -245,13 +249,6 @@ export class SigningService {
     ].join('\n');
   }
 
-  private computeSignature(signedInfo: string, privateKeyPem: string): string {
-    const sign = crypto.createSign('RSA-SHA256');
-    sign.update(signedInfo);
-    sign.end();
-    return sign.sign(privateKeyPem, 'base64');
-  }
-
   private buildSignatureElement(
     signedInfo: string,
     signatureValue: string,
@@ -353,40 +350,31 @@ export class SigningService {
     return { privateKey, certificate };
   }
 
+  /**
+   * Same RNC check as extractFromP12, for certificates that don't come in a
+   * .p12 (the key lives on an HSM and only the certificate is stored).
+   */
+  validateCertificatePemRnc(certificatePem: string, expectedRnc: string): void {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const forge = require('node-forge');
+    this.validateCertificateRnc(forge.pki.certificateFromPem(certificatePem), expectedRnc);
+  }
+
   /**
    * Validate that a certificate's Subject Name contains the expected RNC.
    * Per DGII Descripción Técnica p.60:
    * "El campo SN del certificado = RNC/Cédula/Pasaporte del propietario"
    */
   private validateCertificateRnc(cert: any, expectedRnc: string): void {
-    const subject = cert.subject;
-    if (!subject) {
+    if (!cert.subject) {
       this.logger.warn('Certificate has no subject — cannot validate RNC');
       return;
     }
 
-    // Check all subject attributes for the RNC
-    const subjectStr = subject.attributes
-      .map((attr: any) => `${attr.shortName || attr.name}=${attr.value}`)
-      .join(', ');
-
-    const snAttr = subject.getField('serialName') || subject.getField('SN');
-    const cnAttr = subject.getField('CN');
-
-    const snValue = snAttr?.value || '';
-    const cnValue = cnAttr?.value || '';
-
-    // RNC may be in SN (serialName) or CN field
-    const rncNormalized = expectedRnc.replace(/[-\s]/g, '');
-    const containsRnc =
-      snValue.replace(/[-\s]/g, '').includes(rncNormalized) ||
-      cnValue.replace(/[-\s]/g, '').includes(rncNormalized) ||
-      subjectStr.replace(/[-\s]/g, '').includes(rncNormalized);
-
-    if (!containsRnc) {
+    if (!certificateHasRnc(cert, expectedRnc)) {
       this.logger.warn(
         `Certificate SN mismatch: expected RNC ${expectedRnc}, ` +
-        `certificate subject: ${subjectStr}`,
+        `certificate subject: ${describeSubject(cert)}`,
       );
     } else {
       this.logger.debug(`Certificate RNC validated: ${expectedRnc}`);
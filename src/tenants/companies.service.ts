@@ -5,7 +5,10 @@ import {
   Logger,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { assertCompanyAccess, companyScopeWhere } from '../common/middleware/request-context.middleware';
 import { RncValidationService } from '../common/services/rnc-validation.service';
+import { UsageService } from '../usage/usage.service';
+import { AuditService } from '../audit/audit.service';
 import { CreateCompanyDto, UpdateCompanyDto } from './dto/company.dto';
 
 @Injectable()
@@ -15,9 +18,14 @@ export class CompaniesService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly rncValidation: RncValidationService,
+    private readonly usageService: UsageService,
+    private readonly auditService: AuditService,
   ) {}
 
   async create(tenantId: string, dto: CreateCompanyDto) {
+    // Early check before the DGII lookup; re-checked under lock on insert
+    await this.usageService.assertWithinLimit(tenantId, 'companies');
+
     // Validate RNC format + check digit + DGII lookup
     const dgiiInfo = await this.rncValidation.validateAndLookup(dto.rnc);
 
@@ -47,7 +55,7 @@ export class CompaniesService {
       throw new ConflictException(`RNC ${dto.rnc} ya está registrado en este tenant`);
     }
 
-    const company = await this.prisma.company.create({
+    const company = await this.usageService.createWithinLimit(tenantId, 'companies', (tx) => tx.company.create({
       data: {
         tenantId,
         rnc: dto.rnc,
@@ -61,15 +69,22 @@ export class CompaniesService {
         activityCode: dto.activityCode,
         dgiiEnv: dto.dgiiEnv,
       },
-    });
+    }));
 
+    await this.auditService.record(tenantId, 'company', company.id, 'created', {
+      rnc: company.rnc,
+      businessName: company.businessName,
+      dgiiEnv: company.dgiiEnv,
+    });
     this.logger.log(`Company created: ${company.id} (RNC: ${company.rnc})`);
     return company;
   }
 
   async findAll(tenantId: string) {
+    const scope = companyScopeWhere().companyId;
+
     return this.prisma.company.findMany({
-      where: { tenantId },
+      where: { tenantId, ...(scope ? { id: scope } : {}) },
       include: {
         _count: {
           select: {
@@ -84,6 +99,8 @@ export class CompaniesService {
   }
 
   async findOne(tenantId: string, companyId: string) {
+    assertCompanyAccess(companyId);
+
     const company = await this.prisma.company.findFirst({
       where: { id: companyId, tenantId },
       include: {
@@ -107,6 +124,7 @@ export class CompaniesService {
             endNumber: true,
             expiresAt: true,
             isActive: true,
+            status: true,
           },
         },
         _count: {
@@ -123,6 +141,8 @@ export class CompaniesService {
   }
 
   async update(tenantId: string, companyId: string, dto: UpdateCompanyDto) {
+    assertCompanyAccess(companyId);
+
     const company = await this.prisma.company.findFirst({
       where: { id: companyId, tenantId },
     });
@@ -131,13 +151,25 @@ export class CompaniesService {
       throw new NotFoundException('Company not found');
     }
 
-    return this.prisma.company.update({
+    const updated = await this.prisma.company.update({
       where: { id: companyId },
       data: dto,
     });
+
+    // Field-level before/after, e.g. { dgiiEnv: { from: 'CERT', to: 'PROD' } }
+    const changes = Object.fromEntries(
+      Object.entries(dto)
+        .filter(([field, value]) => value !== undefined && value !== (company as Record<string, unknown>)[field])
+        .map(([field, value]) => [field, { from: (company as Record<string, unknown>)[field], to: value }]),
+    );
+    await this.auditService.record(tenantId, 'company', companyId, 'updated', { changes });
+
+    return updated;
   }
 
   async deactivate(tenantId: string, companyId: string) {
+    assertCompanyAccess(companyId);
+
     const company = await this.prisma.company.findFirst({
       where: { id: companyId, tenantId },
     });
@@ -146,9 +178,13 @@ export class CompaniesService {
       throw new NotFoundException('Company not found');
     }
 
-    return this.prisma.company.update({
+    const deactivated = await this.prisma.company.update({
       where: { id: companyId },
       data: { isActive: false },
     });
+
+    await this.auditService.record(tenantId, 'company', companyId, 'deactivated', { rnc: company.rnc });
+
+    return deactivated;
   }
 }
@@ -0,0 +1,23 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEmail, IsIn, IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+import { Plan } from '@prisma/client';
+
+/** Plans a PLATFORM tenant can give its clients (no nested resellers) */
+export const CHILD_TENANT_PLANS: Plan[] = [Plan.STARTER, Plan.BUSINESS, Plan.ENTERPRISE];
+
+export class CreateChildTenantDto {
+  @ApiProperty({ description: 'Nombre del cliente', example: 'Ferretería Los Pinos SRL' })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(200)
+  name: string;
+
+  @ApiProperty({ description: 'Email de contacto del cliente', example: 'admin@ferreterialospinos.com' })
+  @IsEmail()
+  email: string;
+
+  @ApiPropertyOptional({ description: 'Plan del cliente', enum: CHILD_TENANT_PLANS, example: Plan.STARTER })
+  @IsOptional()
+  @IsIn(CHILD_TENANT_PLANS)
+  plan?: Plan;
+}
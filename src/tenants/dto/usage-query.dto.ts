@@ -0,0 +1,35 @@
+import { ApiPropertyOptional, ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsString, Matches } from 'class-validator';
+import { USAGE_EXPORT_FORMATS, UsageExportFormat } from '../../usage/usage.service';
+
+const PERIOD_PATTERN = /^\d{4}(0[1-9]|1[0-2])$/;
+
+export class UsageQueryDto {
+  @ApiPropertyOptional({ description: 'Período de facturación (AAAAMM), por defecto el actual', example: '202601' })
+  @IsOptional()
+  @IsString()
+  @Matches(PERIOD_PATTERN, { message: 'Período debe tener formato AAAAMM' })
+  period?: string;
+}
+
+export class UsageExportQueryDto {
+  @ApiProperty({ description: 'Primer período (AAAAMM)', example: '202601' })
+  @IsString()
+  @Matches(PERIOD_PATTERN, { message: 'from debe tener formato AAAAMM' })
+  from: string;
+
+  @ApiPropertyOptional({ description: 'Último período (AAAAMM), por defecto el actual', example: '202606' })
+  @IsOptional()
+  @IsString()
+  @Matches(PERIOD_PATTERN, { message: 'to debe tener formato AAAAMM' })
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Formato de salida: json, csv, xlsx',
+    enum: USAGE_EXPORT_FORMATS,
+    default: 'json',
+  })
+  @IsOptional()
+  @IsIn(USAGE_EXPORT_FORMATS)
+  format?: UsageExportFormat;
+}
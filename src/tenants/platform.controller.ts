@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { ApiKeyScope } from '@prisma/client';
+import { PlatformService } from './platform.service';
+import { CreateChildTenantDto } from './dto/platform.dto';
+import { UsageQueryDto } from './dto/usage-query.dto';
+import { ApiKeyGuard } from '../common/guards/api-key.guard';
+import { RequireScopes } from '../common/decorators/scopes.decorator';
+import { CurrentTenant, RequestTenant } from '../common/decorators/tenant.decorator';
+
+/**
+ * Client accounts of a PLATFORM tenant. To operate a client, call any
+ * endpoint with the header `X-Tenant-Id: <id del cliente>`.
+ */
+@ApiTags('tenants')
+@Controller('tenants/children')
+@UseGuards(ApiKeyGuard)
+@ApiBearerAuth('api-key')
+@RequireScopes(ApiKeyScope.FULL_ACCESS)
+export class PlatformController {
+  constructor(private readonly platformService: PlatformService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Crear cuenta de cliente (plan PLATFORM)' })
+  async create(
+    @CurrentTenant() tenant: RequestTenant,
+    @Body() dto: CreateChildTenantDto,
+  ) {
+    return this.platformService.createChild(tenant, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Listar cuentas de clientes' })
+  async findAll(@CurrentTenant() tenant: RequestTenant) {
+    return this.platformService.findChildren(tenant);
+  }
+
+  @Get('stats')
+  @ApiOperation({ summary: 'Estadísticas agregadas de todos los clientes' })
+  async getStats(@CurrentTenant() tenant: RequestTenant) {
+    return this.platformService.getChildrenStats(tenant);
+  }
+
+  @Get('usage')
+  @ApiOperation({ summary: 'Consumo de cada cliente en un período (AAAAMM) y totales' })
+  async getUsage(
+    @CurrentTenant() tenant: RequestTenant,
+    @Query() query: UsageQueryDto,
+  ) {
+    return this.platformService.getChildrenUsage(tenant, query.period);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Ver cuenta de cliente' })
+  async findOne(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('id') id: string,
+  ) {
+    return this.platformService.findChild(tenant, id);
+  }
+
+  @Post(':id/suspend')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Suspender cliente (bloquea sus usuarios, API keys y X-Tenant-Id)' })
+  async suspend(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('id') id: string,
+  ) {
+    return this.platformService.suspendChild(tenant, id);
+  }
+
+  @Post(':id/reactivate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reactivar cliente suspendido' })
+  async reactivate(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('id') id: string,
+  ) {
+    return this.platformService.reactivateChild(tenant, id);
+  }
+}
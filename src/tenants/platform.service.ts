@@ -0,0 +1,189 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { Plan } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RequestTenant } from '../common/decorators/tenant.decorator';
+import { UsageService } from '../usage/usage.service';
+import { AuditService } from '../audit/audit.service';
+import { USAGE_METRICS, UsageMetric, usagePeriod } from '../usage/plan-limits';
+import { CreateChildTenantDto } from './dto/platform.dto';
+
+const CHILD_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  plan: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { companies: true, users: true } },
+} as const;
+
+/**
+ * Reseller mode: a PLATFORM tenant creates and suspends client accounts
+ * (child tenants) and operates them with its own credentials by sending
+ * X-Tenant-Id (see ApiKeyGuard). Children keep their own plan and quotas.
+ */
+@Injectable()
+export class PlatformService {
+  private readonly logger = new Logger(PlatformService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly usageService: UsageService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Create a client account. It has no users or API keys: the parent operates
+   * it through X-Tenant-Id and can invite the client's users the same way.
+   */
+  async createChild(parent: RequestTenant, dto: CreateChildTenantDto) {
+    this.assertPlatform(parent);
+
+    const [existing, existingUser] = await Promise.all([
+      this.prisma.tenant.findUnique({ where: { email: dto.email } }),
+      this.prisma.user.findUnique({ where: { email: dto.email.toLowerCase() } }),
+    ]);
+    if (existing || existingUser) {
+      throw new ConflictException('Email already registered');
+    }
+
+    const child = await this.prisma.tenant.create({
+      data: {
+        name: dto.name,
+        email: dto.email,
+        plan: dto.plan || Plan.STARTER,
+        parentTenantId: parent.id,
+      },
+      select: CHILD_SELECT,
+    });
+
+    await this.auditService.record(parent.id, 'tenant', child.id, 'child_created', { name: child.name, plan: child.plan });
+    this.logger.log(`Child tenant created: ${child.id} (${child.name}) under ${parent.id}`);
+
+    return child;
+  }
+
+  async findChildren(parent: RequestTenant) {
+    this.assertPlatform(parent);
+
+    return this.prisma.tenant.findMany({
+      where: { parentTenantId: parent.id },
+      select: CHILD_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findChild(parent: RequestTenant, childId: string) {
+    this.assertPlatform(parent);
+
+    const child = await this.prisma.tenant.findFirst({
+      where: { id: childId, parentTenantId: parent.id },
+      select: CHILD_SELECT,
+    });
+    if (!child) throw new NotFoundException('Cliente no encontrado');
+    return child;
+  }
+
+  /**
+   * Suspend a client: its users, its API keys and X-Tenant-Id on it are
+   * rejected until reactivated. Nothing is deleted.
+   */
+  async suspendChild(parent: RequestTenant, childId: string) {
+    return this.setChildActive(parent, childId, false);
+  }
+
+  async reactivateChild(parent: RequestTenant, childId: string) {
+    return this.setChildActive(parent, childId, true);
+  }
+
+  /**
+   * Totals across all clients
+   */
+  async getChildrenStats(parent: RequestTenant) {
+    this.assertPlatform(parent);
+
+    const children = await this.prisma.tenant.findMany({
+      where: { parentTenantId: parent.id },
+      select: { id: true, isActive: true },
+    });
+    const tenantId = { in: children.map((c) => c.id) };
+    const now = new Date();
+
+    const [totalInvoices, totalCompanies, invoicesThisMonth] = await Promise.all([
+      this.prisma.invoice.count({ where: { tenantId } }),
+      this.prisma.company.count({ where: { tenantId } }),
+      this.prisma.invoice.count({
+        where: { tenantId, createdAt: { gte: new Date(now.getFullYear(), now.getMonth(), 1) } },
+      }),
+    ]);
+
+    return {
+      totalChildren: children.length,
+      activeChildren: children.filter((c) => c.isActive).length,
+      totalInvoices,
+      totalCompanies,
+      invoicesThisMonth,
+    };
+  }
+
+  /**
+   * Usage of every client in a period (default current) against its own
+   * plan, plus the totals, for billing the clients.
+   */
+  async getChildrenUsage(parent: RequestTenant, period: string = usagePeriod()) {
+    this.assertPlatform(parent);
+
+    const children = await this.prisma.tenant.findMany({
+      where: { parentTenantId: parent.id },
+      select: { id: true, name: true, isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const usages = await Promise.all(children.map((c) => this.usageService.getUsage(c.id, period)));
+    // Not available when some client has no data for the period
+    const totals = Object.fromEntries(
+      USAGE_METRICS.map((metric) => [metric, usages.reduce<number | null>((sum, u) => {
+        const used = u.metrics[metric].used;
+        return sum === null || used === null ? null : sum + used;
+      }, 0)]),
+    ) as Record<UsageMetric, number | null>;
+
+    return {
+      period,
+      totals,
+      children: children.map((child, i) => ({ ...child, usage: usages[i] })),
+    };
+  }
+
+  // ============================================================
+  // PRIVATE HELPERS
+  // ============================================================
+
+  private assertPlatform(tenant: RequestTenant) {
+    if (tenant.plan !== Plan.PLATFORM) {
+      throw new ForbiddenException('Disponible solo para el plan PLATFORM');
+    }
+  }
+
+  private async setChildActive(parent: RequestTenant, childId: string, isActive: boolean) {
+    await this.findChild(parent, childId);
+
+    const child = await this.prisma.tenant.update({
+      where: { id: childId },
+      data: { isActive },
+      select: CHILD_SELECT,
+    });
+
+    await this.auditService.record(parent.id, 'tenant', childId, isActive ? 'child_reactivated' : 'child_suspended');
+    this.logger.log(`Child tenant ${childId} ${isActive ? 'reactivated' : 'suspended'} by ${parent.id}`);
+
+    return child;
+  }
+}
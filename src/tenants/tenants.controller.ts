@@ -4,13 +4,16 @@ import {
   Get,
   Patch,
   Body,
+  Query,
   UseGuards,
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { TenantsService } from './tenants.service';
 import { CreateTenantDto, UpdateTenantDto } from './dto/tenant.dto';
+import { UsageExportQueryDto, UsageQueryDto } from './dto/usage-query.dto';
 import { ApiKeyGuard } from '../common/guards/api-key.guard';
 import { CurrentTenant, RequestTenant } from '../common/decorators/tenant.decorator';
+import { toStreamableFile } from '../reports/formats/report-format';
 
 @ApiTags('tenants')
 @Controller('tenants')
@@ -57,4 +60,38 @@ export class TenantsController {
   async getStats(@CurrentTenant() tenant: RequestTenant) {
     return this.tenantsService.getStats(tenant.id);
   }
+
+  @Get('me/usage')
+  @UseGuards(ApiKeyGuard)
+  @ApiBearerAuth('api-key')
+  @ApiOperation({
+    summary: 'Consumo del plan en un período',
+    description:
+      'Uso de facturas y documentos recibidos del período (AAAAMM, por defecto el actual) y ' +
+      'empresas, API keys y webhooks activos, con los límites del plan.',
+  })
+  async getUsage(
+    @CurrentTenant() tenant: RequestTenant,
+    @Query() query: UsageQueryDto,
+  ) {
+    return this.tenantsService.getUsage(tenant.id, query.period);
+  }
+
+  @Get('me/usage/export')
+  @UseGuards(ApiKeyGuard)
+  @ApiBearerAuth('api-key')
+  @ApiOperation({
+    summary: 'Exportar consumo mensual para facturación',
+    description: 'Un registro por período entre from y to (máximo 36). Los períodos cerrados vienen del corte mensual.',
+  })
+  async exportUsage(
+    @CurrentTenant() tenant: RequestTenant,
+    @Query() query: UsageExportQueryDto,
+  ) {
+    if (!query.format || query.format === 'json') {
+      return this.tenantsService.getUsageHistory(tenant.id, query.from, query.to);
+    }
+    const file = await this.tenantsService.exportUsage(tenant.id, query.from, query.to, query.format);
+    return toStreamableFile(file);
+  }
 }
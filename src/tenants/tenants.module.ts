@@ -1,12 +1,14 @@
 import { Module } from '@nestjs/common';
 import { TenantsService } from './tenants.service';
 import { TenantsController } from './tenants.controller';
+import { PlatformService } from './platform.service';
+import { PlatformController } from './platform.controller';
 import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [AuthModule],
-  controllers: [TenantsController],
-  providers: [TenantsService],
+  controllers: [TenantsController, PlatformController],
+  providers: [TenantsService, PlatformService],
   exports: [TenantsService],
 })
 export class TenantsModule {}
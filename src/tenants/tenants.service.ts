@@ -6,8 +6,9 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuthService } from '../auth/auth.service';
+import { UsageService } from '../usage/usage.service';
 import { CreateTenantDto, UpdateTenantDto } from './dto/tenant.dto';
-import { Plan, ApiKeyScope } from '@prisma/client';
+import { Plan, ApiKeyScope, UserRole } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
 
 @Injectable()
@@ -17,30 +18,39 @@ export class TenantsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly authService: AuthService,
+    private readonly usageService: UsageService,
   ) {}
 
   /**
-   * Register a new tenant and generate initial API keys.
+   * Register a new tenant, its OWNER user and initial API keys.
    * Returns the tenant with a test and live API key.
    */
   async create(dto: CreateTenantDto) {
-    // Check if email already exists
-    const existing = await this.prisma.tenant.findUnique({
-      where: { email: dto.email },
-    });
+    // Check if email already exists (as account or as any user)
+    const [existing, existingUser] = await Promise.all([
+      this.prisma.tenant.findUnique({ where: { email: dto.email } }),
+      this.prisma.user.findUnique({ where: { email: dto.email.toLowerCase() } }),
+    ]);
 
-    if (existing) {
+    if (existing || existingUser) {
       throw new ConflictException('Email already registered');
     }
 
-    // Create tenant
+    // Create tenant with its owner (dashboard login)
     const passwordHash = await bcrypt.hash(dto.password, 12);
     const tenant = await this.prisma.tenant.create({
       data: {
         name: dto.name,
         email: dto.email,
-        passwordHash,
         plan: dto.plan || Plan.STARTER,
+        users: {
+          create: {
+            email: dto.email.toLowerCase(),
+            name: dto.name,
+            passwordHash,
+            role: UserRole.OWNER,
+          },
+        },
       },
     });
 
@@ -127,26 +137,39 @@ export class TenantsService {
   }
 
   /**
-   * Get tenant usage stats
+   * Get tenant usage stats, with the current period usage against the plan
    */
   async getStats(tenantId: string) {
-    const [invoiceCount, companiesCount, thisMonth] = await Promise.all([
+    const [invoiceCount, companiesCount, usage] = await Promise.all([
       this.prisma.invoice.count({ where: { tenantId } }),
       this.prisma.company.count({ where: { tenantId } }),
-      this.prisma.invoice.count({
-        where: {
-          tenantId,
-          createdAt: {
-            gte: new Date(new Date().getFullYear(), new Date().getMonth(), 1),
-          },
-        },
-      }),
+      this.usageService.getUsage(tenantId),
     ]);
 
     return {
       totalInvoices: invoiceCount,
       totalCompanies: companiesCount,
-      invoicesThisMonth: thisMonth,
+      invoicesThisMonth: usage.metrics.invoices.used,
+      plan: usage.plan,
+      usage: usage.metrics,
     };
   }
+
+  /**
+   * Usage of a billing period (AAAAMM, default current) against plan limits
+   */
+  async getUsage(tenantId: string, period?: string) {
+    return this.usageService.getUsage(tenantId, period);
+  }
+
+  /**
+   * Monthly usage between two periods, for billing
+   */
+  async getUsageHistory(tenantId: string, from: string, to?: string) {
+    return this.usageService.getUsageHistory(tenantId, from, to);
+  }
+
+  async exportUsage(tenantId: string, from: string, to: string | undefined, format: 'csv' | 'xlsx') {
+    return this.usageService.exportUsage(tenantId, from, to, format);
+  }
 }
@@ -0,0 +1,37 @@
+/**
+ * Plan Limits Tests
+ */
+import { DEFAULT_PLAN_LIMITS, previousUsagePeriod, resolvePlanLimits, usagePeriod } from './plan-limits';
+
+describe('resolvePlanLimits', () => {
+  it('returns the defaults without override', () => {
+    expect(resolvePlanLimits()).toEqual(DEFAULT_PLAN_LIMITS);
+  });
+
+  it('merges valid overrides and ignores unknown plans, metrics and values', () => {
+    const limits = resolvePlanLimits(JSON.stringify({
+      STARTER: { invoices: 1000, webhooks: null, companies: -1, foo: 3 },
+      GOLD: { invoices: 1 },
+    }));
+
+    expect(limits.STARTER).toEqual({ ...DEFAULT_PLAN_LIMITS.STARTER, invoices: 1000, webhooks: null });
+    expect(limits.BUSINESS).toEqual(DEFAULT_PLAN_LIMITS.BUSINESS);
+    expect(DEFAULT_PLAN_LIMITS.STARTER.invoices).toBe(500);
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(() => resolvePlanLimits('{invoices')).toThrow('PLAN_LIMITS no es un JSON válido');
+  });
+});
+
+describe('usage periods', () => {
+  it('formats the period of a date as AAAAMM', () => {
+    expect(usagePeriod(new Date(2026, 0, 31))).toBe('202601');
+    expect(usagePeriod(new Date(2026, 11, 1))).toBe('202612');
+  });
+
+  it('steps back across year boundaries', () => {
+    expect(previousUsagePeriod('202603')).toBe('202602');
+    expect(previousUsagePeriod('202601')).toBe('202512');
+  });
+});
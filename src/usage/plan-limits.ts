@@ -0,0 +1,76 @@
+import { Plan } from '@prisma/client';
+
+/**
+ * Plan quotas.
+ *
+ * invoices / receivedDocuments are counted per billing period (calendar
+ * month, AAAAMM); companies, apiKeys and webhooks count what exists now.
+ * `null` = unlimited. Defaults can be overridden per plan with the
+ * PLAN_LIMITS env var (JSON), e.g. {"STARTER":{"invoices":1000}}.
+ */
+
+export const USAGE_METRICS = ['invoices', 'receivedDocuments', 'companies', 'apiKeys', 'webhooks'] as const;
+export type UsageMetric = typeof USAGE_METRICS[number];
+
+/** Metrics that reset every billing period */
+export const PERIODIC_USAGE_METRICS: UsageMetric[] = ['invoices', 'receivedDocuments'];
+
+export type PlanLimits = Record<UsageMetric, number | null>;
+
+export const DEFAULT_PLAN_LIMITS: Record<Plan, PlanLimits> = {
+  [Plan.STARTER]: { invoices: 500, receivedDocuments: 500, companies: 1, apiKeys: 5, webhooks: 2 },
+  [Plan.BUSINESS]: { invoices: 5000, receivedDocuments: 5000, companies: 5, apiKeys: 20, webhooks: 10 },
+  [Plan.ENTERPRISE]: { invoices: 50000, receivedDocuments: 50000, companies: 50, apiKeys: 100, webhooks: 50 },
+  [Plan.PLATFORM]: { invoices: null, receivedDocuments: null, companies: null, apiKeys: null, webhooks: null },
+};
+
+/** Spanish labels for error messages and exports */
+export const USAGE_METRIC_LABELS: Record<UsageMetric, string> = {
+  invoices: 'facturas',
+  receivedDocuments: 'documentos recibidos',
+  companies: 'empresas',
+  apiKeys: 'API keys',
+  webhooks: 'webhooks',
+};
+
+/**
+ * Merge a PLAN_LIMITS override into the defaults. Unknown plans/metrics and
+ * values that are not a non-negative integer or null are ignored.
+ */
+export function resolvePlanLimits(override?: string): Record<Plan, PlanLimits> {
+  const limits = Object.fromEntries(
+    Object.entries(DEFAULT_PLAN_LIMITS).map(([plan, planLimits]) => [plan, { ...planLimits }]),
+  ) as Record<Plan, PlanLimits>;
+  if (!override) return limits;
+
+  let parsed: Record<string, Record<string, unknown>>;
+  try {
+    parsed = JSON.parse(override);
+  } catch {
+    throw new Error('PLAN_LIMITS no es un JSON válido');
+  }
+
+  for (const [plan, values] of Object.entries(parsed || {})) {
+    if (!(plan in limits) || typeof values !== 'object' || values === null) continue;
+    for (const [metric, value] of Object.entries(values)) {
+      if (!(USAGE_METRICS as readonly string[]).includes(metric)) continue;
+      if (value === null || (Number.isInteger(value) && (value as number) >= 0)) {
+        limits[plan as Plan][metric as UsageMetric] = value as number | null;
+      }
+    }
+  }
+
+  return limits;
+}
+
+/** Billing period (AAAAMM) containing a date */
+export function usagePeriod(date: Date = new Date()): string {
+  return `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/** Period right before the given one */
+export function previousUsagePeriod(period: string): string {
+  const year = parseInt(period.substring(0, 4), 10);
+  const month = parseInt(period.substring(4, 6), 10);
+  return usagePeriod(new Date(year, month - 2, 1));
+}
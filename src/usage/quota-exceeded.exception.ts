@@ -0,0 +1,36 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { PERIODIC_USAGE_METRICS, USAGE_METRIC_LABELS, UsageMetric } from './plan-limits';
+
+/**
+ * Plan limit reached.
+ * - 429 for monthly volume (invoices, received documents): resets next period
+ * - 402 for resources (companies, API keys, webhooks): needs a plan upgrade
+ *   or removing something
+ */
+export class QuotaExceededException extends HttpException {
+  constructor(
+    readonly metric: UsageMetric,
+    readonly plan: string,
+    readonly limit: number,
+    readonly used: number,
+  ) {
+    const periodic = PERIODIC_USAGE_METRICS.includes(metric);
+    const label = USAGE_METRIC_LABELS[metric];
+    const message = periodic
+      ? `Límite mensual de ${label} del plan ${plan} alcanzado (${used}/${limit}). Se renueva el próximo mes o al cambiar de plan.`
+      : `El plan ${plan} permite hasta ${limit} ${label} (tiene ${used}). Cambie de plan o elimine alguno.`;
+
+    super(
+      {
+        statusCode: periodic ? HttpStatus.TOO_MANY_REQUESTS : HttpStatus.PAYMENT_REQUIRED,
+        error: 'Quota Exceeded',
+        message,
+        metric,
+        plan,
+        limit,
+        used,
+      },
+      periodic ? HttpStatus.TOO_MANY_REQUESTS : HttpStatus.PAYMENT_REQUIRED,
+    );
+  }
+}
@@ -0,0 +1,9 @@
+import { Module, Global } from '@nestjs/common';
+import { UsageService } from './usage.service';
+
+@Global()
+@Module({
+  providers: [UsageService],
+  exports: [UsageService],
+})
+export class UsageModule {}
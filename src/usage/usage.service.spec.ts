@@ -0,0 +1,73 @@
+/**
+ * Usage Service Tests
+ *
+ * Quota checks under the per-tenant lock, PLAN_LIMITS from config, and
+ * ended periods without a snapshot.
+ */
+import { ConfigService } from '@nestjs/config';
+import { Plan } from '@prisma/client';
+import { UsageService } from './usage.service';
+import { QuotaExceededException } from './quota-exceeded.exception';
+import { previousUsagePeriod, usagePeriod } from './plan-limits';
+
+describe('UsageService', () => {
+  const calls: string[] = [];
+  const tx = {
+    $executeRaw: jest.fn(async () => { calls.push('lock'); return 1; }),
+    apiKey: {
+      count: jest.fn(async () => { calls.push('count'); return 1; }),
+      create: jest.fn(async () => { calls.push('create'); return { id: 'key-1' }; }),
+    },
+  };
+  const prisma = {
+    tenant: { findUnique: jest.fn(async () => ({ plan: Plan.STARTER })) },
+    usageSnapshot: { findUnique: jest.fn(async (): Promise<any> => null) },
+    invoice: { count: jest.fn(async () => 0) },
+    receivedDocument: { count: jest.fn(async () => 0) },
+    company: { count: jest.fn(async () => 1) },
+    apiKey: { count: jest.fn(async () => 1) },
+    webhookSubscription: { count: jest.fn(async () => 0) },
+    $transaction: jest.fn(async (fn: (client: typeof tx) => Promise<unknown>) => fn(tx)),
+  };
+
+  const service = (planLimits = '') =>
+    new UsageService(prisma as any, new ConfigService({ usage: { planLimits } }));
+
+  beforeEach(() => {
+    calls.length = 0;
+    jest.clearAllMocks();
+  });
+
+  it('checks the quota under the lock, then inserts in the same transaction', async () => {
+    const created = await service().createWithinLimit('tenant-1', 'apiKeys', (client) => client.apiKey.create({} as any));
+
+    expect(created).toEqual({ id: 'key-1' });
+    expect(calls).toEqual(['lock', 'count', 'create']);
+  });
+
+  it('reads PLAN_LIMITS through config and rejects over the limit without inserting', async () => {
+    const create = jest.fn();
+    const usage = service(JSON.stringify({ STARTER: { apiKeys: 1 } }));
+
+    await expect(usage.createWithinLimit('tenant-1', 'apiKeys', create)).rejects.toBeInstanceOf(QuotaExceededException);
+    expect(create).not.toHaveBeenCalled();
+    expect(usage.limitsFor(Plan.STARTER).apiKeys).toBe(1);
+  });
+
+  it('reports ended periods without a snapshot as not available', async () => {
+    const usage = await service().getUsage('tenant-1', previousUsagePeriod(usagePeriod()));
+
+    expect(usage).toMatchObject({ closed: false, available: false });
+    expect(usage.metrics.invoices).toMatchObject({ used: null, remaining: null, limit: 500 });
+    expect(prisma.invoice.count).not.toHaveBeenCalled();
+  });
+
+  it('marks those periods in the billing history', async () => {
+    prisma.invoice.count.mockImplementation(async () => 3);
+    const previous = previousUsagePeriod(usagePeriod());
+
+    const { rows } = await service().getUsageHistory('tenant-1', previous);
+
+    expect(rows.map((row) => [row.status, row.invoices])).toEqual([['NO DISPONIBLE', null], ['ABIERTO', 3]]);
+  });
+});
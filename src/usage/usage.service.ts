@@ -0,0 +1,309 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Plan, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ReportColumn, periodRange, toCsv, toXlsx } from '../reports/formats/report-format';
+import {
+  PERIODIC_USAGE_METRICS,
+  PlanLimits,
+  USAGE_METRICS,
+  UsageMetric,
+  previousUsagePeriod,
+  resolvePlanLimits,
+  usagePeriod,
+} from './plan-limits';
+import { QuotaExceededException } from './quota-exceeded.exception';
+
+export interface UsageMetricValue {
+  /** null = not available (past period without snapshot) */
+  used: number | null;
+  /** null = unlimited */
+  limit: number | null;
+  remaining: number | null;
+  /** true = counted per billing period, false = current total */
+  periodic: boolean;
+}
+
+export interface TenantUsage {
+  plan: Plan;
+  period: string;
+  periodStart: Date;
+  periodEnd: Date;
+  /** The period ended and its values are frozen in a snapshot */
+  closed: boolean;
+  /**
+   * false for ended periods without a snapshot (e.g. before metering
+   * existed): their usage can't be rebuilt from today's data
+   */
+  available: boolean;
+  metrics: Record<UsageMetric, UsageMetricValue>;
+}
+
+export const USAGE_EXPORT_FORMATS = ['json', 'csv', 'xlsx'] as const;
+export type UsageExportFormat = typeof USAGE_EXPORT_FORMATS[number];
+
+export interface UsageExportRow {
+  period: string;
+  plan: string;
+  invoices: number | null;
+  receivedDocuments: number | null;
+  companies: number | null;
+  apiKeys: number | null;
+  webhooks: number | null;
+  status: string;
+}
+
+const USAGE_EXPORT_COLUMNS: ReportColumn<UsageExportRow>[] = [
+  { key: 'period', header: 'Periodo', type: 'text' },
+  { key: 'plan', header: 'Plan', type: 'text' },
+  { key: 'invoices', header: 'Facturas', type: 'text' },
+  { key: 'receivedDocuments', header: 'Documentos Recibidos', type: 'text' },
+  { key: 'companies', header: 'Empresas', type: 'text' },
+  { key: 'apiKeys', header: 'API Keys', type: 'text' },
+  { key: 'webhooks', header: 'Webhooks', type: 'text' },
+  { key: 'status', header: 'Estado', type: 'text' },
+];
+
+/** Max periods in one export (3 years) */
+const MAX_EXPORT_PERIODS = 36;
+
+/**
+ * Usage metering and plan quota enforcement.
+ *
+ * Counts are read from the source tables (invoices, companies...) instead of
+ * separate counters, so they can't drift. Closed periods are frozen in
+ * UsageSnapshot by the scheduler and are the source for billing exports.
+ * Quota checks that guard an insert run with createWithinLimit(), under a
+ * per-tenant, per-metric lock.
+ */
+@Injectable()
+export class UsageService {
+  private readonly logger = new Logger(UsageService.name);
+  private readonly planLimits: ReturnType<typeof resolvePlanLimits>;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+  ) {
+    this.planLimits = resolvePlanLimits(this.config.get<string>('usage.planLimits'));
+  }
+
+  limitsFor(plan: Plan): PlanLimits {
+    return this.planLimits[plan];
+  }
+
+  /**
+   * Throw QuotaExceededException (402/429) if adding `increment` would go over
+   * the tenant's plan limit for the metric.
+   *
+   * With `tx`, the tenant's lock for the metric is taken first and held until
+   * that transaction ends: the insert the check guards must commit in it (or
+   * before it ends) so concurrent checks see it. Without `tx` it's only an
+   * early, unlocked check.
+   */
+  async assertWithinLimit(
+    tenantId: string,
+    metric: UsageMetric,
+    increment = 1,
+    tx?: Prisma.TransactionClient,
+  ): Promise<void> {
+    const plan = await this.getPlan(tenantId);
+    const limit = this.limitsFor(plan)[metric];
+    if (limit === null) return;
+
+    if (tx) {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`usage:${tenantId}:${metric}`}))`;
+    }
+
+    const used = await this.count(tenantId, metric, usagePeriod(), tx);
+    if (used + increment > limit) {
+      throw new QuotaExceededException(metric, plan, limit, used);
+    }
+  }
+
+  /**
+   * Run `create` (the insert of something the metric counts) in a transaction,
+   * after a locked quota check, so concurrent requests can't both pass the
+   * count and go over the limit.
+   */
+  async createWithinLimit<T>(
+    tenantId: string,
+    metric: UsageMetric,
+    create: (tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T> {
+    return this.prisma.$transaction(async (tx) => {
+      await this.assertWithinLimit(tenantId, metric, 1, tx);
+      return create(tx);
+    });
+  }
+
+  /** What is left of a metric in the current period (null = unlimited) */
+  async remaining(tenantId: string, metric: UsageMetric): Promise<number | null> {
+    const plan = await this.getPlan(tenantId);
+    const limit = this.limitsFor(plan)[metric];
+    if (limit === null) return null;
+
+    return Math.max(0, limit - await this.count(tenantId, metric, usagePeriod()));
+  }
+
+  /**
+   * Usage of a period (default: current) against the plan limits. Closed
+   * periods are read from their snapshot; ended periods without one are
+   * returned as not available.
+   */
+  async getUsage(tenantId: string, period: string = usagePeriod()): Promise<TenantUsage> {
+    const current = usagePeriod();
+    if (period > current) {
+      throw new BadRequestException('El período no puede ser futuro');
+    }
+
+    const { from, to } = periodRange(period);
+    const snapshot = period < current
+      ? await this.prisma.usageSnapshot.findUnique({ where: { tenantId_period: { tenantId, period } } })
+      : null;
+
+    const available = period === current || !!snapshot;
+    const plan = snapshot?.plan ?? await this.getPlan(tenantId);
+    const values = snapshot ?? (available ? await this.measure(tenantId, period) : null);
+    const limits = this.limitsFor(plan);
+
+    const metrics = Object.fromEntries(
+      USAGE_METRICS.map((metric) => {
+        const used = values ? values[metric] : null;
+        const limit = limits[metric];
+        return [metric, {
+          used,
+          limit,
+          remaining: limit === null || used === null ? null : Math.max(0, limit - used),
+          periodic: PERIODIC_USAGE_METRICS.includes(metric),
+        }];
+      }),
+    ) as Record<UsageMetric, UsageMetricValue>;
+
+    return { plan, period, periodStart: from, periodEnd: to, closed: !!snapshot, available, metrics };
+  }
+
+  /**
+   * Freeze the usage of an ended period for every tenant that existed then.
+   * Idempotent: tenants that already have a snapshot are skipped.
+   */
+  async closePeriod(period: string = previousUsagePeriod(usagePeriod())): Promise<number> {
+    const { to } = periodRange(period);
+    if (to > new Date()) {
+      throw new BadRequestException(`El período ${period} aún no termina`);
+    }
+
+    const tenants = await this.prisma.tenant.findMany({
+      where: { createdAt: { lt: to }, usageSnapshots: { none: { period } } },
+      select: { id: true, plan: true },
+    });
+
+    let closed = 0;
+    for (const tenant of tenants) {
+      const values = await this.measure(tenant.id, period);
+      try {
+        await this.prisma.usageSnapshot.create({
+          data: { tenantId: tenant.id, period, plan: tenant.plan, ...values },
+        });
+        closed++;
+      } catch (error: any) {
+        // Closed concurrently by another instance
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error;
+      }
+    }
+
+    if (closed > 0) this.logger.log(`Usage period ${period} closed for ${closed} tenant(s)`);
+    return closed;
+  }
+
+  /**
+   * Monthly usage for billing: one row per period between `from` and `to`
+   * (AAAAMM, inclusive). Closed periods come from their snapshot; the
+   * current one is live and marked as open, and ended periods without a
+   * snapshot have no values.
+   */
+  async getUsageHistory(tenantId: string, from: string, to: string = usagePeriod()) {
+    if (from > to) {
+      throw new BadRequestException('from debe ser anterior o igual a to');
+    }
+
+    const periods: string[] = [];
+    for (let period = to; period >= from && periods.length < MAX_EXPORT_PERIODS; period = previousUsagePeriod(period)) {
+      periods.unshift(period);
+    }
+
+    const usages = await Promise.all(periods.map((period) => this.getUsage(tenantId, period)));
+    const rows: UsageExportRow[] = usages.map((usage) => ({
+      period: usage.period,
+      plan: usage.plan,
+      invoices: usage.metrics.invoices.used,
+      receivedDocuments: usage.metrics.receivedDocuments.used,
+      companies: usage.metrics.companies.used,
+      apiKeys: usage.metrics.apiKeys.used,
+      webhooks: usage.metrics.webhooks.used,
+      status: usage.closed ? 'CERRADO' : usage.available ? 'ABIERTO' : 'NO DISPONIBLE',
+    }));
+
+    return { from: periods[0], to: periods[periods.length - 1], rows };
+  }
+
+  async exportUsage(tenantId: string, from: string, to: string | undefined, format: 'csv' | 'xlsx') {
+    const history = await this.getUsageHistory(tenantId, from, to);
+    const fileName = `uso_${history.from}_${history.to}`;
+
+    if (format === 'csv') {
+      return {
+        fileName: `${fileName}.csv`,
+        contentType: 'text/csv; charset=utf-8',
+        content: toCsv(USAGE_EXPORT_COLUMNS, history.rows),
+      };
+    }
+
+    return {
+      fileName: `${fileName}.xlsx`,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      content: await toXlsx('Uso', USAGE_EXPORT_COLUMNS, history.rows),
+    };
+  }
+
+  // ============================================================
+  // PRIVATE HELPERS
+  // ============================================================
+
+  private async getPlan(tenantId: string): Promise<Plan> {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { plan: true },
+    });
+    if (!tenant) throw new NotFoundException('Tenant not found');
+    return tenant.plan;
+  }
+
+  private async measure(tenantId: string, period: string): Promise<Record<UsageMetric, number>> {
+    const values = await Promise.all(USAGE_METRICS.map((metric) => this.count(tenantId, metric, period)));
+    return Object.fromEntries(USAGE_METRICS.map((metric, i) => [metric, values[i]])) as Record<UsageMetric, number>;
+  }
+
+  private count(
+    tenantId: string,
+    metric: UsageMetric,
+    period: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<number> {
+    const { from, to } = periodRange(period);
+    const createdAt = { gte: from, lt: to };
+
+    switch (metric) {
+      case 'invoices':
+        return client.invoice.count({ where: { tenantId, createdAt } });
+      case 'receivedDocuments':
+        return client.receivedDocument.count({ where: { tenantId, createdAt } });
+      case 'companies':
+        return client.company.count({ where: { tenantId, isActive: true } });
+      case 'apiKeys':
+        return client.apiKey.count({ where: { tenantId, isActive: true } });
+      case 'webhooks':
+        return client.webhookSubscription.count({ where: { tenantId } });
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsEmail, IsEnum, IsOptional, MaxLength } from 'class-validator';
+import { UserRole } from '@prisma/client';
+
+export class InviteUserDto {
+  @ApiProperty({ description: 'Email del usuario invitado', example: 'contabilidad@miempresa.com' })
+  @IsEmail({}, { message: 'Email inválido' })
+  @MaxLength(320)
+  email: string;
+
+  @ApiProperty({
+    description: 'Rol: OWNER, ADMIN (todo), ACCOUNTANT (facturación y configuración fiscal), CASHIER (emitir facturas), READ_ONLY',
+    enum: UserRole,
+    example: UserRole.ACCOUNTANT,
+  })
+  @IsEnum(UserRole)
+  role: UserRole;
+}
+
+export class UpdateUserDto {
+  @ApiPropertyOptional({ enum: UserRole })
+  @IsOptional()
+  @IsEnum(UserRole)
+  role?: UserRole;
+
+  @ApiPropertyOptional({ description: 'Activar/desactivar el acceso' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
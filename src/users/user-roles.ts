@@ -0,0 +1,39 @@
+import { ApiKeyScope, UserRole } from '@prisma/client';
+
+/**
+ * Permissions of each dashboard role, expressed as API key scopes so the
+ * same @RequireScopes checks apply to users and API keys.
+ */
+export const ROLE_SCOPES: Record<UserRole, ApiKeyScope[]> = {
+  // Owners and admins differ only in who can manage owners (UsersService)
+  [UserRole.OWNER]: [ApiKeyScope.FULL_ACCESS],
+  [UserRole.ADMIN]: [ApiKeyScope.FULL_ACCESS],
+  // Fiscal setup and all invoicing (notes, voids, reports) plus the audit
+  // log for compliance reviews; no integrations
+  [UserRole.ACCOUNTANT]: [
+    ApiKeyScope.INVOICES_READ,
+    ApiKeyScope.INVOICES_WRITE,
+    ApiKeyScope.COMPANIES_READ,
+    ApiKeyScope.COMPANIES_WRITE,
+    ApiKeyScope.CERTIFICATES_WRITE,
+    ApiKeyScope.SEQUENCES_READ,
+    ApiKeyScope.AUDIT_READ,
+  ],
+  // Issues invoices
+  [UserRole.CASHIER]: [
+    ApiKeyScope.INVOICES_READ,
+    ApiKeyScope.INVOICES_WRITE,
+    ApiKeyScope.COMPANIES_READ,
+    ApiKeyScope.SEQUENCES_READ,
+  ],
+  [UserRole.READ_ONLY]: [
+    ApiKeyScope.INVOICES_READ,
+    ApiKeyScope.COMPANIES_READ,
+    ApiKeyScope.SEQUENCES_READ,
+  ],
+};
+
+export function hasScopes(granted: ApiKeyScope[], required: ApiKeyScope[]): boolean {
+  return granted.includes(ApiKeyScope.FULL_ACCESS)
+    || required.every((scope) => granted.includes(scope));
+}
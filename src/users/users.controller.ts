@@ -0,0 +1,93 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { ApiKeyScope } from '@prisma/client';
+import { UsersService } from './users.service';
+import { InviteUserDto, UpdateUserDto } from './dto/user.dto';
+import { ApiKeyGuard } from '../common/guards/api-key.guard';
+import { RequireScopes } from '../common/decorators/scopes.decorator';
+import { CurrentTenant, RequestTenant } from '../common/decorators/tenant.decorator';
+
+@ApiTags('users')
+@Controller('users')
+@UseGuards(ApiKeyGuard)
+@ApiBearerAuth('api-key')
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  @Get('me')
+  @ApiOperation({ summary: 'Usuario actual con los permisos de su rol' })
+  async me(@CurrentTenant() tenant: RequestTenant) {
+    return this.usersService.me(tenant);
+  }
+
+  @Get()
+  @RequireScopes(ApiKeyScope.USERS_MANAGE)
+  @ApiOperation({ summary: 'Listar usuarios de la cuenta' })
+  async findAll(@CurrentTenant() tenant: RequestTenant) {
+    return this.usersService.findAll(tenant.id);
+  }
+
+  @Post('invitations')
+  @RequireScopes(ApiKeyScope.USERS_MANAGE)
+  @ApiOperation({
+    summary: 'Invitar usuario (devuelve el enlace de invitación una sola vez)',
+    description: 'No se envía correo: quien invita debe hacer llegar inviteUrl a la persona invitada (válido 7 días)',
+  })
+  async invite(
+    @CurrentTenant() tenant: RequestTenant,
+    @Body() dto: InviteUserDto,
+  ) {
+    return this.usersService.invite(tenant, dto);
+  }
+
+  @Get('invitations')
+  @RequireScopes(ApiKeyScope.USERS_MANAGE)
+  @ApiOperation({ summary: 'Invitaciones pendientes' })
+  async listInvitations(@CurrentTenant() tenant: RequestTenant) {
+    return this.usersService.listInvitations(tenant.id);
+  }
+
+  @Delete('invitations/:id')
+  @RequireScopes(ApiKeyScope.USERS_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revocar invitación' })
+  async revokeInvitation(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('id') id: string,
+  ) {
+    return this.usersService.revokeInvitation(tenant, id);
+  }
+
+  @Patch(':id')
+  @RequireScopes(ApiKeyScope.USERS_MANAGE)
+  @ApiOperation({ summary: 'Cambiar rol o activar/desactivar usuario' })
+  async update(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('id') id: string,
+    @Body() dto: UpdateUserDto,
+  ) {
+    return this.usersService.update(tenant, id, dto);
+  }
+
+  @Delete(':id')
+  @RequireScopes(ApiKeyScope.USERS_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Eliminar usuario' })
+  async remove(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('id') id: string,
+  ) {
+    return this.usersService.remove(tenant, id);
+  }
+}
@@ -0,0 +1,217 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  ForbiddenException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { hashInvitationToken } from '../auth/auth.service';
+import { RequestTenant } from '../common/decorators/tenant.decorator';
+import { AuditService } from '../audit/audit.service';
+import { InviteUserDto, UpdateUserDto } from './dto/user.dto';
+import { ROLE_SCOPES } from './user-roles';
+
+/** Days an invitation link stays valid */
+const INVITATION_TTL_DAYS = 7;
+
+const USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  isActive: true,
+  lastLoginAt: true,
+  createdAt: true,
+} as const;
+
+@Injectable()
+export class UsersService {
+  private readonly logger = new Logger(UsersService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async findAll(tenantId: string) {
+    return this.prisma.user.findMany({
+      where: { tenantId },
+      select: USER_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Current dashboard user with the scopes of their role
+   */
+  async me(tenant: RequestTenant) {
+    if (!tenant.userId) {
+      throw new BadRequestException('Disponible solo para sesiones de usuario (no API keys)');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: tenant.userId },
+      select: USER_SELECT,
+    });
+    if (!user) throw new NotFoundException('Usuario no encontrado');
+
+    return { ...user, scopes: ROLE_SCOPES[user.role] };
+  }
+
+  /**
+   * Invite a user by email. No email is sent: the invitation link (with its
+   * token) is returned once and the inviter delivers it. Only the token's
+   * hash is stored.
+   */
+  async invite(tenant: RequestTenant, dto: InviteUserDto) {
+    this.assertCanAssign(tenant, dto.role);
+    const email = dto.email.toLowerCase();
+
+    const existing = await this.prisma.user.findUnique({ where: { email } });
+    if (existing) {
+      throw new ConflictException(
+        existing.tenantId === tenant.id
+          ? 'Este email ya es usuario de la cuenta'
+          : 'Este email ya pertenece a otra cuenta',
+      );
+    }
+
+    // A new invitation replaces any pending one for the same email
+    await this.prisma.userInvitation.updateMany({
+      where: { tenantId: tenant.id, email, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const invitation = await this.prisma.userInvitation.create({
+      data: {
+        tenantId: tenant.id,
+        email,
+        role: dto.role,
+        tokenHash: hashInvitationToken(token),
+        invitedById: tenant.userId,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+      },
+    });
+
+    await this.auditService.record(tenant.id, 'user_invitation', invitation.id, 'invited', { email, role: dto.role });
+    this.logger.log(`User invited: ${email} (${dto.role}) → tenant ${tenant.id}`);
+
+    const dashboardUrl = process.env.DASHBOARD_URL || 'http://localhost:5173';
+
+    return {
+      id: invitation.id,
+      email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+      token, // Only shown once!
+      inviteUrl: `${dashboardUrl}/invite/${token}`,
+      note: '⚠️ Envía este enlace al usuario. No se mostrará de nuevo.',
+    };
+  }
+
+  async listInvitations(tenantId: string) {
+    return this.prisma.userInvitation.findMany({
+      where: { tenantId, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        expiresAt: true,
+        createdAt: true,
+        invitedBy: { select: { email: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revokeInvitation(tenant: RequestTenant, id: string) {
+    const invitation = await this.prisma.userInvitation.findFirst({
+      where: { id, tenantId: tenant.id, acceptedAt: null, revokedAt: null },
+    });
+    if (!invitation) throw new NotFoundException('Invitación no encontrada');
+
+    await this.prisma.userInvitation.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+    await this.auditService.record(tenant.id, 'user_invitation', id, 'revoked', { email: invitation.email });
+
+    return { message: 'Invitación revocada' };
+  }
+
+  /**
+   * Change a user's role or access. Only owners manage owners, nobody
+   * changes their own user, and the account always keeps an active owner.
+   */
+  async update(tenant: RequestTenant, id: string, dto: UpdateUserDto) {
+    const user = await this.getUser(tenant.id, id);
+
+    if (user.id === tenant.userId) {
+      throw new ForbiddenException('No puede cambiar su propio rol o acceso');
+    }
+    if (user.role === UserRole.OWNER) this.assertCanAssign(tenant, UserRole.OWNER);
+    if (dto.role) this.assertCanAssign(tenant, dto.role);
+
+    const losesOwner = user.role === UserRole.OWNER && user.isActive
+      && ((dto.role && dto.role !== UserRole.OWNER) || dto.isActive === false);
+    if (losesOwner) await this.assertAnotherOwner(tenant.id, user.id);
+
+    const updated = await this.prisma.user.update({
+      where: { id },
+      data: { role: dto.role, isActive: dto.isActive },
+      select: USER_SELECT,
+    });
+
+    await this.auditService.record(tenant.id, 'user', id, 'updated', {
+      email: user.email,
+      ...(dto.role && dto.role !== user.role ? { role: { from: user.role, to: dto.role } } : {}),
+      ...(dto.isActive !== undefined && dto.isActive !== user.isActive ? { isActive: dto.isActive } : {}),
+    });
+
+    return updated;
+  }
+
+  async remove(tenant: RequestTenant, id: string) {
+    const user = await this.getUser(tenant.id, id);
+
+    if (user.id === tenant.userId) {
+      throw new ForbiddenException('No puede eliminar su propio usuario');
+    }
+    if (user.role === UserRole.OWNER) {
+      this.assertCanAssign(tenant, UserRole.OWNER);
+      await this.assertAnotherOwner(tenant.id, user.id);
+    }
+
+    await this.prisma.user.delete({ where: { id } });
+    await this.auditService.record(tenant.id, 'user', id, 'deleted', { email: user.email, role: user.role });
+
+    return { message: 'Usuario eliminado' };
+  }
+
+  private async getUser(tenantId: string, id: string) {
+    const user = await this.prisma.user.findFirst({ where: { id, tenantId } });
+    if (!user) throw new NotFoundException('Usuario no encontrado');
+    return user;
+  }
+
+  /** Only owners grant, change or remove the OWNER role */
+  private assertCanAssign(tenant: RequestTenant, role: UserRole) {
+    if (role === UserRole.OWNER && tenant.role !== UserRole.OWNER) {
+      throw new ForbiddenException('Solo un OWNER puede gestionar propietarios');
+    }
+  }
+
+  private async assertAnotherOwner(tenantId: string, excludeUserId: string) {
+    const owners = await this.prisma.user.count({
+      where: { tenantId, role: UserRole.OWNER, isActive: true, id: { not: excludeUserId } },
+    });
+    if (owners === 0) {
+      throw new BadRequestException('La cuenta debe conservar al menos un OWNER activo');
+    }
+  }
+}
@@ -6,11 +6,18 @@ import {
   IsUrl,
   IsOptional,
   IsBoolean,
+  IsInt,
+  IsIn,
+  IsDateString,
+  IsUUID,
+  Min,
+  Max,
   MinLength,
   MaxLength,
   ArrayMinSize,
 } from 'class-validator';
-import { WebhookEvent } from '@prisma/client';
+import { DgiiEnvironment, EcfType, WebhookEvent } from '@prisma/client';
+import { WEBHOOK_DELIVERY_STATUS_FILTERS, WebhookDeliveryStatusFilter } from '../webhook-delivery-status';
 
 export class CreateWebhookDto {
   @ApiProperty({
@@ -29,6 +36,47 @@ export class CreateWebhookDto {
   @ArrayMinSize(1)
   @IsEnum(WebhookEvent, { each: true })
   events: WebhookEvent[];
+
+  @ApiPropertyOptional({
+    description: 'Solo eventos de estas empresas (vacío = todas)',
+    type: [String],
+    example: ['uuid-empresa'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true, message: 'companyIds debe contener UUIDs' })
+  companyIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Solo eventos de empresas en estos ambientes DGII (vacío = todos)',
+    enum: DgiiEnvironment,
+    isArray: true,
+    example: ['PROD'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(DgiiEnvironment, { each: true })
+  dgiiEnvs?: DgiiEnvironment[];
+
+  @ApiPropertyOptional({
+    description: 'Solo eventos de estos tipos de e-CF (vacío = todos; no aplica a eventos sin tipo)',
+    enum: EcfType,
+    isArray: true,
+    example: ['E31', 'E34'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(EcfType, { each: true })
+  ecfTypes?: EcfType[];
+  @ApiPropertyOptional({
+    description: 'Intentos fallidos consecutivos antes de desactivar el webhook (por defecto WEBHOOK_AUTO_DISABLE_THRESHOLD, 25)',
+    example: 25,
+  })
+  @IsOptional()
+  @IsInt({ message: 'failureThreshold debe ser un entero' })
+  @Min(1, { message: 'failureThreshold mínimo es 1' })
+  @Max(1000, { message: 'failureThreshold máximo es 1000' })
+  failureThreshold?: number;
 }
 
 export class UpdateWebhookDto {
@@ -43,8 +91,125 @@ export class UpdateWebhookDto {
   @IsEnum(WebhookEvent, { each: true })
   events?: WebhookEvent[];
 
+  @ApiPropertyOptional({
+    description: 'Solo eventos de estas empresas (vacío = todas)',
+    type: [String],
+    example: ['uuid-empresa'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true, message: 'companyIds debe contener UUIDs' })
+  companyIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Solo eventos de empresas en estos ambientes DGII (vacío = todos)',
+    enum: DgiiEnvironment,
+    isArray: true,
+    example: ['PROD'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(DgiiEnvironment, { each: true })
+  dgiiEnvs?: DgiiEnvironment[];
+
+  @ApiPropertyOptional({
+    description: 'Solo eventos de estos tipos de e-CF (vacío = todos; no aplica a eventos sin tipo)',
+    enum: EcfType,
+    isArray: true,
+    example: ['E31', 'E34'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(EcfType, { each: true })
+  ecfTypes?: EcfType[];
+
   @ApiPropertyOptional({ description: 'Activar/desactivar' })
   @IsOptional()
   @IsBoolean()
   isActive?: boolean;
+  @ApiPropertyOptional({
+    description: 'Intentos fallidos consecutivos antes de desactivar el webhook (por defecto WEBHOOK_AUTO_DISABLE_THRESHOLD, 25)',
+    example: 25,
+  })
+  @IsOptional()
+  @IsInt({ message: 'failureThreshold debe ser un entero' })
+  @Min(1, { message: 'failureThreshold mínimo es 1' })
+  @Max(1000, { message: 'failureThreshold máximo es 1000' })
+  failureThreshold?: number;
+}
+
+export class RotateWebhookSecretDto {
+  @ApiPropertyOptional({
+    description: 'Horas durante las que el secret anterior sigue firmando (0 = invalidarlo ya)',
+    example: 24,
+    default: 24,
+  })
+  @IsOptional()
+  @IsInt({ message: 'graceHours debe ser un entero' })
+  @Min(0, { message: 'graceHours mínimo es 0' })
+  @Max(168, { message: 'graceHours máximo es 168 (7 días)' })
+  graceHours?: number;
+}
+
+export class ListWebhookDeliveriesQueryDto {
+  @ApiPropertyOptional({ enum: WebhookEvent })
+  @IsOptional()
+  @IsEnum(WebhookEvent)
+  event?: WebhookEvent;
+
+  @ApiPropertyOptional({
+    description: 'FAILED = aún sin entregar con al menos un intento fallido (RETRYING + DEAD_LETTER)',
+    enum: WEBHOOK_DELIVERY_STATUS_FILTERS,
+  })
+  @IsOptional()
+  @IsIn(WEBHOOK_DELIVERY_STATUS_FILTERS)
+  status?: WebhookDeliveryStatusFilter;
+
+  @ApiPropertyOptional({ description: 'Desde (ISO 8601)', example: '2026-10-01T00:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Hasta (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ default: 20, maximum: 100 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class ReplayWebhookDeliveriesDto {
+  @ApiProperty({ description: 'Desde (ISO 8601, fecha del evento)', example: '2026-10-01T00:00:00Z' })
+  @IsDateString({}, { message: 'dateFrom debe ser una fecha ISO 8601' })
+  dateFrom: string;
+
+  @ApiProperty({ description: 'Hasta (ISO 8601, fecha del evento)', example: '2026-10-02T00:00:00Z' })
+  @IsDateString({}, { message: 'dateTo debe ser una fecha ISO 8601' })
+  dateTo: string;
+
+  @ApiPropertyOptional({ description: 'Solo este evento', enum: WebhookEvent })
+  @IsOptional()
+  @IsEnum(WebhookEvent)
+  event?: WebhookEvent;
+}
+
+export class EnableWebhookDto {
+  @ApiPropertyOptional({
+    description: 'Reenviar las entregas fallidas desde el último éxito (reintentos pendientes y dead letters)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  replayBacklog?: boolean;
 }
@@ -0,0 +1,37 @@
+import { Prisma, WebhookDelivery } from '@prisma/client';
+
+/**
+ * Delivery state, derived from the delivery row:
+ * - PENDING: not attempted yet
+ * - RETRYING: failed at least once, next retry scheduled
+ * - DELIVERED: receiver answered 2xx
+ * - DEAD_LETTER: failed `maxAttempts` times; only a manual replay resends it
+ */
+export type WebhookDeliveryStatus = 'PENDING' | 'RETRYING' | 'DELIVERED' | 'DEAD_LETTER';
+
+/** List filter values; FAILED = RETRYING + DEAD_LETTER */
+export const WEBHOOK_DELIVERY_STATUS_FILTERS = ['PENDING', 'RETRYING', 'DELIVERED', 'DEAD_LETTER', 'FAILED'] as const;
+export type WebhookDeliveryStatusFilter = typeof WEBHOOK_DELIVERY_STATUS_FILTERS[number];
+
+export function getWebhookDeliveryStatus(
+  delivery: Pick<WebhookDelivery, 'deliveredAt' | 'deadLetteredAt' | 'attempts'>,
+): WebhookDeliveryStatus {
+  if (delivery.deliveredAt) return 'DELIVERED';
+  if (delivery.deadLetteredAt) return 'DEAD_LETTER';
+  return delivery.attempts > 0 ? 'RETRYING' : 'PENDING';
+}
+
+export function webhookDeliveryStatusWhere(status: WebhookDeliveryStatusFilter): Prisma.WebhookDeliveryWhereInput {
+  switch (status) {
+    case 'DELIVERED':
+      return { deliveredAt: { not: null } };
+    case 'DEAD_LETTER':
+      return { deliveredAt: null, deadLetteredAt: { not: null } };
+    case 'RETRYING':
+      return { deliveredAt: null, deadLetteredAt: null, attempts: { gt: 0 } };
+    case 'PENDING':
+      return { deliveredAt: null, deadLetteredAt: null, attempts: 0 };
+    case 'FAILED':
+      return { deliveredAt: null, attempts: { gt: 0 } };
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Webhook Events Tests
+ *
+ * Invoice event data contract and subscription filters.
+ */
+import { DgiiEnvironment, EcfType, Invoice, InvoiceStatus, Prisma } from '@prisma/client';
+import { buildInvoiceEventData, matchesSubscriptionFilters } from './webhook-events';
+
+const COMPANY_ID = '00000000-0000-0000-0000-000000000001';
+
+describe('buildInvoiceEventData', () => {
+  const invoice = {
+    id: 'inv-1',
+    companyId: COMPANY_ID,
+    encf: 'E310000000001',
+    ecfType: EcfType.E31,
+    dgiiEnv: DgiiEnvironment.CERT,
+    status: InvoiceStatus.ACCEPTED,
+    trackId: 'track-1',
+    securityCode: 'AbC123',
+    totalAmount: new Prisma.Decimal('1180.00'),
+    currency: 'DOP',
+    buyerRnc: '131793916',
+    buyerName: 'Cliente SRL',
+    dgiiMessage: null,
+    idempotencyKey: 'pedido-42',
+    metadata: { pedido: 42, _originalDto: { items: [] } },
+  } as unknown as Invoice;
+
+  it('exposes the documented fields with numeric amounts and the previous status', () => {
+    expect(buildInvoiceEventData(invoice, InvoiceStatus.PROCESSING)).toEqual({
+      invoiceId: 'inv-1',
+      companyId: COMPANY_ID,
+      encf: 'E310000000001',
+      ecfType: 'E31',
+      dgiiEnv: 'CERT',
+      status: 'ACCEPTED',
+      previousStatus: 'PROCESSING',
+      trackId: 'track-1',
+      securityCode: 'AbC123',
+      totalAmount: 1180,
+      currency: 'DOP',
+      buyerRnc: '131793916',
+      buyerName: 'Cliente SRL',
+      dgiiMessage: null,
+      idempotencyKey: 'pedido-42',
+      metadata: { pedido: 42 },
+    });
+  });
+
+  it('leaves previousStatus null for INVOICE_CREATED', () => {
+    expect(buildInvoiceEventData(invoice).previousStatus).toBeNull();
+  });
+});
+
+describe('matchesSubscriptionFilters', () => {
+  const noFilters = { companyIds: [], dgiiEnvs: [], ecfTypes: [] };
+
+  it('accepts everything without filters', () => {
+    expect(matchesSubscriptionFilters(noFilters, { companyId: COMPANY_ID, ecfType: EcfType.E32 })).toBe(true);
+  });
+
+  it('requires every filtered attribute to match', () => {
+    const filters = { ...noFilters, companyIds: [COMPANY_ID], ecfTypes: [EcfType.E31] };
+
+    expect(matchesSubscriptionFilters(filters, { companyId: COMPANY_ID, ecfType: EcfType.E31 })).toBe(true);
+    expect(matchesSubscriptionFilters(filters, { companyId: COMPANY_ID, ecfType: EcfType.E34 })).toBe(false);
+    expect(matchesSubscriptionFilters(filters, { companyId: 'other', ecfType: EcfType.E31 })).toBe(false);
+  });
+
+  it('ignores filters on attributes the event does not carry', () => {
+    const filters = { ...noFilters, ecfTypes: [EcfType.E31], dgiiEnvs: [DgiiEnvironment.PROD] };
+
+    expect(matchesSubscriptionFilters(filters, { companyId: COMPANY_ID })).toBe(true);
+    expect(matchesSubscriptionFilters(filters, { dgiiEnv: DgiiEnvironment.DEV })).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { DgiiEnvironment, EcfType, Invoice, InvoiceStatus, WebhookEvent, WebhookSubscription } from '@prisma/client';
+
+/**
+ * Webhook payload contract.
+ *
+ * Every delivery body is a WebhookEnvelope. `version` changes only on
+ * breaking changes to the envelope or to an event's `data` shape; adding
+ * fields is not a breaking change, so receivers must ignore unknown ones.
+ */
+export const WEBHOOK_PAYLOAD_VERSION = 1;
+
+export interface WebhookEnvelope<T = Record<string, any>> {
+  /** Unique event id — use it to de-duplicate retried deliveries */
+  id: string;
+  event: WebhookEvent;
+  version: number;
+  /** ISO timestamp of when the event happened */
+  createdAt: string;
+  data: T;
+}
+
+/** Invoice status → event fired when an invoice enters that status */
+export const INVOICE_STATUS_EVENTS: Partial<Record<InvoiceStatus, WebhookEvent>> = {
+  [InvoiceStatus.ACCEPTED]: WebhookEvent.INVOICE_ACCEPTED,
+  [InvoiceStatus.REJECTED]: WebhookEvent.INVOICE_REJECTED,
+  [InvoiceStatus.CONDITIONAL]: WebhookEvent.INVOICE_CONDITIONAL,
+  [InvoiceStatus.VOIDED]: WebhookEvent.INVOICE_VOIDED,
+};
+
+/** `data` of every INVOICE_* event */
+export interface InvoiceEventData {
+  invoiceId: string;
+  companyId: string;
+  encf: string | null;
+  ecfType: string;
+  /** DGII environment the invoice was issued in */
+  dgiiEnv: DgiiEnvironment;
+  status: InvoiceStatus;
+  previousStatus: InvoiceStatus | null;
+  trackId: string | null;
+  securityCode: string | null;
+  totalAmount: number;
+  currency: string;
+  buyerRnc: string | null;
+  buyerName: string | null;
+  dgiiMessage: string | null;
+  idempotencyKey: string | null;
+  /** Custom metadata sent when the invoice was created */
+  metadata: Record<string, any>;
+}
+
+export function buildInvoiceEventData(
+  invoice: Invoice,
+  previousStatus: InvoiceStatus | null = null,
+): InvoiceEventData {
+  // Internal keys (_originalDto, ...) are not part of the contract
+  const metadata = Object.fromEntries(
+    Object.entries((invoice.metadata as Record<string, any>) || {})
+      .filter(([key]) => !key.startsWith('_')),
+  );
+
+  return {
+    invoiceId: invoice.id,
+    companyId: invoice.companyId,
+    encf: invoice.encf,
+    ecfType: invoice.ecfType,
+    dgiiEnv: invoice.dgiiEnv,
+    status: invoice.status,
+    previousStatus,
+    trackId: invoice.trackId,
+    securityCode: invoice.securityCode,
+    totalAmount: Number(invoice.totalAmount),
+    currency: invoice.currency,
+    buyerRnc: invoice.buyerRnc,
+    buyerName: invoice.buyerName,
+    dgiiMessage: invoice.dgiiMessage,
+    idempotencyKey: invoice.idempotencyKey,
+    metadata,
+  };
+}
+
+/**
+ * What an event is about, for subscription filters. Taken from the event
+ * data (`companyId`, `ecfType`) plus the company's DGII environment.
+ */
+export interface WebhookEventScope {
+  companyId?: string;
+  dgiiEnv?: DgiiEnvironment;
+  ecfType?: EcfType;
+}
+
+/**
+ * Whether a subscription's filters accept an event. An empty filter accepts
+ * everything, and a filter on an attribute the event doesn't carry (e.g.
+ * ecfTypes on CERTIFICATE_EXPIRING) is ignored.
+ */
+export function matchesSubscriptionFilters(
+  subscription: Pick<WebhookSubscription, 'companyIds' | 'dgiiEnvs' | 'ecfTypes'>,
+  scope: WebhookEventScope,
+): boolean {
+  const accepts = <T>(filter: T[], value?: T) =>
+    filter.length === 0 || value === undefined || filter.includes(value);
+
+  return accepts(subscription.companyIds, scope.companyId)
+    && accepts(subscription.dgiiEnvs, scope.dgiiEnv)
+    && accepts(subscription.ecfTypes, scope.ecfType);
+}
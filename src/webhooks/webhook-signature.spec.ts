@@ -0,0 +1,65 @@
+/**
+ * Webhook Signature Tests
+ *
+ * Reference signing/verification scheme documented for webhook receivers.
+ */
+import {
+  buildWebhookSignatureHeader,
+  computeWebhookSignature,
+  verifyWebhookSignature,
+} from './webhook-signature';
+
+const SECRET = 'whsec_current';
+const OLD_SECRET = 'whsec_previous';
+const NOW = 1_800_000_000;
+const BODY = JSON.stringify({ id: 'evt_1', event: 'INVOICE_ACCEPTED', version: 1, data: {} });
+
+describe('verifyWebhookSignature', () => {
+  it('accepts a signature computed over `${timestamp}.${body}`', () => {
+    const signature = `sha256=${computeWebhookSignature(SECRET, NOW, BODY)}`;
+    expect(verifyWebhookSignature({
+      body: Buffer.from(BODY), signature, timestamp: String(NOW), secret: SECRET, now: NOW,
+    })).toEqual({ valid: true });
+  });
+
+  it('accepts either secret while a rotation grace window sends two signatures', () => {
+    const signature = buildWebhookSignatureHeader([SECRET, OLD_SECRET], NOW, BODY);
+    expect(signature.split(', ')).toHaveLength(2);
+
+    for (const secret of [SECRET, OLD_SECRET]) {
+      expect(verifyWebhookSignature({
+        body: BODY, signature, timestamp: String(NOW), secret, now: NOW,
+      }).valid).toBe(true);
+    }
+  });
+
+  it('rejects timestamps outside the tolerance window', () => {
+    const timestamp = NOW - 301;
+    const signature = buildWebhookSignatureHeader([SECRET], timestamp, BODY);
+    expect(verifyWebhookSignature({
+      body: BODY, signature, timestamp: String(timestamp), secret: SECRET, now: NOW,
+    })).toEqual({ valid: false, reason: 'TIMESTAMP_OUT_OF_TOLERANCE' });
+
+    expect(verifyWebhookSignature({
+      body: BODY, signature, timestamp: String(timestamp), secret: SECRET, now: NOW, toleranceSeconds: 600,
+    }).valid).toBe(true);
+  });
+
+  it('rejects a tampered body or a wrong secret', () => {
+    const signature = buildWebhookSignatureHeader([SECRET], NOW, BODY);
+    expect(verifyWebhookSignature({
+      body: BODY.replace('evt_1', 'evt_2'), signature, timestamp: String(NOW), secret: SECRET, now: NOW,
+    })).toEqual({ valid: false, reason: 'SIGNATURE_MISMATCH' });
+    expect(verifyWebhookSignature({
+      body: BODY, signature, timestamp: String(NOW), secret: 'whsec_other', now: NOW,
+    })).toEqual({ valid: false, reason: 'SIGNATURE_MISMATCH' });
+  });
+
+  it('rejects missing or malformed headers', () => {
+    expect(verifyWebhookSignature({ body: BODY, secret: SECRET, now: NOW }))
+      .toEqual({ valid: false, reason: 'MISSING_HEADERS' });
+    expect(verifyWebhookSignature({
+      body: BODY, signature: 'sha256=abc', timestamp: 'yesterday', secret: SECRET, now: NOW,
+    })).toEqual({ valid: false, reason: 'MISSING_HEADERS' });
+  });
+});
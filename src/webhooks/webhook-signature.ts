@@ -0,0 +1,84 @@
+import * as crypto from 'crypto';
+
+/**
+ * Webhook signature scheme — reference implementation.
+ *
+ * Every delivery carries:
+ *   X-ECF-Timestamp: <unix seconds>
+ *   X-ECF-Signature: sha256=<hex>[, sha256=<hex>]
+ *
+ * where <hex> = HMAC-SHA256(secret, `${timestamp}.${rawBody}`) and `secret`
+ * is the whsec_... value shown when the subscription was created or its
+ * secret rotated. During a rotation grace window the header carries one
+ * signature per valid secret; a receiver accepts the request if any matches.
+ *
+ * Only depends on Node's crypto so receivers can copy this file as is.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-ecf-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-ecf-timestamp';
+
+/** Max age (and clock skew) accepted by verifyWebhookSignature */
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export function computeWebhookSignature(secret: string, timestamp: number | string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/** X-ECF-Signature value: one `sha256=` entry per secret */
+export function buildWebhookSignatureHeader(secrets: string[], timestamp: number, body: string): string {
+  return secrets.map((secret) => `sha256=${computeWebhookSignature(secret, timestamp, body)}`).join(', ');
+}
+
+export interface VerifyWebhookSignatureOptions {
+  /** Raw request body, exactly as received (before JSON parsing) */
+  body: string | Buffer;
+  /** X-ECF-Signature header */
+  signature?: string | null;
+  /** X-ECF-Timestamp header */
+  timestamp?: string | null;
+  /** Secret, or several while you are rotating on your side */
+  secret: string | string[];
+  toleranceSeconds?: number;
+  /** Current unix time in seconds (for tests) */
+  now?: number;
+}
+
+export type WebhookVerificationResult =
+  | { valid: true }
+  | { valid: false; reason: 'MISSING_HEADERS' | 'TIMESTAMP_OUT_OF_TOLERANCE' | 'SIGNATURE_MISMATCH' };
+
+/**
+ * Verify a delivery. Rejects timestamps older (or newer) than the tolerance
+ * window to prevent replays, and compares signatures in constant time.
+ */
+export function verifyWebhookSignature(options: VerifyWebhookSignatureOptions): WebhookVerificationResult {
+  const { signature, timestamp } = options;
+  if (!signature || !timestamp || !/^\d+$/.test(timestamp)) {
+    return { valid: false, reason: 'MISSING_HEADERS' };
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+  if (Math.abs(now - Number(timestamp)) > tolerance) {
+    return { valid: false, reason: 'TIMESTAMP_OUT_OF_TOLERANCE' };
+  }
+
+  const body = Buffer.isBuffer(options.body) ? options.body.toString('utf8') : options.body;
+  const received = signature
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part.startsWith('sha256='))
+    .map((part) => Buffer.from(part.substring('sha256='.length), 'hex'));
+
+  const secrets = Array.isArray(options.secret) ? options.secret : [options.secret];
+  for (const secret of secrets) {
+    const expected = Buffer.from(computeWebhookSignature(secret, timestamp, body), 'hex');
+    if (received.some((candidate) =>
+      candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected))) {
+      return { valid: true };
+    }
+  }
+
+  return { valid: false, reason: 'SIGNATURE_MISMATCH' };
+}
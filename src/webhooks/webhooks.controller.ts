@@ -6,11 +6,21 @@ import {
   Delete,
   Body,
   Param,
+  Query,
+  HttpCode,
+  HttpStatus,
   UseGuards,
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
 import { WebhooksService } from './webhooks.service';
-import { CreateWebhookDto, UpdateWebhookDto } from './dto/webhook.dto';
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  RotateWebhookSecretDto,
+  ListWebhookDeliveriesQueryDto,
+  ReplayWebhookDeliveriesDto,
+  EnableWebhookDto,
+} from './dto/webhook.dto';
 import { ApiKeyGuard } from '../common/guards/api-key.guard';
 import { RequireScopes } from '../common/decorators/scopes.decorator';
 import { CurrentTenant, RequestTenant } from '../common/decorators/tenant.decorator';
@@ -40,6 +50,30 @@ export class WebhooksController {
     return this.webhooksService.findAll(tenant.id);
   }
 
+  @Get('deliveries/:deliveryId')
+  @RequireScopes(ApiKeyScope.WEBHOOKS_MANAGE)
+  @ApiOperation({ summary: 'Ver una entrega: request enviado y respuesta del receptor' })
+  async findDelivery(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    return this.webhooksService.findDelivery(tenant.id, deliveryId);
+  }
+
+  @Post('deliveries/:deliveryId/replay')
+  @RequireScopes(ApiKeyScope.WEBHOOKS_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reenviar una entrega',
+    description: 'Crea una nueva entrega con el mismo evento (mismo id) y la envía de inmediato.',
+  })
+  async replayDelivery(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    return this.webhooksService.replayDelivery(tenant.id, deliveryId);
+  }
+
   @Get(':id')
   @RequireScopes(ApiKeyScope.WEBHOOKS_MANAGE)
   @ApiOperation({ summary: 'Ver webhook con historial de entregas' })
@@ -50,6 +84,32 @@ export class WebhooksController {
     return this.webhooksService.findOne(tenant.id, id);
   }
 
+  @Get(':id/deliveries')
+  @RequireScopes(ApiKeyScope.WEBHOOKS_MANAGE)
+  @ApiOperation({ summary: 'Historial de entregas con filtros (evento, estado, fechas)' })
+  async listDeliveries(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('id') id: string,
+    @Query() query: ListWebhookDeliveriesQueryDto,
+  ) {
+    return this.webhooksService.listDeliveries(tenant.id, id, query);
+  }
+
+  @Post(':id/deliveries/replay')
+  @RequireScopes(ApiKeyScope.WEBHOOKS_MANAGE)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Reenviar entregas en dead letter de un rango de fechas',
+    description: 'Hasta 200 por llamada; las ya reenviadas se omiten. El envío ocurre en segundo plano.',
+  })
+  async replayDeliveries(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('id') id: string,
+    @Body() dto: ReplayWebhookDeliveriesDto,
+  ) {
+    return this.webhooksService.replayDeliveries(tenant.id, id, dto);
+  }
+
   @Patch(':id')
   @RequireScopes(ApiKeyScope.WEBHOOKS_MANAGE)
   @ApiOperation({ summary: 'Actualizar webhook' })
@@ -61,6 +121,39 @@ export class WebhooksController {
     return this.webhooksService.update(tenant.id, id, dto);
   }
 
+  @Post(':id/enable')
+  @RequireScopes(ApiKeyScope.WEBHOOKS_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reactivar webhook',
+    description:
+      'Reactiva un webhook desactivado (p. ej. automáticamente por fallas consecutivas). ' +
+      'Con replayBacklog reenvía las entregas fallidas desde el último éxito.',
+  })
+  async enable(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('id') id: string,
+    @Body() dto: EnableWebhookDto,
+  ) {
+    return this.webhooksService.enable(tenant.id, id, dto);
+  }
+
+  @Post(':id/rotate-secret')
+  @RequireScopes(ApiKeyScope.WEBHOOKS_MANAGE)
+  @ApiOperation({
+    summary: 'Rotar secret de firma',
+    description:
+      'Genera un nuevo secret (se muestra una sola vez). Durante graceHours cada entrega ' +
+      'incluye en X-ECF-Signature la firma con el secret nuevo y con el anterior.',
+  })
+  async rotateSecret(
+    @CurrentTenant() tenant: RequestTenant,
+    @Param('id') id: string,
+    @Body() dto: RotateWebhookSecretDto,
+  ) {
+    return this.webhooksService.rotateSecret(tenant.id, id, dto);
+  }
+
   @Delete(':id')
   @RequireScopes(ApiKeyScope.WEBHOOKS_MANAGE)
   @ApiOperation({ summary: 'Eliminar webhook' })
@@ -73,9 +166,9 @@ export class WebhooksController {
 
   @Post('retry')
   @RequireScopes(ApiKeyScope.WEBHOOKS_MANAGE)
-  @ApiOperation({ summary: 'Reintentar entregas fallidas' })
+  @ApiOperation({ summary: 'Reintentar entregas fallidas cuyo próximo intento ya venció' })
   async retry(@CurrentTenant() tenant: RequestTenant) {
-    const count = await this.webhooksService.retryFailed();
+    const count = await this.webhooksService.retryFailed(tenant.id);
     return { retriedCount: count };
   }
 }
@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { WebhooksService } from './webhooks.service';
 import { WebhooksController } from './webhooks.controller';
+import { KeyManagementModule } from '../key-management/key-management.module';
 
 @Module({
+  imports: [KeyManagementModule],
   controllers: [WebhooksController],
   providers: [WebhooksService],
   exports: [WebhooksService],
@@ -0,0 +1,369 @@
+/**
+ * Webhooks Service Tests
+ *
+ * Event envelope, delivery log and replays, subscription health
+ * (auto-disable and re-enable) against a mocked Prisma client and receiver
+ * (global fetch).
+ */
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InvoiceStatus, WebhookEvent, WebhookSubscription } from '@prisma/client';
+import { WEBHOOK_PAYLOAD_VERSION } from './webhook-events';
+import { WebhooksService } from './webhooks.service';
+
+const FAILING = new Response('error', { status: 500 });
+
+function subscription(overrides: Partial<WebhookSubscription> = {}): WebhookSubscription {
+  return {
+    id: 'wh-1',
+    tenantId: 'tenant-1',
+    url: 'https://receptor.example.do/hooks',
+    events: [WebhookEvent.INVOICE_ACCEPTED],
+    companyIds: [],
+    dgiiEnvs: [],
+    ecfTypes: [],
+    secretHash: 'a'.repeat(64),
+    secretEncrypted: null,
+    previousSecretEncrypted: null,
+    previousSecretExpiresAt: null,
+    secretRotatedAt: null,
+    keyProvider: null,
+    kmsKeyId: null,
+    keyVersion: null,
+    encryptedDataKey: null,
+    isActive: true,
+    consecutiveFailures: 0,
+    failureThreshold: null,
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    disabledAt: null,
+    disabledReason: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function delivery(sub: WebhookSubscription, overrides: Record<string, any> = {}) {
+  return {
+    id: 'del-1',
+    tenantId: sub.tenantId,
+    subscriptionId: sub.id,
+    event: WebhookEvent.INVOICE_ACCEPTED,
+    payload: { id: 'evt-1', event: WebhookEvent.INVOICE_ACCEPTED, version: 1, data: {} },
+    attempts: 1,
+    maxAttempts: 5,
+    subscription: sub,
+    ...overrides,
+  };
+}
+
+function setup(autoDisableThreshold = 3) {
+  const prisma = {
+    webhookSubscription: {
+      findMany: jest.fn(async (): Promise<WebhookSubscription[]> => []),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+    },
+    webhookDelivery: {
+      findMany: jest.fn(async (): Promise<any[]> => []),
+      findFirst: jest.fn(),
+      count: jest.fn(async () => 0),
+      findUnique: jest.fn(async () => ({ attempts: 1, maxAttempts: 5 })),
+      update: jest.fn(),
+      updateMany: jest.fn(async () => ({ count: 0 })),
+      create: jest.fn(async ({ data }: any) => ({ id: data.replayOfId ? `replay-of-${data.replayOfId}` : 'del-new', ...data })),
+    },
+  };
+  const auditService = { record: jest.fn() };
+  const config = new ConfigService({
+    nodeEnv: 'test',
+    webhooks: { autoDisableThreshold, secretKey: Buffer.alloc(32, 1).toString('base64') },
+  });
+  const service = new WebhooksService(prisma as any, {} as any, auditService as any, {} as any, config);
+
+  return { prisma, auditService, service };
+}
+
+describe('WebhooksService', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async () => FAILING.clone());
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('dispatch', () => {
+    it('sends one versioned envelope to every matching subscription', async () => {
+      const { prisma, service } = setup();
+      prisma.webhookSubscription.findMany.mockResolvedValue([
+        subscription({ id: 'wh-1' }),
+        subscription({ id: 'wh-2', url: 'https://erp.example.do/ecf' }),
+        subscription({ id: 'wh-3', companyIds: ['other-company'] }),
+      ]);
+      fetchMock.mockImplementation(async () => new Response('ok'));
+      const data = { invoiceId: 'inv-1', companyId: 'company-1', status: InvoiceStatus.ACCEPTED };
+
+      await service.dispatch('tenant-1', WebhookEvent.INVOICE_ACCEPTED, data);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const payloads = prisma.webhookDelivery.create.mock.calls
+        .map(([{ data }]: any) => [data.subscriptionId, data.payload]);
+      expect(payloads.map(([id]) => id)).toEqual(['wh-1', 'wh-2']);
+      const envelope = payloads[0][1];
+      expect(envelope).toEqual({
+        id: expect.stringMatching(/^[0-9a-f-]{36}$/),
+        event: WebhookEvent.INVOICE_ACCEPTED,
+        version: WEBHOOK_PAYLOAD_VERSION,
+        createdAt: expect.any(String),
+        data,
+      });
+      expect(payloads[1][1]).toBe(envelope);
+
+      const [, init] = fetchMock.mock.calls[0];
+      expect(JSON.parse(init.body)).toEqual(envelope);
+      expect(init.headers).toMatchObject({
+        'X-ECF-Event': WebhookEvent.INVOICE_ACCEPTED,
+        'X-ECF-Delivery-Id': 'del-new',
+        'X-ECF-Signature': expect.stringMatching(/^sha256=[0-9a-f]{64}$/),
+      });
+    });
+
+    it('fires no status event when the status did not change or has no event', async () => {
+      const { prisma, service } = setup();
+
+      const invoice = (status: InvoiceStatus) => ({ tenantId: 'tenant-1', status }) as any;
+
+      await service.dispatchInvoiceStatus(invoice(InvoiceStatus.ACCEPTED), InvoiceStatus.ACCEPTED);
+      await service.dispatchInvoiceStatus(invoice(InvoiceStatus.PROCESSING), InvoiceStatus.DRAFT);
+
+      expect(prisma.webhookSubscription.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delivery log', () => {
+    it('moves a delivery to dead letter on its last attempt', async () => {
+      const { prisma, service } = setup();
+      const sub = subscription();
+      prisma.webhookDelivery.findMany.mockResolvedValue([delivery(sub, { attempts: 4 })]);
+      prisma.webhookDelivery.findUnique.mockResolvedValue({ attempts: 4, maxAttempts: 5 });
+      prisma.webhookSubscription.update.mockResolvedValue({ ...sub, consecutiveFailures: 1 });
+
+      await service.retryFailed();
+
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'del-1' },
+        data: expect.objectContaining({
+          statusCode: 500,
+          responseBody: 'error',
+          attempts: 5,
+          nextRetryAt: null,
+          deadLetteredAt: expect.any(Date),
+          requestHeaders: expect.objectContaining({ 'X-ECF-Delivery-Id': 'del-1' }),
+        }),
+      });
+    });
+
+    it('filters by derived status and reports it per delivery', async () => {
+      const { prisma, service } = setup();
+      prisma.webhookSubscription.findFirst.mockResolvedValue(subscription());
+      prisma.webhookDelivery.findMany.mockResolvedValue([
+        { id: 'del-1', attempts: 5, deliveredAt: null, deadLetteredAt: new Date() },
+        { id: 'del-2', attempts: 2, deliveredAt: null, deadLetteredAt: null },
+      ]);
+      prisma.webhookDelivery.count.mockResolvedValue(2);
+
+      const result = await service.listDeliveries('tenant-1', 'wh-1', { status: 'FAILED' } as any);
+
+      expect(prisma.webhookDelivery.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { tenantId: 'tenant-1', subscriptionId: 'wh-1', deliveredAt: null, attempts: { gt: 0 } },
+      }));
+      expect(result.data.map((d: any) => [d.id, d.status])).toEqual([['del-1', 'DEAD_LETTER'], ['del-2', 'RETRYING']]);
+      expect(result.meta).toEqual({ total: 2, page: 1, limit: 20, totalPages: 1 });
+    });
+
+    it('replays a dead letter as a new delivery carrying the same envelope', async () => {
+      const { prisma, service } = setup();
+      const sub = subscription();
+      const original = delivery(sub, { attempts: 5, deliveredAt: null, deadLetteredAt: new Date() });
+      prisma.webhookDelivery.findFirst.mockResolvedValue(original);
+      const findDelivery = jest.spyOn(service, 'findDelivery').mockResolvedValue({ id: 'replay-of-del-1' } as any);
+      fetchMock.mockImplementation(async () => new Response('ok'));
+
+      const result = await service.replayDelivery('tenant-1', 'del-1');
+
+      expect(prisma.webhookDelivery.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ replayOfId: 'del-1', payload: original.payload, attempts: 0 }),
+      });
+      const [, init] = fetchMock.mock.calls[0];
+      expect(JSON.parse(init.body)).toEqual(original.payload);
+      expect(init.headers['X-ECF-Delivery-Id']).toBe('replay-of-del-1');
+      expect(findDelivery).toHaveBeenCalledWith('tenant-1', 'replay-of-del-1');
+      expect(result).toEqual({ id: 'replay-of-del-1' });
+    });
+
+    it('refuses to replay a delivery that still has retries scheduled', async () => {
+      const { prisma, service } = setup();
+      prisma.webhookDelivery.findFirst.mockResolvedValue(
+        delivery(subscription(), { attempts: 2, deliveredAt: null, deadLetteredAt: null }),
+      );
+
+      await expect(service.replayDelivery('tenant-1', 'del-1')).rejects.toThrow(
+        new BadRequestException('La entrega aún tiene reintentos programados'),
+      );
+      expect(prisma.webhookDelivery.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses replays while the subscription is disabled', async () => {
+      const { prisma, service } = setup();
+      prisma.webhookDelivery.findFirst.mockResolvedValue(
+        delivery(subscription({ isActive: false }), { attempts: 5, deliveredAt: null, deadLetteredAt: new Date() }),
+      );
+
+      await expect(service.replayDelivery('tenant-1', 'del-1')).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('replays the dead letters of a range that were not replayed yet', async () => {
+      const { prisma, service } = setup();
+      prisma.webhookSubscription.findFirst.mockResolvedValue(subscription());
+      prisma.webhookSubscription.findUnique.mockResolvedValue(subscription());
+      prisma.webhookDelivery.findMany.mockResolvedValue([delivery(subscription(), { id: 'dead-1' })]);
+      fetchMock.mockImplementation(async () => new Response('ok'));
+
+      const result = await service.replayDeliveries('tenant-1', 'wh-1', {
+        dateFrom: '2026-03-01T00:00:00Z',
+        dateTo: '2026-03-31T23:59:59Z',
+      } as any);
+
+      expect(prisma.webhookDelivery.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          subscriptionId: 'wh-1',
+          createdAt: { gte: new Date('2026-03-01T00:00:00Z'), lte: new Date('2026-03-31T23:59:59Z') },
+          deadLetteredAt: { not: null },
+          replays: { none: {} },
+        }),
+      }));
+      expect(result).toEqual({ replayedCount: 1, deliveryIds: ['replay-of-dead-1'], hasMore: false });
+    });
+
+    it('rejects a replay range that ends before it starts', async () => {
+      const { prisma, service } = setup();
+      prisma.webhookSubscription.findFirst.mockResolvedValue(subscription());
+
+      await expect(service.replayDeliveries('tenant-1', 'wh-1', {
+        dateFrom: '2026-03-31T00:00:00Z',
+        dateTo: '2026-03-01T00:00:00Z',
+      } as any)).rejects.toThrow(new BadRequestException('dateFrom debe ser anterior a dateTo'));
+    });
+  });
+
+  describe('auto-disable', () => {
+    it('disables the subscription at the configured threshold and audits it once', async () => {
+      const { prisma, auditService, service } = setup(3);
+      const sub = subscription({ consecutiveFailures: 2 });
+      prisma.webhookDelivery.findMany.mockResolvedValue([delivery(sub)]);
+      prisma.webhookSubscription.update.mockResolvedValue({ ...sub, consecutiveFailures: 3 });
+
+      await service.retryFailed();
+
+      expect(prisma.webhookSubscription.updateMany).toHaveBeenCalledWith({
+        where: { id: 'wh-1', isActive: true },
+        data: expect.objectContaining({ isActive: false, disabledReason: expect.stringContaining('HTTP 500') }),
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        'tenant-1', 'webhook', 'wh-1', 'auto_disabled',
+        expect.objectContaining({ consecutiveFailures: 3, threshold: 3 }),
+        'system',
+      );
+    });
+
+    it('uses the subscription threshold over the configured one', async () => {
+      const { prisma, auditService, service } = setup(3);
+      const sub = subscription({ consecutiveFailures: 3, failureThreshold: 10 });
+      prisma.webhookDelivery.findMany.mockResolvedValue([delivery(sub)]);
+      prisma.webhookSubscription.update.mockResolvedValue({ ...sub, consecutiveFailures: 4 });
+
+      await service.retryFailed();
+
+      expect(prisma.webhookSubscription.updateMany).not.toHaveBeenCalled();
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+
+    it('does not audit again when a concurrent failure already disabled it', async () => {
+      const { prisma, auditService, service } = setup(3);
+      const sub = subscription({ consecutiveFailures: 3 });
+      prisma.webhookDelivery.findMany.mockResolvedValue([delivery(sub)]);
+      prisma.webhookSubscription.update.mockResolvedValue({ ...sub, consecutiveFailures: 4 });
+      prisma.webhookSubscription.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.retryFailed();
+
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('enable', () => {
+    it('resumes retries and replays dead letters since the last success', async () => {
+      const { prisma, auditService, service } = setup();
+      const lastSuccessAt = new Date('2026-02-01T00:00:00Z');
+      const sub = subscription({ isActive: false, lastSuccessAt });
+      prisma.webhookSubscription.findFirst.mockResolvedValue(sub);
+      prisma.webhookSubscription.update.mockResolvedValue({ ...sub, isActive: true });
+      prisma.webhookSubscription.findUnique.mockResolvedValue({ ...sub, isActive: true });
+      prisma.webhookDelivery.updateMany.mockResolvedValue({ count: 2 });
+      prisma.webhookDelivery.findMany.mockResolvedValue([delivery(sub, { id: 'dead-1' })]);
+      fetchMock.mockImplementation(async () => new Response('ok'));
+
+      const result = await service.enable('tenant-1', 'wh-1', { replayBacklog: true });
+
+      expect(prisma.webhookSubscription.update).toHaveBeenCalledWith({
+        where: { id: 'wh-1' },
+        data: { isActive: true, consecutiveFailures: 0, disabledAt: null, disabledReason: null },
+      });
+      expect(prisma.webhookDelivery.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ subscriptionId: 'wh-1', createdAt: { gt: lastSuccessAt } }),
+      }));
+      expect(result).toEqual({
+        id: 'wh-1', isActive: true, resumedRetries: 2, replayedCount: 1, deliveryIds: ['replay-of-dead-1'], hasMore: false,
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        'tenant-1', 'webhook', 'wh-1', 'enabled', expect.objectContaining({ replayBacklog: true, replayedCount: 1 }),
+      );
+
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(fetchMock).toHaveBeenCalledWith(sub.url, expect.objectContaining({ method: 'POST' }));
+    });
+
+    it('dead-letters the pending retries when the backlog is discarded', async () => {
+      const { prisma, service } = setup();
+      prisma.webhookSubscription.findFirst.mockResolvedValue(subscription({ isActive: false }));
+      prisma.webhookSubscription.update.mockResolvedValue(subscription());
+
+      const result = await service.enable('tenant-1', 'wh-1', {});
+
+      expect(prisma.webhookDelivery.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ subscriptionId: 'wh-1', deliveredAt: null }),
+        data: { nextRetryAt: null, deadLetteredAt: expect.any(Date) },
+      });
+      expect(result.replayedCount).toBe(0);
+    });
+
+    it('logs a background replay that stops on a database error', async () => {
+      const { prisma, service } = setup();
+      const sub = subscription({ isActive: false });
+      prisma.webhookSubscription.findFirst.mockResolvedValue(sub);
+      prisma.webhookSubscription.update.mockResolvedValue({ ...sub, isActive: true });
+      prisma.webhookSubscription.findUnique.mockRejectedValue(new Error('connection lost'));
+      prisma.webhookDelivery.findMany.mockResolvedValue([delivery(sub, { id: 'dead-1' })]);
+      const logError = jest.spyOn((service as any).logger, 'error').mockImplementation(() => undefined);
+
+      await service.enable('tenant-1', 'wh-1', { replayBacklog: true });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(logError).toHaveBeenCalledWith(expect.stringContaining('connection lost'), expect.any(String));
+    });
+  });
+});
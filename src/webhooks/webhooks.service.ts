@@ -1,44 +1,131 @@
 import {
   Injectable,
   NotFoundException,
+  BadRequestException,
   Logger,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
-import { CreateWebhookDto, UpdateWebhookDto } from './dto/webhook.dto';
-import { WebhookEvent } from '@prisma/client';
+import { AuditService } from '../audit/audit.service';
+import { UsageService } from '../usage/usage.service';
+import { KeyManagementService } from '../key-management/key-management.service';
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  RotateWebhookSecretDto,
+  ListWebhookDeliveriesQueryDto,
+  ReplayWebhookDeliveriesDto,
+  EnableWebhookDto,
+} from './dto/webhook.dto';
+import {
+  Invoice,
+  InvoiceStatus,
+  Prisma,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookSubscription,
+} from '@prisma/client';
 import * as crypto from 'crypto';
+import { parseMasterKey } from '../key-management/aes-gcm';
+import { buildWebhookSignatureHeader } from './webhook-signature';
+import { getWebhookDeliveryStatus, webhookDeliveryStatusWhere } from './webhook-delivery-status';
+import {
+  WEBHOOK_PAYLOAD_VERSION,
+  WebhookEnvelope,
+  INVOICE_STATUS_EVENTS,
+  WebhookEventScope,
+  buildInvoiceEventData,
+  matchesSubscriptionFilters,
+} from './webhook-events';
+
+/** Hours the previous secret keeps signing after a rotation */
+const DEFAULT_ROTATION_GRACE_HOURS = 24;
+
+/** Max dead-lettered deliveries replayed per range request */
+const MAX_RANGE_REPLAY = 200;
+
+/** Undelivered, not dead-lettered, with an attempt scheduled */
+const SCHEDULED_DELIVERY: Prisma.WebhookDeliveryWhereInput = {
+  deliveredAt: null,
+  deadLetteredAt: null,
+  nextRetryAt: { not: null },
+};
 
 @Injectable()
 export class WebhooksService {
   private readonly logger = new Logger(WebhooksService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  /**
+   * Key of secrets stored before envelope encryption (WEBHOOK_SECRET_KEY).
+   * Kept apart from JWT_SECRET so rotating the JWT secret doesn't lose every
+   * webhook secret; the re-encryption job moves those rows to KEY_PROVIDER.
+   */
+  private readonly legacyKey: Buffer;
+
+  /**
+   * Consecutive failed attempts (across deliveries) after which a
+   * subscription is disabled, unless it sets its own failureThreshold.
+   */
+  private readonly autoDisableThreshold: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly usageService: UsageService,
+    private readonly auditService: AuditService,
+    private readonly keyManagement: KeyManagementService,
+    private readonly config: ConfigService,
+  ) {
+    this.autoDisableThreshold = this.config.get<number>('webhooks.autoDisableThreshold') ?? 25;
+
+    const secretKey = this.config.get<string>('webhooks.secretKey');
+    if (secretKey) {
+      this.legacyKey = parseMasterKey(secretKey, 'WEBHOOK_SECRET_KEY');
+    } else if (this.config.get<string>('nodeEnv') === 'production') {
+      throw new Error('WEBHOOK_SECRET_KEY environment variable is required in production for webhook secret encryption');
+    } else {
+      this.logger.warn('WEBHOOK_SECRET_KEY not set: webhook secrets are encrypted with a development key');
+      this.legacyKey = crypto.createHash('sha256').update('ecf-api-dev-webhook-secret-key').digest();
+    }
+  }
 
   /**
    * Create a webhook subscription.
-   * Generates an HMAC secret for payload verification.
+   * Generates an HMAC secret for payload verification; it's stored encrypted
+   * so deliveries can be signed with it (see webhook-signature.ts).
    */
   async create(tenantId: string, dto: CreateWebhookDto) {
-    // Generate HMAC secret for this subscription
-    const secret = `whsec_${crypto.randomBytes(32).toString('hex')}`;
-    const secretHash = crypto.createHash('sha256').update(secret).digest('hex');
+    await this.assertCompanies(tenantId, dto.companyIds);
+    const { secret, secretHash } = this.generateSecret();
+    const encrypted = await this.encryptSecrets(secret);
 
-    const webhook = await this.prisma.webhookSubscription.create({
+    const webhook = await this.usageService.createWithinLimit(tenantId, 'webhooks', (tx) => tx.webhookSubscription.create({
       data: {
         tenantId,
         url: dto.url,
         events: dto.events,
+        companyIds: dto.companyIds,
+        dgiiEnvs: dto.dgiiEnvs,
+        ecfTypes: dto.ecfTypes,
         secretHash,
+        ...encrypted,
+        failureThreshold: dto.failureThreshold,
         isActive: true,
       },
-    });
+    }));
 
+    await this.auditService.record(tenantId, 'webhook', webhook.id, 'created', {
+      url: webhook.url,
+      events: webhook.events,
+    });
     this.logger.log(`Webhook created: ${webhook.id} → ${dto.url}`);
 
     return {
       id: webhook.id,
       url: webhook.url,
       events: webhook.events,
+      companyIds: webhook.companyIds,
+      dgiiEnvs: webhook.dgiiEnvs,
+      ecfTypes: webhook.ecfTypes,
       secret, // Only shown once!
       isActive: webhook.isActive,
       createdAt: webhook.createdAt,
@@ -53,7 +140,18 @@ export class WebhooksService {
         id: true,
         url: true,
         events: true,
+        companyIds: true,
+        dgiiEnvs: true,
+        ecfTypes: true,
         isActive: true,
+        secretRotatedAt: true,
+        previousSecretExpiresAt: true,
+        consecutiveFailures: true,
+        failureThreshold: true,
+        lastSuccessAt: true,
+        lastFailureAt: true,
+        disabledAt: true,
+        disabledReason: true,
         createdAt: true,
         updatedAt: true,
         _count: { select: { deliveries: true } },
@@ -65,7 +163,25 @@ export class WebhooksService {
   async findOne(tenantId: string, id: string) {
     const webhook = await this.prisma.webhookSubscription.findFirst({
       where: { id, tenantId },
-      include: {
+      select: {
+        id: true,
+        tenantId: true,
+        url: true,
+        events: true,
+        companyIds: true,
+        dgiiEnvs: true,
+        ecfTypes: true,
+        isActive: true,
+        secretRotatedAt: true,
+        previousSecretExpiresAt: true,
+        consecutiveFailures: true,
+        failureThreshold: true,
+        lastSuccessAt: true,
+        lastFailureAt: true,
+        disabledAt: true,
+        disabledReason: true,
+        createdAt: true,
+        updatedAt: true,
         deliveries: {
           orderBy: { createdAt: 'desc' },
           take: 20,
@@ -75,6 +191,7 @@ export class WebhooksService {
             statusCode: true,
             attempts: true,
             deliveredAt: true,
+            deadLetteredAt: true,
             createdAt: true,
           },
         },
@@ -85,20 +202,282 @@ export class WebhooksService {
     return webhook;
   }
 
+  // ============================================================
+  // DELIVERY LOG
+  // ============================================================
+
+  async listDeliveries(tenantId: string, subscriptionId: string, query: ListWebhookDeliveriesQueryDto) {
+    await this.getSubscription(tenantId, subscriptionId);
+
+    const page = query.page || 1;
+    const limit = Math.min(query.limit || 20, 100);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      tenantId,
+      subscriptionId,
+      ...(query.status ? webhookDeliveryStatusWhere(query.status) : {}),
+    };
+    if (query.event) where.event = query.event;
+    if (query.dateFrom || query.dateTo) {
+      where.createdAt = {};
+      if (query.dateFrom) where.createdAt.gte = new Date(query.dateFrom);
+      if (query.dateTo) where.createdAt.lte = new Date(query.dateTo);
+    }
+
+    const [deliveries, total] = await Promise.all([
+      this.prisma.webhookDelivery.findMany({
+        where,
+        select: {
+          id: true,
+          event: true,
+          statusCode: true,
+          attempts: true,
+          maxAttempts: true,
+          nextRetryAt: true,
+          deliveredAt: true,
+          deadLetteredAt: true,
+          lastAttemptAt: true,
+          replayOfId: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return {
+      data: deliveries.map((delivery) => ({ ...delivery, status: getWebhookDeliveryStatus(delivery) })),
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  /**
+   * One delivery with the request sent on its last attempt and the
+   * receiver's response (statusCode 0 = network error, body = error message).
+   */
+  async findDelivery(tenantId: string, deliveryId: string) {
+    const delivery = await this.prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, tenantId },
+      include: {
+        subscription: { select: { url: true } },
+        replays: {
+          select: { id: true, deliveredAt: true, deadLetteredAt: true, attempts: true, createdAt: true },
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+    if (!delivery) throw new NotFoundException('Entrega no encontrada');
+
+    return {
+      id: delivery.id,
+      subscriptionId: delivery.subscriptionId,
+      event: delivery.event,
+      status: getWebhookDeliveryStatus(delivery),
+      attempts: delivery.attempts,
+      maxAttempts: delivery.maxAttempts,
+      nextRetryAt: delivery.nextRetryAt,
+      lastAttemptAt: delivery.lastAttemptAt,
+      deliveredAt: delivery.deliveredAt,
+      deadLetteredAt: delivery.deadLetteredAt,
+      createdAt: delivery.createdAt,
+      replayOfId: delivery.replayOfId,
+      replays: delivery.replays.map((replay) => ({ ...replay, status: getWebhookDeliveryStatus(replay) })),
+      request: {
+        url: delivery.subscription.url,
+        headers: delivery.requestHeaders,
+        body: delivery.payload,
+      },
+      response: delivery.lastAttemptAt
+        ? { statusCode: delivery.statusCode, body: delivery.responseBody }
+        : null,
+    };
+  }
+
+  /**
+   * Send a delivery again, right now. The replay is a new delivery (with its
+   * own retries) carrying the same envelope, so receivers see the same event
+   * id; the original row is left as is.
+   */
+  async replayDelivery(tenantId: string, deliveryId: string) {
+    const original = await this.prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, tenantId },
+      include: { subscription: true },
+    });
+    if (!original) throw new NotFoundException('Entrega no encontrada');
+
+    const status = getWebhookDeliveryStatus(original);
+    if (status === 'PENDING' || status === 'RETRYING') {
+      throw new BadRequestException('La entrega aún tiene reintentos programados');
+    }
+    this.assertActive(original.subscription);
+
+    const replay = await this.createReplay(original);
+    await this.deliverWebhook(replay.id, original.subscription, original.event, original.payload);
+
+    return this.findDelivery(tenantId, replay.id);
+  }
+
+  /**
+   * Replay every dead-lettered delivery of a subscription created in the
+   * range that hasn't been replayed yet. Sends happen in the background.
+   */
+  async replayDeliveries(tenantId: string, subscriptionId: string, dto: ReplayWebhookDeliveriesDto) {
+    const subscription = await this.getSubscription(tenantId, subscriptionId);
+    this.assertActive(subscription);
+
+    const dateFrom = new Date(dto.dateFrom);
+    const dateTo = new Date(dto.dateTo);
+    if (dateFrom > dateTo) {
+      throw new BadRequestException('dateFrom debe ser anterior a dateTo');
+    }
+
+    return this.replayDeadLetters(subscription, {
+      tenantId,
+      subscriptionId,
+      ...(dto.event ? { event: dto.event } : {}),
+      createdAt: { gte: dateFrom, lte: dateTo },
+    });
+  }
+
   async update(tenantId: string, id: string, dto: UpdateWebhookDto) {
     const webhook = await this.prisma.webhookSubscription.findFirst({
       where: { id, tenantId },
     });
     if (!webhook) throw new NotFoundException('Webhook no encontrado');
+    await this.assertCompanies(tenantId, dto.companyIds);
+
+    // Re-activating by hand starts a clean health record (no backlog replay; see enable())
+    const reactivated = dto.isActive === true && !webhook.isActive;
 
-    return this.prisma.webhookSubscription.update({
+    const updated = await this.prisma.webhookSubscription.update({
       where: { id },
       data: {
         url: dto.url,
         events: dto.events,
+        companyIds: dto.companyIds,
+        dgiiEnvs: dto.dgiiEnvs,
+        ecfTypes: dto.ecfTypes,
         isActive: dto.isActive,
+        failureThreshold: dto.failureThreshold,
+        ...(reactivated ? { consecutiveFailures: 0, disabledAt: null, disabledReason: null } : {}),
+      },
+    });
+
+    await this.auditService.record(tenantId, 'webhook', id, 'updated', {
+      url: updated.url,
+      fields: Object.keys(dto).filter((key) => (dto as Record<string, unknown>)[key] !== undefined),
+    });
+
+    return updated;
+  }
+
+  /**
+   * Re-enable a subscription (typically one auto-disabled for failing).
+   *
+   * With `replayBacklog`, deliveries that failed since the last success are
+   * sent again: pending retries resume right away and dead letters are
+   * replayed. Without it, pending retries are moved to dead letter so the
+   * endpoint starts from new events only. Events that happened while the
+   * subscription was disabled were never queued and can't be replayed.
+   */
+  async enable(tenantId: string, id: string, dto: EnableWebhookDto) {
+    const webhook = await this.getSubscription(tenantId, id);
+    if (webhook.isActive) {
+      throw new BadRequestException('El webhook ya está activo');
+    }
+
+    const subscription = await this.prisma.webhookSubscription.update({
+      where: { id },
+      data: { isActive: true, consecutiveFailures: 0, disabledAt: null, disabledReason: null },
+    });
+
+    const backlogWhere: Prisma.WebhookDeliveryWhereInput = {
+      tenantId,
+      subscriptionId: id,
+      ...(webhook.lastSuccessAt ? { createdAt: { gt: webhook.lastSuccessAt } } : {}),
+    };
+    const now = new Date();
+
+    let resumedRetries = 0;
+    let replay = { replayedCount: 0, deliveryIds: [] as string[], hasMore: false };
+
+    if (dto.replayBacklog) {
+      const resumed = await this.prisma.webhookDelivery.updateMany({
+        where: { ...SCHEDULED_DELIVERY, subscriptionId: id },
+        data: { nextRetryAt: now },
+      });
+      resumedRetries = resumed.count;
+      replay = await this.replayDeadLetters(subscription, backlogWhere);
+    } else {
+      await this.prisma.webhookDelivery.updateMany({
+        where: { ...SCHEDULED_DELIVERY, subscriptionId: id },
+        data: { nextRetryAt: null, deadLetteredAt: now },
+      });
+    }
+
+    await this.auditService.record(tenantId, 'webhook', id, 'enabled', {
+      url: webhook.url,
+      previouslyDisabledAt: webhook.disabledAt,
+      replayBacklog: !!dto.replayBacklog,
+      resumedRetries,
+      replayedCount: replay.replayedCount,
+    });
+
+    this.logger.log(`Webhook enabled: ${id} (backlog: ${dto.replayBacklog ? 'replayed' : 'discarded'})`);
+
+    return {
+      id,
+      isActive: true,
+      resumedRetries,
+      ...replay,
+    };
+  }
+
+  /**
+   * Replace the signing secret. For `graceHours` the previous secret keeps
+   * signing too (X-ECF-Signature carries both), so receivers can switch
+   * without dropping deliveries. Rotating again during a grace window
+   * discards the older secret.
+   */
+  async rotateSecret(tenantId: string, id: string, dto: RotateWebhookSecretDto) {
+    const webhook = await this.prisma.webhookSubscription.findFirst({
+      where: { id, tenantId },
+    });
+    if (!webhook) throw new NotFoundException('Webhook no encontrado');
+
+    const graceHours = dto.graceHours ?? DEFAULT_ROTATION_GRACE_HOURS;
+    const [currentKey] = await this.getSigningKeys(webhook);
+    const { secret, secretHash } = this.generateSecret();
+    const now = new Date();
+    const previousSecretExpiresAt = graceHours > 0
+      ? new Date(now.getTime() + graceHours * 60 * 60 * 1000)
+      : null;
+
+    await this.prisma.webhookSubscription.update({
+      where: { id },
+      data: {
+        secretHash,
+        ...(await this.encryptSecrets(secret, previousSecretExpiresAt ? currentKey : undefined)),
+        previousSecretExpiresAt,
+        secretRotatedAt: now,
       },
     });
+
+    await this.auditService.record(tenantId, 'webhook', id, 'secret_rotated', { graceHours });
+    this.logger.log(`Webhook secret rotated: ${id} (grace: ${graceHours}h)`);
+
+    return {
+      id,
+      secret, // Only shown once!
+      secretRotatedAt: now,
+      previousSecretExpiresAt,
+      note: previousSecretExpiresAt
+        ? `⚠️ Guarda el nuevo secret. El anterior seguirá firmando hasta ${previousSecretExpiresAt.toISOString()}.`
+        : '⚠️ Guarda el nuevo secret. El anterior dejó de ser válido.',
+    };
   }
 
   async delete(tenantId: string, id: string) {
@@ -108,62 +487,100 @@ export class WebhooksService {
     if (!webhook) throw new NotFoundException('Webhook no encontrado');
 
     await this.prisma.webhookSubscription.delete({ where: { id } });
+    await this.auditService.record(tenantId, 'webhook', id, 'deleted', { url: webhook.url });
     return { message: 'Webhook eliminado' };
   }
 
   /**
-   * Dispatch an event to all matching webhook subscriptions.
-   * Creates delivery records and attempts immediate delivery.
+   * Dispatch an event to all matching webhook subscriptions: subscribed to
+   * the event and whose company / environment / ecfType filters accept it
+   * (see matchesSubscriptionFilters). `data` is wrapped in a versioned
+   * WebhookEnvelope; creates delivery records and attempts immediate delivery.
+   *
+   * Never throws: callers fire events right after a state change has been
+   * committed and must not fail because of a webhook.
    */
-  async dispatch(tenantId: string, event: WebhookEvent, payload: any): Promise<void> {
-    const subscriptions = await this.prisma.webhookSubscription.findMany({
-      where: {
-        tenantId,
-        isActive: true,
-        events: { has: event },
-      },
-    });
-
-    if (subscriptions.length === 0) {
-      this.logger.debug(`No webhooks for event ${event} (tenant: ${tenantId})`);
-      return;
-    }
-
-    this.logger.log(`Dispatching ${event} to ${subscriptions.length} webhook(s)`);
-
-    for (const sub of subscriptions) {
-      // Create delivery record
-      const delivery = await this.prisma.webhookDelivery.create({
-        data: {
+  async dispatch(tenantId: string, event: WebhookEvent, data: Record<string, any>): Promise<void> {
+    try {
+      const subscribed = await this.prisma.webhookSubscription.findMany({
+        where: {
           tenantId,
-          subscriptionId: sub.id,
-          event,
-          payload,
-          attempts: 0,
-          maxAttempts: 5,
+          isActive: true,
+          events: { has: event },
         },
       });
 
-      // Attempt immediate delivery
-      this.deliverWebhook(delivery.id, sub.url, sub.secretHash, event, payload)
-        .catch((err) => this.logger.warn(`Webhook delivery failed: ${err.message}`));
+      const scope = await this.resolveScope(data, subscribed);
+      const subscriptions = subscribed.filter((sub) => matchesSubscriptionFilters(sub, scope));
+
+      if (subscriptions.length === 0) {
+        this.logger.debug(`No webhooks for event ${event} (tenant: ${tenantId})`);
+        return;
+      }
+
+      const envelope: WebhookEnvelope = {
+        id: crypto.randomUUID(),
+        event,
+        version: WEBHOOK_PAYLOAD_VERSION,
+        createdAt: new Date().toISOString(),
+        data,
+      };
+
+      this.logger.log(`Dispatching ${event} to ${subscriptions.length} webhook(s)`);
+
+      for (const sub of subscriptions) {
+        // Create delivery record
+        const delivery = await this.prisma.webhookDelivery.create({
+          data: {
+            tenantId,
+            subscriptionId: sub.id,
+            event,
+            payload: envelope as any,
+            attempts: 0,
+            maxAttempts: 5,
+          },
+        });
+
+        // Attempt immediate delivery
+        this.deliverWebhook(delivery.id, sub, event, envelope)
+          .catch((err) => this.logger.warn(`Webhook delivery failed: ${err.message}`));
+      }
+    } catch (error: any) {
+      this.logger.error(`Could not dispatch ${event} (tenant: ${tenantId}): ${error.message}`);
     }
   }
 
   /**
-   * Retry failed webhook deliveries.
-   * Called periodically or on-demand.
+   * INVOICE_CREATED — the invoice has been persisted with its eNCF.
+   */
+  async dispatchInvoiceCreated(invoice: Invoice): Promise<void> {
+    await this.dispatch(invoice.tenantId, WebhookEvent.INVOICE_CREATED, buildInvoiceEventData(invoice));
+  }
+
+  /**
+   * Fire the event for the invoice's current status (see INVOICE_STATUS_EVENTS).
+   * No-op when the status didn't change or has no event (PROCESSING, ERROR, ...).
    */
-  async retryFailed(): Promise<number> {
+  async dispatchInvoiceStatus(invoice: Invoice, previousStatus: InvoiceStatus): Promise<void> {
+    const event = INVOICE_STATUS_EVENTS[invoice.status];
+    if (!event || invoice.status === previousStatus) return;
+
+    await this.dispatch(invoice.tenantId, event, buildInvoiceEventData(invoice, previousStatus));
+  }
+
+  /**
+   * Retry failed webhook deliveries whose backoff elapsed.
+   * Called by the scheduler every minute, or on-demand for one tenant.
+   */
+  async retryFailed(tenantId?: string): Promise<number> {
     const pending = await this.prisma.webhookDelivery.findMany({
       where: {
-        deliveredAt: null,
-        attempts: { lt: 5 },
+        ...(tenantId ? { tenantId } : {}),
+        ...SCHEDULED_DELIVERY,
         nextRetryAt: { lte: new Date() },
+        subscription: { isActive: true },
       },
-      include: {
-        subscription: { select: { url: true, secretHash: true } },
-      },
+      include: { subscription: true },
       take: 50,
     });
 
@@ -171,8 +588,7 @@ export class WebhooksService {
     for (const delivery of pending) {
       await this.deliverWebhook(
         delivery.id,
-        delivery.subscription.url,
-        delivery.subscription.secretHash,
+        delivery.subscription,
         delivery.event,
         delivery.payload,
       ).catch(() => {});
@@ -186,38 +602,79 @@ export class WebhooksService {
     return retried;
   }
 
+  /**
+   * Re-encryption job step (KeyRotationProcessor): move up to `limit`
+   * subscriptions' secrets to the current master key. `skipIds` already
+   * failed in this run.
+   */
+  async reencryptBatch(limit = 100, skipIds: string[] = []): Promise<{ reencrypted: number; failedIds: string[] }> {
+    const subscriptions = await this.prisma.webhookSubscription.findMany({
+      where: { ...this.staleKeyWhere(), ...(skipIds.length ? { id: { notIn: skipIds } } : {}) },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+
+    let reencrypted = 0;
+    const failedIds: string[] = [];
+    for (const subscription of subscriptions) {
+      try {
+        const { ciphertexts: [secretEncrypted, previousSecretEncrypted], envelope } = await this.keyManagement.rewrap(
+          subscription,
+          this.secretCiphertexts(subscription),
+          this.legacyKey,
+        );
+        await this.prisma.webhookSubscription.update({
+          where: { id: subscription.id },
+          data: {
+            secretEncrypted: secretEncrypted.toString('base64'),
+            previousSecretEncrypted: previousSecretEncrypted?.toString('base64') ?? null,
+            ...envelope,
+          },
+        });
+        reencrypted++;
+      } catch (error: any) {
+        failedIds.push(subscription.id);
+        this.logger.error(`Re-encryption failed for webhook ${subscription.id}: ${error.message}`);
+      }
+    }
+
+    return { reencrypted, failedIds };
+  }
+
+  /** Subscriptions whose secrets are not yet under the current master key */
+  async countStaleKeys(): Promise<number> {
+    return this.prisma.webhookSubscription.count({ where: this.staleKeyWhere() });
+  }
+
   // ============================================================
   // PRIVATE DELIVERY LOGIC
   // ============================================================
 
   private async deliverWebhook(
     deliveryId: string,
-    url: string,
-    secretHash: string,
+    subscription: WebhookSubscription,
     event: WebhookEvent,
     payload: any,
   ): Promise<void> {
     const timestamp = Math.floor(Date.now() / 1000);
     const body = JSON.stringify(payload);
 
-    // Create HMAC signature: sha256(timestamp.body) using the secret
-    const signaturePayload = `${timestamp}.${body}`;
-    const signature = crypto
-      .createHmac('sha256', secretHash)
-      .update(signaturePayload)
-      .digest('hex');
+    // HMAC-SHA256 of `${timestamp}.${body}`, one signature per valid secret
+    const signature = buildWebhookSignatureHeader(await this.getSigningKeys(subscription), timestamp, body);
+    const headers = {
+      'Content-Type': 'application/json',
+      'X-ECF-Event': event,
+      'X-ECF-Timestamp': String(timestamp),
+      'X-ECF-Signature': signature,
+      'X-ECF-Delivery-Id': deliveryId,
+      'User-Agent': 'ECF-API-Webhook/1.0',
+    };
+    const attempt = { requestHeaders: headers, lastAttemptAt: new Date() };
 
     try {
-      const response = await fetch(url, {
+      const response = await fetch(subscription.url, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-ECF-Event': event,
-          'X-ECF-Timestamp': String(timestamp),
-          'X-ECF-Signature': `sha256=${signature}`,
-          'X-ECF-Delivery-Id': deliveryId,
-          'User-Agent': 'ECF-API-Webhook/1.0',
-        },
+        headers,
         body,
         signal: AbortSignal.timeout(10000), // 10s timeout
       });
@@ -233,23 +690,251 @@ export class WebhooksService {
             responseBody: responseBody.substring(0, 1000),
             attempts: { increment: 1 },
             deliveredAt: new Date(),
+            nextRetryAt: null,
+            ...attempt,
           },
         });
         this.logger.debug(`Webhook delivered: ${deliveryId} → ${response.status}`);
+        await this.recordSuccess(subscription.id);
       } else {
         // HTTP error - schedule retry
-        await this.scheduleRetry(deliveryId, response.status, responseBody);
+        await this.scheduleRetry(deliveryId, response.status, responseBody, attempt);
+        await this.recordFailure(subscription, `HTTP ${response.status}`);
       }
     } catch (error: any) {
       // Network error - schedule retry
-      await this.scheduleRetry(deliveryId, 0, error.message);
+      await this.scheduleRetry(deliveryId, 0, error.message, attempt);
+      await this.recordFailure(subscription, error.message);
+    }
+  }
+
+  // ============================================================
+  // HEALTH (circuit breaker)
+  // ============================================================
+
+  private async recordSuccess(subscriptionId: string) {
+    await this.prisma.webhookSubscription.update({
+      where: { id: subscriptionId },
+      data: { consecutiveFailures: 0, lastSuccessAt: new Date() },
+    });
+  }
+
+  /**
+   * Count a failed attempt and disable the subscription once it reaches its
+   * threshold. Its pending retries stop (retryFailed skips inactive
+   * subscriptions) until it's re-enabled.
+   */
+  private async recordFailure(subscription: WebhookSubscription, lastError: string) {
+    const updated = await this.prisma.webhookSubscription.update({
+      where: { id: subscription.id },
+      data: { consecutiveFailures: { increment: 1 }, lastFailureAt: new Date() },
+    });
+
+    const threshold = updated.failureThreshold ?? this.autoDisableThreshold;
+    if (updated.consecutiveFailures < threshold) return;
+
+    const reason = `${updated.consecutiveFailures} intentos fallidos consecutivos (último: ${lastError})`.substring(0, 500);
+
+    // Conditional update: concurrent failures must disable (and notify) once
+    const disabled = await this.prisma.webhookSubscription.updateMany({
+      where: { id: subscription.id, isActive: true },
+      data: { isActive: false, disabledAt: new Date(), disabledReason: reason },
+    });
+    if (disabled.count === 0) return;
+
+    this.logger.warn(`Webhook ${subscription.id} auto-disabled: ${reason}`);
+
+    await this.auditService.record(subscription.tenantId, 'webhook', subscription.id, 'auto_disabled', {
+      url: subscription.url,
+      consecutiveFailures: updated.consecutiveFailures,
+      threshold,
+      lastSuccessAt: updated.lastSuccessAt,
+      lastError: lastError.substring(0, 500),
+    }, 'system');
+  }
+
+  /**
+   * Filter attributes of an event. The company's environment is only looked
+   * up when some subscription filters on it.
+   */
+  private async resolveScope(
+    data: Record<string, any>,
+    subscriptions: WebhookSubscription[],
+  ): Promise<WebhookEventScope> {
+    const scope: WebhookEventScope = {
+      companyId: typeof data.companyId === 'string' ? data.companyId : undefined,
+      ecfType: data.ecfType || undefined,
+      // Invoice events carry the environment they were issued in
+      dgiiEnv: data.dgiiEnv || undefined,
+    };
+
+    if (!scope.dgiiEnv && scope.companyId && subscriptions.some((sub) => sub.dgiiEnvs.length > 0)) {
+      const company = await this.prisma.company.findUnique({
+        where: { id: scope.companyId },
+        select: { dgiiEnv: true },
+      });
+      scope.dgiiEnv = company?.dgiiEnv;
+    }
+
+    return scope;
+  }
+
+  /** Company filters may only reference the tenant's own companies */
+  private async assertCompanies(tenantId: string, companyIds?: string[]) {
+    if (!companyIds?.length) return;
+
+    const found = await this.prisma.company.findMany({
+      where: { tenantId, id: { in: companyIds } },
+      select: { id: true },
+    });
+    const missing = companyIds.filter((id) => !found.some((company) => company.id === id));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Empresa(s) no encontrada(s): ${missing.join(', ')}`);
     }
   }
 
+  private async getSubscription(tenantId: string, id: string): Promise<WebhookSubscription> {
+    const webhook = await this.prisma.webhookSubscription.findFirst({
+      where: { id, tenantId },
+    });
+    if (!webhook) throw new NotFoundException('Webhook no encontrado');
+    return webhook;
+  }
+
+  private assertActive(subscription: WebhookSubscription) {
+    if (!subscription.isActive) {
+      throw new BadRequestException('El webhook está inactivo; actívelo antes de reenviar entregas');
+    }
+  }
+
+  /**
+   * Replay dead letters matching `where` that haven't been replayed yet
+   * (up to MAX_RANGE_REPLAY); sends happen in the background.
+   */
+  private async replayDeadLetters(
+    subscription: WebhookSubscription,
+    where: Prisma.WebhookDeliveryWhereInput,
+  ) {
+    const deadLetters = await this.prisma.webhookDelivery.findMany({
+      where: {
+        ...where,
+        ...webhookDeliveryStatusWhere('DEAD_LETTER'),
+        replays: { none: {} },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: MAX_RANGE_REPLAY + 1,
+    });
+
+    const hasMore = deadLetters.length > MAX_RANGE_REPLAY;
+    const replays: WebhookDelivery[] = [];
+    for (const original of deadLetters.slice(0, MAX_RANGE_REPLAY)) {
+      replays.push(await this.createReplay(original));
+    }
+
+    // Sequential so a struggling receiver isn't hit with the whole range at once
+    (async () => {
+      for (const [index, replay] of replays.entries()) {
+        const current = await this.prisma.webhookSubscription.findUnique({ where: { id: subscription.id } });
+        if (!current?.isActive) {
+          // Auto-disabled mid-replay: leave the rest scheduled for when it's re-enabled
+          await this.prisma.webhookDelivery.updateMany({
+            where: { id: { in: replays.slice(index).map((r) => r.id) } },
+            data: { nextRetryAt: new Date() },
+          });
+          break;
+        }
+        await this.deliverWebhook(replay.id, current, replay.event, replay.payload)
+          .catch((err) => this.logger.warn(`Webhook replay failed: ${err.message}`));
+      }
+    })().catch((err) =>
+      this.logger.error(`Webhook replay for ${subscription.id} stopped: ${err.message}`, err.stack),
+    );
+
+    this.logger.log(`Replaying ${replays.length} dead-lettered deliveries for webhook ${subscription.id}`);
+
+    return {
+      replayedCount: replays.length,
+      deliveryIds: replays.map((replay) => replay.id),
+      hasMore,
+    };
+  }
+
+  private createReplay(original: WebhookDelivery): Promise<WebhookDelivery> {
+    return this.prisma.webhookDelivery.create({
+      data: {
+        tenantId: original.tenantId,
+        subscriptionId: original.subscriptionId,
+        event: original.event,
+        payload: original.payload as Prisma.InputJsonValue,
+        attempts: 0,
+        maxAttempts: original.maxAttempts,
+        replayOfId: original.id,
+      },
+    });
+  }
+
+  /**
+   * Keys deliveries are signed with: the current secret, plus the previous
+   * one while its grace window lasts. Subscriptions created before secrets
+   * were stored encrypted keep being signed with secretHash — what their
+   * receivers already verify with — until rotated.
+   */
+  private async getSigningKeys(subscription: WebhookSubscription): Promise<string[]> {
+    if (!subscription.secretEncrypted) return [subscription.secretHash];
+
+    const withPrevious = !!subscription.previousSecretEncrypted
+      && !!subscription.previousSecretExpiresAt
+      && subscription.previousSecretExpiresAt > new Date();
+    const plaintexts = await this.keyManagement.decrypt(
+      this.secretCiphertexts(subscription, withPrevious),
+      subscription,
+      this.legacyKey,
+    );
+
+    return plaintexts.map((plaintext) => plaintext.toString('utf8'));
+  }
+
+  /** Subscriptions created before secrets were stored have nothing to move */
+  private staleKeyWhere(): Prisma.WebhookSubscriptionWhereInput {
+    return { secretEncrypted: { not: null }, ...this.keyManagement.staleKeyWhere() };
+  }
+
+  private generateSecret() {
+    const secret = `whsec_${crypto.randomBytes(32).toString('hex')}`;
+    const secretHash = crypto.createHash('sha256').update(secret).digest('hex');
+    return { secret, secretHash };
+  }
+
+  /**
+   * Signing secrets as subscription columns, under one new data key
+   * (KeyManagementService envelope). Base64 of iv + authTag + ciphertext.
+   */
+  private async encryptSecrets(secret: string, previousSecret?: string) {
+    const { ciphertexts: [secretEncrypted, previousSecretEncrypted], envelope } = await this.keyManagement.encrypt(
+      [secret, ...(previousSecret ? [previousSecret] : [])].map((value) => Buffer.from(value, 'utf8')),
+    );
+    return {
+      secretEncrypted: secretEncrypted.toString('base64'),
+      previousSecretEncrypted: previousSecretEncrypted?.toString('base64') ?? null,
+      ...envelope,
+    };
+  }
+
+  private secretCiphertexts(subscription: WebhookSubscription, withPrevious = true): Buffer[] {
+    return [subscription.secretEncrypted, withPrevious ? subscription.previousSecretEncrypted : null]
+      .filter((value): value is string => !!value)
+      .map((value) => Buffer.from(value, 'base64'));
+  }
+
+  /**
+   * Record a failed attempt: schedule the next one with backoff, or move the
+   * delivery to dead letter once `maxAttempts` is reached.
+   */
   private async scheduleRetry(
     deliveryId: string,
     statusCode: number,
     responseBody: string,
+    lastAttempt: { requestHeaders: Record<string, string>; lastAttemptAt: Date },
   ): Promise<void> {
     const delivery = await this.prisma.webhookDelivery.findUnique({
       where: { id: deliveryId },
@@ -258,6 +943,7 @@ export class WebhooksService {
     if (!delivery) return;
 
     const attempt = delivery.attempts + 1;
+    const exhausted = attempt >= delivery.maxAttempts;
 
     // Exponential backoff: 30s, 2min, 8min, 32min, 2h
     const backoffSeconds = Math.min(30 * Math.pow(4, attempt - 1), 7200);
@@ -269,13 +955,15 @@ export class WebhooksService {
         statusCode,
         responseBody: responseBody.substring(0, 1000),
         attempts: attempt,
-        nextRetryAt: attempt < delivery.maxAttempts ? nextRetry : null,
+        nextRetryAt: exhausted ? null : nextRetry,
+        deadLetteredAt: exhausted ? new Date() : null,
+        ...lastAttempt,
       },
     });
 
     this.logger.warn(
       `Webhook ${deliveryId} failed (attempt ${attempt}/${delivery.maxAttempts}). ` +
-      `Next retry: ${nextRetry.toISOString()}`,
+      (exhausted ? 'Moved to dead letter.' : `Next retry: ${nextRetry.toISOString()}`),
     );
   }
 }